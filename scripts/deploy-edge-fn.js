@@ -105,34 +105,24 @@ if (!fs.existsSync(DST_DIR)) {
 
 // Copy source files to function directory
 const srcIndex = path.join(SRC_DIR, 'index.tsx');
-const srcKV = path.join(SRC_DIR, 'kv_store.tsx');
-const dstIndex = path.join(DST_DIR, 'index.ts');
-const dstKV = path.join(DST_DIR, 'kv_store.ts');
 
 if (!fs.existsSync(srcIndex)) {
     fail('Missing source index.tsx: ' + srcIndex);
 }
 
-// Copy and convert index file
-let indexContent = fs.readFileSync(srcIndex, 'utf8');
-// Ensure imports are relative and use .ts extension for Deno
-indexContent = indexContent.replace(/from '\.\/kv_store'/g, "from './kv_store.ts'");
-// Remove type imports that won't work in Deno edge functions
-indexContent = indexContent.replace(/import type.*from.*database\.types.*;\n?/g, '');
-// Remove generic type annotations for Database
-indexContent = indexContent.replace(/createClient<Database>\(/g, 'createClient(');
-fs.writeFileSync(dstIndex, indexContent, 'utf8');
-console.log('Copied function entry:', dstIndex);
-
-// Copy KV store helper if it exists
-if (fs.existsSync(srcKV)) {
-    let kvContent = fs.readFileSync(srcKV, 'utf8');
+// Copy and convert every server module (index, kv_store and helpers such as auth)
+for (const file of fs.readdirSync(SRC_DIR).filter((f) => f.endsWith('.tsx'))) {
+    let content = fs.readFileSync(path.join(SRC_DIR, file), 'utf8');
+    // Ensure relative imports use the .ts extension for Deno
+    content = content.replace(/from '\.\/([\w-]+)'/g, "from './$1.ts'");
     // Remove type imports that won't work in Deno edge functions
-    kvContent = kvContent.replace(/import type.*from.*database\.types.*;\n?/g, '');
+    content = content.replace(/import type.*from.*database\.types.*;\n?/g, '');
     // Remove generic type annotations for Database
-    kvContent = kvContent.replace(/createClient<Database>\(/g, 'createClient(');
-    fs.writeFileSync(dstKV, kvContent, 'utf8');
-    console.log('Copied helper module:', dstKV);
+    content = content.replace(/createClient<Database>\(/g, 'createClient(');
+
+    const dst = path.join(DST_DIR, file.replace(/\.tsx$/, '.ts'));
+    fs.writeFileSync(dst, content, 'utf8');
+    console.log(file === 'index.tsx' ? 'Copied function entry:' : 'Copied helper module:', dst);
 }
 
 // Deploy the function
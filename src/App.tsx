@@ -14,17 +14,125 @@ import { Reports } from './components/Reports';
 import { Profile } from './components/Profile';
 import { Navigation } from './components/Navigation';
 import { AdminDashboard } from './components/AdminDashboard';
+import { DeviceScan } from './components/DeviceScan';
+import { getScanCode } from './components/DeviceLabels';
+import type { RecurrenceRule } from './supabase/functions/server/schedule';
 
 // Types
 export interface Device {
   id: string;
   name: string;
   identificationNumber: string;
+  // Path label of the referenced location, e.g. "Main Site / Workshop / Bay 1"
   location: string;
+  locationId?: string;
+  // Approximate weeks between checks; derived from recurrence when the device has a rule
   plannedFrequency: number;
+  // Calendar rule; devices without one repeat every plannedFrequency weeks from the due date
+  recurrence?: RecurrenceRule | null;
+  // Minutes a check takes; falls back to the category's estimate
+  estimatedMinutes?: number | null;
   planComment: string;
+  checklistTemplateId?: string;
+  categoryId?: string;
+  // Values of the category's custom fields, keyed by field key
+  customFields?: Record<string, CustomFieldValue>;
   createdAt: string;
-  status: string;
+  createdBy?: string;
+  status: DeviceStatus;
+  // Completion time of the device's latest check
+  lastCheckedAt?: string;
+  frequencyChanges?: FrequencyChange[];
+  statusChanges?: StatusChange[];
+}
+
+export type DeviceStatus = 'active' | 'out_of_service' | 'under_repair' | 'decommissioned';
+
+export interface StatusChange {
+  from: DeviceStatus;
+  to: DeviceStatus;
+  reason: string;
+  changedAt: string;
+  changedBy: string;
+}
+
+export interface FrequencyChange {
+  from: number;
+  to: number;
+  fromRecurrence?: RecurrenceRule;
+  toRecurrence?: RecurrenceRule;
+  changedAt: string;
+  changedBy: string;
+}
+
+export type LocationType = 'site' | 'building' | 'area';
+
+export interface Location {
+  id: string;
+  name: string;
+  type: LocationType;
+  parentId: string | null;
+  path: string;
+  // Devices at this location or anywhere beneath it
+  deviceCount: number;
+  createdAt: string;
+}
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  type: 'boolean' | 'measurement';
+  unit?: string;
+  min?: number;
+  max?: number;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'boolean' | 'select';
+
+export type CustomFieldValue = string | number | boolean;
+
+export interface CustomFieldDefinition {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  required: boolean;
+  options?: string[];
+  unit?: string;
+}
+
+export interface DeviceCategory {
+  id: string;
+  name: string;
+  description: string;
+  fields: CustomFieldDefinition[];
+  // Default check duration for the category's devices
+  estimatedMinutes?: number | null;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface ChecklistTemplate {
+  id: string;
+  name: string;
+  description: string;
+  items: ChecklistItem[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type ChecklistResultValue = 'pass' | 'fail' | 'na';
+
+// Result recorded on a completed check; label and unit are copied from the template at completion time
+export interface ChecklistItemResult {
+  itemId: string;
+  label: string;
+  type: ChecklistItem['type'];
+  result: ChecklistResultValue;
+  value?: number;
+  unit?: string;
+  min?: number;
+  max?: number;
+  note?: string;
 }
 
 export interface DeviceCheck {
@@ -32,19 +140,196 @@ export interface DeviceCheck {
   deviceId: string;
   week: string;
   year: string;
-  status: 'pending' | 'completed' | 'delayed';
+  status: 'pending' | 'completed' | 'delayed' | 'cancelled';
+  scheduledDate?: string;
+  // Calendar due date within the scheduled week
+  dueDate?: string;
   assignedAt: string;
   assignedBy: string;
+  // Employee ID of the inspector who should perform the check
+  assignedTo?: string | null;
+  assignedToAt?: string;
+  assignedToBy?: string;
   completedAt?: string;
   completedBy?: string;
   comment?: string;
+  checklistTemplateId?: string;
+  checklistTemplateName?: string;
+  results?: ChecklistItemResult[];
+  outcome?: CheckOutcome;
+  correctiveActionId?: string;
+  evidence?: CheckEvidence[];
+  cancelledAt?: string;
+  cancelledBy?: string;
+  cancelReason?: string;
+}
+
+// Photo or file attached to a check; url is only present on GET /checks/:checkId/evidence
+export interface CheckEvidence {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  storagePath: string;
+  uploadedBy: string;
+  uploadedAt: string;
+  url?: string | null;
+}
+
+export type CheckOutcome = 'passed' | 'passed_with_remarks' | 'failed';
+
+// Opened by a failed check; the device stays flagged until the owner closes it
+export interface CorrectiveAction {
+  id: string;
+  checkId: string;
+  deviceId: string;
+  deviceName?: string;
+  deviceLocation?: string;
+  description: string;
+  owner: string;
+  dueDate: string;
+  status: 'open' | 'closed';
+  createdAt: string;
+  createdBy: string;
+  closedAt?: string;
+  closedBy?: string;
+  closureNote?: string;
+}
+
+export type SuggestionUrgency = 'overdue' | 'never_checked' | 'due';
+
+// One entry of GET /weekly-plans/:year/:week/suggestions, most urgent first
+export interface CheckSuggestion {
+  deviceId: string;
+  urgency: SuggestionUrgency;
+  dueDate: string | null;
+  daysOverdue: number;
+  reason: string;
+  checkId: string | null;
+  deviceName: string;
+  deviceLocation: string;
+  deviceIdentificationNumber: string;
+}
+
+export interface PlanDiffEntry {
+  deviceId: string;
+  deviceName: string;
+}
+
+// Changes PUT /weekly-plans/:year/:week makes (or would make, with dryRun) to a week
+export interface PlanDiff {
+  added: PlanDiffEntry[];
+  // Pending checks that get cancelled
+  removed: PlanDiffEntry[];
+  kept: PlanDiffEntry[];
+  // Left out but already completed, so they stay
+  locked: PlanDiffEntry[];
+}
+
+// One inspector's share of GET /weekly-plans/:year/:week/workload
+export interface InspectorLoad {
+  employeeId: string;
+  name: string;
+  checks: number;
+  // Sum of the checks' estimated durations
+  minutes: number;
+  locations: string[];
+}
+
+export interface WeekWorkload {
+  inspectors: InspectorLoad[];
+  unassigned: { checks: number; minutes: number };
+}
+
+// Proposed inspector for a check from POST /weekly-plans/:year/:week/distribute
+export interface CheckDistribution {
+  checkId: string;
+  deviceId: string;
+  deviceName: string;
+  location: string;
+  minutes: number;
+  employeeId: string;
+}
+
+export type DeviceHistoryEventType =
+  | 'created'
+  | 'frequency_changed'
+  | 'status_changed'
+  | 'check_planned'
+  | 'check_completed'
+  | 'check_missed'
+  | 'check_cancelled'
+  | 'corrective_action_opened'
+  | 'corrective_action_closed'
+  | 'document_uploaded'
+  | 'document_signed';
+
+// One entry of GET /devices/:deviceId/history; fields beyond type/at/by depend on the type
+export interface DeviceHistoryEvent {
+  type: DeviceHistoryEventType;
+  at: string;
+  by: string | null;
+  checkId?: string;
+  week?: string;
+  year?: string;
+  scheduledDate?: string;
+  outcome?: CheckOutcome;
+  comment?: string;
+  late?: boolean;
+  evidenceCount?: number;
+  daysOverdue?: number;
+  // Weeks for frequency_changed, device states for status_changed
+  from?: number | DeviceStatus;
+  to?: number | DeviceStatus;
+  // Rules either side of a frequency_changed event, when recorded
+  fromRecurrence?: RecurrenceRule;
+  toRecurrence?: RecurrenceRule;
+  reason?: string;
+  actionId?: string;
+  description?: string;
+  owner?: string;
+  dueDate?: string;
+  closureNote?: string;
+  documentId?: string;
+  fileName?: string;
+  assignedTo?: string;
 }
 
+export interface DeviceHistory {
+  device: Device;
+  events: DeviceHistoryEvent[];
+  summary: {
+    checksCompleted: number;
+    checksPending: number;
+    checksMissed: number;
+    openCorrectiveActions: number;
+    documents: number;
+  };
+}
+
+// Envelope returned by list endpoints when a page is requested; mirrors Page in the edge function's listing module
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export type UserRole = 'employee' | 'planner' | 'admin';
+
 export interface AppUser {
   employeeId: string;
   email: string;
   name: string;
   notifications: Notification[];
+  role?: UserRole;
+}
+
+export interface AdminSession {
+  username: string;
+  isAdmin: boolean;
+  sessionToken?: string;
 }
 
 export interface Notification {
@@ -54,28 +339,32 @@ export interface Notification {
   createdAt: string;
   read: boolean;
   documentId?: string;
+  correctiveActionId?: string;
+  checkIds?: string[];
 }
 
 export default function App() {
   const [user, setUser] = useState<AppUser | null>(null);
-  const [admin, setAdmin] = useState<{ username: string; isAdmin: boolean } | null>(null);
+  const [admin, setAdmin] = useState<AdminSession | null>(null);
   const [loading, setLoading] = useState(true);
   const [currentView, setCurrentView] = useState('dashboard');
+  // Set when the app was opened from a device label; survives the sign-in screen
+  const [scanCode, setScanCode] = useState<string | null>(() => getScanCode());
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
   // Check for existing session on app load
   useEffect(() => {
     const checkSession = async () => {
       try {
-        const { supabase } = await import('./utils/supabase');
+        const { supabase, authHeaders } = await import('./utils/supabase');
         const { data: { session } } = await supabase.auth.getSession();
 
         if (session?.user) {
           // User is already signed in, get their profile
-          const employeeId = session.user.user_metadata?.employeeId || session.user.email?.split('@')[0];
+          const employeeId = session.user.app_metadata?.employeeId || session.user.user_metadata?.employeeId || session.user.email?.split('@')[0];
 
           if (employeeId) {
-            const { projectId, publicAnonKey } = await import('./utils/supabase/info');
+            const { projectId } = await import('./utils/supabase/info');
 
             // Add timeout to prevent hanging
             const controller = new AbortController();
@@ -87,7 +376,7 @@ export default function App() {
                 `${functionsBase(projectId)}/users/${employeeId}`,
                 {
                   headers: {
-                    'Authorization': `Bearer ${publicAnonKey}`,
+                    ...(await authHeaders()),
                     'Content-Type': 'application/json'
                   },
                   signal: controller.signal
@@ -120,6 +409,10 @@ export default function App() {
   }, []);
 
   const handleViewChange = (view: string) => {
+    if (scanCode) {
+      window.history.replaceState(null, '', '/');
+      setScanCode(null);
+    }
     setCurrentView(view);
   };
 
@@ -135,11 +428,15 @@ export default function App() {
     setUser(updatedUser);
   };
 
-  const handleAdminLogin = (adminData: { username: string; isAdmin: boolean }) => {
+  const handleAdminLogin = async (adminData: AdminSession) => {
+    const { setAdminSessionToken } = await import('./utils/supabase');
+    setAdminSessionToken(adminData.sessionToken ?? null);
     setAdmin(adminData);
   };
 
-  const handleAdminLogout = () => {
+  const handleAdminLogout = async () => {
+    const { setAdminSessionToken } = await import('./utils/supabase');
+    setAdminSessionToken(null);
     setAdmin(null);
   };
 
@@ -170,11 +467,15 @@ export default function App() {
   }
 
   const renderCurrentView = () => {
+    if (scanCode) {
+      return <DeviceScan key={scanCode} code={scanCode} user={user} onDone={handleViewChange} />;
+    }
+
     switch (currentView) {
       case 'dashboard':
         return <Dashboard user={user} onViewChange={handleViewChange} />;
       case 'devices':
-        return <DeviceManagement />;
+        return <DeviceManagement user={user} />;
       case 'planner':
         return <WeeklyPlanner user={user} />;
       case 'checks':
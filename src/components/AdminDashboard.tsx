@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { projectId, publicAnonKey, functionsBase } from '../utils/supabase/info';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders, setAdminSessionToken } from '../utils/supabase';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
@@ -9,6 +10,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Separator } from './ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import {
   Users,
   FileText,
@@ -21,26 +23,33 @@ import {
   CheckSquare,
   Clock,
   AlertTriangle,
-  Key
+  Key,
+  UserPlus
 } from 'lucide-react';
 import { toast } from "sonner";
+import { AdminSession, UserRole } from '../App';
+import { ListPagination, usePagedList } from './ListPagination';
 
 interface AdminDashboardProps {
-  admin: { username: string; isAdmin: boolean };
+  admin: AdminSession;
   onLogout: () => void;
 }
 
 export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
   const [users, setUsers] = useState<any[]>([]);
-  const [documents, setDocuments] = useState<any[]>([]);
-  const [devices, setDevices] = useState<any[]>([]);
-  const [checks, setChecks] = useState<any[]>([]);
+  const [deviceCount, setDeviceCount] = useState(0);
+  const [delayedCount, setDelayedCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [isClearingData, setIsClearingData] = useState(false);
   const [showClearDataConfirmation, setShowClearDataConfirmation] = useState(false);
   const [showChangePassword, setShowChangePassword] = useState(false);
   const [userToDelete, setUserToDelete] = useState<any>(null);
   const [isDeletingUser, setIsDeletingUser] = useState(false);
+  const [updatingRoleFor, setUpdatingRoleFor] = useState<string | null>(null);
+  const [adminAccounts, setAdminAccounts] = useState<any[]>([]);
+  const [newAdmin, setNewAdmin] = useState({ username: '', password: '' });
+  const [addingAdmin, setAddingAdmin] = useState(false);
+  const [revokingAdmin, setRevokingAdmin] = useState<string | null>(null);
   const [clearingUsers, setClearingUsers] = useState(false);
   const [clearingDevices, setClearingDevices] = useState(false);
   const [clearingDocuments, setClearingDocuments] = useState(false);
@@ -55,6 +64,11 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
     confirmPassword: ''
   });
 
+  // Document lists page on the server; the other tabs only need totals
+  const pendingDocuments = usePagedList<any>('/documents', { status: 'pending_signature' }, { pageSize: 10, errorMessage: 'Failed to load documents' });
+  const verifiedDocuments = usePagedList<any>('/documents', { status: 'completed' }, { pageSize: 10, errorMessage: 'Failed to load documents' });
+  const documentCount = pendingDocuments.total + verifiedDocuments.total;
+
   useEffect(() => {
     fetchAllData();
   }, []);
@@ -68,38 +82,38 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
         `${functionsBase(projectId)}/admin/users`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
       );
 
-      // Fetch documents
-      const documentsResponse = await fetch(
-        `${functionsBase(projectId)}/documents`,
+      // Fetch the device total
+      const devicesResponse = await fetch(
+        `${functionsBase(projectId)}/devices?pageSize=1`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`
+            ...(await authHeaders())
           }
         }
       );
 
-      // Fetch devices
-      const devicesResponse = await fetch(
-        `${functionsBase(projectId)}/devices`,
+      // Fetch stored admin accounts
+      const adminAccountsResponse = await fetch(
+        `${functionsBase(projectId)}/admin/accounts`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`
+            ...(await authHeaders())
           }
         }
       );
 
-      // Fetch delayed checks for analytics
+      // Fetch the delayed check total for analytics
       const delayedResponse = await fetch(
-        `${functionsBase(projectId)}/delayed-checks`,
+        `${functionsBase(projectId)}/delayed-checks?pageSize=1`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`
+            ...(await authHeaders())
           }
         }
       );
@@ -114,7 +128,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
           `${functionsBase(projectId)}/users`,
           {
             headers: {
-              'Authorization': `Bearer ${publicAnonKey}`
+              ...(await authHeaders())
             }
           }
         );
@@ -124,19 +138,22 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
         }
       }
 
-      if (documentsResponse.ok) {
-        const documentsData = await documentsResponse.json();
-        setDocuments(documentsData);
-      }
-
       if (devicesResponse.ok) {
         const devicesData = await devicesResponse.json();
-        setDevices(devicesData);
+        setDeviceCount(devicesData.total);
       }
 
       if (delayedResponse.ok) {
         const checksData = await delayedResponse.json();
-        setChecks(checksData);
+        setDelayedCount(checksData.total);
+      }
+
+      pendingDocuments.reload();
+      verifiedDocuments.reload();
+
+      if (adminAccountsResponse.ok) {
+        const accountsData = await adminAccountsResponse.json();
+        setAdminAccounts(accountsData);
       }
 
     } catch (error) {
@@ -156,7 +173,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
         {
           method: 'DELETE',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -190,7 +207,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
         {
           method: 'DELETE',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -222,7 +239,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
         {
           method: 'DELETE',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -254,7 +271,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
         {
           method: 'DELETE',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -288,7 +305,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
         {
           method: 'DELETE',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -310,6 +327,37 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
     }
   };
 
+  const handleRoleChange = async (user: any, role: UserRole) => {
+    try {
+      setUpdatingRoleFor(user.employeeId);
+
+      const response = await fetch(
+        `${functionsBase(projectId)}/admin/users/${user.employeeId}/role`,
+        {
+          method: 'PUT',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ role })
+        }
+      );
+
+      if (response.ok) {
+        setUsers(prev => prev.map(u => u.employeeId === user.employeeId ? { ...u, role } : u));
+        toast.success(`${user.name} is now ${role === 'admin' ? 'an' : 'a'} ${role}`);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to update role');
+      }
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast.error('Failed to update role');
+    } finally {
+      setUpdatingRoleFor(null);
+    }
+  };
+
   const handleChangePassword = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -330,7 +378,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
         {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({
@@ -342,7 +390,11 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
 
       if (response.ok) {
         const result = await response.json();
-        toast.success(result.message || 'Password change requested. Please update the ADMIN_PASSWORD environment variable.');
+        // Older sessions are invalidated by the change, so continue with the fresh token
+        if (result.sessionToken) {
+          setAdminSessionToken(result.sessionToken);
+        }
+        toast.success(result.message || 'Password changed successfully');
         setShowChangePassword(false);
         setPasswordData({ oldPassword: '', newPassword: '', confirmPassword: '' });
       } else {
@@ -357,6 +409,79 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
     }
   };
 
+  const handleAddAdmin = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newAdmin.username.trim() || !newAdmin.password) {
+      toast.error('Username and password are required');
+      return;
+    }
+
+    if (newAdmin.password.length < 8) {
+      toast.error('Password must be at least 8 characters');
+      return;
+    }
+
+    try {
+      setAddingAdmin(true);
+      const response = await fetch(
+        `${functionsBase(projectId)}/admin/accounts`,
+        {
+          method: 'POST',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify(newAdmin)
+        }
+      );
+
+      if (response.ok) {
+        const result = await response.json();
+        setAdminAccounts(prev => [...prev, result.account].sort((a, b) => a.username.localeCompare(b.username)));
+        setNewAdmin({ username: '', password: '' });
+        toast.success(`Admin ${result.account.username} added`);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to add admin');
+      }
+    } catch (error) {
+      console.error('Error adding admin:', error);
+      toast.error('Failed to add admin');
+    } finally {
+      setAddingAdmin(false);
+    }
+  };
+
+  const handleRevokeAdmin = async (username: string) => {
+    try {
+      setRevokingAdmin(username);
+      const response = await fetch(
+        `${functionsBase(projectId)}/admin/accounts/${encodeURIComponent(username)}`,
+        {
+          method: 'DELETE',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      if (response.ok) {
+        setAdminAccounts(prev => prev.filter(account => account.username !== username));
+        toast.success(`Admin ${username} revoked`);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to revoke admin');
+      }
+    } catch (error) {
+      console.error('Error revoking admin:', error);
+      toast.error('Failed to revoke admin');
+    } finally {
+      setRevokingAdmin(null);
+    }
+  };
+
   const handleDeleteDocument = async (document: any) => {
     try {
       setDeletingDocument(document.id);
@@ -365,7 +490,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
         {
           method: 'DELETE',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -373,7 +498,8 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
 
       if (response.ok) {
         const result = await response.json();
-        setDocuments(prev => prev.filter(doc => doc.id !== document.id));
+        pendingDocuments.reload();
+        verifiedDocuments.reload();
 
         if (result.fileDeleted) {
           toast.success('Document and file deleted successfully');
@@ -400,7 +526,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
         `${functionsBase(projectId)}/documents/${document.id}/download`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`
+            ...(await authHeaders())
           }
         }
       );
@@ -437,9 +563,6 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
     );
   }
 
-  const pendingDocuments = documents.filter(doc => doc.status === 'pending_signature');
-  const verifiedDocuments = documents.filter(doc => doc.status === 'completed');
-
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -500,7 +623,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
                 <Settings className="h-6 w-6 sm:h-8 sm:w-8 text-green-600" />
                 <div className="ml-2 sm:ml-4">
                   <p className="text-xs sm:text-sm text-gray-600">Total Devices</p>
-                  <p className="text-lg sm:text-2xl">{devices.length}</p>
+                  <p className="text-lg sm:text-2xl">{deviceCount}</p>
                 </div>
               </div>
             </CardContent>
@@ -512,7 +635,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
                 <FileText className="h-6 w-6 sm:h-8 sm:w-8 text-purple-600" />
                 <div className="ml-2 sm:ml-4">
                   <p className="text-xs sm:text-sm text-gray-600">Total Documents</p>
-                  <p className="text-lg sm:text-2xl">{documents.length}</p>
+                  <p className="text-lg sm:text-2xl">{documentCount}</p>
                 </div>
               </div>
             </CardContent>
@@ -524,7 +647,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
                 <AlertTriangle className="h-6 w-6 sm:h-8 sm:w-8 text-red-600" />
                 <div className="ml-2 sm:ml-4">
                   <p className="text-xs sm:text-sm text-gray-600">Delayed Checks</p>
-                  <p className="text-lg sm:text-2xl">{checks.length}</p>
+                  <p className="text-lg sm:text-2xl">{delayedCount}</p>
                 </div>
               </div>
             </CardContent>
@@ -533,18 +656,21 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
 
         {/* Main Content */}
         <Tabs defaultValue="users" className="space-y-4 sm:space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="users">
               <span className="hidden lg:inline">Users ({users.length})</span>
               <span className="lg:hidden">Users</span>
             </TabsTrigger>
             <TabsTrigger value="documents">
-              <span className="hidden lg:inline">Documents ({documents.length})</span>
+              <span className="hidden lg:inline">Documents ({documentCount})</span>
               <span className="lg:hidden">Docs</span>
             </TabsTrigger>
             <TabsTrigger value="analytics">
               Analytics
             </TabsTrigger>
+            <TabsTrigger value="admins">
+              Admins
+            </TabsTrigger>
             <TabsTrigger value="system">
               System
             </TabsTrigger>
@@ -584,6 +710,20 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
                               Joined: {user.createdAt ? new Date(user.createdAt).toLocaleDateString() : 'Unknown'}
                             </p>
                           </div>
+                          <Select
+                            value={user.role || 'employee'}
+                            onValueChange={(role) => handleRoleChange(user, role as UserRole)}
+                            disabled={updatingRoleFor === user.employeeId}
+                          >
+                            <SelectTrigger className="w-28 sm:w-32 h-8 text-xs sm:text-sm">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="employee">Employee</SelectItem>
+                              <SelectItem value="planner">Planner</SelectItem>
+                              <SelectItem value="admin">Admin</SelectItem>
+                            </SelectContent>
+                          </Select>
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
                               <Button
@@ -639,17 +779,17 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
             <div className="space-y-4 sm:space-y-6">
               <Card>
                 <CardHeader>
-                  <CardTitle className="text-lg sm:text-xl">Pending Signatures ({pendingDocuments.length})</CardTitle>
+                  <CardTitle className="text-lg sm:text-xl">Pending Signatures ({pendingDocuments.total})</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
-                    {pendingDocuments.length === 0 ? (
+                    {pendingDocuments.items.length === 0 ? (
                       <div className="text-center py-8">
                         <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                         <p className="text-gray-500">No pending documents</p>
                       </div>
                     ) : (
-                      pendingDocuments.map((document) => (
+                      pendingDocuments.items.map((document) => (
                         <div key={document.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between p-3 sm:p-4 border rounded-lg gap-3">
                           <div className="flex items-center space-x-3">
                             <FileText className="h-4 w-4 text-gray-400" />
@@ -689,22 +829,25 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
                       ))
                     )}
                   </div>
+                  <div className="mt-4">
+                    <ListPagination page={pendingDocuments.page} totalPages={pendingDocuments.totalPages} onPageChange={pendingDocuments.setPage} />
+                  </div>
                 </CardContent>
               </Card>
 
               <Card>
                 <CardHeader>
-                  <CardTitle className="text-lg sm:text-xl">Verified Documents ({verifiedDocuments.length})</CardTitle>
+                  <CardTitle className="text-lg sm:text-xl">Verified Documents ({verifiedDocuments.total})</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
-                    {verifiedDocuments.length === 0 ? (
+                    {verifiedDocuments.items.length === 0 ? (
                       <div className="text-center py-8">
                         <CheckSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                         <p className="text-gray-500">No verified documents</p>
                       </div>
                     ) : (
-                      verifiedDocuments.map((document) => (
+                      verifiedDocuments.items.map((document) => (
                         <div key={document.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between p-3 sm:p-4 border rounded-lg gap-3">
                           <div className="flex items-center space-x-3">
                             <FileText className="h-4 w-4 text-gray-400" />
@@ -744,6 +887,9 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
                       ))
                     )}
                   </div>
+                  <div className="mt-4">
+                    <ListPagination page={verifiedDocuments.page} totalPages={verifiedDocuments.totalPages} onPageChange={verifiedDocuments.setPage} />
+                  </div>
                 </CardContent>
               </Card>
             </div>
@@ -762,15 +908,15 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-xs sm:text-sm text-gray-600">Registered Devices</span>
-                    <span className="text-lg sm:text-xl">{devices.length}</span>
+                    <span className="text-lg sm:text-xl">{deviceCount}</span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-xs sm:text-sm text-gray-600">Pending Documents</span>
-                    <span className="text-lg sm:text-xl">{pendingDocuments.length}</span>
+                    <span className="text-lg sm:text-xl">{pendingDocuments.total}</span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-xs sm:text-sm text-gray-600">Completed Documents</span>
-                    <span className="text-lg sm:text-xl">{verifiedDocuments.length}</span>
+                    <span className="text-lg sm:text-xl">{verifiedDocuments.total}</span>
                   </div>
                 </CardContent>
               </Card>
@@ -782,12 +928,12 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
                 <CardContent className="space-y-3 sm:space-y-4">
                   <div className="flex justify-between items-center">
                     <span className="text-xs sm:text-sm text-gray-600">Delayed Checks</span>
-                    <span className="text-lg sm:text-xl text-red-600">{checks.length}</span>
+                    <span className="text-lg sm:text-xl text-red-600">{delayedCount}</span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-xs sm:text-sm text-gray-600">Document Completion Rate</span>
                     <span className="text-lg sm:text-xl">
-                      {documents.length > 0 ? Math.round((verifiedDocuments.length / documents.length) * 100) : 0}%
+                      {documentCount > 0 ? Math.round((verifiedDocuments.total / documentCount) * 100) : 0}%
                     </span>
                   </div>
                 </CardContent>
@@ -795,6 +941,116 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
             </div>
           </TabsContent>
 
+          <TabsContent value="admins">
+            <div className="space-y-4 sm:space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg sm:text-xl">Admin Accounts ({adminAccounts.length})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {adminAccounts.length === 0 ? (
+                      <div className="text-center py-8">
+                        <Shield className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                        <p className="text-gray-500">No stored admin accounts</p>
+                      </div>
+                    ) : (
+                      adminAccounts.map((account) => (
+                        <div key={account.username} className="flex flex-col sm:flex-row sm:items-center sm:justify-between p-3 sm:p-4 border rounded-lg gap-3">
+                          <div className="flex items-center space-x-3">
+                            <Shield className="h-4 w-4 text-blue-600" />
+                            <div className="min-w-0 flex-1">
+                              <p className="text-sm truncate">
+                                {account.username}
+                                {account.username === admin.username && (
+                                  <Badge variant="secondary" className="ml-2 text-xs">You</Badge>
+                                )}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                Added {account.createdAt ? new Date(account.createdAt).toLocaleDateString() : 'Unknown'} by {account.createdBy}
+                              </p>
+                            </div>
+                          </div>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={account.username === admin.username || revokingAdmin === account.username}
+                                className="text-red-600 hover:text-red-700 border-red-200 hover:border-red-300"
+                              >
+                                <Trash2 className="h-3 w-3 sm:h-4 sm:w-4" />
+                                <span className="hidden sm:inline ml-1">
+                                  {revokingAdmin === account.username ? 'Revoking...' : 'Revoke'}
+                                </span>
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent className="mx-4 max-w-md">
+                              <AlertDialogHeader>
+                                <AlertDialogTitle className="text-red-600">Revoke Admin?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  <strong>{account.username}</strong> will lose admin access and be signed out of all admin sessions immediately.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleRevokeAdmin(account.username)}
+                                  className="bg-red-600 hover:bg-red-700"
+                                >
+                                  Yes, Revoke Admin
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg sm:text-xl flex items-center">
+                    <UserPlus className="h-5 w-5 mr-2" />
+                    Add Admin
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleAddAdmin} className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:items-end">
+                    <div className="space-y-2">
+                      <Label htmlFor="new-admin-username">Username</Label>
+                      <Input
+                        id="new-admin-username"
+                        value={newAdmin.username}
+                        onChange={(e) => setNewAdmin(prev => ({ ...prev, username: e.target.value }))}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="new-admin-password">Initial Password</Label>
+                      <Input
+                        id="new-admin-password"
+                        type="password"
+                        value={newAdmin.password}
+                        onChange={(e) => setNewAdmin(prev => ({ ...prev, password: e.target.value }))}
+                        required
+                        minLength={8}
+                      />
+                    </div>
+                    <Button type="submit" disabled={addingAdmin}>
+                      {addingAdmin ? 'Adding...' : 'Add Admin'}
+                    </Button>
+                  </form>
+                  <p className="text-xs text-gray-500 mt-3">
+                    Supabase users can also be given admin access from the Users tab.
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
           <TabsContent value="system">
             <Card>
               <CardHeader>
@@ -855,7 +1111,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
                       <div className="flex-1">
                         <h5 className="text-blue-800 mb-1 text-sm sm:text-base">Clear All Devices & Checks</h5>
                         <p className="text-xs sm:text-sm text-blue-600">
-                          Delete all devices and their associated maintenance checks. Currently {devices.length} devices in system.
+                          Delete all devices and their associated maintenance checks. Currently {deviceCount} devices in system.
                         </p>
                       </div>
                       <AlertDialog open={showClearDevicesConfirmation} onOpenChange={setShowClearDevicesConfirmation}>
@@ -869,7 +1125,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
                           <AlertDialogHeader>
                             <AlertDialogTitle className="text-blue-600">Clear All Devices & Checks?</AlertDialogTitle>
                             <AlertDialogDescription className="text-sm">
-                              This will permanently delete <strong>{devices.length} devices</strong> including:
+                              This will permanently delete <strong>{deviceCount} devices</strong> including:
                               <ul className="list-disc list-inside mt-2 space-y-1 text-xs">
                                 <li>All device records and configurations</li>
                                 <li>All device checks (pending and completed)</li>
@@ -903,7 +1159,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
                       <div className="flex-1">
                         <h5 className="text-purple-800 mb-1 text-sm sm:text-base">Clear All Documents</h5>
                         <p className="text-xs sm:text-sm text-purple-600">
-                          Delete all documents and signatures. Currently {documents.length} documents in system.
+                          Delete all documents and signatures. Currently {documentCount} documents in system.
                         </p>
                       </div>
                       <AlertDialog open={showClearDocumentsConfirmation} onOpenChange={setShowClearDocumentsConfirmation}>
@@ -917,7 +1173,7 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
                           <AlertDialogHeader>
                             <AlertDialogTitle className="text-purple-600">Clear All Documents?</AlertDialogTitle>
                             <AlertDialogDescription className="text-sm">
-                              This will permanently delete <strong>{documents.length} documents</strong> including:
+                              This will permanently delete <strong>{documentCount} documents</strong> including:
                               <ul className="list-disc list-inside mt-2 space-y-1 text-xs">
                                 <li>All uploaded PDF files</li>
                                 <li>Document signatures and workflows</li>
@@ -973,9 +1229,9 @@ export function AdminDashboard({ admin, onLogout }: AdminDashboardProps) {
                               This action will permanently delete:
                               <ul className="list-disc list-inside mt-2 space-y-1 text-xs">
                                 <li>All user accounts and profiles ({users.length} users)</li>
-                                <li>All devices and maintenance records ({devices.length} devices)</li>
+                                <li>All devices and maintenance records ({deviceCount} devices)</li>
                                 <li>All device checks and history</li>
-                                <li>All documents and signatures ({documents.length} documents)</li>
+                                <li>All documents and signatures ({documentCount} documents)</li>
                                 <li>All weekly plans and assignments</li>
                               </ul>
                               <br />
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { projectId, publicAnonKey, functionsBase } from '../utils/supabase/info';
-import { supabase } from '../utils/supabase';
+import { supabase, authHeaders } from '../utils/supabase';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -9,11 +9,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Separator } from './ui/separator';
 import { toast } from "sonner";
 import { Eye, EyeOff } from 'lucide-react';
-import { AppUser } from '../App';
+import { AppUser, AdminSession } from '../App';
 
 interface AuthScreenProps {
   onUserLogin: (user: AppUser) => void;
-  onAdminLogin: (admin: { username: string; isAdmin: boolean }) => void;
+  onAdminLogin: (admin: AdminSession) => void;
 }
 
 export function AuthScreen({ onUserLogin, onAdminLogin }: AuthScreenProps) {
@@ -295,7 +295,7 @@ export function AuthScreen({ onUserLogin, onAdminLogin }: AuthScreenProps) {
         // It's an employee ID, need to get email from backend first
         try {
           const response = await fetch(
-            `${functionsBase(projectId)}/users/${formData.email}`,
+            `${functionsBase(projectId)}/users/${formData.email}/email`,
             {
               headers: {
                 'Authorization': `Bearer ${publicAnonKey}`,
@@ -307,7 +307,6 @@ export function AuthScreen({ onUserLogin, onAdminLogin }: AuthScreenProps) {
           if (response.ok) {
             const userData = await response.json();
             email = userData.email;
-            employeeId = userData.employeeId;
           } else {
             toast.error('Employee ID not found');
             return;
@@ -335,11 +334,12 @@ export function AuthScreen({ onUserLogin, onAdminLogin }: AuthScreenProps) {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), 10000);
 
+        // The profile is only served to the signed-in user, under the ID the server assigned
         const response = await fetch(
-          `${functionsBase(projectId)}/users/${employeeId}`,
+          `${functionsBase(projectId)}/users/${data.user.app_metadata?.employeeId || employeeId}`,
           {
             headers: {
-              'Authorization': `Bearer ${publicAnonKey}`,
+              ...(await authHeaders()),
               'Content-Type': 'application/json'
             },
             signal: controller.signal
@@ -356,7 +356,7 @@ export function AuthScreen({ onUserLogin, onAdminLogin }: AuthScreenProps) {
           // For social login, user should already exist in Supabase Auth
           // If profile fetch fails, just use the auth user data directly
           const userData = {
-            employeeId: data.user.user_metadata?.employeeId || data.user.email?.split('@')[0] || data.user.id.slice(0, 8),
+            employeeId: data.user.app_metadata?.employeeId || data.user.user_metadata?.employeeId || data.user.email?.split('@')[0] || data.user.id.slice(0, 8),
             email: data.user.email || email,
             name: data.user.user_metadata?.name || data.user.user_metadata?.full_name || 'User',
             avatar: data.user.user_metadata?.avatar || null,
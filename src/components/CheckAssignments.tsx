@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { UserCheck } from 'lucide-react';
+import { toast } from "sonner";
+import { AppUser, Device, DeviceCheck } from '../App';
+
+// Radix Select items can't use an empty value, so "unassigned" gets a sentinel
+const NO_INSPECTOR = 'none';
+
+interface CheckAssignmentsProps {
+  // Pending checks of the planned week
+  checks: DeviceCheck[];
+  devices: Device[];
+  onAssigned: () => void;
+}
+
+// Bulk assignment of a week's pending checks to the inspectors who should perform them
+export function CheckAssignments({ checks, devices, onAssigned }: CheckAssignmentsProps) {
+  const [users, setUsers] = useState<AppUser[]>([]);
+  const [selectedChecks, setSelectedChecks] = useState<string[]>([]);
+  const [assignee, setAssignee] = useState(NO_INSPECTOR);
+  const [assigning, setAssigning] = useState(false);
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch(`${functionsBase(projectId)}/users`, {
+        headers: {
+          ...(await authHeaders()),
+          'Content-Type': 'application/json'
+        }
+      });
+
+      if (response.ok) {
+        setUsers(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    }
+  };
+
+  // Selections of checks that are no longer pending (completed, cancelled, re-planned) are ignored
+  const activeSelection = selectedChecks.filter(checkId => checks.some(check => check.id === checkId));
+
+  const getDeviceName = (deviceId: string) => devices.find(device => device.id === deviceId)?.name || deviceId;
+  const getUserName = (employeeId: string) => users.find(candidate => candidate.employeeId === employeeId)?.name || employeeId;
+
+  const handleToggle = (checkId: string) => {
+    setSelectedChecks(prev =>
+      prev.includes(checkId) ? prev.filter(id => id !== checkId) : [...prev, checkId]
+    );
+  };
+
+  const handleAssign = async () => {
+    try {
+      setAssigning(true);
+      const response = await fetch(`${functionsBase(projectId)}/checks/assign`, {
+        method: 'PUT',
+        headers: {
+          ...(await authHeaders()),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          checkIds: activeSelection,
+          assignedTo: assignee === NO_INSPECTOR ? '' : assignee
+        })
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        toast.success(assignee === NO_INSPECTOR
+          ? `Cleared the inspector on ${result.assigned} checks`
+          : `Assigned ${result.assigned} checks to ${getUserName(assignee)}`);
+        setSelectedChecks([]);
+        onAssigned();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to assign checks');
+      }
+    } catch (error) {
+      console.error('Error assigning checks:', error);
+      toast.error('Failed to assign checks');
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  if (checks.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <UserCheck className="h-5 w-5 mr-2" />
+            Inspector Assignments
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSelectedChecks(activeSelection.length === checks.length ? [] : checks.map(check => check.id))}
+          >
+            {activeSelection.length === checks.length ? 'Clear Selection' : 'Select All'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={assignee} onValueChange={setAssignee}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_INSPECTOR}>No inspector</SelectItem>
+              {users.map(candidate => (
+                <SelectItem key={candidate.employeeId} value={candidate.employeeId}>
+                  {candidate.name} ({candidate.employeeId})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAssign} disabled={activeSelection.length === 0 || assigning}>
+            {assigning ? 'Assigning...' : `Assign Selected (${activeSelection.length})`}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {checks.map(check => (
+            <div key={check.id} className="flex items-center space-x-3 p-3 border rounded-lg">
+              <Checkbox
+                checked={selectedChecks.includes(check.id)}
+                onCheckedChange={() => handleToggle(check.id)}
+              />
+              <div className="flex-1">
+                <p className="text-sm">{getDeviceName(check.deviceId)}</p>
+                <p className="text-xs text-gray-600">
+                  {check.assignedTo ? `Inspector: ${getUserName(check.assignedTo)}` : 'No inspector assigned'}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
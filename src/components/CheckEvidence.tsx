@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Camera, FileText, X, Paperclip } from 'lucide-react';
+import { toast } from "sonner";
+import { CheckEvidence } from '../App';
+
+// Keep in step with EVIDENCE_BUCKET in the edge function's file_store
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic', 'image/heif', 'application/pdf'];
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const MAX_FILES = 10;
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+// Uploads files to a check; resolves to false (after a toast) when the upload fails
+export const uploadCheckEvidence = async (checkId: string, evidenceFiles: File[]): Promise<boolean> => {
+  if (evidenceFiles.length === 0) return true;
+
+  const formData = new FormData();
+  evidenceFiles.forEach(file => formData.append('files', file));
+
+  try {
+    const response = await fetch(
+      `${functionsBase(projectId)}/checks/${checkId}/evidence`,
+      {
+        method: 'POST',
+        headers: {
+          ...(await authHeaders())
+        },
+        body: formData
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      toast.error(error.error || 'Failed to upload evidence');
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error uploading evidence:', error);
+    toast.error('Failed to upload evidence');
+    return false;
+  }
+};
+
+interface EvidencePickerProps {
+  id: string;
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+export function EvidencePicker({ id, files, onChange, disabled }: EvidencePickerProps) {
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const accepted = selected.filter(file => {
+      if (!ACCEPTED_TYPES.includes(file.type)) {
+        toast.error(`${file.name}: only images and PDF files can be attached`);
+        return false;
+      }
+      if (file.size > MAX_FILE_SIZE) {
+        toast.error(`${file.name}: files are limited to 10MB`);
+        return false;
+      }
+      return true;
+    });
+
+    const next = [...files, ...accepted];
+    if (next.length > MAX_FILES) {
+      toast.error(`At most ${MAX_FILES} files can be attached`);
+    }
+    onChange(next.slice(0, MAX_FILES));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Photos / Evidence (Optional)</Label>
+      <Input
+        id={id}
+        type="file"
+        multiple
+        accept={ACCEPTED_TYPES.join(',')}
+        onChange={handleFileChange}
+        disabled={disabled}
+      />
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center justify-between text-sm bg-gray-50 rounded px-2 py-1">
+              <span className="flex items-center truncate">
+                {file.type.startsWith('image/') ? <Camera className="h-3 w-3 mr-2" /> : <FileText className="h-3 w-3 mr-2" />}
+                <span className="truncate">{file.name}</span>
+                <span className="text-xs text-gray-500 ml-2">{formatSize(file.size)}</span>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                disabled={disabled}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface EvidenceGalleryProps {
+  checkId: string | null;
+  title?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Dialog listing a check's evidence; images render as thumbnails, other files as links
+export function EvidenceGallery({ checkId, title = 'Check Evidence', onOpenChange }: EvidenceGalleryProps) {
+  const [evidence, setEvidence] = useState<CheckEvidence[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (checkId) fetchEvidence(checkId);
+  }, [checkId]);
+
+  const fetchEvidence = async (id: string) => {
+    try {
+      setLoading(true);
+      setEvidence([]);
+      const response = await fetch(
+        `${functionsBase(projectId)}/checks/${id}/evidence`,
+        {
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      if (response.ok) {
+        setEvidence(await response.json());
+      } else {
+        toast.error('Failed to load evidence');
+      }
+    } catch (error) {
+      console.error('Error fetching evidence:', error);
+      toast.error('Failed to load evidence');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!checkId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Photos and files attached when the check was completed. Links expire after one hour.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 animate-pulse">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-32 bg-gray-200 rounded-lg"></div>
+            ))}
+          </div>
+        ) : evidence.length === 0 ? (
+          <p className="text-sm text-gray-500">No evidence attached to this check.</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {evidence.map(item => (
+              <a
+                key={item.id}
+                href={item.url || undefined}
+                target="_blank"
+                rel="noreferrer"
+                className="block border rounded-lg overflow-hidden hover:shadow-md transition-shadow"
+              >
+                {item.contentType.startsWith('image/') && item.url ? (
+                  <img src={item.url} alt={item.fileName} className="h-32 w-full object-cover" />
+                ) : (
+                  <div className="h-32 flex items-center justify-center bg-gray-50">
+                    <FileText className="h-10 w-10 text-gray-400" />
+                  </div>
+                )}
+                <div className="p-2 text-xs">
+                  <p className="truncate">{item.fileName}</p>
+                  <p className="text-gray-500">
+                    {item.uploadedBy} • {new Date(item.uploadedAt).toLocaleDateString()}
+                  </p>
+                </div>
+              </a>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface EvidenceButtonProps {
+  count: number;
+  onClick: () => void;
+}
+
+// Compact "n files" trigger used in tables and timelines
+export function EvidenceButton({ count, onClick }: EvidenceButtonProps) {
+  if (count === 0) return <span className="text-gray-400">—</span>;
+
+  return (
+    <Button variant="ghost" size="sm" className="h-7 px-2" onClick={onClick}>
+      <Paperclip className="h-3 w-3 mr-1" />
+      {count} file{count === 1 ? '' : 's'}
+    </Button>
+  );
+}
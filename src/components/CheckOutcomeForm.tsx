@@ -0,0 +1,131 @@
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { AlertTriangle } from 'lucide-react';
+import { AppUser, CheckOutcome } from '../App';
+
+export interface CheckOutcomeValues {
+  outcome: CheckOutcome;
+  actionDescription: string;
+  actionOwner: string;
+  actionDueDate: string;
+}
+
+export const emptyCheckOutcome: CheckOutcomeValues = {
+  outcome: 'passed',
+  actionDescription: '',
+  actionOwner: '',
+  actionDueDate: ''
+};
+
+const OUTCOME_LABELS: Record<CheckOutcome, string> = {
+  passed: 'Passed',
+  passed_with_remarks: 'Passed with remarks',
+  failed: 'Failed'
+};
+
+// Mirrors the server rules: remarks need a comment, a failure needs a complete corrective action
+export const isCheckOutcomeComplete = (values: CheckOutcomeValues, comment: string): boolean => {
+  if (values.outcome === 'passed_with_remarks') return !!comment.trim();
+  if (values.outcome === 'failed') {
+    return !!values.actionDescription.trim() && !!values.actionOwner && !!values.actionDueDate;
+  }
+  return true;
+};
+
+// Fields merged into the PUT /checks/:checkId/complete payload
+export const toCheckOutcomePayload = (values: CheckOutcomeValues) => ({
+  outcome: values.outcome,
+  correctiveAction: values.outcome === 'failed'
+    ? { description: values.actionDescription.trim(), owner: values.actionOwner, dueDate: values.actionDueDate }
+    : undefined
+});
+
+interface CheckOutcomeFormProps {
+  idPrefix: string;
+  values: CheckOutcomeValues;
+  users: AppUser[];
+  hasFailedItems?: boolean;
+  onChange: (values: CheckOutcomeValues) => void;
+}
+
+export function CheckOutcomeForm({ idPrefix, values, users, hasFailedItems = false, onChange }: CheckOutcomeFormProps) {
+  const update = (changes: Partial<CheckOutcomeValues>) => onChange({ ...values, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-outcome`}>Outcome</Label>
+        <Select value={values.outcome} onValueChange={(value) => update({ outcome: value as CheckOutcome })}>
+          <SelectTrigger id={`${idPrefix}-outcome`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(OUTCOME_LABELS) as CheckOutcome[]).map(outcome => (
+              <SelectItem key={outcome} value={outcome} disabled={outcome === 'passed' && hasFailedItems}>
+                {OUTCOME_LABELS[outcome]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {hasFailedItems && values.outcome === 'passed' && (
+          <p className="text-sm text-red-600">Checklist items failed; choose "Failed" or "Passed with remarks".</p>
+        )}
+        {values.outcome === 'passed_with_remarks' && (
+          <p className="text-xs text-gray-500">Describe the remarks in the maintenance comment.</p>
+        )}
+      </div>
+
+      {values.outcome === 'failed' && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-3">
+          <p className="flex items-center text-sm text-red-800">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            Corrective action
+          </p>
+          <p className="text-xs text-red-700">
+            The device stays flagged and its next check is scheduled once this action is closed.
+          </p>
+
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-action-description`}>What needs to be done</Label>
+            <Textarea
+              id={`${idPrefix}-action-description`}
+              value={values.actionDescription}
+              onChange={(e) => update({ actionDescription: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-action-owner`}>Owner</Label>
+              <Select value={values.actionOwner} onValueChange={(value) => update({ actionOwner: value })}>
+                <SelectTrigger id={`${idPrefix}-action-owner`}>
+                  <SelectValue placeholder="Select owner" />
+                </SelectTrigger>
+                <SelectContent className="max-h-60">
+                  {users.map(user => (
+                    <SelectItem key={user.employeeId} value={user.employeeId}>
+                      {user.name} ({user.employeeId})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-action-due`}>Due date</Label>
+              <Input
+                id={`${idPrefix}-action-due`}
+                type="date"
+                value={values.actionDueDate}
+                onChange={(e) => update({ actionDueDate: e.target.value })}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { AlertCircle } from 'lucide-react';
+import { ChecklistItem, ChecklistTemplate, ChecklistResultValue } from '../App';
+
+export interface ChecklistItemValue {
+  result?: ChecklistResultValue;
+  value: string;
+  note: string;
+}
+
+export type ChecklistFormValues = Record<string, ChecklistItemValue>;
+
+const RESULT_OPTIONS: { value: ChecklistResultValue; label: string; activeClass: string }[] = [
+  { value: 'pass', label: 'Pass', activeClass: 'bg-green-600 hover:bg-green-700 text-white' },
+  { value: 'fail', label: 'Fail', activeClass: 'bg-red-600 hover:bg-red-700 text-white' },
+  { value: 'na', label: 'N/A', activeClass: 'bg-gray-600 hover:bg-gray-700 text-white' }
+];
+
+const emptyItemValue: ChecklistItemValue = { value: '', note: '' };
+
+const formatRange = (item: ChecklistItem): string | null => {
+  const unit = item.unit ? ` ${item.unit}` : '';
+  if (item.min !== undefined && item.max !== undefined) return `${item.min}–${item.max}${unit}`;
+  if (item.min !== undefined) return `≥ ${item.min}${unit}`;
+  if (item.max !== undefined) return `≤ ${item.max}${unit}`;
+  return null;
+};
+
+const isOutOfRange = (item: ChecklistItem, value: string): boolean => {
+  if (value === '') return false;
+  const number = Number(value);
+  if (!Number.isFinite(number)) return false;
+  return (item.min !== undefined && number < item.min) || (item.max !== undefined && number > item.max);
+};
+
+// Mirrors the server rule: every item needs a result, measurements need a value unless N/A
+export const isChecklistComplete = (template: ChecklistTemplate, values: ChecklistFormValues): boolean =>
+  template.items.every(item => {
+    const entry = values[item.id];
+    if (!entry?.result) return false;
+    if (item.type === 'measurement' && entry.result !== 'na') {
+      return entry.value.trim() !== '' && Number.isFinite(Number(entry.value));
+    }
+    return true;
+  });
+
+// Payload for PUT /checks/:checkId/complete
+export const toCheckResults = (template: ChecklistTemplate, values: ChecklistFormValues) =>
+  template.items.map(item => {
+    const entry = values[item.id] || emptyItemValue;
+    return {
+      itemId: item.id,
+      result: entry.result,
+      value: item.type === 'measurement' && entry.result !== 'na' ? Number(entry.value) : undefined,
+      note: entry.note.trim() || undefined
+    };
+  });
+
+interface ChecklistFormProps {
+  idPrefix: string;
+  template: ChecklistTemplate;
+  values: ChecklistFormValues;
+  onChange: (values: ChecklistFormValues) => void;
+}
+
+export function ChecklistForm({ idPrefix, template, values, onChange }: ChecklistFormProps) {
+  const updateItem = (itemId: string, changes: Partial<ChecklistItemValue>) => {
+    onChange({
+      ...values,
+      [itemId]: { ...emptyItemValue, ...values[itemId], ...changes }
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-sm">{template.name}</h4>
+        {template.description && (
+          <p className="text-xs text-gray-500">{template.description}</p>
+        )}
+      </div>
+
+      {template.items.map((item, index) => {
+        const entry = values[item.id] || emptyItemValue;
+        const range = formatRange(item);
+        const outOfRange = item.type === 'measurement' && isOutOfRange(item, entry.value);
+
+        return (
+          <div key={item.id} className="p-3 border rounded-lg space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <p className="text-sm">
+                {index + 1}. {item.label}
+                {range && <span className="text-xs text-gray-500 ml-2">({range})</span>}
+              </p>
+              <div className="flex gap-1 flex-shrink-0" role="radiogroup" aria-label={item.label}>
+                {RESULT_OPTIONS.map(option => (
+                  <Button
+                    key={option.value}
+                    type="button"
+                    size="sm"
+                    variant={entry.result === option.value ? 'default' : 'outline'}
+                    className={`h-7 px-2 ${entry.result === option.value ? option.activeClass : ''}`}
+                    role="radio"
+                    aria-checked={entry.result === option.value}
+                    onClick={() => updateItem(item.id, { result: option.value })}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {item.type === 'measurement' && entry.result !== 'na' && (
+              <div className="space-y-1">
+                <Label htmlFor={`${idPrefix}-${item.id}-value`} className="text-xs text-gray-600">
+                  Measured value{item.unit ? ` (${item.unit})` : ''}
+                </Label>
+                <Input
+                  id={`${idPrefix}-${item.id}-value`}
+                  type="number"
+                  step="any"
+                  value={entry.value}
+                  onChange={(e) => updateItem(item.id, { value: e.target.value })}
+                  aria-invalid={outOfRange}
+                />
+                {outOfRange && (
+                  <p className="flex items-center text-xs text-orange-700">
+                    <AlertCircle className="h-3 w-3 mr-1" />
+                    Outside the expected range
+                  </p>
+                )}
+              </div>
+            )}
+
+            <Input
+              placeholder="Note (optional)"
+              value={entry.note}
+              onChange={(e) => updateItem(item.id, { note: e.target.value })}
+              className="h-8 text-sm"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import React, { useState } from 'react';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Plus, Pencil, Trash2, ArrowLeft } from 'lucide-react';
+import { toast } from "sonner";
+import { ChecklistItem, ChecklistTemplate } from '../App';
+
+// Item rows are edited as strings so half-typed numbers don't get coerced
+interface ItemDraft {
+  id?: string;
+  key: number;
+  label: string;
+  type: ChecklistItem['type'];
+  unit: string;
+  min: string;
+  max: string;
+}
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  description: string;
+  items: ItemDraft[];
+}
+
+interface ChecklistTemplateManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: ChecklistTemplate[];
+  onTemplatesChange: (templates: ChecklistTemplate[]) => void;
+}
+
+let nextItemKey = 0;
+
+const newItemDraft = (): ItemDraft => ({ key: nextItemKey++, label: '', type: 'boolean', unit: '', min: '', max: '' });
+
+const toDraft = (template: ChecklistTemplate): TemplateDraft => ({
+  id: template.id,
+  name: template.name,
+  description: template.description || '',
+  items: template.items.map(item => ({
+    id: item.id,
+    key: nextItemKey++,
+    label: item.label,
+    type: item.type,
+    unit: item.unit || '',
+    min: item.min !== undefined ? String(item.min) : '',
+    max: item.max !== undefined ? String(item.max) : ''
+  }))
+});
+
+const toPayload = (draft: TemplateDraft) => ({
+  name: draft.name,
+  description: draft.description,
+  items: draft.items.map(item => ({
+    id: item.id,
+    label: item.label,
+    type: item.type,
+    ...(item.type === 'measurement' ? { unit: item.unit, min: item.min, max: item.max } : {})
+  }))
+});
+
+export function ChecklistTemplateManager({ open, onOpenChange, templates, onTemplatesChange }: ChecklistTemplateManagerProps) {
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setDraft(null);
+    onOpenChange(nextOpen);
+  };
+
+  const updateItem = (key: number, changes: Partial<ItemDraft>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      items: prev.items.map(item => (item.key === key ? { ...item, ...changes } : item))
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    if (!draft.name.trim() || draft.items.length === 0 || draft.items.some(item => !item.label.trim())) {
+      toast.error('A template needs a name and at least one labelled item');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(
+        draft.id
+          ? `${functionsBase(projectId)}/checklist-templates/${draft.id}`
+          : `${functionsBase(projectId)}/checklist-templates`,
+        {
+          method: draft.id ? 'PUT' : 'POST',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify(toPayload(draft))
+        }
+      );
+
+      const result = await response.json();
+
+      if (response.ok) {
+        const saved: ChecklistTemplate = result.template;
+        const others = templates.filter(template => template.id !== saved.id);
+        onTemplatesChange([...others, saved].sort((a, b) => a.name.localeCompare(b.name)));
+        setDraft(null);
+        toast.success(draft.id ? 'Checklist template updated' : 'Checklist template created');
+      } else {
+        toast.error(result.error || 'Failed to save checklist template');
+      }
+    } catch (error) {
+      console.error('Error saving checklist template:', error);
+      toast.error('Failed to save checklist template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: ChecklistTemplate) => {
+    try {
+      setDeletingId(template.id);
+      const response = await fetch(
+        `${functionsBase(projectId)}/checklist-templates/${template.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      if (response.ok) {
+        onTemplatesChange(templates.filter(t => t.id !== template.id));
+        toast.success('Checklist template deleted');
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to delete checklist template');
+      }
+    } catch (error) {
+      console.error('Error deleting checklist template:', error);
+      toast.error('Failed to delete checklist template');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{draft ? (draft.id ? 'Edit Checklist Template' : 'New Checklist Template') : 'Checklist Templates'}</DialogTitle>
+          <DialogDescription>
+            Templates list the items an inspector records as pass, fail or N/A when completing a device check.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Template Name</Label>
+              <Input
+                id="template-name"
+                placeholder="Fire extinguisher"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description (Optional)</Label>
+              <Textarea
+                id="template-description"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>Items</Label>
+              {draft.items.map((item, index) => (
+                <div key={item.key} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder={`Item ${index + 1}, e.g. Pressure gauge in green zone`}
+                      value={item.label}
+                      onChange={(e) => updateItem(item.key, { label: e.target.value })}
+                      required
+                    />
+                    <Select
+                      value={item.type}
+                      onValueChange={(value) => updateItem(item.key, { type: value as ChecklistItem['type'] })}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="boolean">Pass / fail</SelectItem>
+                        <SelectItem value="measurement">Measurement</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700 h-9 w-9 p-0"
+                      onClick={() => setDraft({ ...draft, items: draft.items.filter(i => i.key !== item.key) })}
+                      disabled={draft.items.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {item.type === 'measurement' && (
+                    <div className="grid grid-cols-3 gap-2">
+                      <Input
+                        placeholder="Unit (e.g. bar)"
+                        value={item.unit}
+                        onChange={(e) => updateItem(item.key, { unit: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        step="any"
+                        placeholder="Min"
+                        value={item.min}
+                        onChange={(e) => updateItem(item.key, { min: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        step="any"
+                        placeholder="Max"
+                        value={item.max}
+                        onChange={(e) => updateItem(item.key, { max: e.target.value })}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, items: [...draft.items, newItemDraft()] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Item
+              </Button>
+            </div>
+
+            <div className="flex gap-2 pt-4">
+              <Button type="submit" className="flex-1" disabled={saving}>
+                {saving ? 'Saving...' : 'Save Template'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setDraft(null)} disabled={saving}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            {templates.length === 0 ? (
+              <p className="text-sm text-gray-500">No checklist templates yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {templates.map(template => (
+                  <div key={template.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <p className="text-sm">{template.name}</p>
+                      <div className="flex items-center gap-2 mt-1">
+                        <Badge variant="outline">{template.items.length} item{template.items.length === 1 ? '' : 's'}</Badge>
+                        {template.description && (
+                          <span className="text-xs text-gray-500">{template.description}</span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => setDraft(toDraft(template))}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700 h-8 w-8 p-0"
+                        onClick={() => handleDelete(template)}
+                        disabled={deletingId === template.id}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Button onClick={() => setDraft({ name: '', description: '', items: [newItemDraft()] })}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Template
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
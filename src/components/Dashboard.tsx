@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { 
@@ -8,9 +9,10 @@ import {
   CheckSquare, 
   AlertTriangle, 
   FileText,
-  TrendingUp
+  TrendingUp,
+  Wrench
 } from 'lucide-react';
-import { AppUser } from '../App';
+import { AppUser, CorrectiveAction } from '../App';
 
 interface DashboardProps {
   user: AppUser;
@@ -23,6 +25,7 @@ interface DashboardStats {
   delayedChecks: number;
   completedThisWeek: number;
   pendingDocuments: number;
+  openCorrectiveActions: number;
 }
 
 export function Dashboard({ user, onViewChange }: DashboardProps) {
@@ -31,9 +34,11 @@ export function Dashboard({ user, onViewChange }: DashboardProps) {
     pendingChecks: 0,
     delayedChecks: 0,
     completedThisWeek: 0,
-    pendingDocuments: 0
+    pendingDocuments: 0,
+    openCorrectiveActions: 0
   });
   const [recentActivity, setRecentActivity] = useState([]);
+  const [correctiveActions, setCorrectiveActions] = useState<CorrectiveAction[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -49,7 +54,7 @@ export function Dashboard({ user, onViewChange }: DashboardProps) {
         `https://${projectId}.supabase.co/functions/v1/make-server-354d5d14/devices`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -64,7 +69,7 @@ export function Dashboard({ user, onViewChange }: DashboardProps) {
         `https://${projectId}.supabase.co/functions/v1/make-server-354d5d14/weekly-plans/${currentYear}/${currentWeek}`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -75,7 +80,18 @@ export function Dashboard({ user, onViewChange }: DashboardProps) {
         `https://${projectId}.supabase.co/functions/v1/make-server-354d5d14/delayed-checks`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      // Fetch open corrective actions (devices flagged by a failed check)
+      const actionsResponse = await fetch(
+        `${functionsBase(projectId)}/corrective-actions?status=open`,
+        {
+          headers: {
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -85,6 +101,7 @@ export function Dashboard({ user, onViewChange }: DashboardProps) {
       const devices = devicesResponse.ok ? await devicesResponse.json() : [];
       const checks = checksResponse.ok ? await checksResponse.json() : [];
       const delayed = delayedResponse.ok ? await delayedResponse.json() : [];
+      const actions = actionsResponse.ok ? await actionsResponse.json() : [];
 
       const pendingChecks = checks.filter((check: any) => check.status === 'pending').length;
       const completedThisWeek = checks.filter((check: any) => check.status === 'completed').length;
@@ -94,8 +111,10 @@ export function Dashboard({ user, onViewChange }: DashboardProps) {
         pendingChecks,
         delayedChecks: delayed.length,
         completedThisWeek,
-        pendingDocuments: user.notifications?.filter(n => n.type === 'document_signature_required' && !n.read).length || 0
+        pendingDocuments: user.notifications?.filter(n => n.type === 'document_signature_required' && !n.read).length || 0,
+        openCorrectiveActions: actions.length
       });
+      setCorrectiveActions(actions);
 
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
@@ -141,6 +160,13 @@ export function Dashboard({ user, onViewChange }: DashboardProps) {
       color: 'text-green-600',
       bgColor: 'bg-green-50'
     },
+    {
+      title: 'Open Corrective Actions',
+      value: stats.openCorrectiveActions,
+      icon: Wrench,
+      color: 'text-orange-600',
+      bgColor: 'bg-orange-50'
+    },
     {
       title: 'Pending Documents',
       value: stats.pendingDocuments,
@@ -155,8 +181,8 @@ export function Dashboard({ user, onViewChange }: DashboardProps) {
       <div className="space-y-6">
         <div className="animate-pulse">
           <div className="h-8 bg-gray-200 rounded w-48 mb-6"></div>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
-            {[...Array(5)].map((_, i) => (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
+            {[...Array(6)].map((_, i) => (
               <div key={i} className="h-32 bg-gray-200 rounded-lg"></div>
             ))}
           </div>
@@ -175,7 +201,7 @@ export function Dashboard({ user, onViewChange }: DashboardProps) {
       </div>
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
         {statCards.map((stat, index) => {
           const Icon = stat.icon;
           return (
@@ -196,6 +222,45 @@ export function Dashboard({ user, onViewChange }: DashboardProps) {
         })}
       </div>
 
+      {/* Devices flagged by failed checks */}
+      {correctiveActions.length > 0 && (
+        <Card className="border-orange-200">
+          <CardHeader>
+            <CardTitle className="flex items-center text-orange-700">
+              <Wrench className="h-5 w-5 mr-2" />
+              Flagged Devices
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {correctiveActions.slice(0, 5).map(action => {
+                const overdue = new Date(`${action.dueDate}T23:59:59`) < new Date();
+                return (
+                  <div
+                    key={action.id}
+                    className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50 cursor-pointer transition-colors"
+                    onClick={() => onViewChange?.('delayed')}
+                  >
+                    <div>
+                      <p>{action.deviceName}</p>
+                      <p className="text-sm text-gray-600">{action.description}</p>
+                    </div>
+                    <Badge variant={overdue ? 'destructive' : 'secondary'}>
+                      Due {new Date(`${action.dueDate}T00:00:00`).toLocaleDateString()}
+                    </Badge>
+                  </div>
+                );
+              })}
+              {correctiveActions.length > 5 && (
+                <p className="text-sm text-gray-500">
+                  and {correctiveActions.length - 5} more on the Delayed page
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
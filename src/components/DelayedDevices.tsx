@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { projectId, publicAnonKey, functionsBase } from '../utils/supabase/info';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
 import { Button } from './ui/button';
 import { Textarea } from './ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
@@ -10,9 +11,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Input } from './ui/input';
 import { Separator } from './ui/separator';
 import { Checkbox } from './ui/checkbox';
-import { AlertTriangle, Clock, MapPin, Settings, Calendar, CheckSquare, Users, Mail, Search, SortAsc, SortDesc, User, Hash, X } from 'lucide-react';
+import { AlertTriangle, Clock, MapPin, Settings, Calendar, CheckSquare, Users, Mail, Search, SortAsc, SortDesc, User, Hash, X, Wrench } from 'lucide-react';
 import { toast } from "sonner";
-import { Device, DeviceCheck, AppUser } from '../App';
+import { Device, DeviceCheck, AppUser, ChecklistTemplate, CorrectiveAction } from '../App';
+import { ChecklistForm, ChecklistFormValues, isChecklistComplete, toCheckResults } from './ChecklistForm';
+import { CheckOutcomeForm, CheckOutcomeValues, emptyCheckOutcome, isCheckOutcomeComplete, toCheckOutcomePayload } from './CheckOutcomeForm';
+import { EvidencePicker, uploadCheckEvidence } from './CheckEvidence';
+import { getDaysOverdue, getISOWeekStart } from '../supabase/functions/server/schedule';
 
 interface DelayedDevicesProps {
   user: AppUser;
@@ -24,6 +29,14 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
   const [loading, setLoading] = useState(true);
   const [selectedCheck, setSelectedCheck] = useState<DeviceCheck | null>(null);
   const [comment, setComment] = useState('');
+  const [templates, setTemplates] = useState<{ [key: string]: ChecklistTemplate }>({});
+  const [checklistValues, setChecklistValues] = useState<ChecklistFormValues>({});
+  const [outcomeValues, setOutcomeValues] = useState<CheckOutcomeValues>(emptyCheckOutcome);
+  const [evidenceFiles, setEvidenceFiles] = useState<File[]>([]);
+  const [correctiveActions, setCorrectiveActions] = useState<CorrectiveAction[]>([]);
+  const [closingAction, setClosingAction] = useState<CorrectiveAction | null>(null);
+  const [closureNote, setClosureNote] = useState('');
+  const [isClosingAction, setIsClosingAction] = useState(false);
   const [isCompleting, setIsCompleting] = useState(false);
   const [users, setUsers] = useState<AppUser[]>([]);
   const [selectedNotificationEmployees, setSelectedNotificationEmployees] = useState<string[]>([]);
@@ -49,7 +62,7 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
         `https://${projectId}.supabase.co/functions/v1/make-server-354d5d14/delayed-checks`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -60,7 +73,28 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
         `https://${projectId}.supabase.co/functions/v1/make-server-354d5d14/devices`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      const templatesResponse = await fetch(
+        `${functionsBase(projectId)}/checklist-templates`,
+        {
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      // Devices with an open corrective action stay flagged here until it is closed
+      const actionsResponse = await fetch(
+        `${functionsBase(projectId)}/corrective-actions?status=open`,
+        {
+          headers: {
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -80,6 +114,18 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
         setDevices(deviceMap);
       }
 
+      if (actionsResponse.ok) {
+        setCorrectiveActions(await actionsResponse.json());
+      }
+
+      if (templatesResponse.ok) {
+        const templateList = await templatesResponse.json();
+        setTemplates(templateList.reduce((acc: { [key: string]: ChecklistTemplate }, template: ChecklistTemplate) => {
+          acc[template.id] = template;
+          return acc;
+        }, {}));
+      }
+
     } catch (error) {
       console.error('Error fetching delayed checks:', error);
       toast.error('Failed to fetch delayed checks');
@@ -94,7 +140,7 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
         `${functionsBase(projectId)}/users`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -117,7 +163,7 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
         `${functionsBase(projectId)}/delayed-device-notifications`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -145,7 +191,7 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
         {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({
@@ -230,41 +276,14 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
     return nextMonday;
   };
 
-  const getWeekNumber = (date: Date): number => {
-    const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
-    const dayNum = d.getUTCDay() || 7;
-    d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-    const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-    return Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-  };
-
   const getWeekDateRange = (year: number, week: number): string => {
-    const simple = new Date(year, 0, 1 + (week - 1) * 7);
-    const dow = simple.getDay();
-    const ISOweekStart = simple;
-    if (dow <= 4)
-      ISOweekStart.setDate(simple.getDate() - simple.getDay() + 1);
-    else
-      ISOweekStart.setDate(simple.getDate() + 8 - simple.getDay());
-
+    const ISOweekStart = getISOWeekStart(year, week);
     const weekEnd = new Date(ISOweekStart);
-    weekEnd.setDate(ISOweekStart.getDate() + 6);
+    weekEnd.setUTCDate(ISOweekStart.getUTCDate() + 6);
 
     return `${ISOweekStart.toLocaleDateString()} - ${weekEnd.toLocaleDateString()}`;
   };
 
-  const getDaysOverdue = (check: DeviceCheck): number => {
-    const checkYear = parseInt(check.year);
-    const checkWeek = parseInt(check.week);
-    const currentDate = new Date();
-    const currentYear = currentDate.getFullYear();
-    const currentWeek = getWeekNumber(currentDate);
-
-    // Simple calculation - in reality you'd want more precise date arithmetic
-    const weeksOverdue = (currentYear - checkYear) * 52 + (currentWeek - checkWeek);
-    return weeksOverdue * 7; // Convert to days
-  };
-
   const getSeverityBadge = (daysOverdue: number) => {
     if (daysOverdue <= 7) {
       return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Recently Overdue</Badge>;
@@ -275,31 +294,49 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
     }
   };
 
+  const getDeviceTemplate = (device?: Device): ChecklistTemplate | undefined =>
+    device?.checklistTemplateId ? templates[device.checklistTemplateId] : undefined;
+
   const handleCompleteCheck = async () => {
     if (!selectedCheck) return;
+    const template = getDeviceTemplate(devices[selectedCheck.deviceId]);
 
     try {
       setIsCompleting(true);
 
+      // Attach evidence first so a failed upload leaves the check open; uploaded files are not resent on retry
+      if (!(await uploadCheckEvidence(selectedCheck.id, evidenceFiles))) return;
+      setEvidenceFiles([]);
+
       const response = await fetch(
         `https://${projectId}.supabase.co/functions/v1/make-server-354d5d14/checks/${selectedCheck.id}/complete`,
         {
           method: 'PUT',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({
-            completedBy: user.employeeId,
-            comment: comment.trim()
+            comment: comment.trim(),
+            results: template ? toCheckResults(template, checklistValues) : undefined,
+            ...toCheckOutcomePayload(outcomeValues)
           })
         }
       );
 
       if (response.ok) {
-        toast.success('Delayed device check completed successfully');
+        const result = await response.json();
+        if (result.correctiveAction) {
+          toast.warning('Check recorded as failed; the device stays flagged until the corrective action is closed');
+          setCorrectiveActions(prev => [...prev, { ...result.correctiveAction, deviceName: devices[result.correctiveAction.deviceId]?.name }]);
+        } else {
+          toast.success('Delayed device check completed successfully');
+        }
         setSelectedCheck(null);
         setComment('');
+        setChecklistValues({});
+        setOutcomeValues(emptyCheckOutcome);
+        setEvidenceFiles([]);
         // Remove the completed check from delayed list
         setDelayedChecks(prev => prev.filter(check => check.id !== selectedCheck.id));
       } else {
@@ -314,6 +351,47 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
     }
   };
 
+  const handleCloseAction = async () => {
+    if (!closingAction) return;
+
+    try {
+      setIsClosingAction(true);
+
+      const response = await fetch(
+        `${functionsBase(projectId)}/corrective-actions/${closingAction.id}/close`,
+        {
+          method: 'PUT',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ closureNote: closureNote.trim() })
+        }
+      );
+
+      if (response.ok) {
+        const result = await response.json();
+        toast.success(result.nextCheckScheduled
+          ? `Corrective action closed. Next check scheduled for week ${result.nextCheckScheduled.week}, ${result.nextCheckScheduled.year}`
+          : 'Corrective action closed');
+        setCorrectiveActions(prev => prev.filter(action => action.id !== closingAction.id));
+        setClosingAction(null);
+        setClosureNote('');
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to close corrective action');
+      }
+    } catch (error) {
+      console.error('Error closing corrective action:', error);
+      toast.error('Failed to close corrective action');
+    } finally {
+      setIsClosingAction(false);
+    }
+  };
+
+  const canCloseAction = (action: CorrectiveAction) =>
+    user.role === 'planner' || user.role === 'admin' || user.employeeId === action.owner;
+
   // Group delayed checks by severity
   const groupedChecks = delayedChecks.reduce((acc, check) => {
     const daysOverdue = getDaysOverdue(check);
@@ -530,6 +608,12 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
             <AlertTriangle className="h-3 w-3 mr-1" />
             {delayedChecks.length} delayed checks
           </Badge>
+          {correctiveActions.length > 0 && (
+            <Badge variant="outline" className="border-orange-300 text-orange-700">
+              <Wrench className="h-3 w-3 mr-1" />
+              {correctiveActions.length} open corrective actions
+            </Badge>
+          )}
         </div>
       </div>
 
@@ -561,6 +645,103 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
         </Card>
       )}
 
+      {/* Failed checks awaiting their corrective action */}
+      {correctiveActions.length > 0 && (
+        <div>
+          <h2 className="text-lg text-orange-700 mb-4 flex items-center">
+            <Wrench className="h-5 w-5 mr-2" />
+            Failed Checks - Corrective Actions Open
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {correctiveActions.map((action) => {
+              const overdue = new Date(`${action.dueDate}T23:59:59`) < new Date();
+              return (
+                <Card key={action.id} className="border-l-4 border-l-orange-500">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between">
+                      <CardTitle className="text-lg">{action.deviceName || devices[action.deviceId]?.name || 'Unknown Device'}</CardTitle>
+                      <Badge variant={overdue ? 'destructive' : 'secondary'}>
+                        {overdue ? 'Overdue' : 'Open'}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <p className="text-sm">{action.description}</p>
+                    <div className="flex items-center text-sm text-gray-600">
+                      <User className="h-4 w-4 mr-2" />
+                      Owner: {users.find(u => u.employeeId === action.owner)?.name || action.owner}
+                    </div>
+                    <div className={`flex items-center text-sm ${overdue ? 'text-red-600' : 'text-gray-600'}`}>
+                      <Calendar className="h-4 w-4 mr-2" />
+                      Due {new Date(`${action.dueDate}T00:00:00`).toLocaleDateString()}
+                    </div>
+                    {canCloseAction(action) && (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => {
+                          setClosingAction(action);
+                          setClosureNote('');
+                        }}
+                      >
+                        <CheckSquare className="h-4 w-4 mr-2" />
+                        Close Action
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!closingAction} onOpenChange={(open) => !open && setClosingAction(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Close Corrective Action</DialogTitle>
+            <DialogDescription>
+              Record the work done. Closing the action clears the device flag and schedules its next regular check.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {closingAction && (
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-sm">
+                  <strong>Device:</strong> {closingAction.deviceName || devices[closingAction.deviceId]?.name}
+                </p>
+                <p className="text-sm text-gray-600">{closingAction.description}</p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="closure-note">Closure Note</Label>
+              <Textarea
+                id="closure-note"
+                placeholder="Repairs made, parts replaced, verification performed..."
+                value={closureNote}
+                onChange={(e) => setClosureNote(e.target.value)}
+                rows={4}
+              />
+            </div>
+
+            <div className="flex gap-2 pt-4">
+              <Button
+                onClick={handleCloseAction}
+                disabled={isClosingAction || !closureNote.trim()}
+                className="flex-1"
+              >
+                {isClosingAction ? 'Closing...' : 'Close Action'}
+              </Button>
+              <Button variant="outline" onClick={() => setClosingAction(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {delayedChecks.length === 0 ? (
         <Card className="p-8 text-center">
           <div className="mx-auto w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mb-4">
@@ -638,6 +819,7 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
   function renderDelayedCheckCard(check: DeviceCheck & { daysOverdue: number }) {
     const device = devices[check.deviceId];
     if (!device) return null;
+    const template = getDeviceTemplate(device);
 
     return (
       <Card key={check.id} className="hover:shadow-md transition-shadow border-l-4 border-l-red-500">
@@ -690,13 +872,18 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
               <Button
                 variant="destructive"
                 className="w-full"
-                onClick={() => setSelectedCheck(check)}
+                onClick={() => {
+                  setSelectedCheck(check);
+                  setChecklistValues({});
+                  setOutcomeValues(emptyCheckOutcome);
+                  setEvidenceFiles([]);
+                }}
               >
                 <CheckSquare className="h-4 w-4 mr-2" />
                 Complete Now
               </Button>
             </DialogTrigger>
-            <DialogContent className="max-w-md">
+            <DialogContent className={template ? 'max-w-lg max-h-[90vh] overflow-y-auto' : 'max-w-md'}>
               <DialogHeader>
                 <DialogTitle>Complete Delayed Check</DialogTitle>
                 <DialogDescription>
@@ -726,6 +913,23 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
                   </p>
                 </div>
 
+                {template && (
+                  <ChecklistForm
+                    idPrefix="delayed-completion-checklist"
+                    template={template}
+                    values={checklistValues}
+                    onChange={setChecklistValues}
+                  />
+                )}
+
+                <CheckOutcomeForm
+                  idPrefix="delayed-completion"
+                  values={outcomeValues}
+                  users={users}
+                  hasFailedItems={!!template && Object.values(checklistValues).some(value => value.result === 'fail')}
+                  onChange={setOutcomeValues}
+                />
+
                 <div className="space-y-2">
                   <Label htmlFor="delayed-completion-comment">
                     Maintenance Comment (Required for delayed checks)
@@ -740,10 +944,22 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
                   />
                 </div>
 
+                <EvidencePicker
+                  id="delayed-completion-evidence"
+                  files={evidenceFiles}
+                  onChange={setEvidenceFiles}
+                  disabled={isCompleting}
+                />
+
                 <div className="flex gap-2 pt-4">
                   <Button
                     onClick={handleCompleteCheck}
-                    disabled={isCompleting || !comment.trim()}
+                    disabled={
+                      isCompleting ||
+                      !comment.trim() ||
+                      (!!template && !isChecklistComplete(template, checklistValues)) ||
+                      !isCheckOutcomeComplete(outcomeValues, comment)
+                    }
                     className="flex-1"
                     variant="destructive"
                   >
@@ -754,6 +970,9 @@ export function DelayedDevices({ user }: DelayedDevicesProps) {
                     onClick={() => {
                       setSelectedCheck(null);
                       setComment('');
+                      setChecklistValues({});
+                      setOutcomeValues(emptyCheckOutcome);
+                      setEvidenceFiles([]);
                     }}
                   >
                     Cancel
@@ -0,0 +1,434 @@
+import React, { useState } from 'react';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Plus, Pencil, Trash2, ArrowLeft } from 'lucide-react';
+import { toast } from "sonner";
+import { CustomFieldDefinition, CustomFieldType, CustomFieldValue, DeviceCategory } from '../App';
+
+const FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  boolean: 'Yes / no',
+  select: 'Choice'
+};
+
+// Radix Select items can't use an empty value, so an unanswered optional field gets a sentinel
+const NO_VALUE = 'none';
+
+export const formatCustomFieldValue = (field: CustomFieldDefinition, value: CustomFieldValue | undefined): string => {
+  if (value === undefined || value === '') return '—';
+  if (field.type === 'boolean') return value ? 'Yes' : 'No';
+  if (field.type === 'date') return new Date(String(value)).toLocaleDateString();
+  if (field.type === 'number' && field.unit) return `${value} ${field.unit}`;
+  return String(value);
+};
+
+interface CustomFieldInputsProps {
+  idPrefix: string;
+  fields: CustomFieldDefinition[];
+  values: Record<string, CustomFieldValue>;
+  // Keyed by field key, from server errors named customFields.<key>
+  errors?: Record<string, string | undefined>;
+  onChange: (key: string, value: CustomFieldValue) => void;
+}
+
+// Inputs for a category's custom fields. Numbers are kept as typed text; the server coerces them.
+export function CustomFieldInputs({ idPrefix, fields, values, errors = {}, onChange }: CustomFieldInputsProps) {
+  return (
+    <>
+      {fields.map(field => {
+        const id = `${idPrefix}-custom-${field.key}`;
+        const value = values[field.key];
+        const label = `${field.label}${field.unit ? ` (${field.unit})` : ''}${field.required ? '' : ' (Optional)'}`;
+
+        return (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={id}>{label}</Label>
+            {field.type === 'boolean' || field.type === 'select' ? (
+              <Select
+                value={value === undefined || value === '' ? NO_VALUE : String(value)}
+                onValueChange={(next) => onChange(field.key, next === NO_VALUE ? '' : field.type === 'boolean' ? next === 'true' : next)}
+              >
+                <SelectTrigger id={id}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_VALUE}>Not recorded</SelectItem>
+                  {field.type === 'boolean' ? (
+                    <>
+                      <SelectItem value="true">Yes</SelectItem>
+                      <SelectItem value="false">No</SelectItem>
+                    </>
+                  ) : (
+                    (field.options || []).map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))
+                  )}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={id}
+                type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+                step={field.type === 'number' ? 'any' : undefined}
+                value={value === undefined ? '' : String(value)}
+                onChange={(e) => onChange(field.key, e.target.value)}
+                aria-invalid={!!errors[field.key]}
+                required={field.required}
+              />
+            )}
+            {errors[field.key] && (
+              <p className="text-sm text-red-600">{errors[field.key]}</p>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
+// Field rows are edited with their options as one comma-separated string
+interface FieldDraft {
+  key?: string;
+  rowKey: number;
+  label: string;
+  type: CustomFieldType;
+  required: boolean;
+  options: string;
+  unit: string;
+}
+
+interface CategoryDraft {
+  id?: string;
+  name: string;
+  description: string;
+  // Minutes as typed; blank leaves the default check duration
+  estimatedMinutes: string;
+  fields: FieldDraft[];
+}
+
+interface DeviceCategoryManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  categories: DeviceCategory[];
+  onCategoriesChange: (categories: DeviceCategory[]) => void;
+}
+
+let nextRowKey = 0;
+
+const newFieldDraft = (): FieldDraft => ({ rowKey: nextRowKey++, label: '', type: 'text', required: false, options: '', unit: '' });
+
+const toDraft = (category: DeviceCategory): CategoryDraft => ({
+  id: category.id,
+  name: category.name,
+  description: category.description || '',
+  estimatedMinutes: category.estimatedMinutes ? String(category.estimatedMinutes) : '',
+  fields: category.fields.map(field => ({
+    key: field.key,
+    rowKey: nextRowKey++,
+    label: field.label,
+    type: field.type,
+    required: field.required,
+    options: (field.options || []).join(', '),
+    unit: field.unit || ''
+  }))
+});
+
+const toPayload = (draft: CategoryDraft) => ({
+  name: draft.name,
+  description: draft.description,
+  estimatedMinutes: draft.estimatedMinutes || null,
+  fields: draft.fields.map(field => ({
+    key: field.key,
+    label: field.label,
+    type: field.type,
+    required: field.required,
+    ...(field.type === 'select' ? { options: field.options.split(',').map(option => option.trim()).filter(Boolean) } : {}),
+    ...(field.type === 'number' ? { unit: field.unit } : {})
+  }))
+});
+
+export function DeviceCategoryManager({ open, onOpenChange, categories, onCategoriesChange }: DeviceCategoryManagerProps) {
+  const [draft, setDraft] = useState<CategoryDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setDraft(null);
+    onOpenChange(nextOpen);
+  };
+
+  const updateField = (rowKey: number, changes: Partial<FieldDraft>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      fields: prev.fields.map(field => (field.rowKey === rowKey ? { ...field, ...changes } : field))
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    if (!draft.name.trim() || draft.fields.some(field => !field.label.trim())) {
+      toast.error('A category needs a name and every field needs a label');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(
+        draft.id
+          ? `${functionsBase(projectId)}/device-categories/${draft.id}`
+          : `${functionsBase(projectId)}/device-categories`,
+        {
+          method: draft.id ? 'PUT' : 'POST',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify(toPayload(draft))
+        }
+      );
+
+      const result = await response.json();
+
+      if (response.ok) {
+        const saved: DeviceCategory = result.category;
+        const others = categories.filter(category => category.id !== saved.id);
+        onCategoriesChange([...others, saved].sort((a, b) => a.name.localeCompare(b.name)));
+        setDraft(null);
+        toast.success(draft.id ? 'Device category updated' : 'Device category created');
+      } else {
+        toast.error(result.error || 'Failed to save device category');
+      }
+    } catch (error) {
+      console.error('Error saving device category:', error);
+      toast.error('Failed to save device category');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: DeviceCategory) => {
+    try {
+      setDeletingId(category.id);
+      const response = await fetch(
+        `${functionsBase(projectId)}/device-categories/${category.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      if (response.ok) {
+        onCategoriesChange(categories.filter(c => c.id !== category.id));
+        toast.success('Device category deleted');
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to delete device category');
+      }
+    } catch (error) {
+      console.error('Error deleting device category:', error);
+      toast.error('Failed to delete device category');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{draft ? (draft.id ? 'Edit Device Category' : 'New Device Category') : 'Device Categories'}</DialogTitle>
+          <DialogDescription>
+            Categories define the extra fields recorded for their devices, such as serial number or expiry date.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Category Name</Label>
+              <Input
+                id="category-name"
+                placeholder="Fire extinguisher"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="category-description">Description (Optional)</Label>
+              <Textarea
+                id="category-description"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="category-duration">Estimated Check Duration (minutes, optional)</Label>
+              <Input
+                id="category-duration"
+                type="number"
+                min="1"
+                placeholder="30"
+                value={draft.estimatedMinutes}
+                onChange={(e) => setDraft({ ...draft, estimatedMinutes: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>Fields</Label>
+              {draft.fields.length === 0 && (
+                <p className="text-sm text-gray-500">No custom fields; devices in this category record only the standard details.</p>
+              )}
+              {draft.fields.map((field, index) => (
+                <div key={field.rowKey} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder={`Field ${index + 1}, e.g. Serial number`}
+                      value={field.label}
+                      onChange={(e) => updateField(field.rowKey, { label: e.target.value })}
+                      required
+                    />
+                    <Select
+                      value={field.type}
+                      onValueChange={(value) => updateField(field.rowKey, { type: value as CustomFieldType })}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => (
+                          <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700 h-9 w-9 p-0"
+                      onClick={() => setDraft({ ...draft, fields: draft.fields.filter(f => f.rowKey !== field.rowKey) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {field.type === 'select' && (
+                    <Input
+                      placeholder="Options, comma separated (e.g. Powder, CO2, Foam)"
+                      value={field.options}
+                      onChange={(e) => updateField(field.rowKey, { options: e.target.value })}
+                    />
+                  )}
+
+                  {field.type === 'number' && (
+                    <Input
+                      placeholder="Unit (e.g. kg)"
+                      value={field.unit}
+                      onChange={(e) => updateField(field.rowKey, { unit: e.target.value })}
+                    />
+                  )}
+
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`category-field-${field.rowKey}-required`}
+                      checked={field.required}
+                      onCheckedChange={(checked) => updateField(field.rowKey, { required: checked === true })}
+                    />
+                    <Label htmlFor={`category-field-${field.rowKey}-required`} className="text-sm">Required</Label>
+                  </div>
+                </div>
+              ))}
+
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, fields: [...draft.fields, newFieldDraft()] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Field
+              </Button>
+            </div>
+
+            <div className="flex gap-2 pt-4">
+              <Button type="submit" className="flex-1" disabled={saving}>
+                {saving ? 'Saving...' : 'Save Category'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setDraft(null)} disabled={saving}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            {categories.length === 0 ? (
+              <p className="text-sm text-gray-500">No device categories yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {categories.map(category => (
+                  <div key={category.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <p className="text-sm">{category.name}</p>
+                      <div className="flex flex-wrap items-center gap-2 mt-1">
+                        <Badge variant="outline">{category.fields.length} field{category.fields.length === 1 ? '' : 's'}</Badge>
+                        {category.estimatedMinutes && (
+                          <Badge variant="outline">{category.estimatedMinutes} min</Badge>
+                        )}
+                        {category.description && (
+                          <span className="text-xs text-gray-500">{category.description}</span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => setDraft(toDraft(category))}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700 h-8 w-8 p-0"
+                        onClick={() => handleDelete(category)}
+                        disabled={deletingId === category.id}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Button onClick={() => setDraft({ name: '', description: '', estimatedMinutes: '', fields: [newFieldDraft()] })}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Category
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
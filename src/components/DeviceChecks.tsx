@@ -1,26 +1,38 @@
 import { useState, useEffect } from 'react';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
 import { Button } from './ui/button';
 import { Textarea } from './ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Label } from './ui/label';
-import { CheckSquare, Clock, MapPin, Settings, MessageSquare } from 'lucide-react';
+import { CheckSquare, Clock, MapPin, Settings, MessageSquare, User } from 'lucide-react';
 import { toast } from "sonner";
-import { Device, DeviceCheck, AppUser } from '../App';
+import { Device, DeviceCheck, AppUser, ChecklistTemplate } from '../App';
+import { ChecklistForm, ChecklistFormValues, isChecklistComplete, toCheckResults } from './ChecklistForm';
+import { CheckOutcomeForm, CheckOutcomeValues, emptyCheckOutcome, isCheckOutcomeComplete, toCheckOutcomePayload } from './CheckOutcomeForm';
+import { EvidencePicker, uploadCheckEvidence } from './CheckEvidence';
 
 interface DeviceChecksProps {
   user: AppUser;
+  // Pending check from a scanned label; opened straight away even when it belongs to another week
+  scannedCheck?: DeviceCheck;
 }
 
-export function DeviceChecks({ user }: DeviceChecksProps) {
+export function DeviceChecks({ user, scannedCheck }: DeviceChecksProps) {
   const [pendingChecks, setPendingChecks] = useState<DeviceCheck[]>([]);
   const [devices, setDevices] = useState<{ [key: string]: Device }>({});
   const [loading, setLoading] = useState(true);
   const [selectedCheck, setSelectedCheck] = useState<DeviceCheck | null>(null);
   const [comment, setComment] = useState('');
+  const [templates, setTemplates] = useState<{ [key: string]: ChecklistTemplate }>({});
+  const [checklistValues, setChecklistValues] = useState<ChecklistFormValues>({});
+  const [outcomeValues, setOutcomeValues] = useState<CheckOutcomeValues>(emptyCheckOutcome);
+  const [evidenceFiles, setEvidenceFiles] = useState<File[]>([]);
+  const [users, setUsers] = useState<AppUser[]>([]);
   const [isCompleting, setIsCompleting] = useState(false);
+  const [view, setView] = useState<'all' | 'mine'>('all');
 
   useEffect(() => {
     fetchCurrentWeekChecks();
@@ -40,7 +52,7 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
         `https://${projectId}.supabase.co/functions/v1/make-server-354d5d14/weekly-plans/${currentYear}/${currentWeek}`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -51,7 +63,28 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
         `https://${projectId}.supabase.co/functions/v1/make-server-354d5d14/devices`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      const templatesResponse = await fetch(
+        `${functionsBase(projectId)}/checklist-templates`,
+        {
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      // Fetch users to pick a corrective action owner
+      const usersResponse = await fetch(
+        `${functionsBase(projectId)}/users`,
+        {
+          headers: {
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -59,7 +92,16 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
 
       if (checksResponse.ok) {
         const checks = await checksResponse.json();
-        setPendingChecks(checks.filter((check: DeviceCheck) => check.status === 'pending'));
+        const pending = checks.filter((check: DeviceCheck) => check.status === 'pending');
+        setPendingChecks(
+          scannedCheck && !pending.some((check: DeviceCheck) => check.id === scannedCheck.id)
+            ? [scannedCheck, ...pending]
+            : pending
+        );
+      }
+
+      if (scannedCheck) {
+        openCheck(scannedCheck);
       }
 
       if (devicesResponse.ok) {
@@ -71,6 +113,18 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
         setDevices(deviceMap);
       }
 
+      if (usersResponse.ok) {
+        setUsers(await usersResponse.json());
+      }
+
+      if (templatesResponse.ok) {
+        const templateList = await templatesResponse.json();
+        setTemplates(templateList.reduce((acc: { [key: string]: ChecklistTemplate }, template: ChecklistTemplate) => {
+          acc[template.id] = template;
+          return acc;
+        }, {}));
+      }
+
     } catch (error) {
       console.error('Error fetching device checks:', error);
       toast.error('Failed to fetch device checks');
@@ -87,23 +141,48 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
     return Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
   };
 
+  const openCheck = (check: DeviceCheck) => {
+    setSelectedCheck(check);
+    setComment('');
+    setChecklistValues({});
+    setOutcomeValues(emptyCheckOutcome);
+    setEvidenceFiles([]);
+  };
+
+  const closeCheck = () => {
+    setSelectedCheck(null);
+    setComment('');
+    setChecklistValues({});
+    setOutcomeValues(emptyCheckOutcome);
+    setEvidenceFiles([]);
+  };
+
+  const getDeviceTemplate = (device?: Device): ChecklistTemplate | undefined =>
+    device?.checklistTemplateId ? templates[device.checklistTemplateId] : undefined;
+
   const handleCompleteCheck = async () => {
     if (!selectedCheck) return;
+    const template = getDeviceTemplate(devices[selectedCheck.deviceId]);
 
     try {
       setIsCompleting(true);
+
+      // Attach evidence first so a failed upload leaves the check open; uploaded files are not resent on retry
+      if (!(await uploadCheckEvidence(selectedCheck.id, evidenceFiles))) return;
+      setEvidenceFiles([]);
       
       const response = await fetch(
         `https://${projectId}.supabase.co/functions/v1/make-server-354d5d14/checks/${selectedCheck.id}/complete`,
         {
           method: 'PUT',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({
-            completedBy: user.employeeId,
-            comment: comment.trim()
+            comment: comment.trim(),
+            results: template ? toCheckResults(template, checklistValues) : undefined,
+            ...toCheckOutcomePayload(outcomeValues)
           })
         }
       );
@@ -112,15 +191,16 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
         const result = await response.json();
         
         // Show success message with next check information
-        if (result.nextCheckScheduled) {
-          const nextCheckDate = new Date(result.nextCheckScheduled.scheduledFor);
-          toast.success(`Device check completed! Next check automatically scheduled for week ${result.nextCheckScheduled.week}, ${nextCheckDate.getFullYear()} (${nextCheckDate.toLocaleDateString()})`);
+        if (result.correctiveAction) {
+          toast.warning(`Check recorded as failed. Corrective action assigned to ${result.correctiveAction.owner}, due ${new Date(result.correctiveAction.dueDate).toLocaleDateString()}`);
+        } else if (result.nextCheckScheduled) {
+          const { week, year, dueDate, scheduledFor } = result.nextCheckScheduled;
+          toast.success(`Device check completed! Next check automatically scheduled for week ${week}, ${year} (due ${new Date(dueDate || scheduledFor).toLocaleDateString()})`);
         } else {
           toast.success('Device check completed successfully');
         }
         
-        setSelectedCheck(null);
-        setComment('');
+        closeCheck();
         // Remove the completed check from pending list
         setPendingChecks(prev => prev.filter(check => check.id !== selectedCheck.id));
       } else {
@@ -163,6 +243,13 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
     );
   }
 
+  // A scanned check stays listed so its dialog can open whichever view is selected
+  const myChecks = pendingChecks.filter(check => check.assignedTo === user.employeeId || check.id === scannedCheck?.id);
+  const visibleChecks = view === 'mine' ? myChecks : pendingChecks;
+
+  const getUserName = (employeeId: string) =>
+    users.find(candidate => candidate.employeeId === employeeId)?.name || employeeId;
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
@@ -170,12 +257,25 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
           <h1 className="text-2xl">Device Checks</h1>
           <p className="text-gray-600">Week {getWeekNumber(new Date())} - {getCurrentWeekRange()}</p>
         </div>
-        <Badge variant="outline">
-          {pendingChecks.length} pending checks
-        </Badge>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant={view === 'all' ? 'default' : 'outline'} onClick={() => setView('all')}>
+            All checks ({pendingChecks.length})
+          </Button>
+          <Button size="sm" variant={view === 'mine' ? 'default' : 'outline'} onClick={() => setView('mine')}>
+            <User className="h-4 w-4 mr-1" />
+            My checks ({myChecks.length})
+          </Button>
+        </div>
       </div>
 
-      {pendingChecks.length === 0 ? (
+      {visibleChecks.length === 0 && view === 'mine' && pendingChecks.length > 0 ? (
+        <Card className="p-8 text-center">
+          <h3 className="text-lg mb-2">No checks assigned to you</h3>
+          <p className="text-gray-600">
+            {pendingChecks.length} pending checks this week are assigned to other inspectors or not assigned yet.
+          </p>
+        </Card>
+      ) : visibleChecks.length === 0 ? (
         <Card className="p-8 text-center">
           <div className="mx-auto w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mb-4">
             <CheckSquare className="h-8 w-8 text-green-600" />
@@ -187,9 +287,10 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {pendingChecks.map((check) => {
+          {visibleChecks.map((check) => {
             const device = devices[check.deviceId];
             if (!device) return null;
+            const template = getDeviceTemplate(device);
 
             return (
               <Card key={check.id} className="hover:shadow-md transition-shadow">
@@ -222,6 +323,13 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
                     </div>
                   )}
                   
+                  <div className="flex items-center text-sm text-gray-600">
+                    <User className="h-4 w-4 mr-2" />
+                    {check.assignedTo
+                      ? (check.assignedTo === user.employeeId ? 'Assigned to you' : `Assigned to ${getUserName(check.assignedTo)}`)
+                      : 'No inspector assigned'}
+                  </div>
+
                   <div className="pt-2 border-t border-gray-100">
                     <p className="text-xs text-gray-500">
                       Assigned: {new Date(check.assignedAt).toLocaleDateString()}
@@ -231,17 +339,17 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
                     </p>
                   </div>
                   
-                  <Dialog>
+                  <Dialog
+                    open={selectedCheck?.id === check.id}
+                    onOpenChange={(open) => (open ? openCheck(check) : closeCheck())}
+                  >
                     <DialogTrigger asChild>
-                      <Button 
-                        className="w-full"
-                        onClick={() => setSelectedCheck(check)}
-                      >
+                      <Button className="w-full">
                         <CheckSquare className="h-4 w-4 mr-2" />
                         Mark as Checked
                       </Button>
                     </DialogTrigger>
-                    <DialogContent className="max-w-md">
+                    <DialogContent className={template ? 'max-w-lg max-h-[90vh] overflow-y-auto' : 'max-w-md'}>
                       <DialogHeader>
                         <DialogTitle>Complete Device Check</DialogTitle>
                         <DialogDescription>
@@ -261,6 +369,23 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
                             <strong>Location:</strong> {device.location}
                           </p>
                         </div>
+
+                        {template && (
+                          <ChecklistForm
+                            idPrefix="completion-checklist"
+                            template={template}
+                            values={checklistValues}
+                            onChange={setChecklistValues}
+                          />
+                        )}
+
+                        <CheckOutcomeForm
+                          idPrefix="completion"
+                          values={outcomeValues}
+                          users={users}
+                          hasFailedItems={!!template && Object.values(checklistValues).some(value => value.result === 'fail')}
+                          onChange={setOutcomeValues}
+                        />
                         
                         <div className="space-y-2">
                           <Label htmlFor="completion-comment">
@@ -274,21 +399,29 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
                             rows={4}
                           />
                         </div>
+
+                        <EvidencePicker
+                          id="completion-evidence"
+                          files={evidenceFiles}
+                          onChange={setEvidenceFiles}
+                          disabled={isCompleting}
+                        />
                         
                         <div className="flex gap-2 pt-4">
                           <Button 
                             onClick={handleCompleteCheck}
-                            disabled={isCompleting}
+                            disabled={
+                              isCompleting ||
+                              (!!template && !isChecklistComplete(template, checklistValues)) ||
+                              !isCheckOutcomeComplete(outcomeValues, comment)
+                            }
                             className="flex-1"
                           >
                             {isCompleting ? 'Completing...' : 'Complete Check'}
                           </Button>
                           <Button 
                             variant="outline"
-                            onClick={() => {
-                              setSelectedCheck(null);
-                              setComment('');
-                            }}
+                            onClick={closeCheck}
                           >
                             Cancel
                           </Button>
@@ -313,6 +446,8 @@ export function DeviceChecks({ user }: DeviceChecksProps) {
               <ul className="text-sm text-blue-700 space-y-1">
                 <li>• Physically inspect each device for proper operation</li>
                 <li>• Follow any specific maintenance notes provided</li>
+                <li>• Record pass, fail or N/A for every checklist item, with measured values where asked</li>
+                <li>• A failed check needs a corrective action with an owner and due date</li>
                 <li>• Click "Mark as Checked" when inspection is complete</li>
                 <li>• Add any observations or maintenance performed in the comment</li>
                 <li>• Completed checks will be recorded with your employee ID and timestamp</li>
@@ -0,0 +1,227 @@
+import { useState, useEffect } from 'react';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { ArrowLeft, Plus, Calendar, CheckCircle, AlertTriangle, Clock, Repeat, Wrench, FileText, PenTool, MapPin, Settings, Power, Ban } from 'lucide-react';
+import { toast } from "sonner";
+import { DeviceHistory as DeviceHistoryData, DeviceHistoryEvent, DeviceHistoryEventType, DeviceStatus } from '../App';
+import { EvidenceButton, EvidenceGallery } from './CheckEvidence';
+import { DeviceStatusBadge, DEVICE_STATUS_LABELS } from './DeviceStatusDialog';
+import { describeRecurrence, getDeviceRecurrence } from '../supabase/functions/server/schedule';
+
+interface DeviceHistoryProps {
+  deviceId: string;
+  onBack: () => void;
+}
+
+const EVENT_STYLES: Record<DeviceHistoryEventType, { label: string; icon: typeof Plus; className: string }> = {
+  created: { label: 'Device registered', icon: Plus, className: 'bg-gray-100 text-gray-700' },
+  frequency_changed: { label: 'Check frequency changed', icon: Repeat, className: 'bg-purple-100 text-purple-700' },
+  status_changed: { label: 'Status changed', icon: Power, className: 'bg-yellow-100 text-yellow-700' },
+  check_planned: { label: 'Check planned', icon: Calendar, className: 'bg-blue-100 text-blue-700' },
+  check_completed: { label: 'Check completed', icon: CheckCircle, className: 'bg-green-100 text-green-700' },
+  check_missed: { label: 'Check missed', icon: Clock, className: 'bg-red-100 text-red-700' },
+  check_cancelled: { label: 'Check cancelled', icon: Ban, className: 'bg-gray-100 text-gray-700' },
+  corrective_action_opened: { label: 'Corrective action opened', icon: AlertTriangle, className: 'bg-orange-100 text-orange-700' },
+  corrective_action_closed: { label: 'Corrective action closed', icon: Wrench, className: 'bg-green-100 text-green-700' },
+  document_uploaded: { label: 'Document linked', icon: FileText, className: 'bg-gray-100 text-gray-700' },
+  document_signed: { label: 'Document signed', icon: PenTool, className: 'bg-gray-100 text-gray-700' }
+};
+
+const OUTCOME_LABELS: Record<string, string> = {
+  passed: 'Passed',
+  passed_with_remarks: 'Passed with remarks',
+  failed: 'Failed'
+};
+
+const weeks = (count?: number) => `${count} week${count === 1 ? '' : 's'}`;
+
+export function DeviceHistory({ deviceId, onBack }: DeviceHistoryProps) {
+  const [history, setHistory] = useState<DeviceHistoryData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [evidenceCheckId, setEvidenceCheckId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [deviceId]);
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(
+        `${functionsBase(projectId)}/devices/${deviceId}/history`,
+        {
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      if (response.ok) {
+        setHistory(await response.json());
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to load device history');
+      }
+    } catch (error) {
+      console.error('Error fetching device history:', error);
+      toast.error('Failed to load device history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderDetails = (event: DeviceHistoryEvent) => {
+    switch (event.type) {
+      case 'frequency_changed':
+        return event.fromRecurrence && event.toRecurrence
+          ? <p>{describeRecurrence(event.fromRecurrence)} → {describeRecurrence(event.toRecurrence)}</p>
+          : <p>From every {weeks(event.from as number)} to every {weeks(event.to as number)}</p>;
+      case 'status_changed':
+        return (
+          <p>
+            {DEVICE_STATUS_LABELS[event.from as DeviceStatus]} → {DEVICE_STATUS_LABELS[event.to as DeviceStatus]}
+            {event.reason ? ` • ${event.reason}` : ''}
+          </p>
+        );
+      case 'check_cancelled':
+        return <p>Week {event.week}, {event.year}{event.reason ? ` • ${event.reason}` : ''}</p>;
+      case 'check_planned':
+        return <p>Week {event.week}, {event.year} (due {new Date(event.scheduledDate!).toLocaleDateString()})</p>;
+      case 'check_completed':
+        return (
+          <div className="space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <span>Week {event.week}, {event.year}</span>
+              {event.outcome && (
+                <Badge variant={event.outcome === 'failed' ? 'destructive' : 'secondary'}>
+                  {OUTCOME_LABELS[event.outcome] || event.outcome}
+                </Badge>
+              )}
+              {event.late && <Badge variant="outline" className="text-orange-700">Completed late</Badge>}
+              <EvidenceButton count={event.evidenceCount || 0} onClick={() => setEvidenceCheckId(event.checkId!)} />
+            </div>
+            {event.comment && <p className="text-gray-600">"{event.comment}"</p>}
+          </div>
+        );
+      case 'check_missed':
+        return <p>Week {event.week}, {event.year} • {event.daysOverdue} day{event.daysOverdue === 1 ? '' : 's'} overdue</p>;
+      case 'corrective_action_opened':
+        return <p>{event.description} • owner {event.owner}, due {new Date(event.dueDate!).toLocaleDateString()}</p>;
+      case 'corrective_action_closed':
+        return <p>{event.description}{event.closureNote ? ` • ${event.closureNote}` : ''}</p>;
+      case 'document_uploaded':
+        return <p>{event.fileName} • assigned to {event.assignedTo} for signature</p>;
+      case 'document_signed':
+        return <p>{event.fileName}</p>;
+      default:
+        return null;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-48 mb-6"></div>
+          <div className="space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded-lg"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!history) {
+    return (
+      <div className="space-y-6">
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Devices
+        </Button>
+      </div>
+    );
+  }
+
+  const { device, events, summary } = history;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl">{device.name}</h1>
+            <DeviceStatusBadge status={device.status} />
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 mt-1">
+            <span className="flex items-center"><Settings className="h-4 w-4 mr-1" />{device.identificationNumber}</span>
+            <span className="flex items-center"><MapPin className="h-4 w-4 mr-1" />{device.location}</span>
+            <span>{describeRecurrence(getDeviceRecurrence(device))}</span>
+          </div>
+        </div>
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Devices
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[
+          { label: 'Completed', value: summary.checksCompleted },
+          { label: 'Pending', value: summary.checksPending },
+          { label: 'Missed', value: summary.checksMissed },
+          { label: 'Open Actions', value: summary.openCorrectiveActions },
+          { label: 'Documents', value: summary.documents }
+        ].map(stat => (
+          <Card key={stat.label}>
+            <CardContent className="p-4">
+              <p className="text-sm text-gray-600 mb-1">{stat.label}</p>
+              <p className="text-2xl">{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Timeline</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ol className="space-y-4">
+            {events.map((event, index) => {
+              const style = EVENT_STYLES[event.type];
+              const Icon = style.icon;
+              return (
+                <li key={`${event.type}-${event.at}-${index}`} className="flex gap-3">
+                  <div className={`p-2 rounded-full h-fit ${style.className}`}>
+                    <Icon className="h-4 w-4" />
+                  </div>
+                  <div className="flex-1 text-sm">
+                    <div className="flex flex-wrap items-baseline justify-between gap-2">
+                      <p>{style.label}</p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(event.at).toLocaleString()}
+                        {event.by ? ` • ${event.by}` : ''}
+                      </p>
+                    </div>
+                    <div className="text-gray-700 mt-1">{renderDetails(event)}</div>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </CardContent>
+      </Card>
+
+      <EvidenceGallery
+        checkId={evidenceCheckId}
+        onOpenChange={(open) => !open && setEvidenceCheckId(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+import React, { useState, useEffect } from 'react';
+import * as XLSX from 'xlsx';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Upload, CheckCircle, AlertCircle } from 'lucide-react';
+import { toast } from "sonner";
+import { Device } from '../App';
+
+type ImportField = 'name' | 'identificationNumber' | 'location' | 'plannedFrequency' | 'planComment';
+
+const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'name', label: 'Device Name', required: true, aliases: ['name', 'devicename', 'device'] },
+  { field: 'identificationNumber', label: 'Identification Number', required: true, aliases: ['identificationnumber', 'identification', 'id', 'deviceid', 'serial', 'serialnumber'] },
+  { field: 'location', label: 'Location', required: true, aliases: ['location', 'site', 'area'] },
+  { field: 'plannedFrequency', label: 'Check Frequency (weeks)', required: false, aliases: ['plannedfrequency', 'frequency', 'checkfrequency', 'frequencyweeks'] },
+  { field: 'planComment', label: 'Plan Comment', required: false, aliases: ['plancomment', 'comment', 'comments', 'notes'] }
+];
+
+const NOT_MAPPED = '-1';
+
+type ColumnMapping = Record<ImportField, number>;
+
+interface PreviewRow {
+  line: number;
+  device: Pick<Device, ImportField>;
+  errors: string[];
+}
+
+interface DeviceImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (devices: Device[]) => void;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Pick the first column whose header matches one of the field's aliases
+const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  return IMPORT_FIELDS.reduce((mapping, { field, aliases }) => {
+    mapping[field] = normalized.findIndex(header => aliases.includes(header));
+    return mapping;
+  }, {} as ColumnMapping);
+};
+
+// Build the row-by-row preview with the same rules the batch endpoint enforces
+const buildPreview = (rows: string[][], mapping: ColumnMapping, existingDevices: Device[]): PreviewRow[] => {
+  const existingIds = new Set(existingDevices.map(device => device.identificationNumber.trim().toLowerCase()));
+  const seenIds = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const cell = (field: ImportField) => (mapping[field] >= 0 ? String(row[mapping[field]] ?? '').trim() : '');
+    const errors: string[] = [];
+
+    const frequencyText = cell('plannedFrequency');
+    const frequency = frequencyText === '' ? 1 : Number(frequencyText);
+
+    const device = {
+      name: cell('name'),
+      identificationNumber: cell('identificationNumber'),
+      location: cell('location'),
+      plannedFrequency: frequency,
+      planComment: cell('planComment')
+    };
+
+    if (!device.name) errors.push('Missing name');
+    if (!device.location) errors.push('Missing location');
+    if (!Number.isInteger(frequency) || frequency < 1) {
+      errors.push(`Invalid frequency "${frequencyText}"`);
+    }
+
+    const identifier = device.identificationNumber.toLowerCase();
+    if (!identifier) {
+      errors.push('Missing identification number');
+    } else if (existingIds.has(identifier)) {
+      errors.push('Identification number already exists');
+    } else if (seenIds.has(identifier)) {
+      errors.push(`Duplicate of line ${seenIds.get(identifier)}`);
+    }
+
+    // Line numbers match the spreadsheet: header is line 1
+    const line = index + 2;
+    if (identifier && !seenIds.has(identifier)) seenIds.set(identifier, line);
+
+    return { line, device, errors };
+  });
+};
+
+export function DeviceImportDialog({ open, onOpenChange, onImported }: DeviceImportDialogProps) {
+  const [existingDevices, setExistingDevices] = useState<Device[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [serverErrors, setServerErrors] = useState<Record<number, string>>({});
+  const [parsing, setParsing] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  // The device list is paged, so load every identification number for the duplicate preview
+  useEffect(() => {
+    if (open) fetchExistingDevices();
+  }, [open]);
+
+  const fetchExistingDevices = async () => {
+    try {
+      const response = await fetch(
+        `${functionsBase(projectId)}/devices`,
+        {
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      if (response.ok) {
+        setExistingDevices(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching existing devices:', error);
+    }
+  };
+
+  const reset = () => {
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping(null);
+    setServerErrors({});
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setParsing(true);
+      // SheetJS reads both CSV and XLSX; only the first sheet is imported
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      const table = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, defval: '', raw: false, blankrows: false });
+
+      if (table.length < 2) {
+        toast.error('The file needs a header row and at least one device row');
+        return;
+      }
+
+      const headerRow = table[0].map(header => String(header).trim());
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setRows(table.slice(1));
+      setMapping(guessMapping(headerRow));
+      setServerErrors({});
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error('Could not read the file. Upload a CSV or XLSX spreadsheet.');
+    } finally {
+      setParsing(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => (prev ? { ...prev, [field]: parseInt(value) } : prev));
+    setServerErrors({});
+  };
+
+  const missingRequired = mapping ? IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] < 0) : [];
+  const preview = mapping && missingRequired.length === 0 ? buildPreview(rows, mapping, existingDevices) : [];
+  const validRows = preview.filter(row => row.errors.length === 0);
+  const invalidCount = preview.length - validRows.length;
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+
+    try {
+      setImporting(true);
+      const response = await fetch(
+        `${functionsBase(projectId)}/devices/batch`,
+        {
+          method: 'POST',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ devices: validRows.map(row => row.device) })
+        }
+      );
+
+      const result = await response.json();
+
+      if (response.ok) {
+        toast.success(`Imported ${result.devices.length} devices`);
+        onImported(result.devices);
+        handleOpenChange(false);
+      } else {
+        // Server row indexes refer to the submitted rows; map them back to spreadsheet lines
+        const errorsByLine: Record<number, string> = {};
+        for (const rowError of result.rowErrors || []) {
+          const row = validRows[rowError.row];
+          if (row) errorsByLine[row.line] = rowError.error;
+        }
+        setServerErrors(errorsByLine);
+        toast.error(result.error || 'Failed to import devices');
+      }
+    } catch (error) {
+      console.error('Error importing devices:', error);
+      toast.error('Failed to import devices');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Devices</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file with one device per row. The first row must contain column headers.
+            Locations must already exist, written as a path such as "Main Site / Workshop / Bay 1" or a unique location name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="device-import-file">Spreadsheet</Label>
+            <Input
+              id="device-import-file"
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={handleFileChange}
+              disabled={parsing || importing}
+            />
+            {fileName && (
+              <p className="text-sm text-gray-500">{fileName}: {rows.length} rows</p>
+            )}
+          </div>
+
+          {mapping && (
+            <div className="space-y-3">
+              <h3 className="text-sm">Column mapping</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-1">
+                    <Label>{label}{required ? ' *' : ''}</Label>
+                    <Select
+                      value={String(mapping[field])}
+                      onValueChange={(value) => handleMappingChange(field, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>
+                          {field === 'plannedFrequency' ? 'Not mapped (defaults to 1 week)' : 'Not mapped'}
+                        </SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-red-600">
+                  Map the required columns to see a preview: {missingRequired.map(({ label }) => label).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          {preview.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-3 text-sm">
+                <Badge className="bg-green-100 text-green-800">{validRows.length} ready</Badge>
+                {invalidCount > 0 && (
+                  <Badge variant="destructive">{invalidCount} with errors (skipped)</Badge>
+                )}
+              </div>
+
+              <div className="border rounded-md max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>ID</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Frequency</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.map(row => {
+                      const errors = serverErrors[row.line] ? [...row.errors, serverErrors[row.line]] : row.errors;
+                      return (
+                        <TableRow key={row.line} className={errors.length > 0 ? 'bg-red-50' : undefined}>
+                          <TableCell>{row.line}</TableCell>
+                          <TableCell>{row.device.name}</TableCell>
+                          <TableCell>{row.device.identificationNumber}</TableCell>
+                          <TableCell>{row.device.location}</TableCell>
+                          <TableCell>{Number.isFinite(row.device.plannedFrequency) ? row.device.plannedFrequency : '—'}</TableCell>
+                          <TableCell>
+                            {errors.length === 0 ? (
+                              <span className="flex items-center text-green-700">
+                                <CheckCircle className="h-4 w-4 mr-1" />
+                                Ready
+                              </span>
+                            ) : (
+                              <span className="flex items-start text-red-700 whitespace-normal">
+                                <AlertCircle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                                {errors.join('; ')}
+                              </span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              className="flex-1"
+              onClick={handleImport}
+              disabled={importing || validRows.length === 0}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {importing ? 'Importing...' : `Import ${validRows.length} Device${validRows.length === 1 ? '' : 's'}`}
+            </Button>
+            <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={importing}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
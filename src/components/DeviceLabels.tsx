@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { ArrowLeft, Printer, QrCode } from 'lucide-react';
+import { toast } from "sonner";
+import { Device } from '../App';
+
+// Labels encode a link to the SPA's scan route, so any phone camera opens the check directly.
+// The device id is used rather than the identification number because it never changes.
+export const getScanUrl = (device: Pick<Device, 'id'>) =>
+  `${window.location.origin}/scan/${encodeURIComponent(device.id)}`;
+
+// Code from a /scan/<code> path, or null when the app was opened normally
+export const getScanCode = (pathname: string = window.location.pathname): string | null => {
+  const match = pathname.match(/^\/scan\/([^/]+)\/?$/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+interface LabelledDevice {
+  device: Device;
+  qrDataUrl: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+// Printing from a separate window keeps the app's navigation and toasts off the sheet
+const printLabels = (labels: LabelledDevice[]) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    toast.error('Allow pop-ups to print labels');
+    return;
+  }
+
+  const cells = labels.map(({ device, qrDataUrl }) => `
+    <div class="label">
+      <img src="${qrDataUrl}" alt="" />
+      <div>
+        <strong>${escapeHtml(device.name)}</strong>
+        <span>${escapeHtml(device.identificationNumber)}</span>
+        <span>${escapeHtml(device.location || '')}</span>
+      </div>
+    </div>`).join('');
+
+  printWindow.document.write(`<!doctype html>
+<html>
+  <head>
+    <title>Device labels</title>
+    <style>
+      @page { size: A4; margin: 10mm; }
+      body { font-family: sans-serif; margin: 0; }
+      .sheet { display: grid; grid-template-columns: repeat(3, 1fr); gap: 4mm; }
+      .label { display: flex; align-items: center; gap: 3mm; border: 1px dashed #999; padding: 3mm; break-inside: avoid; }
+      .label img { width: 28mm; height: 28mm; }
+      .label div { display: flex; flex-direction: column; font-size: 9pt; gap: 1mm; overflow-wrap: anywhere; }
+      .label strong { font-size: 10pt; }
+    </style>
+  </head>
+  <body>
+    <div class="sheet">${cells}</div>
+  </body>
+</html>`);
+  printWindow.document.close();
+  // Wait for the QR images to decode before opening the print dialog
+  printWindow.onload = () => printWindow.print();
+};
+
+interface DeviceLabelSheetProps {
+  // The device list filters in effect when the sheet was opened
+  params: Record<string, string | undefined>;
+  onBack: () => void;
+}
+
+export function DeviceLabelSheet({ params, onBack }: DeviceLabelSheetProps) {
+  const [labels, setLabels] = useState<LabelledDevice[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchLabels();
+  }, [JSON.stringify(params)]);
+
+  const fetchLabels = async () => {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value) query.set(key, value);
+    });
+
+    try {
+      setLoading(true);
+      const response = await fetch(
+        `${functionsBase(projectId)}/devices?${query}`,
+        {
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      if (response.ok) {
+        const devices: Device[] = await response.json();
+        setLabels(await Promise.all(devices.map(async device => ({
+          device,
+          qrDataUrl: await QRCode.toDataURL(getScanUrl(device), { margin: 1, width: 256 })
+        }))));
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to load devices for labels');
+      }
+    } catch (error) {
+      console.error('Error generating device labels:', error);
+      toast.error('Failed to generate device labels');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to devices
+          </Button>
+          <h1 className="text-2xl">Device Labels</h1>
+          <p className="text-gray-600">Scanning a label opens the device's pending check, or its history when nothing is due.</p>
+        </div>
+
+        <Button onClick={() => printLabels(labels)} disabled={loading || labels.length === 0}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print {labels.length} Label{labels.length === 1 ? '' : 's'}
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[...Array(6)].map((_, i) => (
+            <div key={i} className="h-32 bg-gray-200 rounded-lg"></div>
+          ))}
+        </div>
+      ) : labels.length === 0 ? (
+        <Card className="p-8 text-center">
+          <QrCode className="h-8 w-8 mx-auto mb-4 text-gray-400" />
+          <p className="text-gray-600">No devices match the current filters.</p>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {labels.map(({ device, qrDataUrl }) => (
+            <div key={device.id} className="flex items-center gap-4 p-3 border border-dashed rounded-lg bg-white">
+              <img src={qrDataUrl} alt={`QR code for ${device.name}`} className="h-24 w-24" />
+              <div className="min-w-0">
+                <p className="truncate">{device.name}</p>
+                <p className="text-sm text-gray-600">{device.identificationNumber}</p>
+                <p className="text-xs text-gray-500 truncate">{device.location}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -8,127 +9,402 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from './ui/alert-dialog';
-import { Plus, Settings, MapPin, Search, CheckCircle, AlertCircle, Calendar, Trash2 } from 'lucide-react';
+import { Plus, Settings, MapPin, Search, CheckCircle, AlertCircle, Calendar, Trash2, Pencil, Upload, ClipboardList, History, Building2, Power, QrCode, Tags } from 'lucide-react';
 import { toast } from "sonner";
-import { Device } from '../App';
+import { AppUser, Device, DeviceStatus, DeviceCategory, CustomFieldValue, ChecklistTemplate, Location } from '../App';
+import { DeviceImportDialog } from './DeviceImportDialog';
+import { ChecklistTemplateManager } from './ChecklistTemplateManager';
+import { LocationManager, LocationSelect, ALL_LOCATIONS } from './LocationManager';
+import { DeviceStatusDialog, DeviceStatusBadge, DEVICE_STATUS_LABELS, canChangeStatus } from './DeviceStatusDialog';
+import { DeviceHistory } from './DeviceHistory';
+import { DeviceLabelSheet } from './DeviceLabels';
+import { DeviceCategoryManager, CustomFieldInputs, formatCustomFieldValue } from './DeviceCategoryManager';
+import { ListPagination, usePagedList } from './ListPagination';
+import { RecurrenceFields } from './RecurrenceFields';
+import { RecurrenceRule, getDeviceRecurrence, describeRecurrence } from '../supabase/functions/server/schedule';
 
 interface DeviceWithCheckInfo extends Device {
   lastCheckedAt?: string;
   lastCheckedBy?: string;
   hasBeenChecked?: boolean;
   totalChecksCompleted?: number;
+  nextDue?: {
+    checkId: string;
+    week: string;
+    year: string;
+    scheduledDate: string;
+    overdue: boolean;
+  } | null;
 }
 
-export function DeviceManagement() {
-  const [devices, setDevices] = useState<DeviceWithCheckInfo[]>([]);
-  const [filteredDevices, setFilteredDevices] = useState<DeviceWithCheckInfo[]>([]);
-  const [loading, setLoading] = useState(true);
+type DeviceFormData = Pick<Device, 'name' | 'identificationNumber' | 'planComment' | 'checklistTemplateId'> & {
+  locationId: string;
+  recurrence: RecurrenceRule;
+  // Kept as typed; blank means "use the category's estimate"
+  estimatedMinutes: string;
+  categoryId: string;
+  customFields: Record<string, CustomFieldValue>;
+};
+
+const emptyDeviceForm: DeviceFormData = {
+  name: '',
+  identificationNumber: '',
+  locationId: '',
+  recurrence: { unit: 'week', interval: 1, anchor: 'due' },
+  estimatedMinutes: '',
+  planComment: '',
+  checklistTemplateId: '',
+  categoryId: '',
+  customFields: {}
+};
+
+type DeviceSortKey = 'name' | 'location' | 'plannedFrequency' | 'createdAt';
+
+const SORT_OPTIONS: { value: DeviceSortKey; label: string }[] = [
+  { value: 'name', label: 'Name' },
+  { value: 'location', label: 'Location' },
+  { value: 'plannedFrequency', label: 'Check frequency' },
+  { value: 'createdAt', label: 'Newest first' }
+];
+
+// Newest first is the only descending sort
+const SORT_ORDERS: Record<DeviceSortKey, 'asc' | 'desc'> = {
+  name: 'asc',
+  location: 'asc',
+  plannedFrequency: 'asc',
+  createdAt: 'desc'
+};
+
+// Radix Select items can't use an empty value, so "no checklist", "no category" and the "any" filters get sentinels
+const NO_TEMPLATE = 'none';
+const NO_CATEGORY = 'none';
+const ALL_STATUSES = 'all';
+const ALL_CATEGORIES = 'all';
+
+// Custom field errors arrive from the server as customFields.<key>
+type DeviceFormErrors = Partial<Record<keyof DeviceFormData | `customFields.${string}`, string>>;
+
+type DeviceFormField = Exclude<keyof DeviceFormData, 'customFields' | 'recurrence'>;
+
+interface DeviceFormProps {
+  idPrefix: string;
+  values: DeviceFormData;
+  errors?: DeviceFormErrors;
+  templates: ChecklistTemplate[];
+  categories: DeviceCategory[];
+  locations: Location[];
+  // Free-text location of a device created before the location tree, shown until one is picked
+  legacyLocation?: string;
+  submitting: boolean;
+  submitLabel: string;
+  submittingLabel: string;
+  onChange: (field: DeviceFormField, value: string | number) => void;
+  onRecurrenceChange: (rule: RecurrenceRule) => void;
+  onCustomFieldChange: (key: string, value: CustomFieldValue) => void;
+  onSubmit: (e: React.FormEvent) => void;
+  onCancel: () => void;
+}
+
+// Form body shared by the add and edit device dialogs
+function DeviceForm({ idPrefix, values, errors = {}, templates, categories, locations, legacyLocation, submitting, submitLabel, submittingLabel, onChange, onRecurrenceChange, onCustomFieldChange, onSubmit, onCancel }: DeviceFormProps) {
+  const category = categories.find(candidate => candidate.id === values.categoryId);
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-name`}>Device Name</Label>
+        <Input
+          id={`${idPrefix}-name`}
+          placeholder="Conveyor Belt A1"
+          value={values.name}
+          onChange={(e) => onChange('name', e.target.value)}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-id`}>Identification Number</Label>
+        <Input
+          id={`${idPrefix}-id`}
+          placeholder="CB-A1-001"
+          value={values.identificationNumber}
+          onChange={(e) => onChange('identificationNumber', e.target.value)}
+          aria-invalid={!!errors.identificationNumber}
+          aria-describedby={errors.identificationNumber ? `${idPrefix}-id-error` : undefined}
+          required
+        />
+        {errors.identificationNumber && (
+          <p id={`${idPrefix}-id-error`} className="text-sm text-red-600">{errors.identificationNumber}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-location`}>Location</Label>
+        <LocationSelect
+          id={`${idPrefix}-location`}
+          locations={locations}
+          value={values.locationId}
+          onChange={(locationId) => onChange('locationId', locationId)}
+          placeholder={locations.length === 0 ? 'Add locations first' : 'Select a location'}
+        />
+        {legacyLocation && !values.locationId && (
+          <p className="text-sm text-gray-600">Currently recorded as "{legacyLocation}"</p>
+        )}
+        {errors.locationId && (
+          <p className="text-sm text-red-600">{errors.locationId}</p>
+        )}
+      </div>
+
+      <RecurrenceFields idPrefix={idPrefix} value={values.recurrence} onChange={onRecurrenceChange} />
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-duration`}>Estimated Check Duration (minutes, optional)</Label>
+        <Input
+          id={`${idPrefix}-duration`}
+          type="number"
+          min="1"
+          placeholder={category?.estimatedMinutes ? `${category.estimatedMinutes} (category default)` : '30'}
+          value={values.estimatedMinutes}
+          onChange={(e) => onChange('estimatedMinutes', e.target.value)}
+        />
+        {errors.estimatedMinutes && (
+          <p className="text-sm text-red-600">{errors.estimatedMinutes}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-comment`}>Plan Comment (Optional)</Label>
+        <Textarea
+          id={`${idPrefix}-comment`}
+          placeholder="Special maintenance instructions or notes..."
+          value={values.planComment}
+          onChange={(e) => onChange('planComment', e.target.value)}
+          rows={3}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-checklist`}>Checklist Template</Label>
+        <Select
+          value={values.checklistTemplateId || NO_TEMPLATE}
+          onValueChange={(value) => onChange('checklistTemplateId', value === NO_TEMPLATE ? '' : value)}
+        >
+          <SelectTrigger id={`${idPrefix}-checklist`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_TEMPLATE}>No checklist (comment only)</SelectItem>
+            {templates.map(template => (
+              <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {errors.checklistTemplateId && (
+          <p className="text-sm text-red-600">{errors.checklistTemplateId}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-category`}>Category</Label>
+        <Select
+          value={values.categoryId || NO_CATEGORY}
+          onValueChange={(value) => onChange('categoryId', value === NO_CATEGORY ? '' : value)}
+        >
+          <SelectTrigger id={`${idPrefix}-category`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+            {categories.map(option => (
+              <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {errors.categoryId && (
+          <p className="text-sm text-red-600">{errors.categoryId}</p>
+        )}
+      </div>
+
+      {category && (
+        <CustomFieldInputs
+          idPrefix={idPrefix}
+          fields={category.fields}
+          values={values.customFields}
+          errors={Object.fromEntries(category.fields.map(field => [field.key, errors[`customFields.${field.key}`]]))}
+          onChange={onCustomFieldChange}
+        />
+      )}
+
+      <div className="flex gap-2 pt-4">
+        <Button type="submit" className="flex-1" disabled={submitting}>
+          {submitting ? submittingLabel : submitLabel}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          disabled={submitting}
+        >
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+const validateDeviceForm = (values: DeviceFormData): string | null => {
+  if (!values.name || !values.identificationNumber || !values.locationId) {
+    return 'Name, identification number, and location are required';
+  }
+
+  if (values.recurrence.interval < 1) {
+    return 'Check schedule interval must be at least 1';
+  }
+
+  if (values.estimatedMinutes && !(Number.isInteger(Number(values.estimatedMinutes)) && Number(values.estimatedMinutes) >= 1)) {
+    return 'Estimated duration must be a whole number of minutes';
+  }
+
+  return null;
+};
+
+interface DeviceManagementProps {
+  user: AppUser;
+}
+
+export function DeviceManagement({ user }: DeviceManagementProps) {
   const [searchTerm, setSearchTerm] = useState('');
-  const [locationFilter, setLocationFilter] = useState('all');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [locationFilter, setLocationFilter] = useState(ALL_LOCATIONS);
+  const [statusFilter, setStatusFilter] = useState<DeviceStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [statusDevice, setStatusDevice] = useState<DeviceWithCheckInfo | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState(ALL_CATEGORIES);
+  const [categories, setCategories] = useState<DeviceCategory[]>([]);
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+  const [sortBy, setSortBy] = useState<DeviceSortKey>('name');
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isLocationManagerOpen, setIsLocationManagerOpen] = useState(false);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isTemplateManagerOpen, setIsTemplateManagerOpen] = useState(false);
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isAdding, setIsAdding] = useState(false);
-  const [newDevice, setNewDevice] = useState({
-    name: '',
-    identificationNumber: '',
-    location: '',
-    plannedFrequency: 1,
-    planComment: ''
-  });
+  const [newDevice, setNewDevice] = useState<DeviceFormData>(emptyDeviceForm);
+  const [newDeviceErrors, setNewDeviceErrors] = useState<DeviceFormErrors>({});
+  const [editingDevice, setEditingDevice] = useState<DeviceWithCheckInfo | null>(null);
+  const [editDevice, setEditDevice] = useState<DeviceFormData>(emptyDeviceForm);
+  const [editDeviceErrors, setEditDeviceErrors] = useState<DeviceFormErrors>({});
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [historyDeviceId, setHistoryDeviceId] = useState<string | null>(null);
+  const [isLabelSheetOpen, setIsLabelSheetOpen] = useState(false);
+
+  // Shared by the device list and the label sheet
+  const deviceFilters = {
+    search: debouncedSearch,
+    locationId: locationFilter === ALL_LOCATIONS ? undefined : locationFilter,
+    status: statusFilter === ALL_STATUSES ? undefined : statusFilter,
+    categoryId: categoryFilter === ALL_CATEGORIES ? undefined : categoryFilter
+  };
+
+  // Filtering, sorting and paging happen on the server
+  const {
+    items: devices,
+    total,
+    page,
+    pageSize,
+    totalPages,
+    setPage,
+    loaded,
+    reload: reloadDevices
+  } = usePagedList<DeviceWithCheckInfo>(
+    '/devices/summary',
+    {
+      ...deviceFilters,
+      sort: sortBy,
+      order: SORT_ORDERS[sortBy]
+    },
+    { errorMessage: 'Failed to fetch devices' }
+  );
 
   useEffect(() => {
-    fetchDevices();
+    fetchTemplates();
+    fetchLocations();
+    fetchCategories();
   }, []);
 
+  // Wait for a pause in typing before asking the server
   useEffect(() => {
-    filterDevices();
-  }, [devices, searchTerm, locationFilter]);
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
 
-  const fetchDevices = async () => {
+  const fetchLocations = async () => {
     try {
-      setLoading(true);
       const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-354d5d14/devices`,
+        `${functionsBase(projectId)}/locations`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
       );
 
       if (response.ok) {
-        const deviceData = await response.json();
-
-        // Fetch last check information for each device
-        const devicesWithCheckInfo = await Promise.all(
-          deviceData.map(async (device: Device) => {
-            try {
-              const checkResponse = await fetch(
-                `https://${projectId}.supabase.co/functions/v1/make-server-354d5d14/devices/${device.id}/last-check`,
-                {
-                  headers: {
-                    'Authorization': `Bearer ${publicAnonKey}`,
-                    'Content-Type': 'application/json'
-                  }
-                }
-              );
-
-              if (checkResponse.ok) {
-                const checkInfo = await checkResponse.json();
-                return {
-                  ...device,
-                  lastCheckedAt: checkInfo.lastCheck?.completedAt,
-                  lastCheckedBy: checkInfo.lastCheck?.completedBy,
-                  hasBeenChecked: checkInfo.hasBeenChecked,
-                  totalChecksCompleted: checkInfo.totalChecksCompleted
-                } as DeviceWithCheckInfo;
-              }
-            } catch (error) {
-              console.error(`Error fetching check info for device ${device.id}:`, error);
-            }
-
-            return {
-              ...device,
-              hasBeenChecked: false,
-              totalChecksCompleted: 0
-            } as DeviceWithCheckInfo;
-          })
-        );
-
-        setDevices(devicesWithCheckInfo);
-      } else {
-        toast.error('Failed to fetch devices');
+        setLocations(await response.json());
       }
     } catch (error) {
-      console.error('Error fetching devices:', error);
-      toast.error('Failed to fetch devices');
-    } finally {
-      setLoading(false);
+      console.error('Error fetching locations:', error);
     }
   };
 
-  const filterDevices = () => {
-    let filtered = devices;
+  // Device writes can change which page a device lands on and the per-location device counts
+  const refreshDevices = () => {
+    reloadDevices();
+    fetchLocations();
+  };
 
-    // Search filter
-    if (searchTerm) {
-      filtered = filtered.filter(device =>
-        device.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        device.identificationNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        device.location.toLowerCase().includes(searchTerm.toLowerCase())
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch(
+        `${functionsBase(projectId)}/checklist-templates`,
+        {
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
       );
+
+      if (response.ok) {
+        setTemplates(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching checklist templates:', error);
     }
+  };
 
-    // Location filter
-    if (locationFilter !== 'all') {
-      filtered = filtered.filter(device =>
-        device.location.toLowerCase().includes(locationFilter.toLowerCase())
+  const fetchCategories = async () => {
+    try {
+      const response = await fetch(
+        `${functionsBase(projectId)}/device-categories`,
+        {
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
       );
-    }
 
-    setFilteredDevices(filtered);
+      if (response.ok) {
+        setCategories(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching device categories:', error);
+    }
   };
 
   const handleAddDevice = async (e: React.FormEvent) => {
@@ -138,13 +414,9 @@ export function DeviceManagement() {
       setIsAdding(true);
 
       // Validate required fields
-      if (!newDevice.name || !newDevice.identificationNumber || !newDevice.location) {
-        toast.error('Name, identification number, and location are required');
-        return;
-      }
-
-      if (newDevice.plannedFrequency < 1) {
-        toast.error('Planned frequency must be at least 1 week');
+      const validationError = validateDeviceForm(newDevice);
+      if (validationError) {
+        toast.error(validationError);
         return;
       }
 
@@ -153,7 +425,7 @@ export function DeviceManagement() {
         {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           },
           body: JSON.stringify(newDevice)
@@ -161,27 +433,19 @@ export function DeviceManagement() {
       );
 
       if (response.ok) {
-        const result = await response.json();
-        // Add the new device with check info initialized
-        const deviceWithCheckInfo = {
-          ...result.device,
-          hasBeenChecked: false,
-          totalChecksCompleted: 0
-        } as DeviceWithCheckInfo;
-
-        setDevices([...devices, deviceWithCheckInfo]);
-        setNewDevice({
-          name: '',
-          identificationNumber: '',
-          location: '',
-          plannedFrequency: 1,
-          planComment: ''
-        });
+        refreshDevices();
+        setNewDevice(emptyDeviceForm);
+        setNewDeviceErrors({});
         setIsAddDialogOpen(false);
         toast.success('Device added successfully');
       } else {
         const error = await response.json();
-        toast.error(error.error || 'Failed to add device');
+        // Field errors (taken identification number, unknown template) show on the field instead of a toast
+        if (error.field) {
+          setNewDeviceErrors({ [error.field]: error.error });
+        } else {
+          toast.error(error.error || 'Failed to add device');
+        }
       }
     } catch (error) {
       console.error('Error adding device:', error);
@@ -191,11 +455,105 @@ export function DeviceManagement() {
     }
   };
 
-  const handleInputChange = (field: string, value: string | number) => {
+  const handleInputChange = (field: DeviceFormField, value: string | number) => {
+    setNewDevice(prev => ({
+      ...prev,
+      [field]: value
+    }));
+    setNewDeviceErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleRecurrenceChange = (recurrence: RecurrenceRule) => {
+    setNewDevice(prev => ({ ...prev, recurrence }));
+  };
+
+  const handleCustomFieldChange = (key: string, value: CustomFieldValue) => {
     setNewDevice(prev => ({
+      ...prev,
+      customFields: { ...prev.customFields, [key]: value }
+    }));
+    setNewDeviceErrors(prev => ({ ...prev, [`customFields.${key}`]: undefined }));
+  };
+
+  const openEditDialog = (device: DeviceWithCheckInfo) => {
+    setEditingDevice(device);
+    setEditDeviceErrors({});
+    setEditDevice({
+      name: device.name,
+      identificationNumber: device.identificationNumber,
+      locationId: device.locationId || '',
+      recurrence: getDeviceRecurrence(device),
+      estimatedMinutes: device.estimatedMinutes ? String(device.estimatedMinutes) : '',
+      planComment: device.planComment || '',
+      checklistTemplateId: device.checklistTemplateId || '',
+      categoryId: device.categoryId || '',
+      customFields: device.customFields || {}
+    });
+  };
+
+  const handleEditInputChange = (field: DeviceFormField, value: string | number) => {
+    setEditDevice(prev => ({
       ...prev,
       [field]: value
     }));
+    setEditDeviceErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleEditRecurrenceChange = (recurrence: RecurrenceRule) => {
+    setEditDevice(prev => ({ ...prev, recurrence }));
+  };
+
+  const handleEditCustomFieldChange = (key: string, value: CustomFieldValue) => {
+    setEditDevice(prev => ({
+      ...prev,
+      customFields: { ...prev.customFields, [key]: value }
+    }));
+    setEditDeviceErrors(prev => ({ ...prev, [`customFields.${key}`]: undefined }));
+  };
+
+  const handleUpdateDevice = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingDevice) return;
+
+    try {
+      setIsUpdating(true);
+
+      const validationError = validateDeviceForm(editDevice);
+      if (validationError) {
+        toast.error(validationError);
+        return;
+      }
+
+      const response = await fetch(
+        `${functionsBase(projectId)}/devices/${editingDevice.id}`,
+        {
+          method: 'PUT',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify(editDevice)
+        }
+      );
+
+      if (response.ok) {
+        refreshDevices();
+        setEditingDevice(null);
+        toast.success('Device updated successfully');
+      } else {
+        const error = await response.json();
+        if (error.field) {
+          setEditDeviceErrors({ [error.field]: error.error });
+        } else {
+          toast.error(error.error || 'Failed to update device');
+        }
+      }
+    } catch (error) {
+      console.error('Error updating device:', error);
+      toast.error('Failed to update device');
+    } finally {
+      setIsUpdating(false);
+    }
   };
 
   const handleDeleteDevice = async (device: DeviceWithCheckInfo) => {
@@ -207,14 +565,14 @@ export function DeviceManagement() {
         {
           method: 'DELETE',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
       );
 
       if (response.ok) {
-        setDevices(prev => prev.filter(d => d.id !== device.id));
+        refreshDevices();
         toast.success('Device removed successfully');
       } else {
         const error = await response.json();
@@ -228,10 +586,7 @@ export function DeviceManagement() {
     }
   };
 
-  // Get unique locations for filter
-  const locations = [...new Set(devices.map(device => device.location))];
-
-  if (loading) {
+  if (!loaded) {
     return (
       <div className="space-y-6">
         <div className="animate-pulse">
@@ -246,102 +601,151 @@ export function DeviceManagement() {
     );
   }
 
+  if (historyDeviceId) {
+    return <DeviceHistory deviceId={historyDeviceId} onBack={() => setHistoryDeviceId(null)} />;
+  }
+
+  const categoryOf = (device: Device) => categories.find(category => category.id === device.categoryId);
+  // Filtering by one category switches to a table with a column per custom field
+  const tableCategory = categories.find(category => category.id === categoryFilter);
+
+  if (isLabelSheetOpen) {
+    return <DeviceLabelSheet params={deviceFilters} onBack={() => setIsLabelSheetOpen(false)} />;
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <h1 className="text-2xl">Device Management</h1>
 
-        <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Device
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setIsLocationManagerOpen(true)}>
+            <Building2 className="h-4 w-4 mr-2" />
+            Locations
+          </Button>
+
+          {/* Category schemas are admin-defined; planners pick from them in the device form */}
+          {user.role === 'admin' && (
+            <Button variant="outline" onClick={() => setIsCategoryManagerOpen(true)}>
+              <Tags className="h-4 w-4 mr-2" />
+              Categories
             </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-md">
-            <DialogHeader>
-              <DialogTitle>Add New Device</DialogTitle>
-              <DialogDescription>
-                Register a new device for maintenance tracking
-              </DialogDescription>
-            </DialogHeader>
-
-            <form onSubmit={handleAddDevice} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="device-name">Device Name</Label>
-                <Input
-                  id="device-name"
-                  placeholder="Conveyor Belt A1"
-                  value={newDevice.name}
-                  onChange={(e) => handleInputChange('name', e.target.value)}
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="device-id">Identification Number</Label>
-                <Input
-                  id="device-id"
-                  placeholder="CB-A1-001"
-                  value={newDevice.identificationNumber}
-                  onChange={(e) => handleInputChange('identificationNumber', e.target.value)}
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="device-location">Location</Label>
-                <Input
-                  id="device-location"
-                  placeholder="Factory Floor - Section A"
-                  value={newDevice.location}
-                  onChange={(e) => handleInputChange('location', e.target.value)}
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="device-frequency">Check Frequency (weeks)</Label>
-                <Input
-                  id="device-frequency"
-                  type="number"
-                  min="1"
-                  placeholder="2"
-                  value={newDevice.plannedFrequency}
-                  onChange={(e) => handleInputChange('plannedFrequency', parseInt(e.target.value) || 1)}
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="device-comment">Plan Comment (Optional)</Label>
-                <Textarea
-                  id="device-comment"
-                  placeholder="Special maintenance instructions or notes..."
-                  value={newDevice.planComment}
-                  onChange={(e) => handleInputChange('planComment', e.target.value)}
-                  rows={3}
-                />
-              </div>
-
-              <div className="flex gap-2 pt-4">
-                <Button type="submit" className="flex-1" disabled={isAdding}>
-                  {isAdding ? 'Adding Device...' : 'Add Device'}
-                </Button>
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => setIsAddDialogOpen(false)}
-                  disabled={isAdding}
-                >
-                  Cancel
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+          )}
+
+          <Button variant="outline" onClick={() => setIsTemplateManagerOpen(true)}>
+            <ClipboardList className="h-4 w-4 mr-2" />
+            Checklists
+          </Button>
+
+          <Button variant="outline" onClick={() => setIsLabelSheetOpen(true)}>
+            <QrCode className="h-4 w-4 mr-2" />
+            Labels
+          </Button>
+
+          <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+
+          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Device
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Add New Device</DialogTitle>
+                <DialogDescription>
+                  Register a new device for maintenance tracking
+                </DialogDescription>
+              </DialogHeader>
+
+              <DeviceForm
+                idPrefix="device"
+                values={newDevice}
+                errors={newDeviceErrors}
+                templates={templates}
+                categories={categories}
+                locations={locations}
+                submitting={isAdding}
+                submitLabel="Add Device"
+                submittingLabel="Adding Device..."
+                onChange={handleInputChange}
+                onRecurrenceChange={handleRecurrenceChange}
+                onCustomFieldChange={handleCustomFieldChange}
+                onSubmit={handleAddDevice}
+                onCancel={() => setIsAddDialogOpen(false)}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <DeviceImportDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onImported={refreshDevices}
+      />
+
+      <LocationManager
+        open={isLocationManagerOpen}
+        onOpenChange={setIsLocationManagerOpen}
+        locations={locations}
+        onLocationsChange={refreshDevices}
+      />
+
+      <DeviceStatusDialog
+        device={statusDevice}
+        onOpenChange={(open) => !open && setStatusDevice(null)}
+        onChanged={refreshDevices}
+      />
+
+      <DeviceCategoryManager
+        open={isCategoryManagerOpen}
+        onOpenChange={setIsCategoryManagerOpen}
+        categories={categories}
+        onCategoriesChange={setCategories}
+      />
+
+      <ChecklistTemplateManager
+        open={isTemplateManagerOpen}
+        onOpenChange={setIsTemplateManagerOpen}
+        templates={templates}
+        onTemplatesChange={setTemplates}
+      />
+
+      {/* Edit Device Dialog */}
+      <Dialog open={!!editingDevice} onOpenChange={(open) => !open && setEditingDevice(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit Device</DialogTitle>
+            <DialogDescription>
+              Update device details. Existing check history stays linked to this device.
+            </DialogDescription>
+          </DialogHeader>
+
+          <DeviceForm
+            idPrefix="edit-device"
+            values={editDevice}
+            errors={editDeviceErrors}
+            templates={templates}
+            categories={categories}
+            locations={locations}
+            legacyLocation={editingDevice?.locationId ? undefined : editingDevice?.location}
+            submitting={isUpdating}
+            submitLabel="Save Changes"
+            submittingLabel="Saving..."
+            onChange={handleEditInputChange}
+            onRecurrenceChange={handleEditRecurrenceChange}
+            onCustomFieldChange={handleEditCustomFieldChange}
+            onSubmit={handleUpdateDevice}
+            onCancel={() => setEditingDevice(null)}
+          />
+        </DialogContent>
+      </Dialog>
+
       {/* Filters */}
       <div className="flex flex-col sm:flex-row gap-4">
         <div className="relative flex-1">
@@ -354,15 +758,51 @@ export function DeviceManagement() {
           />
         </div>
 
-        <Select value={locationFilter} onValueChange={setLocationFilter}>
+        <LocationSelect
+          locations={locations}
+          value={locationFilter}
+          onChange={setLocationFilter}
+          placeholder="Filter by location"
+          includeAll
+          className="w-full sm:w-48"
+        />
+
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as DeviceStatus | typeof ALL_STATUSES)}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES}>All States</SelectItem>
+            {(Object.keys(DEVICE_STATUS_LABELS) as DeviceStatus[]).map(status => (
+              <SelectItem key={status} value={status}>
+                {DEVICE_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {categories.length > 0 && (
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger className="w-full sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CATEGORIES}>All Categories</SelectItem>
+              {categories.map(category => (
+                <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Select value={sortBy} onValueChange={(value) => setSortBy(value as DeviceSortKey)}>
           <SelectTrigger className="w-full sm:w-48">
-            <SelectValue placeholder="Filter by location" />
+            <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="all">All Locations</SelectItem>
-            {locations.map(location => (
-              <SelectItem key={location} value={location}>
-                {location}
+            {SORT_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                Sort: {option.label}
               </SelectItem>
             ))}
           </SelectContent>
@@ -372,44 +812,107 @@ export function DeviceManagement() {
       {/* Device Count */}
       <div className="flex items-center justify-between">
         <p className="text-sm text-gray-600">
-          Showing {filteredDevices.length} of {devices.length} devices
+          {total === 0
+            ? 'No devices'
+            : `Showing ${(page - 1) * pageSize + 1}–${(page - 1) * pageSize + devices.length} of ${total} devices`}
         </p>
-        {locationFilter !== 'all' && (
+        {locationFilter !== ALL_LOCATIONS && (
           <Badge variant="secondary">
-            Filtered by: {locationFilter}
+            Filtered by: {locations.find(location => location.id === locationFilter)?.path}
           </Badge>
         )}
       </div>
 
       {/* Devices Grid */}
-      {filteredDevices.length === 0 ? (
+      {devices.length === 0 ? (
         <Card className="p-8 text-center">
           <div className="mx-auto w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
             <Settings className="h-8 w-8 text-gray-400" />
           </div>
           <h3 className="text-lg mb-2">No devices found</h3>
           <p className="text-gray-600 mb-4">
-            {searchTerm || locationFilter !== 'all'
+            {searchTerm || locationFilter !== ALL_LOCATIONS || statusFilter !== ALL_STATUSES || categoryFilter !== ALL_CATEGORIES
               ? 'Try adjusting your search or filter criteria.'
               : 'Get started by adding your first device.'
             }
           </p>
-          {(!searchTerm && locationFilter === 'all') && (
+          {(!searchTerm && locationFilter === ALL_LOCATIONS && statusFilter === ALL_STATUSES && categoryFilter === ALL_CATEGORIES) && (
             <Button onClick={() => setIsAddDialogOpen(true)}>
               <Plus className="h-4 w-4 mr-2" />
               Add First Device
             </Button>
           )}
         </Card>
+      ) : tableCategory ? (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Status</TableHead>
+                {tableCategory.fields.map(field => (
+                  <TableHead key={field.key}>{field.label}</TableHead>
+                ))}
+                <TableHead>Next check</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {devices.map(device => (
+                <TableRow key={device.id}>
+                  <TableCell>
+                    <p>{device.name}</p>
+                    <p className="text-xs text-gray-500">{device.identificationNumber}</p>
+                  </TableCell>
+                  <TableCell>{device.location}</TableCell>
+                  <TableCell><DeviceStatusBadge status={device.status} /></TableCell>
+                  {tableCategory.fields.map(field => (
+                    <TableCell key={field.key}>{formatCustomFieldValue(field, device.customFields?.[field.key])}</TableCell>
+                  ))}
+                  <TableCell className={device.nextDue?.overdue ? 'text-red-600' : undefined}>
+                    {device.nextDue ? `Week ${device.nextDue.week}, ${device.nextDue.year}` : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => setHistoryDeviceId(device.id)}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => openEditDialog(device)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {filteredDevices.map((device) => (
+          {devices.map((device) => (
             <Card key={device.id} className="hover:shadow-md transition-shadow">
               <CardHeader className="pb-3">
                 <div className="flex items-start justify-between">
                   <CardTitle className="text-lg">{device.name}</CardTitle>
-                  <Badge variant="outline">{device.status}</Badge>
+                  <DeviceStatusBadge status={device.status} />
                 </div>
+                {/* Why the device left service, from the latest transition */}
+                {device.status && device.status !== 'active' && device.statusChanges?.length ? (
+                  <p className="text-xs text-gray-500">
+                    {device.statusChanges[device.statusChanges.length - 1].reason}
+                  </p>
+                ) : null}
               </CardHeader>
 
               <CardContent className="space-y-3">
@@ -426,9 +929,27 @@ export function DeviceManagement() {
                 <div className="pt-2 border-t border-gray-100">
                   <p className="text-sm">
                     <span className="text-gray-600">Check frequency:</span>{' '}
-                    Every {device.plannedFrequency} week{device.plannedFrequency > 1 ? 's' : ''}
+                    {describeRecurrence(getDeviceRecurrence(device))}
                   </p>
 
+                  {device.checklistTemplateId && (
+                    <p className="text-sm mt-1">
+                      <span className="text-gray-600">Checklist:</span>{' '}
+                      {templates.find(template => template.id === device.checklistTemplateId)?.name || 'Unknown template'}
+                    </p>
+                  )}
+
+                  {categoryOf(device) && (
+                    <div className="text-sm mt-1">
+                      <span className="text-gray-600">Category:</span> {categoryOf(device)!.name}
+                      {categoryOf(device)!.fields.map(field => (
+                        <p key={field.key} className="text-xs text-gray-600">
+                          {field.label}: {formatCustomFieldValue(field, device.customFields?.[field.key])}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
                   {device.planComment && (
                     <p className="text-sm text-gray-600 mt-2">
                       <span className="text-gray-800">Note:</span> {device.planComment}
@@ -447,18 +968,6 @@ export function DeviceManagement() {
                       <p className="text-xs text-gray-500 ml-6">
                         by {device.lastCheckedBy} • {device.totalChecksCompleted} total checks
                       </p>
-                      {/* Calculate and show next scheduled check */}
-                      {(() => {
-                        const lastCheck = new Date(device.lastCheckedAt!);
-                        const nextCheck = new Date(lastCheck);
-                        nextCheck.setDate(lastCheck.getDate() + (device.plannedFrequency * 7));
-                        return (
-                          <div className="flex items-center text-sm text-blue-600 mt-1">
-                            <Calendar className="h-4 w-4 mr-2" />
-                            <span>Next check: {nextCheck.toLocaleDateString()}</span>
-                          </div>
-                        );
-                      })()}
                     </div>
                   ) : (
                     <div className="flex items-center text-sm text-orange-600">
@@ -466,6 +975,16 @@ export function DeviceManagement() {
                       <span>Not checked yet</span>
                     </div>
                   )}
+                  {/* Earliest pending check, as planned on the server */}
+                  {device.nextDue && (
+                    <div className={`flex items-center text-sm mt-1 ${device.nextDue.overdue ? 'text-red-600' : 'text-blue-600'}`}>
+                      <Calendar className="h-4 w-4 mr-2" />
+                      <span>
+                        Next check: week {device.nextDue.week}, {device.nextDue.year} ({new Date(device.nextDue.scheduledDate).toLocaleDateString()})
+                        {device.nextDue.overdue && ' • overdue'}
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex items-center justify-between pt-2 border-t border-gray-100">
@@ -473,56 +992,91 @@ export function DeviceManagement() {
                     Added {new Date(device.createdAt).toLocaleDateString()}
                   </div>
 
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="text-red-600 hover:text-red-700 h-8 w-8 p-0"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle className="text-red-600">Remove Device?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          <strong>This action cannot be undone!</strong>
-                          <br />
-                          <br />
-                          Removing device "{device.name}" will:
-                          <ul className="list-disc list-inside mt-2 space-y-1">
-                            <li>Permanently delete the device from the system</li>
-                            <li>Remove all maintenance check records</li>
-                            <li>Delete all planned future checks</li>
-                            <li>Remove from all reports and analytics</li>
-                          </ul>
-                          <br />
-                          <strong>Device ID:</strong> {device.identificationNumber}<br />
-                          <strong>Location:</strong> {device.location}<br />
-                          <strong>Total checks completed:</strong> {device.totalChecksCompleted || 0}
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>
-                          Cancel
-                        </AlertDialogCancel>
-                        <AlertDialogAction
-                          onClick={() => handleDeleteDevice(device)}
-                          disabled={isDeleting}
-                          className="bg-red-600 hover:bg-red-700"
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => setHistoryDeviceId(device.id)}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => openEditDialog(device)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => setStatusDevice(device)}
+                      disabled={!canChangeStatus(device)}
+                    >
+                      <Power className="h-4 w-4" />
+                    </Button>
+
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700 h-8 w-8 p-0"
                         >
-                          {isDeleting ? 'Removing...' : 'Yes, Remove Device'}
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle className="text-red-600">Remove Device?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            <strong>This action cannot be undone!</strong>
+                            <br />
+                            <br />
+                            Removing device "{device.name}" will:
+                            <ul className="list-disc list-inside mt-2 space-y-1">
+                              <li>Permanently delete the device from the system</li>
+                              <li>Remove all maintenance check records</li>
+                              <li>Delete all planned future checks</li>
+                              <li>Remove from all reports and analytics</li>
+                            </ul>
+                            <br />
+                            <strong>Device ID:</strong> {device.identificationNumber}<br />
+                            <strong>Location:</strong> {device.location}<br />
+                            <strong>Total checks completed:</strong> {device.totalChecksCompleted || 0}
+                            <br />
+                            <br />
+                            To retire a device and keep its audit history, change its status to decommissioned instead.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>
+                            Cancel
+                          </AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => handleDeleteDevice(device)}
+                            disabled={isDeleting}
+                            className="bg-red-600 hover:bg-red-700"
+                          >
+                            {isDeleting ? 'Removing...' : 'Yes, Remove Device'}
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
                 </div>
               </CardContent>
             </Card>
           ))}
         </div>
       )}
+
+      <ListPagination page={page} totalPages={totalPages} onPageChange={setPage} />
     </div>
   );
-}
\ No newline at end of file
+}
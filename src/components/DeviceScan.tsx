@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { ScanLine } from 'lucide-react';
+import { toast } from "sonner";
+import { AppUser, Device, DeviceCheck } from '../App';
+import { DeviceChecks } from './DeviceChecks';
+import { DeviceHistory } from './DeviceHistory';
+
+interface ScanResult {
+  device: Device;
+  pendingCheck: DeviceCheck | null;
+}
+
+interface DeviceScanProps {
+  code: string;
+  user: AppUser;
+  // Leaves the scan route for a regular view
+  onDone: (view: string) => void;
+}
+
+// Landing view for /scan/<code>: the device's pending check when one exists, otherwise its history
+export function DeviceScan({ code, user, onDone }: DeviceScanProps) {
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    resolveScan();
+  }, [code]);
+
+  const resolveScan = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(
+        `${functionsBase(projectId)}/devices/scan/${encodeURIComponent(code)}`,
+        {
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      if (response.ok) {
+        const scan: ScanResult = await response.json();
+        setResult(scan);
+        if (!scan.pendingCheck) {
+          toast.info(`No check is pending for ${scan.device.name}`);
+        }
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to resolve scanned label');
+      }
+    } catch (error) {
+      console.error('Error resolving scanned label:', error);
+      toast.error('Failed to resolve scanned label');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-[50vh] flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <Card className="p-8 text-center">
+        <div className="mx-auto w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
+          <ScanLine className="h-8 w-8 text-gray-500" />
+        </div>
+        <h3 className="text-lg mb-2">Unknown label</h3>
+        <p className="text-gray-600 mb-4">No device matches the scanned code "{code}".</p>
+        <Button onClick={() => onDone('checks')}>Go to Device Checks</Button>
+      </Card>
+    );
+  }
+
+  if (result.pendingCheck) {
+    return <DeviceChecks user={user} scannedCheck={result.pendingCheck} />;
+  }
+
+  return <DeviceHistory deviceId={result.device.id} onBack={() => onDone('checks')} />;
+}
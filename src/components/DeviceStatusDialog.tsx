@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { AlertTriangle } from 'lucide-react';
+import { toast } from "sonner";
+import { Device, DeviceStatus } from '../App';
+
+export const DEVICE_STATUS_LABELS: Record<DeviceStatus, string> = {
+  active: 'Active',
+  out_of_service: 'Out of service',
+  under_repair: 'Under repair',
+  decommissioned: 'Decommissioned'
+};
+
+// Keep in step with DEVICE_STATUS_TRANSITIONS in the edge function
+const TRANSITIONS: Record<DeviceStatus, DeviceStatus[]> = {
+  active: ['out_of_service', 'under_repair', 'decommissioned'],
+  out_of_service: ['active', 'under_repair', 'decommissioned'],
+  under_repair: ['active', 'out_of_service', 'decommissioned'],
+  decommissioned: []
+};
+
+const BADGE_STYLES: Record<DeviceStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  out_of_service: 'bg-orange-100 text-orange-800',
+  under_repair: 'bg-yellow-100 text-yellow-800',
+  decommissioned: 'bg-gray-200 text-gray-700'
+};
+
+// Devices stored before lifecycle states existed have no status and count as active
+const statusOf = (device: Pick<Device, 'status'>): DeviceStatus => device.status || 'active';
+
+export function DeviceStatusBadge({ status }: { status?: DeviceStatus }) {
+  const value = status || 'active';
+  return <Badge className={BADGE_STYLES[value]}>{DEVICE_STATUS_LABELS[value]}</Badge>;
+}
+
+export const canChangeStatus = (device: Pick<Device, 'status'>) => TRANSITIONS[statusOf(device)].length > 0;
+
+interface DeviceStatusDialogProps {
+  device: Device | null;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+export function DeviceStatusDialog({ device, onOpenChange, onChanged }: DeviceStatusDialogProps) {
+  const [status, setStatus] = useState<DeviceStatus | ''>('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setStatus('');
+    setReason('');
+  }, [device?.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!device || !status) return;
+
+    if (!reason.trim()) {
+      toast.error('Please give a reason for the status change');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(
+        `${functionsBase(projectId)}/devices/${device.id}/status`,
+        {
+          method: 'PUT',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ status, reason })
+        }
+      );
+
+      const result = await response.json();
+
+      if (response.ok) {
+        onChanged();
+        onOpenChange(false);
+        toast.success(
+          result.cancelledChecks > 0
+            ? `Device ${DEVICE_STATUS_LABELS[status].toLowerCase()}; ${result.cancelledChecks} pending check(s) cancelled`
+            : `Device marked ${DEVICE_STATUS_LABELS[status].toLowerCase()}`
+        );
+      } else {
+        toast.error(result.error || 'Failed to change device status');
+      }
+    } catch (error) {
+      console.error('Error changing device status:', error);
+      toast.error('Failed to change device status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const options = device ? TRANSITIONS[statusOf(device)] : [];
+
+  return (
+    <Dialog open={!!device} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Change Device Status</DialogTitle>
+          <DialogDescription>
+            {device && <>{device.name} is currently <strong>{DEVICE_STATUS_LABELS[statusOf(device)].toLowerCase()}</strong>.</>}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="device-status">New Status</Label>
+            <Select value={status || undefined} onValueChange={(value) => setStatus(value as DeviceStatus)}>
+              <SelectTrigger id="device-status">
+                <SelectValue placeholder="Select a status" />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map(option => (
+                  <SelectItem key={option} value={option}>{DEVICE_STATUS_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="device-status-reason">Reason</Label>
+            <Textarea
+              id="device-status-reason"
+              placeholder="Why is the status changing?"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              required
+            />
+          </div>
+
+          {status === 'decommissioned' && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <p>Pending checks will be cancelled and no new checks scheduled. Check history is kept. This cannot be undone.</p>
+            </div>
+          )}
+
+          {(status === 'out_of_service' || status === 'under_repair') && (
+            <p className="text-sm text-gray-600">The device cannot be added to weekly plans until it is active again.</p>
+          )}
+
+          <div className="flex gap-2 pt-4">
+            <Button type="submit" className="flex-1" disabled={saving || !status}>
+              {saving ? 'Saving...' : 'Change Status'}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
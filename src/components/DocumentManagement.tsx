@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { projectId, publicAnonKey, functionsBase } from '../utils/supabase/info';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -10,7 +11,8 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Upload, Download, FileText, PenTool, Clock, CheckCircle, AlertCircle, Search, SortAsc, SortDesc, User, Hash } from 'lucide-react';
 import { toast } from "sonner";
-import { AppUser } from '../App';
+import { AppUser, Device } from '../App';
+import { ListPagination, usePagedList } from './ListPagination';
 
 interface Document {
   id: string;
@@ -18,6 +20,7 @@ interface Document {
   storagePath: string;
   assignedTo: string;
   uploadedBy: string;
+  deviceId?: string;
   status: 'pending_signature' | 'completed';
   uploadedAt: string;
   signatures: Array<{
@@ -27,18 +30,22 @@ interface Document {
   }>;
 }
 
+// Radix Select items can't use an empty value, so "no device" gets a sentinel
+const NO_DEVICE = 'none';
+
 interface DocumentManagementProps {
   user: AppUser;
 }
 
 export function DocumentManagement({ user }: DocumentManagementProps) {
-  const [documents, setDocuments] = useState<Document[]>([]);
   const [users, setUsers] = useState<AppUser[]>([]);
+  const [devices, setDevices] = useState<Device[]>([]);
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
   const [signing, setSigning] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [assignedTo, setAssignedTo] = useState('');
+  const [linkedDeviceId, setLinkedDeviceId] = useState(NO_DEVICE);
   const [signedFile, setSignedFile] = useState<File | null>(null);
   const [selectedDocumentForSigning, setSelectedDocumentForSigning] = useState<Document | null>(null);
   const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false);
@@ -49,60 +56,88 @@ export function DocumentManagement({ user }: DocumentManagementProps) {
   const [showEmployeeDropdown, setShowEmployeeDropdown] = useState(false);
 
   useEffect(() => {
-    fetchDocuments();
     fetchUsers();
+    fetchDevices();
   }, []);
 
-  const fetchDocuments = async () => {
+  // Each tab pages through its own server-side filter
+  const pendingSignatures = usePagedList<Document>(
+    '/documents',
+    { assignedTo: user.employeeId, status: 'pending_signature' },
+    { errorMessage: 'Failed to load documents' }
+  );
+  const assignedByMe = usePagedList<Document>(
+    '/documents',
+    { uploadedBy: user.employeeId },
+    { errorMessage: 'Failed to load documents' }
+  );
+  const completedByMe = usePagedList<Document>(
+    '/documents',
+    { signedBy: user.employeeId, status: 'completed' },
+    { errorMessage: 'Failed to load documents' }
+  );
+
+  const reloadDocuments = () => {
+    pendingSignatures.reload();
+    assignedByMe.reload();
+    completedByMe.reload();
+  };
+
+  const fetchUsers = async () => {
     try {
       const response = await fetch(
-        `${functionsBase(projectId)}/documents`,
+        `${functionsBase(projectId)}/users`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
       );
 
       if (response.ok) {
-        const documentsData = await response.json();
-        setDocuments(documentsData);
+        const userData = await response.json();
+        setUsers(userData);
       } else {
-        console.error('Failed to fetch documents:', response.statusText);
+        console.error('Failed to fetch users:', response.statusText);
+        toast.error('Failed to load employees for assignment');
       }
+      setLoading(false);
     } catch (error) {
-      console.error('Error fetching documents:', error);
+      console.error('Error fetching users:', error);
+      toast.error('Failed to load employees for assignment');
+      setLoading(false);
     }
   };
 
-  const fetchUsers = async () => {
+  const fetchDevices = async () => {
     try {
       const response = await fetch(
-        `${functionsBase(projectId)}/users`,
+        `${functionsBase(projectId)}/devices`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
       );
 
       if (response.ok) {
-        const userData = await response.json();
-        setUsers(userData);
+        const deviceData: Device[] = await response.json();
+        setDevices(deviceData.sort((a, b) => a.name.localeCompare(b.name)));
       } else {
-        console.error('Failed to fetch users:', response.statusText);
-        toast.error('Failed to load employees for assignment');
+        console.error('Failed to fetch devices:', response.statusText);
       }
-      setLoading(false);
     } catch (error) {
-      console.error('Error fetching users:', error);
-      toast.error('Failed to load employees for assignment');
-      setLoading(false);
+      console.error('Error fetching devices:', error);
     }
   };
 
+  const getDeviceLabel = (deviceId: string) => {
+    const device = devices.find(d => d.id === deviceId);
+    return device ? `${device.name} (${device.identificationNumber})` : 'Removed device';
+  };
+
   // Helper function for employee selection with search and sort
   const getFilteredAndSortedEmployees = () => {
     let filteredUsers = users.filter(u => u.employeeId !== user.employeeId).filter(employee =>
@@ -144,24 +179,27 @@ export function DocumentManagement({ user }: DocumentManagementProps) {
       formData.append('file', selectedFile);
       formData.append('assignedTo', assignedTo);
       formData.append('uploadedBy', user.employeeId);
+      if (linkedDeviceId !== NO_DEVICE) {
+        formData.append('deviceId', linkedDeviceId);
+      }
 
       const response = await fetch(
         `${functionsBase(projectId)}/documents/upload`,
         {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`
+            ...(await authHeaders())
           },
           body: formData
         }
       );
 
       if (response.ok) {
-        const result = await response.json();
-        setDocuments(prev => [...prev, result.document]);
+        reloadDocuments();
         toast.success('Document uploaded successfully and assigned for signature');
         setSelectedFile(null);
         setAssignedTo('');
+        setLinkedDeviceId(NO_DEVICE);
         setIsUploadDialogOpen(false);
       } else {
         const error = await response.json();
@@ -181,7 +219,7 @@ export function DocumentManagement({ user }: DocumentManagementProps) {
         `${functionsBase(projectId)}/documents/${document.id}/download`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -218,26 +256,20 @@ export function DocumentManagement({ user }: DocumentManagementProps) {
 
       const formData = new FormData();
       formData.append('file', signedFile);
-      formData.append('signedBy', user.employeeId);
 
       const response = await fetch(
         `${functionsBase(projectId)}/documents/${selectedDocumentForSigning.id}/sign`,
         {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`
+            ...(await authHeaders())
           },
           body: formData
         }
       );
 
       if (response.ok) {
-        const result = await response.json();
-        setDocuments(prev =>
-          prev.map(doc =>
-            doc.id === selectedDocumentForSigning.id ? result.document : doc
-          )
-        );
+        reloadDocuments();
         toast.success('Document signed successfully');
         setSignedFile(null);
         setSelectedDocumentForSigning(null);
@@ -254,18 +286,6 @@ export function DocumentManagement({ user }: DocumentManagementProps) {
     }
   };
 
-  // Filter documents for different tabs
-  const pendingSignatures = documents.filter(doc =>
-    doc.assignedTo === user.employeeId && doc.status === 'pending_signature'
-  );
-  const assignedByMe = documents.filter(doc =>
-    doc.uploadedBy === user.employeeId
-  );
-  const completedByMe = documents.filter(doc =>
-    doc.status === 'completed' &&
-    doc.signatures.some(sig => sig.signedBy === user.employeeId && sig.type === 'secondary')
-  );
-
   if (loading) {
     return (
       <div className="space-y-6">
@@ -410,6 +430,24 @@ export function DocumentManagement({ user }: DocumentManagementProps) {
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="linked-device">Related Device (Optional)</Label>
+                <Select value={linkedDeviceId} onValueChange={setLinkedDeviceId}>
+                  <SelectTrigger id="linked-device">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-60">
+                    <SelectItem value={NO_DEVICE}>No device</SelectItem>
+                    {devices.map(device => (
+                      <SelectItem key={device.id} value={device.id}>
+                        {device.name} ({device.identificationNumber})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-600">Linked documents appear in the device's history</p>
+              </div>
+
               <div className="flex gap-2 pt-4">
                 <Button type="submit" disabled={uploading} className="flex-1">
                   {uploading ? 'Uploading...' : 'Upload & Assign'}
@@ -432,22 +470,22 @@ export function DocumentManagement({ user }: DocumentManagementProps) {
           <TabsTrigger value="pending" className="text-xs sm:text-sm px-2 py-2">
             <span className="hidden sm:inline">Pending Signatures</span>
             <span className="sm:hidden">Pending</span>
-            <span className="ml-1">({pendingSignatures.length})</span>
+            <span className="ml-1">({pendingSignatures.total})</span>
           </TabsTrigger>
           <TabsTrigger value="assigned-by-me" className="text-xs sm:text-sm px-2 py-2">
             <span className="hidden sm:inline">Assigned by Me</span>
             <span className="sm:hidden">Assigned</span>
-            <span className="ml-1">({assignedByMe.length})</span>
+            <span className="ml-1">({assignedByMe.total})</span>
           </TabsTrigger>
           <TabsTrigger value="completed" className="text-xs sm:text-sm px-2 py-2">
             <span className="hidden sm:inline">Documents Signed</span>
             <span className="sm:hidden">Signed</span>
-            <span className="ml-1">({completedByMe.length})</span>
+            <span className="ml-1">({completedByMe.total})</span>
           </TabsTrigger>
         </TabsList>
 
         <TabsContent value="pending" className="space-y-4">
-          {pendingSignatures.length === 0 ? (
+          {pendingSignatures.items.length === 0 ? (
             <Card className="p-8 text-center">
               <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
                 <PenTool className="h-8 w-8 text-blue-600" />
@@ -459,7 +497,7 @@ export function DocumentManagement({ user }: DocumentManagementProps) {
             </Card>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {pendingSignatures.map((document) => (
+              {pendingSignatures.items.map((document) => (
                 <Card key={document.id} className="border-l-4 border-l-orange-500">
                   <CardHeader className="pb-3">
                     <div className="flex items-start justify-between">
@@ -475,6 +513,9 @@ export function DocumentManagement({ user }: DocumentManagementProps) {
                     <div className="text-sm text-gray-600">
                       <p><strong>Uploaded by:</strong> {document.uploadedBy}</p>
                       <p><strong>Uploaded:</strong> {new Date(document.uploadedAt).toLocaleDateString()}</p>
+                      {document.deviceId && (
+                        <p><strong>Device:</strong> {getDeviceLabel(document.deviceId)}</p>
+                      )}
                     </div>
 
                     <div className="p-3 bg-orange-50 rounded-lg border border-orange-200">
@@ -561,10 +602,11 @@ export function DocumentManagement({ user }: DocumentManagementProps) {
               ))}
             </div>
           )}
+          <ListPagination page={pendingSignatures.page} totalPages={pendingSignatures.totalPages} onPageChange={pendingSignatures.setPage} />
         </TabsContent>
 
         <TabsContent value="assigned-by-me" className="space-y-4">
-          {assignedByMe.length === 0 ? (
+          {assignedByMe.items.length === 0 ? (
             <Card className="p-8 text-center">
               <div className="mx-auto w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
                 <FileText className="h-8 w-8 text-gray-400" />
@@ -580,13 +622,14 @@ export function DocumentManagement({ user }: DocumentManagementProps) {
             </Card>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {assignedByMe.map((document) => renderDocumentCard(document))}
+              {assignedByMe.items.map((document) => renderDocumentCard(document))}
             </div>
           )}
+          <ListPagination page={assignedByMe.page} totalPages={assignedByMe.totalPages} onPageChange={assignedByMe.setPage} />
         </TabsContent>
 
         <TabsContent value="completed" className="space-y-4">
-          {completedByMe.length === 0 ? (
+          {completedByMe.items.length === 0 ? (
             <Card className="p-8 text-center">
               <div className="mx-auto w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mb-4">
                 <CheckCircle className="h-8 w-8 text-green-600" />
@@ -598,9 +641,10 @@ export function DocumentManagement({ user }: DocumentManagementProps) {
             </Card>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {completedByMe.map((document) => renderDocumentCard(document))}
+              {completedByMe.items.map((document) => renderDocumentCard(document))}
             </div>
           )}
+          <ListPagination page={completedByMe.page} totalPages={completedByMe.totalPages} onPageChange={completedByMe.setPage} />
         </TabsContent>
       </Tabs>
     </div>
@@ -638,6 +682,9 @@ export function DocumentManagement({ user }: DocumentManagementProps) {
           <div className="text-sm text-gray-600">
             <p><strong>Uploaded by:</strong> {document.uploadedBy}</p>
             <p><strong>Assigned to:</strong> {document.assignedTo}</p>
+            {document.deviceId && (
+              <p><strong>Device:</strong> {getDeviceLabel(document.deviceId)}</p>
+            )}
             <p><strong>Uploaded:</strong> {new Date(document.uploadedAt).toLocaleDateString()}</p>
           </div>
 
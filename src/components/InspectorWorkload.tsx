@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Checkbox } from './ui/checkbox';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
+import { Scale } from 'lucide-react';
+import { toast } from "sonner";
+import { DeviceCheck, WeekWorkload, CheckDistribution } from '../App';
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes} min`;
+  return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`;
+};
+
+interface InspectorWorkloadProps {
+  year: string;
+  week: string;
+  // Live checks of the planned week; the workload is refetched whenever they change
+  checks: DeviceCheck[];
+  // Devices selected in the planner; their pending checks are the ones auto-distributed
+  selectedDeviceIds: string[];
+  onDistributed: () => void;
+}
+
+// Per-inspector load of an ISO week, and an action that spreads the selected devices' checks
+// across the available inspectors by location and estimated duration
+export function InspectorWorkload({ year, week, checks, selectedDeviceIds, onDistributed }: InspectorWorkloadProps) {
+  const [workload, setWorkload] = useState<WeekWorkload | null>(null);
+  // Everyone is available unless the planner unticks them
+  const [unavailable, setUnavailable] = useState<string[]>([]);
+  const [preview, setPreview] = useState<CheckDistribution[] | null>(null);
+  const [distributing, setDistributing] = useState(false);
+
+  useEffect(() => {
+    if (year && week) {
+      fetchWorkload();
+    }
+  }, [year, week, checks]);
+
+  const fetchWorkload = async () => {
+    try {
+      const response = await fetch(`${functionsBase(projectId)}/weekly-plans/${year}/${week}/workload`, {
+        headers: {
+          ...(await authHeaders()),
+          'Content-Type': 'application/json'
+        }
+      });
+
+      if (response.ok) {
+        setWorkload(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching workload:', error);
+    }
+  };
+
+  const checkIds = checks
+    .filter(check => check.status === 'pending' && selectedDeviceIds.includes(check.deviceId))
+    .map(check => check.id);
+  const available = (workload?.inspectors || [])
+    .map(load => load.employeeId)
+    .filter(employeeId => !unavailable.includes(employeeId));
+
+  const getInspectorName = (employeeId: string) =>
+    workload?.inspectors.find(load => load.employeeId === employeeId)?.name || employeeId;
+
+  const handleToggle = (employeeId: string) => {
+    setUnavailable(prev =>
+      prev.includes(employeeId) ? prev.filter(id => id !== employeeId) : [...prev, employeeId]
+    );
+  };
+
+  const distribute = async (dryRun: boolean) => {
+    if (checkIds.length === 0) {
+      toast.error('Select planned devices with pending checks; save the plan first for newly selected devices');
+      return;
+    }
+
+    try {
+      setDistributing(true);
+      const response = await fetch(`${functionsBase(projectId)}/weekly-plans/${year}/${week}/distribute`, {
+        method: 'POST',
+        headers: {
+          ...(await authHeaders()),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ checkIds, employeeIds: available, dryRun })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to distribute checks');
+        return;
+      }
+
+      const result = await response.json();
+      if (dryRun) {
+        setPreview(result.assignments);
+      } else {
+        setPreview(null);
+        toast.success(`Distributed ${result.assignments.length} checks across ${new Set(result.assignments.map((assignment: CheckDistribution) => assignment.employeeId)).size} inspectors`);
+        onDistributed();
+      }
+    } catch (error) {
+      console.error('Error distributing checks:', error);
+      toast.error('Failed to distribute checks');
+    } finally {
+      setDistributing(false);
+    }
+  };
+
+  if (!workload || (workload.inspectors.length === 0 && workload.unassigned.checks === 0)) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Scale className="h-5 w-5 mr-2" />
+            Inspector Workload
+          </CardTitle>
+          <Button
+            size="sm"
+            onClick={() => distribute(true)}
+            disabled={distributing || available.length === 0 || selectedDeviceIds.length === 0}
+          >
+            Auto-distribute Selected
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {workload.inspectors.map(load => (
+          <div key={load.employeeId} className="flex items-center space-x-3 p-3 border rounded-lg">
+            <Checkbox
+              checked={!unavailable.includes(load.employeeId)}
+              onCheckedChange={() => handleToggle(load.employeeId)}
+              aria-label={`${load.name} available`}
+            />
+            <div className="flex-1">
+              <p className="text-sm">{load.name} ({load.employeeId})</p>
+              {load.locations.length > 0 && (
+                <p className="text-xs text-gray-600">{load.locations.join(', ')}</p>
+              )}
+            </div>
+            <Badge variant="outline">{load.checks} check{load.checks === 1 ? '' : 's'}</Badge>
+            <Badge variant="secondary">{formatMinutes(load.minutes)}</Badge>
+          </div>
+        ))}
+        {workload.unassigned.checks > 0 && (
+          <p className="text-sm text-gray-600">
+            Unassigned: {workload.unassigned.checks} check{workload.unassigned.checks === 1 ? '' : 's'}, {formatMinutes(workload.unassigned.minutes)}
+          </p>
+        )}
+        <p className="text-xs text-gray-500">
+          Untick inspectors who are not available this week. Auto-distribute keeps checks at the same location with one inspector where the load allows.
+        </p>
+      </CardContent>
+
+      <AlertDialog open={preview !== null} onOpenChange={(open) => !open && setPreview(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Distribute {preview?.length} checks?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Each inspector is notified of the checks they receive.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {preview && (
+            <div className="space-y-3 text-sm">
+              {available
+                .filter(employeeId => preview.some(assignment => assignment.employeeId === employeeId))
+                .map(employeeId => {
+                  const assigned = preview.filter(assignment => assignment.employeeId === employeeId);
+                  return (
+                    <div key={employeeId}>
+                      <p>
+                        {getInspectorName(employeeId)}: {formatMinutes(assigned.reduce((sum, assignment) => sum + assignment.minutes, 0))}
+                      </p>
+                      <ul className="list-disc pl-4 text-gray-600">
+                        {assigned.map(assignment => (
+                          <li key={assignment.checkId}>{assignment.deviceName} ({assignment.location}, {formatMinutes(assignment.minutes)})</li>
+                        ))}
+                      </ul>
+                    </div>
+                  );
+                })}
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={distributing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                distribute(false);
+              }}
+              disabled={distributing}
+            >
+              {distributing ? 'Assigning...' : 'Assign'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
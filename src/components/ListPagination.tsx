@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from './ui/pagination';
+import { toast } from "sonner";
+import { Page } from '../App';
+
+type ListParams = Record<string, string | number | undefined>;
+
+interface PagedListOptions {
+  pageSize?: number;
+  errorMessage?: string;
+}
+
+// Loads one page of a list endpoint and reloads when the params or page change.
+// Changing the params (filters, search, sort) returns to the first page.
+export function usePagedList<T>(path: string, params: ListParams, { pageSize = 12, errorMessage = 'Failed to load list' }: PagedListOptions = {}) {
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<Page<T>>({ items: [], total: 0, page: 1, pageSize, totalPages: 1 });
+  const [loading, setLoading] = useState(true);
+  // False until the first response; lets views show a skeleton once instead of on every filter change
+  const [loaded, setLoaded] = useState(false);
+  // Ignore responses that arrive after a newer request was sent
+  const latestRequest = useRef(0);
+  const paramsKey = JSON.stringify(params);
+
+  useEffect(() => {
+    setPage(1);
+  }, [paramsKey]);
+
+  useEffect(() => {
+    load();
+  }, [paramsKey, page]);
+
+  const load = async () => {
+    const requestId = ++latestRequest.current;
+    const query = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') query.set(key, String(value));
+    });
+
+    try {
+      setLoading(true);
+      const response = await fetch(
+        `${functionsBase(projectId)}${path}?${query}`,
+        {
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      if (requestId !== latestRequest.current) return;
+
+      if (response.ok) {
+        const result: Page<T> = await response.json();
+        // A deletion can leave the current page empty; step back to the last page that exists
+        if (result.items.length === 0 && page > result.totalPages) {
+          setPage(result.totalPages);
+          return;
+        }
+        setData(result);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || errorMessage);
+      }
+    } catch (error) {
+      console.error(`Error fetching ${path}:`, error);
+      toast.error(errorMessage);
+    } finally {
+      if (requestId === latestRequest.current) {
+        setLoading(false);
+        setLoaded(true);
+      }
+    }
+  };
+
+  return { ...data, page, setPage, loading, loaded, reload: load };
+}
+
+// Page numbers to show: first, last and a window around the current page
+const getPageNumbers = (page: number, totalPages: number): (number | 'ellipsis')[] => {
+  const pages: (number | 'ellipsis')[] = [];
+  for (let p = 1; p <= totalPages; p++) {
+    if (p === 1 || p === totalPages || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== 'ellipsis') {
+      pages.push('ellipsis');
+    }
+  }
+  return pages;
+};
+
+interface ListPaginationProps {
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}
+
+export function ListPagination({ page, totalPages, onPageChange }: ListPaginationProps) {
+  if (totalPages <= 1) return null;
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= totalPages && target !== page) onPageChange(target);
+  };
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={goTo(page - 1)}
+            aria-disabled={page === 1}
+            className={page === 1 ? 'pointer-events-none opacity-50' : undefined}
+          />
+        </PaginationItem>
+        {getPageNumbers(page, totalPages).map((entry, index) => (
+          <PaginationItem key={entry === 'ellipsis' ? `ellipsis-${index}` : entry}>
+            {entry === 'ellipsis' ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href="#" isActive={entry === page} onClick={goTo(entry)}>
+                {entry}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={goTo(page + 1)}
+            aria-disabled={page === totalPages}
+            className={page === totalPages ? 'pointer-events-none opacity-50' : undefined}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Plus, Pencil, Trash2, ArrowLeft, Link } from 'lucide-react';
+import { toast } from "sonner";
+import { Location, LocationType } from '../App';
+
+// Keep in step with PARENT_TYPE in the edge function's locations module
+const CHILD_TYPE: Record<LocationType, LocationType | null> = {
+  site: 'building',
+  building: 'area',
+  area: null
+};
+
+const TYPE_LABELS: Record<LocationType, string> = {
+  site: 'Site',
+  building: 'Building',
+  area: 'Area'
+};
+
+const INDENT: Record<LocationType, string> = {
+  site: '',
+  building: 'pl-4',
+  area: 'pl-8'
+};
+
+// Radix Select items can't use an empty value, so "all locations" gets a sentinel
+export const ALL_LOCATIONS = 'all';
+
+interface LocationSelectProps {
+  id?: string;
+  locations: Location[];
+  value: string;
+  onChange: (locationId: string) => void;
+  placeholder?: string;
+  // Adds an "All Locations" entry for filters
+  includeAll?: boolean;
+  className?: string;
+}
+
+// Picker over the flat, path-ordered list from GET /locations; children are indented under their parent
+export function LocationSelect({ id, locations, value, onChange, placeholder = 'Select a location', includeAll, className }: LocationSelectProps) {
+  return (
+    <Select value={value || undefined} onValueChange={onChange}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {includeAll && <SelectItem value={ALL_LOCATIONS}>All Locations</SelectItem>}
+        {locations.map(location => (
+          <SelectItem key={location.id} value={location.id} className={INDENT[location.type]}>
+            {location.name}
+            <span className="text-xs text-gray-500 ml-2">{TYPE_LABELS[location.type]}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface LocationDraft {
+  id?: string;
+  name: string;
+  type: LocationType;
+  parentId: string | null;
+}
+
+interface LocationManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  locations: Location[];
+  // Renames and moves change paths below the edited node, so the caller refetches rather than patching
+  onLocationsChange: () => void;
+}
+
+export function LocationManager({ open, onOpenChange, locations, onLocationsChange }: LocationManagerProps) {
+  const [draft, setDraft] = useState<LocationDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [linking, setLinking] = useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setDraft(null);
+    onOpenChange(nextOpen);
+  };
+
+  const parentOf = (location: LocationDraft) => locations.find(candidate => candidate.id === location.parentId);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      toast.error('A location needs a name');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(
+        draft.id
+          ? `${functionsBase(projectId)}/locations/${draft.id}`
+          : `${functionsBase(projectId)}/locations`,
+        {
+          method: draft.id ? 'PATCH' : 'POST',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify(draft.id ? { name: draft.name } : draft)
+        }
+      );
+
+      const result = await response.json();
+
+      if (response.ok) {
+        onLocationsChange();
+        setDraft(null);
+        toast.success(draft.id ? 'Location updated' : 'Location created');
+      } else {
+        toast.error(result.error || 'Failed to save location');
+      }
+    } catch (error) {
+      console.error('Error saving location:', error);
+      toast.error('Failed to save location');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (location: Location) => {
+    try {
+      setDeletingId(location.id);
+      const response = await fetch(
+        `${functionsBase(projectId)}/locations/${location.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      if (response.ok) {
+        onLocationsChange();
+        toast.success('Location deleted');
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to delete location');
+      }
+    } catch (error) {
+      console.error('Error deleting location:', error);
+      toast.error('Failed to delete location');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleLinkDevices = async () => {
+    try {
+      setLinking(true);
+      const response = await fetch(
+        `${functionsBase(projectId)}/locations/link-devices`,
+        {
+          method: 'POST',
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      const result = await response.json();
+
+      if (response.ok) {
+        onLocationsChange();
+        toast.success(
+          result.linked === 0
+            ? 'Every device already has a location'
+            : `Linked ${result.linked} device(s); ${result.created} new site(s) created`
+        );
+      } else {
+        toast.error(result.error || 'Failed to link devices');
+      }
+    } catch (error) {
+      console.error('Error linking devices:', error);
+      toast.error('Failed to link devices');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{draft ? (draft.id ? `Rename ${TYPE_LABELS[draft.type]}` : `New ${TYPE_LABELS[draft.type]}`) : 'Locations'}</DialogTitle>
+          <DialogDescription>
+            Sites contain buildings and buildings contain areas. Devices, filters and reports use this tree.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <form onSubmit={handleSave} className="space-y-4">
+            {parentOf(draft) && (
+              <p className="text-sm text-gray-600">Inside {parentOf(draft)!.path}</p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="location-name">Name</Label>
+              <Input
+                id="location-name"
+                placeholder={draft.type === 'site' ? 'Main Site' : draft.type === 'building' ? 'Workshop' : 'Bay 1'}
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="flex gap-2 pt-4">
+              <Button type="submit" className="flex-1" disabled={saving}>
+                {saving ? 'Saving...' : 'Save Location'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setDraft(null)} disabled={saving}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            {locations.length === 0 ? (
+              <p className="text-sm text-gray-500">No locations yet. Start with a site.</p>
+            ) : (
+              <div className="space-y-2">
+                {locations.map(location => {
+                  const childType = CHILD_TYPE[location.type];
+                  return (
+                    <div key={location.id} className={`flex items-center justify-between p-3 border rounded-lg ${INDENT[location.type]}`}>
+                      <div>
+                        <p className="text-sm">{location.name}</p>
+                        <div className="flex items-center gap-2 mt-1">
+                          <Badge variant="outline">{TYPE_LABELS[location.type]}</Badge>
+                          <span className="text-xs text-gray-500">
+                            {location.deviceCount} device{location.deviceCount === 1 ? '' : 's'}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {childType && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 px-2"
+                            onClick={() => setDraft({ name: '', type: childType, parentId: location.id })}
+                          >
+                            <Plus className="h-4 w-4 mr-1" />
+                            {TYPE_LABELS[childType]}
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => setDraft({ id: location.id, name: location.name, type: location.type, parentId: location.parentId })}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700 h-8 w-8 p-0"
+                          onClick={() => handleDelete(location)}
+                          disabled={deletingId === location.id}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => setDraft({ name: '', type: 'site', parentId: null })}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Site
+              </Button>
+              <Button variant="outline" onClick={handleLinkDevices} disabled={linking}>
+                <Link className="h-4 w-4 mr-2" />
+                {linking ? 'Linking...' : 'Link Unassigned Devices'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
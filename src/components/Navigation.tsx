@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
-import { projectId, publicAnonKey, functionsBase } from '../utils/supabase/info';
-import { supabase } from '../utils/supabase';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { supabase, authHeaders } from '../utils/supabase';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
@@ -55,7 +55,7 @@ export function Navigation({ user, currentView, onViewChange, onUserLogout, side
         `${functionsBase(projectId)}/notifications/${user.employeeId}`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -77,7 +77,7 @@ export function Navigation({ user, currentView, onViewChange, onUserLogout, side
         `${functionsBase(projectId)}/delayed-checks`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -99,7 +99,7 @@ export function Navigation({ user, currentView, onViewChange, onUserLogout, side
         {
           method: 'PUT',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -124,7 +124,7 @@ export function Navigation({ user, currentView, onViewChange, onUserLogout, side
         {
           method: 'PUT',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -153,7 +153,7 @@ export function Navigation({ user, currentView, onViewChange, onUserLogout, side
         {
           method: 'DELETE',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
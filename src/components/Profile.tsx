@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { projectId, publicAnonKey, functionsBase } from '../utils/supabase/info';
-import { supabase } from '../utils/supabase';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { supabase, authHeaders } from '../utils/supabase';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
@@ -9,9 +9,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from './ui/alert-dialog';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
-import { User, Trash2, CheckSquare, FileText, Settings, Download, Key } from 'lucide-react';
+import { User, Trash2, CheckSquare, FileText, Settings, Download, Key, ChevronLeft, ChevronRight } from 'lucide-react';
 import { toast } from "sonner";
-import { AppUser, DeviceCheck } from '../App';
+import { AppUser, DeviceCheck, Page } from '../App';
 
 interface ProfileProps {
   user: AppUser;
@@ -20,20 +20,27 @@ interface ProfileProps {
 }
 
 interface UserActivity {
-  deviceChecks: (DeviceCheck & { deviceName: string; deviceId: string })[];
-  documentsUploaded: any[];
-  documentsSigned: any[];
-  documentsAssigned: any[];
+  deviceChecks: Page<DeviceCheck & { deviceName: string; deviceId: string }>;
+  documentsUploaded: Page<any>;
+  documentsSigned: Page<any>;
+  documentsAssigned: Page<any>;
 }
 
+const ACTIVITY_PAGE_SIZE = 10;
+
+const emptyActivityPage = { items: [], total: 0, page: 1, pageSize: ACTIVITY_PAGE_SIZE, totalPages: 1 };
+
 export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
   const [userActivity, setUserActivity] = useState<UserActivity>({
-    deviceChecks: [],
-    documentsUploaded: [],
-    documentsSigned: [],
-    documentsAssigned: []
+    deviceChecks: emptyActivityPage,
+    documentsUploaded: emptyActivityPage,
+    documentsSigned: emptyActivityPage,
+    documentsAssigned: emptyActivityPage
   });
   const [loading, setLoading] = useState(true);
+  const [activityLoading, setActivityLoading] = useState(false);
+  const [activityPage, setActivityPage] = useState(1);
+  const [activityRange, setActivityRange] = useState({ from: '', to: '' });
   const [isDeleting, setIsDeleting] = useState(false);
   const [deletingDocument, setDeletingDocument] = useState<string | null>(null);
   const [changingPassword, setChangingPassword] = useState(false);
@@ -52,18 +59,25 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
 
   useEffect(() => {
     fetchUserActivity();
-  }, [user.employeeId]);
+  }, [user.employeeId, activityPage, activityRange.from, activityRange.to]);
 
   const fetchUserActivity = async () => {
     try {
-      setLoading(true);
+      setActivityLoading(true);
+
+      const params = new URLSearchParams({
+        page: String(activityPage),
+        pageSize: String(ACTIVITY_PAGE_SIZE)
+      });
+      if (activityRange.from) params.set('from', activityRange.from);
+      if (activityRange.to) params.set('to', activityRange.to);
 
       // Fetch user's device checks history
       const checksResponse = await fetch(
-        `${functionsBase(projectId)}/user-activity/${user.employeeId}`,
+        `${functionsBase(projectId)}/user-activity/${user.employeeId}?${params}`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -72,15 +86,31 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
       if (checksResponse.ok) {
         const activity = await checksResponse.json();
         setUserActivity(activity);
+      } else {
+        const error = await checksResponse.json();
+        toast.error(error.error || 'Failed to fetch user activity');
       }
     } catch (error) {
       console.error('Error fetching user activity:', error);
       toast.error('Failed to fetch user activity');
     } finally {
+      setActivityLoading(false);
       setLoading(false);
     }
   };
 
+  const handleActivityRangeChange = (field: 'from' | 'to', value: string) => {
+    setActivityRange(prev => ({ ...prev, [field]: value }));
+    setActivityPage(1);
+  };
+
+  // All lists share one page index, so the last page is set by the longest list
+  const activityPageCount = Math.max(
+    userActivity.deviceChecks.totalPages,
+    userActivity.documentsSigned.totalPages,
+    userActivity.documentsUploaded.totalPages
+  );
+
   const handleDeleteDocument = async (document: any) => {
     try {
       setDeletingDocument(document.id);
@@ -89,7 +119,7 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
         {
           method: 'DELETE',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -101,7 +131,11 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
         // Remove the document from the local state
         setUserActivity(prev => ({
           ...prev,
-          documentsUploaded: prev.documentsUploaded.filter(doc => doc.id !== document.id)
+          documentsUploaded: {
+            ...prev.documentsUploaded,
+            items: prev.documentsUploaded.items.filter(doc => doc.id !== document.id),
+            total: prev.documentsUploaded.total - 1
+          }
         }));
 
         if (result.fileDeleted) {
@@ -130,7 +164,7 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
         {
           method: 'DELETE',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -213,7 +247,7 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
         {
           method: 'PUT',
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({
@@ -248,7 +282,7 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
         `${functionsBase(projectId)}/documents/${document.id}/download`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`
+            ...(await authHeaders())
           }
         }
       );
@@ -291,6 +325,7 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
       case 'completed':
         return <Badge className="bg-green-100 text-green-800">Signed</Badge>;
       case 'pending':
+      case 'pending_signature':
         return <Badge className="bg-orange-100 text-orange-800">Pending Signature</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
@@ -347,19 +382,19 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
             <div className="flex-1 grid grid-cols-2 gap-4 text-sm">
               <div>
                 <p className="text-gray-500">Device Checks Completed</p>
-                <p className="text-xl">{userActivity.deviceChecks.filter(check => check.status === 'completed').length}</p>
+                <p className="text-xl">{userActivity.deviceChecks.total}</p>
               </div>
               <div>
                 <p className="text-gray-500">Documents Signed</p>
-                <p className="text-xl">{userActivity.documentsSigned.length}</p>
+                <p className="text-xl">{userActivity.documentsSigned.total}</p>
               </div>
               <div>
                 <p className="text-gray-500">Documents Uploaded</p>
-                <p className="text-xl">{userActivity.documentsUploaded.length}</p>
+                <p className="text-xl">{userActivity.documentsUploaded.total}</p>
               </div>
               <div>
                 <p className="text-gray-500">Documents Assigned</p>
-                <p className="text-xl">{userActivity.documentsAssigned.length}</p>
+                <p className="text-xl">{userActivity.documentsAssigned.total}</p>
               </div>
             </div>
           </div>
@@ -498,29 +533,63 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
         <CardHeader>
           <CardTitle>Activity History</CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="activity-from">From</Label>
+              <Input
+                id="activity-from"
+                type="date"
+                value={activityRange.from}
+                max={activityRange.to || undefined}
+                onChange={(e) => handleActivityRangeChange('from', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="activity-to">To</Label>
+              <Input
+                id="activity-to"
+                type="date"
+                value={activityRange.to}
+                min={activityRange.from || undefined}
+                onChange={(e) => handleActivityRangeChange('to', e.target.value)}
+              />
+            </div>
+            {(activityRange.from || activityRange.to) && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setActivityRange({ from: '', to: '' });
+                  setActivityPage(1);
+                }}
+              >
+                Clear dates
+              </Button>
+            )}
+          </div>
+
           <Tabs defaultValue="device-checks" className="w-full">
             <TabsList className="grid w-full grid-cols-1 sm:grid-cols-3">
               <TabsTrigger value="device-checks">
-                Device Checks ({userActivity.deviceChecks.length})
+                Device Checks ({userActivity.deviceChecks.total})
               </TabsTrigger>
               <TabsTrigger value="documents-signed">
-                Documents Signed ({userActivity.documentsSigned.length})
+                Documents Signed ({userActivity.documentsSigned.total})
               </TabsTrigger>
               <TabsTrigger value="documents-uploaded">
-                Documents Uploaded ({userActivity.documentsUploaded.length})
+                Documents Uploaded ({userActivity.documentsUploaded.total})
               </TabsTrigger>
             </TabsList>
 
             <TabsContent value="device-checks" className="space-y-4">
-              {userActivity.deviceChecks.length === 0 ? (
+              {userActivity.deviceChecks.items.length === 0 ? (
                 <div className="text-center py-8">
                   <CheckSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                   <p className="text-gray-500">No device checks completed yet</p>
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {userActivity.deviceChecks.map((check) => (
+                  {userActivity.deviceChecks.items.map((check) => (
                     <Card key={check.id} className="p-4">
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
@@ -547,14 +616,14 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
             </TabsContent>
 
             <TabsContent value="documents-signed" className="space-y-4">
-              {userActivity.documentsSigned.length === 0 ? (
+              {userActivity.documentsSigned.items.length === 0 ? (
                 <div className="text-center py-8">
                   <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                   <p className="text-gray-500">No documents signed yet</p>
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {userActivity.documentsSigned.map((document) => (
+                  {userActivity.documentsSigned.items.map((document) => (
                     <Card key={document.id} className="p-4">
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
@@ -587,14 +656,14 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
             </TabsContent>
 
             <TabsContent value="documents-uploaded" className="space-y-4">
-              {userActivity.documentsUploaded.length === 0 ? (
+              {userActivity.documentsUploaded.items.length === 0 ? (
                 <div className="text-center py-8">
                   <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                   <p className="text-gray-500">No documents uploaded yet</p>
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {userActivity.documentsUploaded.map((document) => (
+                  {userActivity.documentsUploaded.items.map((document) => (
                     <Card key={document.id} className="p-4">
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
@@ -641,6 +710,34 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
               )}
             </TabsContent>
           </Tabs>
+
+          {activityPageCount > 1 && (
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-500">
+                Page {activityPage} of {activityPageCount}
+              </p>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setActivityPage(page => page - 1)}
+                  disabled={activityLoading || activityPage <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setActivityPage(page => page + 1)}
+                  disabled={activityLoading || activityPage >= activityPageCount}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -739,10 +836,11 @@ export function Profile({ user, onUserLogout, onUserUpdate }: ProfileProps) {
                   type="text"
                   value={profileData.employeeId}
                   onChange={(e) => setProfileData({ ...profileData, employeeId: e.target.value })}
+                  disabled={user.role !== 'admin'}
                   required
                 />
                 <p className="text-xs text-gray-600">
-                  This must be unique across all employees
+                  {user.role === 'admin' ? 'This must be unique across all employees' : 'Only an admin can change your employee ID'}
                 </p>
               </div>
             </div>
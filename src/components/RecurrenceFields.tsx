@@ -0,0 +1,118 @@
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { RecurrenceRule, RecurrenceAnchor, WEEKDAY_NAMES, describeRecurrence } from '../supabase/functions/server/schedule';
+
+type RecurrencePreset = 'weeks' | 'months' | 'quarterly' | 'annually';
+
+// Radix Select items can't use an empty value, so "any weekday" gets a sentinel
+const ANY_WEEKDAY = 'any';
+
+const getPreset = (rule: RecurrenceRule): RecurrencePreset => {
+  if (rule.unit === 'week') return 'weeks';
+  if (rule.interval === 3) return 'quarterly';
+  if (rule.interval === 12) return 'annually';
+  return 'months';
+};
+
+const PRESET_RULES: Record<RecurrencePreset, Pick<RecurrenceRule, 'unit' | 'interval'>> = {
+  weeks: { unit: 'week', interval: 1 },
+  months: { unit: 'month', interval: 1 },
+  quarterly: { unit: 'month', interval: 3 },
+  annually: { unit: 'month', interval: 12 }
+};
+
+interface RecurrenceFieldsProps {
+  idPrefix: string;
+  value: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+}
+
+// Editor for a device's check recurrence: interval, optional weekday and what the schedule counts from
+export function RecurrenceFields({ idPrefix, value, onChange }: RecurrenceFieldsProps) {
+  const preset = getPreset(value);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-repeats`}>Check Schedule</Label>
+          <Select
+            value={preset}
+            onValueChange={(next) => onChange({ ...value, ...PRESET_RULES[next as RecurrencePreset] })}
+          >
+            <SelectTrigger id={`${idPrefix}-repeats`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="weeks">Every N weeks</SelectItem>
+              <SelectItem value="months">Every N months</SelectItem>
+              <SelectItem value="quarterly">Quarterly</SelectItem>
+              <SelectItem value="annually">Annually</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {(preset === 'weeks' || preset === 'months') && (
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-frequency`}>Every ({value.unit === 'week' ? 'weeks' : 'months'})</Label>
+            <Input
+              id={`${idPrefix}-frequency`}
+              type="number"
+              min="1"
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: parseInt(e.target.value) || 1 })}
+              required
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-weekday`}>On</Label>
+          <Select
+            value={value.weekday ? String(value.weekday) : ANY_WEEKDAY}
+            onValueChange={(next) => {
+              const { weekday, ...rest } = value;
+              onChange(next === ANY_WEEKDAY ? rest : { ...rest, weekday: Number(next) });
+            }}
+          >
+            <SelectTrigger id={`${idPrefix}-weekday`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_WEEKDAY}>Any day of the week</SelectItem>
+              {WEEKDAY_NAMES.map((name, index) => (
+                <SelectItem key={name} value={String(index + 1)}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-anchor`}>Counted From</Label>
+          <Select
+            value={value.anchor}
+            onValueChange={(next) => onChange({ ...value, anchor: next as RecurrenceAnchor })}
+          >
+            <SelectTrigger id={`${idPrefix}-anchor`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="due">Due date</SelectItem>
+              <SelectItem value="completion">Completion date</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        {describeRecurrence(value)}.{' '}
+        {value.anchor === 'due'
+          ? 'Late checks do not move later due dates.'
+          : 'Each check is due one interval after the previous one was done.'}
+      </p>
+    </div>
+  );
+}
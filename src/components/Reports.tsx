@@ -1,11 +1,22 @@
 import { useState, useEffect } from 'react';
-import { projectId, publicAnonKey, functionsBase } from '../utils/supabase/info';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { BarChart3, Download, Calendar, FileSpreadsheet, TrendingUp } from 'lucide-react';
 import { toast } from "sonner";
+import { EvidenceButton, EvidenceGallery } from './CheckEvidence';
+import { LocationSelect, ALL_LOCATIONS } from './LocationManager';
+import { Location, LocationType } from '../App';
+
+// Area is the deepest level, so grouping by it keeps each device's full location path
+const GROUP_OPTIONS: { value: LocationType; label: string }[] = [
+  { value: 'site', label: 'By site' },
+  { value: 'building', label: 'By building' },
+  { value: 'area', label: 'By area' }
+];
 
 interface ReportData {
   [location: string]: Array<{
@@ -15,6 +26,8 @@ interface ReportData {
     completedAt: string;
     completedBy: string;
     comment: string;
+    checkId: string;
+    evidenceCount: number;
   }>;
 }
 
@@ -23,21 +36,51 @@ export function Reports() {
   const [reportData, setReportData] = useState<ReportData>({});
   const [loading, setLoading] = useState(false);
   const [generating, setGenerating] = useState(false);
+  const [evidenceCheckId, setEvidenceCheckId] = useState<string | null>(null);
+  const [groupLevel, setGroupLevel] = useState<LocationType>('area');
+  const [locationScope, setLocationScope] = useState(ALL_LOCATIONS);
+  const [locations, setLocations] = useState<Location[]>([]);
+
+  useEffect(() => {
+    fetchLocations();
+  }, []);
 
   useEffect(() => {
     if (selectedYear) {
       fetchReportData();
     }
-  }, [selectedYear]);
+  }, [selectedYear, groupLevel, locationScope]);
+
+  const fetchLocations = async () => {
+    try {
+      const response = await fetch(
+        `${functionsBase(projectId)}/locations`,
+        {
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      if (response.ok) {
+        setLocations(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+    }
+  };
 
   const fetchReportData = async () => {
     try {
       setLoading(true);
+      const query = new URLSearchParams({ level: groupLevel });
+      if (locationScope !== ALL_LOCATIONS) query.set('locationId', locationScope);
       const response = await fetch(
-        `${functionsBase(projectId)}/reports/annual/${selectedYear}`,
+        `${functionsBase(projectId)}/reports/annual/${selectedYear}?${query}`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -68,11 +111,11 @@ export function Reports() {
 
       Object.entries(reportData).forEach(([location, checks]) => {
         csvContent += `\n\n=== ${location} ===\n`;
-        csvContent += 'Device Name,Device ID,Week,Completed Date,Completed By,Comment\n';
+        csvContent += 'Device Name,Device ID,Week,Completed Date,Completed By,Comment,Evidence Files\n';
 
         checks.forEach(check => {
           const comment = check.comment?.replace(/,/g, ';') || ''; // Replace commas to avoid CSV issues
-          csvContent += `"${check.deviceName}","${check.deviceId}","${check.week}","${check.completedAt}","${check.completedBy}","${comment}"\n`;
+          csvContent += `"${check.deviceName}","${check.deviceId}","${check.week}","${check.completedAt}","${check.completedBy}","${comment}","${check.evidenceCount || 0}"\n`;
         });
       });
 
@@ -135,7 +178,28 @@ export function Reports() {
           <p className="text-gray-600">Generate comprehensive maintenance reports by year</p>
         </div>
 
-        <div className="flex items-center space-x-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <LocationSelect
+            locations={locations}
+            value={locationScope}
+            onChange={setLocationScope}
+            includeAll
+            className="w-48"
+          />
+
+          <Select value={groupLevel} onValueChange={(value) => setGroupLevel(value as LocationType)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GROUP_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           <Select value={selectedYear} onValueChange={setSelectedYear}>
             <SelectTrigger className="w-32">
               <SelectValue />
@@ -253,6 +317,7 @@ export function Reports() {
                         <th className="text-left p-2">Completed Date</th>
                         <th className="text-left p-2">Completed By</th>
                         <th className="text-left p-2">Comment</th>
+                        <th className="text-left p-2">Evidence</th>
                       </tr>
                     </thead>
                     <tbody>
@@ -270,6 +335,12 @@ export function Reports() {
                           <td className="p-2 text-gray-600 max-w-xs truncate">
                             {check.comment || 'No comment'}
                           </td>
+                          <td className="p-2">
+                            <EvidenceButton
+                              count={check.evidenceCount || 0}
+                              onClick={() => setEvidenceCheckId(check.checkId)}
+                            />
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -293,15 +364,21 @@ export function Reports() {
               </p>
               <ul className="text-sm text-blue-700 space-y-1">
                 <li>• All completed device maintenance checks for {selectedYear}</li>
-                <li>• Data organized by location/department for easy analysis</li>
+                <li>• Data grouped by site, building or area for easy analysis</li>
                 <li>• Employee tracking with timestamps for accountability</li>
                 <li>• Maintenance comments and observations</li>
+                <li>• Number of photos and files attached as evidence</li>
                 <li>• Compliance-ready format for regulatory audits</li>
               </ul>
             </div>
           </div>
         </CardContent>
       </Card>
+
+      <EvidenceGallery
+        checkId={evidenceCheckId}
+        onOpenChange={(open) => !open && setEvidenceCheckId(null)}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
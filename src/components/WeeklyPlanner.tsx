@@ -1,14 +1,27 @@
 import React, { useState, useEffect } from 'react';
-import { projectId, publicAnonKey, functionsBase } from '../utils/supabase/info';
+import { projectId, functionsBase } from '../utils/supabase/info';
+import { authHeaders } from '../utils/supabase';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Checkbox } from './ui/checkbox';
 import { Calendar } from './ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
-import { Calendar as CalendarIcon, CheckSquare, Clock, Users } from 'lucide-react';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { CheckAssignments } from './CheckAssignments';
+import { InspectorWorkload } from './InspectorWorkload';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
+import { Calendar as CalendarIcon, CheckSquare, Clock, Users, AlertTriangle } from 'lucide-react';
 import { toast } from "sonner";
-import { Device, AppUser } from '../App';
+import { Device, DeviceCheck, AppUser, CheckSuggestion, SuggestionUrgency, PlanDiff, PlanDiffEntry } from '../App';
+import { getDeviceRecurrence, describeRecurrence } from '../supabase/functions/server/schedule';
+
+const URGENCY_STYLES: Record<SuggestionUrgency, { label: string; className: string }> = {
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-700' },
+  never_checked: { label: 'Never checked', className: 'bg-orange-100 text-orange-700' },
+  due: { label: 'Due this week', className: 'bg-blue-100 text-blue-700' }
+};
 
 interface WeeklyPlannerProps {
   user: AppUser;
@@ -20,7 +33,11 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [selectedWeek, setSelectedWeek] = useState('');
   const [selectedYear, setSelectedYear] = useState('');
-  const [existingPlan, setExistingPlan] = useState<any>(null);
+  // The week's checks that are still planned (cancelled ones are left out)
+  const [existingPlan, setExistingPlan] = useState<DeviceCheck[]>([]);
+  const [planDiff, setPlanDiff] = useState<PlanDiff | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [suggestions, setSuggestions] = useState<CheckSuggestion[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
 
@@ -54,6 +71,7 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
   useEffect(() => {
     if (selectedWeek && selectedYear) {
       checkExistingPlan();
+      fetchSuggestions();
     }
   }, [selectedWeek, selectedYear]);
 
@@ -61,10 +79,10 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
     try {
       setLoading(true);
       const response = await fetch(
-        `${functionsBase(projectId)}/devices`,
+        `${functionsBase(projectId)}/devices?status=active`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
@@ -90,27 +108,52 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
         `${functionsBase(projectId)}/weekly-plans/${selectedYear}/${selectedWeek}`,
         {
           headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(await authHeaders()),
             'Content-Type': 'application/json'
           }
         }
       );
 
       if (response.ok) {
-        const checks = await response.json();
+        const checks: DeviceCheck[] = (await response.json()).filter((check: DeviceCheck) => check.status !== 'cancelled');
         setExistingPlan(checks);
-        setSelectedDevices(checks.map((check: any) => check.deviceId));
+        setSelectedDevices(checks.map(check => check.deviceId));
       } else {
-        setExistingPlan(null);
+        setExistingPlan([]);
         setSelectedDevices([]);
       }
     } catch (error) {
       console.error('Error checking existing plan:', error);
-      setExistingPlan(null);
+      setExistingPlan([]);
       setSelectedDevices([]);
     }
   };
 
+  const fetchSuggestions = async () => {
+    try {
+      const response = await fetch(
+        `${functionsBase(projectId)}/weekly-plans/${selectedYear}/${selectedWeek}/suggestions`,
+        {
+          headers: {
+            ...(await authHeaders()),
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      if (response.ok) {
+        setSuggestions(await response.json());
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to fetch suggestions');
+        setSuggestions([]);
+      }
+    } catch (error) {
+      console.error('Error fetching suggestions:', error);
+      setSuggestions([]);
+    }
+  };
+
   const getWeekNumber = (date: Date): number => {
     const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
     const dayNum = d.getUTCDay() || 7;
@@ -134,20 +177,6 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
     return `${ISOweekStart.toLocaleDateString()} - ${weekEnd.toLocaleDateString()}`;
   };
 
-  const isDeviceDueForCheck = (device: Device): boolean => {
-    // Simple logic - in a real app, you'd check the last check date
-    // For now, suggest devices that should be checked based on frequency
-    const currentWeekNum = parseInt(selectedWeek);
-    const deviceFreq = device.plannedFrequency;
-
-    // Suggest device if current week is divisible by its frequency
-    return currentWeekNum % deviceFreq === 0;
-  };
-
-  const getSuggestedDevices = (): Device[] => {
-    return devices.filter(device => isDeviceDueForCheck(device));
-  };
-
   const handleDeviceToggle = (deviceId: string) => {
     setSelectedDevices(prev =>
       prev.includes(deviceId)
@@ -157,50 +186,84 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
   };
 
   const handleSelectSuggested = () => {
-    const suggested = getSuggestedDevices().map(d => d.id);
-    setSelectedDevices(suggested);
+    setSelectedDevices(prev => [...new Set([...prev, ...suggestions.map(suggestion => suggestion.deviceId)])]);
+  };
+
+  // Saves the selection as the week's plan; with dryRun the server only returns the diff
+  const savePlan = async (dryRun: boolean, reason = '') => {
+    const response = await fetch(
+      `${functionsBase(projectId)}/weekly-plans/${selectedYear}/${selectedWeek}`,
+      {
+        method: 'PUT',
+        headers: {
+          ...(await authHeaders()),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ deviceIds: selectedDevices, reason, dryRun })
+      }
+    );
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to save weekly plan');
+    }
+    return result as { diff: PlanDiff };
   };
 
   const handleSubmitPlan = async () => {
-    if (selectedDevices.length === 0) {
+    if (selectedDevices.length === 0 && existingPlan.length === 0) {
       toast.error('Please select at least one device');
       return;
     }
 
     try {
       setSubmitting(true);
-      const response = await fetch(
-        `${functionsBase(projectId)}/weekly-plans`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            week: selectedWeek,
-            year: selectedYear,
-            deviceIds: selectedDevices,
-            assignedBy: user.employeeId
-          })
-        }
-      );
 
-      if (response.ok) {
-        toast.success('Weekly plan created successfully');
-        checkExistingPlan(); // Refresh the plan
-      } else {
-        const error = await response.json();
-        toast.error(error.error || 'Failed to create weekly plan');
+      // Changes to a week that already has checks are reviewed before saving
+      if (existingPlan.length > 0) {
+        const { diff } = await savePlan(true);
+        setCancelReason('');
+        setPlanDiff(diff);
+        return;
       }
+
+      await savePlan(false);
+      toast.success('Weekly plan created successfully');
+      checkExistingPlan(); // Refresh the plan
+      fetchSuggestions();
     } catch (error) {
       console.error('Error creating weekly plan:', error);
-      toast.error('Failed to create weekly plan');
+      toast.error(error instanceof Error ? error.message : 'Failed to create weekly plan');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleConfirmChanges = async () => {
+    if (!planDiff) return;
+
+    if (planDiff.removed.length > 0 && !cancelReason.trim()) {
+      toast.error('Give a reason for cancelling the removed checks');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await savePlan(false, cancelReason.trim());
+      toast.success('Weekly plan updated');
+      setPlanDiff(null);
+      checkExistingPlan();
+      fetchSuggestions();
+    } catch (error) {
+      console.error('Error updating weekly plan:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update weekly plan');
     } finally {
       setSubmitting(false);
     }
   };
 
+  const planHasChanges = planDiff !== null && (planDiff.added.length > 0 || planDiff.removed.length > 0);
+
   const getWeekEndDate = (startDate: Date): Date => {
     const endDate = new Date(startDate);
     // Calculate how many days until Sunday (0 = Sunday, 1 = Monday, etc.)
@@ -271,8 +334,6 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
     );
   }
 
-  const suggestedDevices = getSuggestedDevices();
-
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -348,7 +409,7 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
       </Card>
 
       {/* Existing Plan Notice */}
-      {existingPlan && existingPlan.length > 0 && (
+      {existingPlan.length > 0 && (
         <Card className="border-yellow-200 bg-yellow-50">
           <CardContent className="pt-6">
             <div className="flex items-center">
@@ -358,7 +419,7 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
                   A plan already exists for Week {selectedWeek} - {selectedYear}
                 </p>
                 <p className="text-sm text-yellow-700">
-                  {existingPlan.length} devices are currently assigned for checking
+                  {existingPlan.length} devices are currently assigned for checking. Changes are shown for review before they are saved.
                 </p>
               </div>
             </div>
@@ -366,8 +427,22 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
         </Card>
       )}
 
+      <CheckAssignments
+        checks={existingPlan.filter(check => check.status === 'pending')}
+        devices={devices}
+        onAssigned={checkExistingPlan}
+      />
+
+      <InspectorWorkload
+        year={selectedYear}
+        week={selectedWeek}
+        checks={existingPlan}
+        selectedDeviceIds={selectedDevices}
+        onDistributed={checkExistingPlan}
+      />
+
       {/* Suggested Devices */}
-      {suggestedDevices.length > 0 && (
+      {suggestions.length > 0 && (
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -382,22 +457,32 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
           </CardHeader>
           <CardContent>
             <p className="text-sm text-gray-600 mb-4">
-              These devices are due for checking based on their maintenance frequency:
+              Devices due or overdue by this week from their last check and schedule, most urgent first:
             </p>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-              {suggestedDevices.map((device) => (
-                <div key={device.id} className="p-3 border rounded-lg bg-blue-50 border-blue-200">
-                  <div className="flex items-center space-x-2">
+            <div className="space-y-2">
+              {suggestions.map((suggestion) => (
+                <div
+                  key={suggestion.deviceId}
+                  className={`p-3 border rounded-lg ${suggestion.urgency === 'overdue' ? 'bg-red-50 border-red-200' : 'bg-blue-50 border-blue-200'}`}
+                >
+                  <div className="flex items-start space-x-2">
                     <Checkbox
-                      checked={selectedDevices.includes(device.id)}
-                      onCheckedChange={() => handleDeviceToggle(device.id)}
+                      className="mt-1"
+                      checked={selectedDevices.includes(suggestion.deviceId)}
+                      onCheckedChange={() => handleDeviceToggle(suggestion.deviceId)}
                     />
                     <div className="flex-1">
-                      <p className="text-sm">{device.name}</p>
-                      <p className="text-xs text-gray-600">{device.location}</p>
-                      <Badge variant="secondary" className="text-xs mt-1">
-                        Every {device.plannedFrequency} week{device.plannedFrequency > 1 ? 's' : ''}
-                      </Badge>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="text-sm">{suggestion.deviceName}</p>
+                        <Badge className={`text-xs ${URGENCY_STYLES[suggestion.urgency].className}`}>
+                          {suggestion.urgency === 'overdue' && <AlertTriangle className="h-3 w-3 mr-1" />}
+                          {URGENCY_STYLES[suggestion.urgency].label}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-gray-600">
+                        {suggestion.deviceIdentificationNumber} • {suggestion.deviceLocation}
+                      </p>
+                      <p className="text-xs text-gray-700 mt-1">{suggestion.reason}</p>
                     </div>
                   </div>
                 </div>
@@ -419,7 +504,7 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
           <div className="space-y-3">
             {devices.map((device) => {
               const isSelected = selectedDevices.includes(device.id);
-              const isSuggested = suggestedDevices.some(d => d.id === device.id);
+              const isSuggested = suggestions.some(suggestion => suggestion.deviceId === device.id);
 
               return (
                 <div
@@ -447,7 +532,7 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
                         {device.identificationNumber} • {device.location}
                       </p>
                       <p className="text-xs text-gray-500">
-                        Check frequency: Every {device.plannedFrequency} week{device.plannedFrequency > 1 ? 's' : ''}
+                        Check frequency: {describeRecurrence(getDeviceRecurrence(device))}
                       </p>
                     </div>
                   </div>
@@ -462,10 +547,12 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
       <div className="flex flex-col sm:flex-row gap-3">
         <Button
           onClick={handleSubmitPlan}
-          disabled={selectedDevices.length === 0 || submitting}
+          disabled={(selectedDevices.length === 0 && existingPlan.length === 0) || submitting}
           className="flex-1"
         >
-          {submitting ? 'Creating Plan...' : 'Create Weekly Plan'}
+          {existingPlan.length > 0
+            ? (submitting ? 'Checking Changes...' : 'Review Plan Changes')
+            : (submitting ? 'Creating Plan...' : 'Create Weekly Plan')}
         </Button>
 
         <Button
@@ -487,6 +574,68 @@ export function WeeklyPlanner({ user }: WeeklyPlannerProps) {
           </CardContent>
         </Card>
       )}
+
+      {/* Plan change review */}
+      <AlertDialog open={planDiff !== null} onOpenChange={(open) => !open && setPlanDiff(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Review changes to Week {selectedWeek} - {selectedYear}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {planHasChanges ? 'These changes will be saved to the plan.' : 'The selection matches the current plan.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {planDiff && (
+            <div className="space-y-3 text-sm">
+              <PlanDiffSection title="Added" entries={planDiff.added} className="text-green-700" />
+              <PlanDiffSection title="Removed (pending check cancelled)" entries={planDiff.removed} className="text-red-700" />
+              <PlanDiffSection title="Already completed (kept)" entries={planDiff.locked} className="text-gray-700" />
+              <p className="text-gray-600">{planDiff.kept.length} unchanged</p>
+
+              {planDiff.removed.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="plan-cancel-reason">Reason for cancelling</Label>
+                  <Textarea
+                    id="plan-cancel-reason"
+                    placeholder="Line shut down for maintenance"
+                    value={cancelReason}
+                    onChange={(e) => setCancelReason(e.target.value)}
+                    rows={2}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={submitting}>Back</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!planHasChanges || submitting}
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirmChanges();
+              }}
+            >
+              {submitting ? 'Saving...' : 'Save Changes'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function PlanDiffSection({ title, entries, className }: { title: string; entries: PlanDiffEntry[]; className: string }) {
+  if (entries.length === 0) return null;
+
+  return (
+    <div>
+      <p className={className}>{title} ({entries.length})</p>
+      <ul className="list-disc pl-4 text-gray-700">
+        {entries.map(entry => (
+          <li key={entry.deviceId}>{entry.deviceName}</li>
+        ))}
+      </ul>
     </div>
   );
 }
\ No newline at end of file
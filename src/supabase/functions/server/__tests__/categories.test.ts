@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { resetHarness, request, employee, location } from './harness';
+import type { Harness } from './harness';
+
+const extinguishers = {
+  name: 'Fire extinguisher',
+  fields: [
+    { label: 'Serial number', type: 'text', required: true },
+    { label: 'Capacity', type: 'number', unit: 'kg', required: true },
+    { label: 'Expiry date', type: 'date' },
+    { label: 'Agent', type: 'select', options: ['Powder', 'CO2', 'Foam'] },
+    { label: 'Wall mounted', type: 'boolean' }
+  ]
+};
+
+const hallA = { 'location:hall-a': location('location:hall-a', 'Hall A') };
+
+const extinguisher = {
+  name: 'Extinguisher 1',
+  identificationNumber: 'FE-001',
+  locationId: 'location:hall-a',
+  plannedFrequency: 4
+};
+
+describe('device categories', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    harness = resetHarness(hallA, [employee('u-1', 'E100'), employee('u-planner', 'P100', 'planner')]);
+  });
+
+  it('creates a category with derived field keys and only lets admins define them', async () => {
+    const created = await request('POST', '/device-categories', { json: extinguishers });
+    expect(created.status).toBe(200);
+    expect(created.body.category.id).toMatch(/^device-category:/);
+    expect(created.body.category.fields.map((field: any) => field.key)).toEqual([
+      'serial_number', 'capacity', 'expiry_date', 'agent', 'wall_mounted'
+    ]);
+    expect(created.body.category.fields[1]).toMatchObject({ type: 'number', unit: 'kg', required: true });
+
+    const duplicate = await request('POST', '/device-categories', { json: { name: 'fire EXTINGUISHER' } });
+    expect(duplicate.status).toBe(409);
+
+    const noOptions = await request('POST', '/device-categories', { json: { name: 'Harness', fields: [{ label: 'Size', type: 'select' }] } });
+    expect(noOptions.status).toBe(400);
+
+    const badDuration = await request('POST', '/device-categories', { json: { name: 'Harness', estimatedMinutes: 2.5 } });
+    expect(badDuration.body.field).toBe('estimatedMinutes');
+
+    const asPlanner = await request('POST', '/device-categories', { token: 'u-planner', json: { name: 'Harness' } });
+    expect(asPlanner.status).toBe(403);
+
+    const listed = await request('GET', '/device-categories', { token: 'u-1' });
+    expect(listed.body).toHaveLength(1);
+  });
+
+  it('validates and coerces custom fields on create, update and import', async () => {
+    const { body: { category } } = await request('POST', '/device-categories', { json: extinguishers });
+
+    const missing = await request('POST', '/devices', { json: { ...extinguisher, categoryId: category.id, customFields: { capacity: 6 } } });
+    expect(missing.status).toBe(400);
+    expect(missing.body.field).toBe('customFields.serial_number');
+
+    const badOption = await request('POST', '/devices', {
+      json: { ...extinguisher, categoryId: category.id, customFields: { serial_number: 'S1', capacity: 6, agent: 'Water' } }
+    });
+    expect(badOption.body.field).toBe('customFields.agent');
+
+    const created = await request('POST', '/devices', {
+      json: {
+        ...extinguisher,
+        categoryId: category.id,
+        customFields: { serial_number: ' S1 ', capacity: '6', agent: 'co2', wall_mounted: 'yes', unknown: 'dropped' }
+      }
+    });
+    expect(created.status).toBe(200);
+    expect(created.body.device.customFields).toEqual({ serial_number: 'S1', capacity: 6, agent: 'CO2', wall_mounted: true });
+
+    const badDate = await request('PATCH', `/devices/${created.body.device.id}`, {
+      json: { customFields: { ...created.body.device.customFields, expiry_date: '31/12/2027' } }
+    });
+    expect(badDate.body.field).toBe('customFields.expiry_date');
+
+    // Other edits keep the stored values
+    const renamed = await request('PATCH', `/devices/${created.body.device.id}`, { json: { name: 'Extinguisher 1A' } });
+    expect(renamed.body.device.customFields.serial_number).toBe('S1');
+
+    const imported = await request('POST', '/devices/batch', {
+      json: { devices: [{ ...extinguisher, identificationNumber: 'FE-002', categoryId: category.id, customFields: { serial_number: 'S2' } }] }
+    });
+    expect(imported.status).toBe(400);
+    expect(imported.body.rowErrors[0].error).toBe('Capacity is required');
+
+    const unknownCategory = await request('POST', '/devices', { json: { ...extinguisher, identificationNumber: 'FE-003', categoryId: 'device-category:missing' } });
+    expect(unknownCategory.body.field).toBe('categoryId');
+  });
+
+  it('filters and searches by category and refuses to delete a category in use', async () => {
+    const { body: { category } } = await request('POST', '/device-categories', { json: extinguishers });
+    const { body: { device } } = await request('POST', '/devices', {
+      json: { ...extinguisher, categoryId: category.id, customFields: { serial_number: 'SN-4411', capacity: 6 } }
+    });
+    await request('POST', '/devices', { json: { ...extinguisher, name: 'Eyewash', identificationNumber: 'EW-001' } });
+
+    const inCategory = await request('GET', `/devices?categoryId=${category.id}`, { token: 'u-1' });
+    expect(inCategory.body.map((d: any) => d.id)).toEqual([device.id]);
+
+    const bySerial = await request('GET', '/devices/summary?search=sn-4411', { token: 'u-1' });
+    expect(bySerial.body.map((d: any) => d.id)).toEqual([device.id]);
+
+    const unknown = await request('GET', '/devices?categoryId=device-category:missing', { token: 'u-1' });
+    expect(unknown.status).toBe(400);
+
+    const blocked = await request('DELETE', `/device-categories/${category.id}`);
+    expect(blocked.status).toBe(409);
+
+    await request('PATCH', `/devices/${device.id}`, { json: { categoryId: '' } });
+    expect(harness.store.dump()[device.id].customFields).toEqual({});
+
+    const deleted = await request('DELETE', `/device-categories/${category.id}`);
+    expect(deleted.status).toBe(200);
+  });
+});
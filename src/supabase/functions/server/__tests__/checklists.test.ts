@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { resetHarness, request, employee, location } from './harness';
+import type { Harness } from './harness';
+
+const extinguisherTemplate = {
+  name: 'Fire extinguisher',
+  items: [
+    { label: 'Pressure gauge', type: 'measurement', unit: 'bar', min: 12, max: 16 },
+    { label: 'Seal intact', type: 'boolean' },
+    { label: 'Hose undamaged' }
+  ]
+};
+
+const hallA = { 'location:hall-a': location('location:hall-a', 'Hall A') };
+
+const extinguisher = {
+  name: 'Extinguisher 1',
+  identificationNumber: 'FE-001',
+  locationId: 'location:hall-a',
+  plannedFrequency: 4
+};
+
+describe('checklist templates', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    harness = resetHarness(hallA, [employee('u-1', 'E100')]);
+  });
+
+  it('creates a template with item ids and lists it', async () => {
+    const created = await request('POST', '/checklist-templates', { json: extinguisherTemplate });
+    expect(created.status).toBe(200);
+    expect(created.body.template.id).toMatch(/^checklist-template:/);
+    expect(created.body.template.items).toHaveLength(3);
+    expect(created.body.template.items[0]).toMatchObject({ label: 'Pressure gauge', type: 'measurement', unit: 'bar', min: 12, max: 16 });
+    expect(created.body.template.items[2]).toMatchObject({ label: 'Hose undamaged', type: 'boolean' });
+    expect(new Set(created.body.template.items.map((item: any) => item.id)).size).toBe(3);
+
+    const listed = await request('GET', '/checklist-templates', { token: 'u-1' });
+    expect(listed.status).toBe(200);
+    expect(listed.body).toHaveLength(1);
+  });
+
+  it('rejects invalid templates and employee writes', async () => {
+    const empty = await request('POST', '/checklist-templates', { json: { name: 'Empty', items: [] } });
+    expect(empty.status).toBe(400);
+
+    const badRange = await request('POST', '/checklist-templates', {
+      json: { name: 'Bad', items: [{ label: 'Gauge', type: 'measurement', min: 5, max: 1 }] }
+    });
+    expect(badRange.status).toBe(400);
+
+    const forbidden = await request('POST', '/checklist-templates', { token: 'u-1', json: extinguisherTemplate });
+    expect(forbidden.status).toBe(403);
+  });
+
+  it('keeps item ids on update and refuses to delete an assigned template', async () => {
+    const { body: { template } } = await request('POST', '/checklist-templates', { json: extinguisherTemplate });
+
+    const updated = await request('PUT', `/checklist-templates/${template.id}`, {
+      json: { ...template, items: [...template.items, { label: 'Pin in place' }] }
+    });
+    expect(updated.status).toBe(200);
+    expect(updated.body.template.items.slice(0, 3)).toEqual(template.items);
+    expect(updated.body.template.items).toHaveLength(4);
+
+    await request('POST', '/devices', { json: { ...extinguisher, checklistTemplateId: template.id } });
+    const blocked = await request('DELETE', `/checklist-templates/${template.id}`);
+    expect(blocked.status).toBe(409);
+    expect(harness.store.dump()[template.id]).toBeDefined();
+  });
+
+  it('rejects devices pointing at an unknown template', async () => {
+    const created = await request('POST', '/devices', { json: { ...extinguisher, checklistTemplateId: 'checklist-template:missing' } });
+    expect(created.status).toBe(400);
+    expect(created.body.field).toBe('checklistTemplateId');
+  });
+});
+
+describe('checklist results on check completion', () => {
+  let harness: Harness;
+  let template: any;
+  let checkId: string;
+
+  beforeEach(async () => {
+    harness = resetHarness(hallA);
+    template = (await request('POST', '/checklist-templates', { json: extinguisherTemplate })).body.template;
+    const { body: { device } } = await request('POST', '/devices', { json: { ...extinguisher, checklistTemplateId: template.id } });
+    await request('POST', '/weekly-plans', { json: { year: '2026', week: '10', deviceIds: [device.id], assignedBy: 'planner' } });
+    checkId = encodeURIComponent(`check:2026:10:${device.id}`);
+  });
+
+  const [gauge, seal, hose] = [0, 1, 2];
+
+  it('stores per-item results with a snapshot of the template', async () => {
+    const completed = await request('PUT', `/checks/${checkId}/complete`, {
+      json: {
+        completedBy: 'E100',
+        outcome: 'passed_with_remarks',
+        comment: 'Seal to be replaced at next visit',
+        results: [
+          { itemId: template.items[gauge].id, result: 'pass', value: '14.5' },
+          { itemId: template.items[seal].id, result: 'fail', note: 'Seal missing' },
+          { itemId: template.items[hose].id, result: 'na' }
+        ]
+      }
+    });
+
+    expect(completed.status).toBe(200);
+    expect(completed.body.check).toMatchObject({
+      status: 'completed',
+      checklistTemplateId: template.id,
+      checklistTemplateName: 'Fire extinguisher'
+    });
+    expect(completed.body.check.results).toEqual([
+      { itemId: template.items[gauge].id, label: 'Pressure gauge', type: 'measurement', unit: 'bar', result: 'pass', value: 14.5, min: 12, max: 16 },
+      { itemId: template.items[seal].id, label: 'Seal intact', type: 'boolean', result: 'fail', note: 'Seal missing' },
+      { itemId: template.items[hose].id, label: 'Hose undamaged', type: 'boolean', result: 'na' }
+    ]);
+
+    // Renaming an item later does not rewrite the recorded result
+    await request('PUT', `/checklist-templates/${template.id}`, {
+      json: { ...template, items: template.items.map((item: any) => ({ ...item, label: `${item.label} (v2)` })) }
+    });
+    const stored = harness.store.dump()[decodeURIComponent(checkId)];
+    expect(stored.results[0].label).toBe('Pressure gauge');
+  });
+
+  it('rejects incomplete results and missing measurements', async () => {
+    const missingItem = await request('PUT', `/checks/${checkId}/complete`, {
+      json: { completedBy: 'E100', results: [{ itemId: template.items[gauge].id, result: 'pass', value: 14 }] }
+    });
+    expect(missingItem.status).toBe(400);
+
+    const missingValue = await request('PUT', `/checks/${checkId}/complete`, {
+      json: {
+        completedBy: 'E100',
+        results: template.items.map((item: any) => ({ itemId: item.id, result: 'pass' }))
+      }
+    });
+    expect(missingValue.status).toBe(400);
+    expect(missingValue.body.error).toContain('Pressure gauge');
+
+    const passedWithFailures = await request('PUT', `/checks/${checkId}/complete`, {
+      json: {
+        completedBy: 'E100',
+        results: template.items.map((item: any) => ({ itemId: item.id, result: 'fail', value: 10 }))
+      }
+    });
+    expect(passedWithFailures.status).toBe(400);
+
+    expect(harness.store.dump()[decodeURIComponent(checkId)].status).toBe('pending');
+  });
+});
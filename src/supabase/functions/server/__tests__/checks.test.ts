@@ -0,0 +1,381 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { resetHarness, request, employee, location } from './harness';
+import type { Harness } from './harness';
+
+const device = (id: string, plannedFrequency = 1) => ({
+  id,
+  name: `Device ${id}`,
+  identificationNumber: id.toUpperCase(),
+  location: 'Hall A',
+  plannedFrequency,
+  planComment: '',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  status: 'active'
+});
+
+const pendingCheck = (deviceId: string, year: number, week: number, extra: Record<string, any> = {}) => ({
+  id: `check:${year}:${week}:${deviceId}`,
+  deviceId,
+  year: String(year),
+  week: String(week),
+  status: 'pending',
+  assignedAt: '2026-01-01T00:00:00.000Z',
+  assignedBy: 'planner',
+  ...extra
+});
+
+describe('weekly plans and check completion', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    harness = resetHarness({ 'device:a': device('device:a', 2), 'device:b': device('device:b') }, [employee('u-1', 'E100')]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('creates a plan with one pending check per device and a scheduled date', async () => {
+    vi.setSystemTime(new Date('2026-03-02T08:00:00Z'));
+
+    const created = await request('POST', '/weekly-plans', {
+      json: { year: '2026', week: '10', deviceIds: ['device:a', 'device:b'], assignedBy: 'planner' }
+    });
+    expect(created.status).toBe(200);
+
+    const rows = harness.store.dump();
+    expect(rows['plan:2026:10']).toMatchObject({ year: '2026', week: '10', status: 'planned' });
+    expect(rows['check:2026:10:device:a']).toMatchObject({
+      status: 'pending',
+      scheduledDate: '2026-03-02T00:00:00.000Z'
+    });
+
+    const listed = await request('GET', '/weekly-plans/2026/10');
+    expect(listed.body).toHaveLength(2);
+  });
+
+  it('completes a check and schedules the next one from the device frequency', async () => {
+    vi.setSystemTime(new Date('2026-03-04T10:00:00Z'));
+    await request('POST', '/weekly-plans', {
+      json: { year: '2026', week: '10', deviceIds: ['device:a'], assignedBy: 'planner' }
+    });
+
+    const completed = await request('PUT', `/checks/${encodeURIComponent('check:2026:10:device:a')}/complete`, {
+      token: 'u-1',
+      json: { comment: 'All good' }
+    });
+
+    expect(completed.status).toBe(200);
+    expect(completed.body.check).toMatchObject({ status: 'completed', completedBy: 'E100', comment: 'All good' });
+    expect(completed.body.nextCheckScheduled).toMatchObject({ checkId: 'check:2026:12:device:a', year: 2026, week: 12 });
+
+    const rows = harness.store.dump();
+    expect(rows['check:2026:12:device:a']).toMatchObject({ status: 'pending', assignedBy: 'system', scheduledDate: '2026-03-16T00:00:00.000Z' });
+    expect(rows['device:a'].lastCheckedBy).toBe('E100');
+  });
+
+  it('records the signed-in inspector and refuses to complete a check twice', async () => {
+    vi.setSystemTime(new Date('2026-03-04T10:00:00Z'));
+    await request('POST', '/weekly-plans', {
+      json: { year: '2026', week: '10', deviceIds: ['device:a'], assignedBy: 'planner' }
+    });
+    const path = `/checks/${encodeURIComponent('check:2026:10:device:a')}/complete`;
+
+    const completed = await request('PUT', path, { token: 'u-1', json: { completedBy: 'E999', comment: 'All good' } });
+    expect(completed.body.check.completedBy).toBe('E100');
+
+    vi.setSystemTime(new Date('2026-03-11T10:00:00Z'));
+    const again = await request('PUT', path, { token: 'u-1', json: { comment: 'Again' } });
+    expect(again.status).toBe(409);
+
+    const rows = harness.store.dump();
+    expect(rows['check:2026:10:device:a']).toMatchObject({ comment: 'All good', completedAt: '2026-03-04T10:00:00.000Z' });
+    expect(rows['check:2026:13:device:a']).toBeUndefined();
+  });
+
+  it('schedules the next check in the following ISO year across New Year', async () => {
+    // 2026-12-30 is in ISO week 53 of 2026; one week later is week 1 of 2027
+    vi.setSystemTime(new Date('2026-12-30T10:00:00Z'));
+    harness = resetHarness({
+      'device:b': device('device:b'),
+      'check:2026:53:device:b': pendingCheck('device:b', 2026, 53)
+    });
+
+    const completed = await request('PUT', `/checks/${encodeURIComponent('check:2026:53:device:b')}/complete`, {
+      json: { completedBy: 'E100' }
+    });
+
+    expect(completed.body.nextCheckScheduled).toMatchObject({ year: 2027, week: 1 });
+    expect(harness.store.dump()['check:2027:1:device:b'].scheduledDate).toBe('2027-01-04T00:00:00.000Z');
+  });
+
+  it('returns 404 for an unknown check', async () => {
+    const missing = await request('PUT', '/checks/check:2026:1:device:zz/complete', { json: { completedBy: 'E100' } });
+    expect(missing.status).toBe(404);
+  });
+});
+
+describe('recurrence rules', () => {
+  let harness: Harness;
+
+  const complete = (checkId: string) =>
+    request('PUT', `/checks/${encodeURIComponent(checkId)}/complete`, { json: { completedBy: 'E100' } });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    harness = resetHarness({ 'device:a': device('device:a', 2), 'device:b': device('device:b', 2) });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps a due-date schedule when a check is done late, unlike a completion-anchored one', async () => {
+    const updated = await request('PATCH', '/devices/device:b', {
+      json: { recurrence: { unit: 'week', interval: 2, anchor: 'completion' } }
+    });
+    expect(updated.status).toBe(200);
+
+    vi.setSystemTime(new Date('2026-03-02T08:00:00Z'));
+    await request('POST', '/weekly-plans', { json: { year: '2026', week: '10', deviceIds: ['device:a', 'device:b'], assignedBy: 'planner' } });
+
+    // Done in week 11, a week late
+    vi.setSystemTime(new Date('2026-03-12T10:00:00Z'));
+    const onSchedule = await complete('check:2026:10:device:a');
+    expect(onSchedule.body.nextCheckScheduled).toMatchObject({ week: 12, dueDate: '2026-03-16T00:00:00.000Z' });
+
+    const shifted = await complete('check:2026:10:device:b');
+    expect(shifted.body.nextCheckScheduled).toMatchObject({ week: 13, dueDate: '2026-03-26T00:00:00.000Z' });
+
+    // Occurrences that passed while the check was overdue are skipped
+    vi.setSystemTime(new Date('2026-04-01T10:00:00Z'));
+    const skipped = await complete('check:2026:12:device:a');
+    expect(skipped.body.nextCheckScheduled).toMatchObject({ week: 16, dueDate: '2026-04-13T00:00:00.000Z' });
+  });
+
+  it('steps monthly rules by calendar month without drifting after short months', async () => {
+    harness = resetHarness({
+      'device:m': { ...device('device:m'), recurrence: { unit: 'month', interval: 1, anchor: 'due' } },
+      'check:2026:5:device:m': pendingCheck('device:m', 2026, 5, { dueDate: '2026-01-31T00:00:00.000Z' })
+    });
+
+    vi.setSystemTime(new Date('2026-01-30T10:00:00Z'));
+    const february = await complete('check:2026:5:device:m');
+    expect(february.body.nextCheckScheduled).toMatchObject({ checkId: 'check:2026:9:device:m', dueDate: '2026-02-28T00:00:00.000Z' });
+    expect(harness.store.dump()['check:2026:9:device:m'].anchorDay).toBe(31);
+
+    vi.setSystemTime(new Date('2026-02-27T10:00:00Z'));
+    const march = await complete('check:2026:9:device:m');
+    expect(march.body.nextCheckScheduled).toMatchObject({ dueDate: '2026-03-31T00:00:00.000Z' });
+  });
+
+  it('accepts quarterly and annual shorthands on a fixed weekday and plans checks on that day', async () => {
+    const invalid = await request('PATCH', '/devices/device:a', { json: { recurrence: { unit: 'day', interval: 3 } } });
+    expect(invalid.status).toBe(400);
+
+    const badWeekday = await request('PATCH', '/devices/device:a', { json: { recurrence: { unit: 'week', weekday: 8 } } });
+    expect(badWeekday.status).toBe(400);
+
+    const annual = await request('PATCH', '/devices/device:a', { json: { recurrence: { unit: 'year', weekday: 4 } } });
+    expect(annual.body.device).toMatchObject({
+      recurrence: { unit: 'month', interval: 12, weekday: 4, anchor: 'due' },
+      plannedFrequency: 52
+    });
+    expect(harness.store.dump()['device:a'].frequencyChanges[0]).toMatchObject({ from: 2, to: 52 });
+
+    vi.setSystemTime(new Date('2026-03-02T08:00:00Z'));
+    await request('POST', '/weekly-plans', { json: { year: '2026', week: '10', deviceIds: ['device:a'], assignedBy: 'planner' } });
+    expect(harness.store.dump()['check:2026:10:device:a'].dueDate).toBe('2026-03-05T00:00:00.000Z');
+
+    // A year on from Thursday 5 March 2026, moved to the Thursday of that week
+    const completed = await complete('check:2026:10:device:a');
+    expect(completed.body.nextCheckScheduled).toMatchObject({ year: 2027, week: 9, dueDate: '2027-03-04T00:00:00.000Z' });
+
+    const quarterly = await request('PATCH', '/devices/device:a', { json: { recurrence: { unit: 'quarter' } } });
+    expect(quarterly.body.device.recurrence).toEqual({ unit: 'month', interval: 3, anchor: 'due' });
+  });
+});
+
+describe('delayed check detection', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('flags checks from earlier weeks and leaves the current week alone', async () => {
+    vi.setSystemTime(new Date('2026-03-11T09:00:00Z')); // ISO 2026-W11, Wednesday
+    resetHarness({
+      'device:a': device('device:a'),
+      'check:2026:10:device:a': pendingCheck('device:a', 2026, 10),
+      'check:2026:11:device:a': pendingCheck('device:a', 2026, 11),
+      'check:2026:9:device:a': pendingCheck('device:a', 2026, 9, { status: 'completed' })
+    });
+
+    const delayed = await request('GET', '/delayed-checks');
+    expect(delayed.status).toBe(200);
+    expect(delayed.body.map((check: any) => check.id)).toEqual(['check:2026:10:device:a']);
+    expect(delayed.body[0]).toMatchObject({ scheduledDate: '2026-03-02T00:00:00.000Z', daysOverdue: 3 });
+  });
+
+  it('treats ISO week 53 as overdue in early January of the next year', async () => {
+    vi.setSystemTime(new Date('2027-01-05T09:00:00Z')); // ISO 2027-W1
+    resetHarness({
+      'device:a': device('device:a'),
+      'check:2026:53:device:a': pendingCheck('device:a', 2026, 53),
+      'check:2027:1:device:a': pendingCheck('device:a', 2027, 1)
+    });
+
+    const delayed = await request('GET', '/delayed-checks');
+    expect(delayed.body.map((check: any) => check.id)).toEqual(['check:2026:53:device:a']);
+    expect(delayed.body[0].daysOverdue).toBe(2);
+  });
+
+  it('does not flag a week-1 check dated in the previous calendar year', async () => {
+    // ISO 2025-W1 starts on 2024-12-30, so on 2024-12-31 it is the current week
+    vi.setSystemTime(new Date('2024-12-31T09:00:00Z'));
+    resetHarness({
+      'device:a': device('device:a'),
+      'check:2025:1:device:a': pendingCheck('device:a', 2025, 1),
+      'check:2024:51:device:a': pendingCheck('device:a', 2024, 51)
+    });
+
+    const delayed = await request('GET', '/delayed-checks');
+    expect(delayed.body.map((check: any) => check.id)).toEqual(['check:2024:51:device:a']);
+  });
+
+  it('prefers a recorded scheduledDate over the year/week fallback', async () => {
+    vi.setSystemTime(new Date('2026-03-11T09:00:00Z'));
+    resetHarness({
+      'device:a': device('device:a'),
+      'check:2026:10:device:a': pendingCheck('device:a', 2026, 10, { scheduledDate: '2026-02-23T00:00:00.000Z' })
+    });
+
+    const delayed = await request('GET', '/delayed-checks');
+    expect(delayed.body[0].daysOverdue).toBe(10);
+  });
+
+  it('joins device details and filters, sorts and pages by them', async () => {
+    vi.setSystemTime(new Date('2026-03-11T09:00:00Z'));
+    resetHarness({
+      'location:hall-a': location('location:hall-a', 'Hall A'),
+      'location:hall-b': location('location:hall-b', 'Hall B'),
+      'device:a': { ...device('device:a'), locationId: 'location:hall-a' },
+      'device:b': { ...device('device:b'), locationId: 'location:hall-b', location: 'Hall B' },
+      'check:2026:9:device:a': pendingCheck('device:a', 2026, 9),
+      'check:2026:10:device:a': pendingCheck('device:a', 2026, 10),
+      'check:2026:10:device:b': pendingCheck('device:b', 2026, 10)
+    });
+
+    const hallA = await request('GET', '/delayed-checks?locationId=location:hall-a');
+    expect(hallA.body.map((check: any) => check.id)).toEqual(['check:2026:9:device:a', 'check:2026:10:device:a']);
+    expect(hallA.body[0]).toMatchObject({ deviceName: 'Device device:a', deviceLocation: 'Hall A', deviceIdentificationNumber: 'DEVICE:A' });
+
+    const paged = await request('GET', '/delayed-checks?sort=deviceLocation&order=desc&pageSize=1');
+    expect(paged.body).toMatchObject({ total: 3, totalPages: 3 });
+    expect(paged.body.items[0].id).toBe('check:2026:10:device:b');
+  });
+});
+
+describe('check outcomes and corrective actions', () => {
+  let harness: Harness;
+  const checkPath = `/checks/${encodeURIComponent('check:2026:10:device:a')}/complete`;
+  const failure = {
+    completedBy: 'E100',
+    outcome: 'failed',
+    comment: 'Hydraulic leak',
+    correctiveAction: { description: 'Replace hydraulic seal', owner: 'E200', dueDate: '2026-03-13' }
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-04T10:00:00Z'));
+    harness = resetHarness(
+      { 'device:a': device('device:a', 2), 'check:2026:10:device:a': pendingCheck('device:a', 2026, 10) },
+      [employee('u-1', 'E100'), employee('u-2', 'E200'), employee('u-3', 'E300')]
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records remarks and still schedules the next check', async () => {
+    const noComment = await request('PUT', checkPath, { json: { completedBy: 'E100', outcome: 'passed_with_remarks' } });
+    expect(noComment.status).toBe(400);
+
+    const completed = await request('PUT', checkPath, {
+      json: { completedBy: 'E100', outcome: 'passed_with_remarks', comment: 'Paint chipped' }
+    });
+    expect(completed.status).toBe(200);
+    expect(completed.body.check.outcome).toBe('passed_with_remarks');
+    expect(completed.body.nextCheckScheduled).toMatchObject({ checkId: 'check:2026:12:device:a' });
+  });
+
+  it('opens a corrective action for a failed check instead of scheduling the next one', async () => {
+    const completed = await request('PUT', checkPath, { json: failure });
+
+    expect(completed.status).toBe(200);
+    expect(completed.body.nextCheckScheduled).toBeNull();
+    expect(completed.body.correctiveAction).toMatchObject({
+      deviceId: 'device:a',
+      checkId: 'check:2026:10:device:a',
+      owner: 'E200',
+      dueDate: '2026-03-13',
+      status: 'open'
+    });
+
+    const rows = harness.store.dump();
+    expect(rows['check:2026:10:device:a']).toMatchObject({ outcome: 'failed', correctiveActionId: completed.body.correctiveAction.id });
+    expect(rows['device:a'].lastCheckOutcome).toBe('failed');
+    expect(rows['check:2026:12:device:a']).toBeUndefined();
+
+    const open = await request('GET', '/corrective-actions?status=open', { token: 'u-1' });
+    expect(open.body).toHaveLength(1);
+    expect(open.body[0].deviceName).toBe('Device device:a');
+
+    const owner = await request('GET', '/notifications/E200', { token: 'u-2' });
+    expect(owner.body[0]).toMatchObject({ type: 'corrective_action_assigned', correctiveActionId: completed.body.correctiveAction.id });
+  });
+
+  it('rejects a failed check without a valid corrective action', async () => {
+    const missing = await request('PUT', checkPath, { json: { completedBy: 'E100', outcome: 'failed' } });
+    expect(missing.status).toBe(400);
+
+    const unknownOwner = await request('PUT', checkPath, {
+      json: { ...failure, correctiveAction: { ...failure.correctiveAction, owner: 'E999' } }
+    });
+    expect(unknownOwner.status).toBe(400);
+
+    const badOutcome = await request('PUT', checkPath, { json: { completedBy: 'E100', outcome: 'ok' } });
+    expect(badOutcome.status).toBe(400);
+
+    expect(harness.store.dump()['check:2026:10:device:a'].status).toBe('pending');
+  });
+
+  it('lets the owner close the action, which resumes the schedule', async () => {
+    const { body: { correctiveAction } } = await request('PUT', checkPath, { json: failure });
+    const closePath = `/corrective-actions/${encodeURIComponent(correctiveAction.id)}/close`;
+
+    const notOwner = await request('PUT', closePath, { token: 'u-3', json: { closureNote: 'Done' } });
+    expect(notOwner.status).toBe(403);
+
+    const noNote = await request('PUT', closePath, { token: 'u-2', json: { closureNote: ' ' } });
+    expect(noNote.status).toBe(400);
+
+    vi.setSystemTime(new Date('2026-03-10T10:00:00Z'));
+    const closed = await request('PUT', closePath, { token: 'u-2', json: { closureNote: 'Seal replaced and tested' } });
+    expect(closed.status).toBe(200);
+    expect(closed.body.correctiveAction).toMatchObject({ status: 'closed', closedBy: 'E200', closureNote: 'Seal replaced and tested' });
+    expect(closed.body.nextCheckScheduled).toMatchObject({ checkId: 'check:2026:13:device:a' });
+
+    const again = await request('PUT', closePath, { token: 'u-2', json: { closureNote: 'Again' } });
+    expect(again.status).toBe(409);
+
+    const open = await request('GET', '/corrective-actions?status=open');
+    expect(open.body).toHaveLength(0);
+  });
+});
@@ -0,0 +1,571 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { resetHarness, request, employee, location, pdf } from './harness';
+import type { Harness } from './harness';
+
+const halls = {
+  'location:hall-a': location('location:hall-a', 'Hall A'),
+  'location:hall-b': location('location:hall-b', 'Hall B')
+};
+
+const pressBrake = {
+  name: 'Press Brake',
+  identificationNumber: 'PB-001',
+  locationId: 'location:hall-a',
+  plannedFrequency: 2,
+  planComment: 'Check hydraulics'
+};
+
+describe('device CRUD', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    harness = resetHarness(halls);
+  });
+
+  it('creates a device and lists it', async () => {
+    const created = await request('POST', '/devices', { json: pressBrake });
+    expect(created.status).toBe(200);
+    expect(created.body.device).toMatchObject({ ...pressBrake, location: 'Hall A', status: 'active' });
+    expect(created.body.device.id).toMatch(/^device:/);
+
+    const listed = await request('GET', '/devices');
+    expect(listed.status).toBe(200);
+    expect(listed.body).toHaveLength(1);
+    expect(listed.body[0].id).toBe(created.body.device.id);
+  });
+
+  it('updates editable fields and ignores server-owned ones', async () => {
+    const { body: { device } } = await request('POST', '/devices', { json: pressBrake });
+
+    const updated = await request('PATCH', `/devices/${device.id}`, {
+      json: { locationId: 'location:hall-b', plannedFrequency: 4, status: 'retired', createdAt: '2000-01-01' }
+    });
+
+    expect(updated.status).toBe(200);
+    expect(updated.body.device).toMatchObject({ location: 'Hall B', plannedFrequency: 4, status: 'active' });
+    expect(updated.body.device.createdAt).toBe(device.createdAt);
+    expect(updated.body.device.updatedAt).toBeDefined();
+    expect(harness.store.dump()[device.id].location).toBe('Hall B');
+  });
+
+  it('rejects invalid updates and unknown devices', async () => {
+    const { body: { device } } = await request('POST', '/devices', { json: pressBrake });
+
+    const invalid = await request('PUT', `/devices/${device.id}`, { json: { plannedFrequency: 0 } });
+    expect(invalid.status).toBe(400);
+
+    const missing = await request('PUT', '/devices/device:missing', { json: { name: 'Nope' } });
+    expect(missing.status).toBe(404);
+
+    // Other KV rows are not devices, even though the key resolves
+    await request('POST', '/weekly-plans', { json: { year: '2026', week: '10', deviceIds: [device.id], assignedBy: 'planner' } });
+    const checkId = `check:2026:10:${device.id}`;
+    const notDevice = await request('PATCH', `/devices/${encodeURIComponent(checkId)}`, { json: { name: 'Nope' } });
+    expect(notDevice.status).toBe(404);
+    expect(harness.store.dump()[checkId].name).toBeUndefined();
+
+    const malformed = await request('GET', '/devices/%E0/history');
+    expect(malformed.status).toBe(400);
+  });
+
+  it('deletes a device together with its checks', async () => {
+    const { body: { device } } = await request('POST', '/devices', { json: pressBrake });
+    await request('POST', '/weekly-plans', { json: { year: '2026', week: '10', deviceIds: [device.id], assignedBy: 'planner' } });
+
+    const deleted = await request('DELETE', `/devices/${device.id}`);
+    expect(deleted.status).toBe(200);
+
+    const remaining = Object.keys(harness.store.dump()).filter((key) => key.startsWith('device:') || key.startsWith('check:'));
+    expect(remaining).toEqual([]);
+  });
+
+  it('only lets planners and admins create devices', async () => {
+    resetHarness(halls, [employee('u-emp', 'E100'), employee('u-plan', 'P100', 'planner')]);
+
+    const asEmployee = await request('POST', '/devices', { token: 'u-emp', json: pressBrake });
+    expect(asEmployee.status).toBe(403);
+
+    const asPlanner = await request('POST', '/devices', { token: 'u-plan', json: pressBrake });
+    expect(asPlanner.status).toBe(200);
+
+    const anonymous = await request('GET', '/devices', { token: 'not-a-session' });
+    expect(anonymous.status).toBe(401);
+  });
+});
+
+describe('bulk device import', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    harness = resetHarness(halls);
+  });
+
+  it('writes every row in one batch', async () => {
+    const imported = await request('POST', '/devices/batch', {
+      json: {
+        devices: [
+          pressBrake,
+          { name: 'Lathe', identificationNumber: 'LT-002', location: 'Hall B', plannedFrequency: '3' }
+        ]
+      }
+    });
+
+    expect(imported.status).toBe(200);
+    expect(imported.body.devices).toHaveLength(2);
+    expect(imported.body.devices[1]).toMatchObject({ plannedFrequency: 3, planComment: '', status: 'active' });
+
+    const stored = Object.values(harness.store.dump()).filter((row: any) => row.id?.startsWith('device:'));
+    expect(stored).toHaveLength(2);
+  });
+
+  it('rejects the whole batch when a row is invalid or duplicated', async () => {
+    await request('POST', '/devices', { json: pressBrake });
+
+    const imported = await request('POST', '/devices/batch', {
+      json: {
+        devices: [
+          { name: 'Lathe', identificationNumber: 'LT-002', location: 'Hall B', plannedFrequency: 3 },
+          { name: 'Lathe 2', identificationNumber: 'lt-002', location: 'Hall B', plannedFrequency: 3 },
+          { name: 'Drill', identificationNumber: 'DR-003', location: 'Hall C', plannedFrequency: 0 },
+          { ...pressBrake, name: 'Second press' }
+        ]
+      }
+    });
+
+    expect(imported.status).toBe(400);
+    expect(imported.body.rowErrors.map((e: any) => e.row)).toEqual([1, 2, 3]);
+
+    const stored = Object.keys(harness.store.dump()).filter((key) => key.startsWith('device:'));
+    expect(stored).toHaveLength(1);
+  });
+
+  it('rejects an empty batch', async () => {
+    const imported = await request('POST', '/devices/batch', { json: { devices: [] } });
+    expect(imported.status).toBe(400);
+  });
+});
+
+describe('device validation and unique identification numbers', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    harness = resetHarness(halls);
+  });
+
+  it('rejects incomplete payloads and drops unknown fields', async () => {
+    const incomplete = await request('POST', '/devices', { json: { name: 'Press Brake' } });
+    expect(incomplete.status).toBe(400);
+    expect(incomplete.body.error).toContain('identificationNumber');
+
+    const created = await request('POST', '/devices', { json: { ...pressBrake, status: 'retired', isAdmin: true } });
+    expect(created.status).toBe(200);
+    expect(created.body.device.status).toBe('active');
+    expect(created.body.device).not.toHaveProperty('isAdmin');
+  });
+
+  it('returns 409 when an identification number is reused, ignoring case and spacing', async () => {
+    await request('POST', '/devices', { json: pressBrake });
+
+    const duplicate = await request('POST', '/devices', { json: { ...pressBrake, identificationNumber: ' pb-001 ' } });
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.body.field).toBe('identificationNumber');
+  });
+
+  it('returns 409 when an update takes another device\'s number', async () => {
+    await request('POST', '/devices', { json: pressBrake });
+    const { body: { device } } = await request('POST', '/devices', { json: { ...pressBrake, identificationNumber: 'PB-002' } });
+
+    const conflict = await request('PATCH', `/devices/${device.id}`, { json: { identificationNumber: 'PB-001' } });
+    expect(conflict.status).toBe(409);
+
+    const renumbered = await request('PATCH', `/devices/${device.id}`, { json: { identificationNumber: 'PB-003' } });
+    expect(renumbered.status).toBe(200);
+
+    // The old number is free again once the device moved away from it
+    const reuse = await request('POST', '/devices', { json: { ...pressBrake, identificationNumber: 'PB-002' } });
+    expect(reuse.status).toBe(200);
+  });
+
+  it('releases the number when a device is deleted', async () => {
+    const { body: { device } } = await request('POST', '/devices', { json: pressBrake });
+    await request('DELETE', `/devices/${device.id}`);
+
+    expect(Object.keys(harness.store.dump()).filter((key) => key.startsWith('device-ident:'))).toEqual([]);
+
+    const recreated = await request('POST', '/devices', { json: pressBrake });
+    expect(recreated.status).toBe(200);
+  });
+
+  it('indexes devices created by a bulk import', async () => {
+    await request('POST', '/devices/batch', { json: { devices: [pressBrake] } });
+
+    const duplicate = await request('POST', '/devices', { json: pressBrake });
+    expect(duplicate.status).toBe(409);
+  });
+});
+
+describe('device lifecycle', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    harness = resetHarness(halls, [employee('u-planner', 'P100', 'planner'), employee('u-1', 'E100')]);
+  });
+
+  it('records transitions with a reason and only plans active devices', async () => {
+    const { body: { device } } = await request('POST', '/devices', { json: pressBrake });
+
+    const withoutReason = await request('PUT', `/devices/${device.id}/status`, { token: 'u-planner', json: { status: 'under_repair' } });
+    expect(withoutReason.status).toBe(400);
+    expect(withoutReason.body.field).toBe('reason');
+
+    const asEmployee = await request('PUT', `/devices/${device.id}/status`, { token: 'u-1', json: { status: 'under_repair', reason: 'Leak' } });
+    expect(asEmployee.status).toBe(403);
+
+    const repair = await request('PUT', `/devices/${device.id}/status`, { token: 'u-planner', json: { status: 'under_repair', reason: 'Hydraulic leak' } });
+    expect(repair.status).toBe(200);
+    expect(repair.body.device.status).toBe('under_repair');
+    expect(repair.body.device.statusChanges).toEqual([
+      expect.objectContaining({ from: 'active', to: 'under_repair', reason: 'Hydraulic leak', changedBy: 'P100' })
+    ]);
+
+    const plan = await request('POST', '/weekly-plans', { json: { year: '2026', week: '10', deviceIds: [device.id], assignedBy: 'planner' } });
+    expect(plan.status).toBe(400);
+
+    const filtered = await request('GET', '/devices?status=under_repair', { token: 'u-1' });
+    expect(filtered.body.map((d: any) => d.id)).toEqual([device.id]);
+  });
+
+  it('decommissions without deleting history and blocks further changes', async () => {
+    const { body: { device } } = await request('POST', '/devices', { json: pressBrake });
+    await request('POST', '/weekly-plans', { json: { year: '2026', week: '10', deviceIds: [device.id], assignedBy: 'planner' } });
+    await request('PUT', `/checks/${encodeURIComponent(`check:2026:10:${device.id}`)}/complete`, { json: { completedBy: 'E100' } });
+    const pending = Object.values(harness.store.dump()).find((row: any) => row.deviceId === device.id && row.status === 'pending') as any;
+
+    const decommissioned = await request('PUT', `/devices/${device.id}/status`, { token: 'u-planner', json: { status: 'decommissioned', reason: 'Replaced' } });
+    expect(decommissioned.status).toBe(200);
+    expect(decommissioned.body.cancelledChecks).toBe(1);
+
+    const store = harness.store.dump();
+    expect(store[device.id]).toBeDefined();
+    expect(store[`check:2026:10:${device.id}`].status).toBe('completed');
+    expect(store[pending.id]).toMatchObject({ status: 'cancelled', cancelledBy: 'P100' });
+
+    const completeCancelled = await request('PUT', `/checks/${encodeURIComponent(pending.id)}/complete`, { json: { completedBy: 'E100' } });
+    expect(completeCancelled.status).toBe(409);
+
+    const reactivate = await request('PUT', `/devices/${device.id}/status`, { token: 'u-planner', json: { status: 'active', reason: 'Mistake' } });
+    expect(reactivate.status).toBe(409);
+
+    const history = await request('GET', `/devices/${device.id}/history`, { token: 'u-1' });
+    expect(history.body.events.map((event: any) => event.type)).toEqual(expect.arrayContaining(['status_changed', 'check_cancelled', 'check_completed']));
+    expect(history.body.summary).toMatchObject({ checksCompleted: 1, checksPending: 0, checksMissed: 0 });
+  });
+});
+
+describe('device label scan', () => {
+  beforeEach(() => {
+    resetHarness(halls, [employee('u-1', 'E100')]);
+  });
+
+  it('resolves a device id or identification number to its earliest pending check', async () => {
+    const { body: { device } } = await request('POST', '/devices', { json: pressBrake });
+
+    const unplanned = await request('GET', `/devices/scan/${encodeURIComponent(device.id)}`, { token: 'u-1' });
+    expect(unplanned.status).toBe(200);
+    expect(unplanned.body).toMatchObject({ device: { id: device.id }, pendingCheck: null });
+
+    await request('POST', '/weekly-plans', { json: { year: '2026', week: '12', deviceIds: [device.id], assignedBy: 'planner' } });
+    await request('POST', '/weekly-plans', { json: { year: '2026', week: '10', deviceIds: [device.id], assignedBy: 'planner' } });
+
+    const byNumber = await request('GET', '/devices/scan/%20pb-001', { token: 'u-1' });
+    expect(byNumber.status).toBe(200);
+    expect(byNumber.body.pendingCheck.id).toBe(`check:2026:10:${device.id}`);
+
+    const unknown = await request('GET', '/devices/scan/XX-999', { token: 'u-1' });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('falls back to a device scan for numbers missing from the index', async () => {
+    resetHarness({
+      ...halls,
+      'device:legacy': { id: 'device:legacy', name: 'Lathe', identificationNumber: 'L-7', locationId: 'location:hall-a', plannedFrequency: 1, status: 'active' }
+    }, [employee('u-1', 'E100')]);
+
+    const scanned = await request('GET', '/devices/scan/L-7', { token: 'u-1' });
+    expect(scanned.status).toBe(200);
+    expect(scanned.body.device.id).toBe('device:legacy');
+  });
+});
+
+describe('device history', () => {
+  beforeEach(() => {
+    resetHarness(halls, [employee('u-planner', 'P100', 'planner'), employee('u-1', 'E100')]);
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns creation, checks, frequency changes and linked documents newest first', async () => {
+    vi.setSystemTime(new Date('2026-03-02T08:00:00Z'));
+    const { body: { device } } = await request('POST', '/devices', { token: 'u-planner', json: pressBrake });
+    expect(device.createdBy).toBe('P100');
+    await request('POST', '/weekly-plans', { json: { year: '2026', week: '10', deviceIds: [device.id], assignedBy: 'P100' } });
+    await request('POST', '/weekly-plans', { json: { year: '2026', week: '11', deviceIds: [device.id], assignedBy: 'P100' } });
+
+    vi.setSystemTime(new Date('2026-03-04T10:00:00Z'));
+    await request('PUT', `/checks/${encodeURIComponent(`check:2026:10:${device.id}`)}/complete`, {
+      token: 'u-1',
+      json: { comment: 'All good' }
+    });
+
+    vi.setSystemTime(new Date('2026-03-05T10:00:00Z'));
+    await request('PATCH', `/devices/${device.id}`, { token: 'u-planner', json: { plannedFrequency: 4 } });
+
+    const form = new FormData();
+    form.append('file', pdf('manual.pdf'));
+    form.append('assignedTo', 'E100');
+    form.append('uploadedBy', 'P100');
+    form.append('deviceId', device.id);
+    const uploaded = await request('POST', '/documents/upload', { token: 'u-planner', form });
+    expect(uploaded.body.document.deviceId).toBe(device.id);
+
+    vi.setSystemTime(new Date('2026-03-20T10:00:00Z'));
+    const history = await request('GET', `/devices/${device.id}/history`, { token: 'u-1' });
+    expect(history.status).toBe(200);
+
+    const events = history.body.events;
+    expect(events.map((event: any) => event.type)).toEqual([
+      'check_missed',
+      'document_uploaded',
+      'frequency_changed',
+      'check_planned',
+      'check_completed',
+      'check_planned',
+      'check_planned',
+      'created'
+    ]);
+    expect(events[0]).toMatchObject({ checkId: `check:2026:11:${device.id}`, at: '2026-03-16T00:00:00.000Z', daysOverdue: 5 });
+    expect(events[2]).toMatchObject({ from: 2, to: 4, by: 'P100' });
+    expect(events[4]).toMatchObject({ by: 'E100', outcome: 'passed', comment: 'All good', late: false, evidenceCount: 0 });
+    expect(events[7]).toMatchObject({ by: 'P100', at: '2026-03-02T08:00:00.000Z' });
+    expect(history.body.summary).toEqual({
+      checksCompleted: 1,
+      checksPending: 2,
+      checksMissed: 1,
+      openCorrectiveActions: 0,
+      documents: 1
+    });
+  });
+
+  it('rejects unknown devices', async () => {
+    const missing = await request('GET', '/devices/device:missing/history');
+    expect(missing.status).toBe(404);
+
+    const form = new FormData();
+    form.append('file', pdf('manual.pdf'));
+    form.append('assignedTo', 'E100');
+    form.append('uploadedBy', 'P100');
+    form.append('deviceId', 'device:missing');
+    const upload = await request('POST', '/documents/upload', { form });
+    expect(upload.status).toBe(400);
+    expect(upload.body.field).toBe('deviceId');
+  });
+});
+
+describe('device summary', () => {
+  beforeEach(() => {
+    resetHarness(halls, [employee('u-1', 'E100')]);
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('joins every device with its last check, totals and next due week', async () => {
+    vi.setSystemTime(new Date('2026-03-02T08:00:00Z'));
+    const { body: { device: checked } } = await request('POST', '/devices', { json: pressBrake });
+    const { body: { device: waiting } } = await request('POST', '/devices', { json: { ...pressBrake, identificationNumber: 'PB-002' } });
+    const { body: { device: unplanned } } = await request('POST', '/devices', { json: { ...pressBrake, identificationNumber: 'PB-003' } });
+    await request('POST', '/weekly-plans', { json: { year: '2026', week: '10', deviceIds: [checked.id, waiting.id], assignedBy: 'planner' } });
+
+    vi.setSystemTime(new Date('2026-03-04T10:00:00Z'));
+    await request('PUT', `/checks/${encodeURIComponent(`check:2026:10:${checked.id}`)}/complete`, { token: 'u-1', json: {} });
+
+    vi.setSystemTime(new Date('2026-03-10T10:00:00Z'));
+    const summary = await request('GET', '/devices/summary', { token: 'u-1' });
+    expect(summary.status).toBe(200);
+
+    const byId = Object.fromEntries(summary.body.map((device: any) => [device.id, device]));
+    expect(byId[checked.id]).toMatchObject({
+      name: 'Press Brake',
+      hasBeenChecked: true,
+      lastCheckedAt: '2026-03-04T10:00:00.000Z',
+      lastCheckedBy: 'E100',
+      totalChecksCompleted: 1,
+      nextDue: { week: '12', year: '2026', overdue: false }
+    });
+    expect(byId[waiting.id]).toMatchObject({
+      hasBeenChecked: false,
+      totalChecksCompleted: 0,
+      nextDue: { checkId: `check:2026:10:${waiting.id}`, overdue: true }
+    });
+    expect(byId[unplanned.id]).toMatchObject({ hasBeenChecked: false, nextDue: null });
+  });
+});
+
+describe('device listing', () => {
+  beforeEach(async () => {
+    resetHarness(halls, [employee('u-1', 'E100')]);
+    await request('POST', '/devices', { json: { ...pressBrake, name: 'Press Brake', identificationNumber: 'PB-001', plannedFrequency: 2 } });
+    await request('POST', '/devices', { json: { ...pressBrake, name: 'Lathe', identificationNumber: 'LT-001', locationId: 'location:hall-b', plannedFrequency: 4 } });
+    await request('POST', '/devices', { json: { ...pressBrake, name: 'Drill', identificationNumber: 'DR-001', plannedFrequency: 4 } });
+  });
+
+  it('returns a page envelope only when a page is requested', async () => {
+    const unpaged = await request('GET', '/devices?sort=name', { token: 'u-1' });
+    expect(unpaged.body.map((device: any) => device.name)).toEqual(['Drill', 'Lathe', 'Press Brake']);
+
+    const paged = await request('GET', '/devices?page=2&pageSize=2&sort=name&order=desc', { token: 'u-1' });
+    expect(paged.status).toBe(200);
+    expect(paged.body).toMatchObject({ total: 3, page: 2, pageSize: 2, totalPages: 2 });
+    expect(paged.body.items.map((device: any) => device.name)).toEqual(['Drill']);
+  });
+
+  it('filters by location, frequency and search', async () => {
+    const byLocation = await request('GET', '/devices?locationId=location:hall-a', { token: 'u-1' });
+    expect(byLocation.body.map((device: any) => device.name)).toEqual(['Drill', 'Press Brake']);
+
+    const byFrequency = await request('GET', '/devices/summary?frequency=4&search=lt-', { token: 'u-1' });
+    expect(byFrequency.body.map((device: any) => device.name)).toEqual(['Lathe']);
+
+    const unknownLocation = await request('GET', '/devices?locationId=location:missing', { token: 'u-1' });
+    expect(unknownLocation.status).toBe(400);
+  });
+
+  it('rejects unknown sort keys and out-of-range page sizes', async () => {
+    const badSort = await request('GET', '/devices?sort=secret', { token: 'u-1' });
+    expect(badSort.status).toBe(400);
+
+    const badPageSize = await request('GET', '/devices?pageSize=500', { token: 'u-1' });
+    expect(badPageSize.status).toBe(400);
+
+    const badFrequency = await request('GET', '/devices?frequency=often', { token: 'u-1' });
+    expect(badFrequency.status).toBe(400);
+  });
+});
+
+describe('location tree', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    harness = resetHarness({}, [employee('u-1', 'E100'), employee('u-planner', 'P100', 'planner')]);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-02T08:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createLocation = async (name: string, type: string, parentId: string | null = null) =>
+    (await request('POST', '/locations', { token: 'u-planner', json: { name, type, parentId } })).body.location;
+
+  it('builds a site, building and area tree and enforces its levels', async () => {
+    const site = await createLocation('Main Site', 'site');
+    const building = await createLocation('Workshop', 'building', site.id);
+    const area = await createLocation('Bay 1', 'area', building.id);
+    expect(area.path).toBe('Main Site / Workshop / Bay 1');
+
+    const misplaced = await request('POST', '/locations', { token: 'u-planner', json: { name: 'Bay 2', type: 'area', parentId: site.id } });
+    expect(misplaced.status).toBe(400);
+    expect(misplaced.body.field).toBe('parentId');
+
+    const duplicate = await request('POST', '/locations', { token: 'u-planner', json: { name: 'bay 1', type: 'area', parentId: building.id } });
+    expect(duplicate.status).toBe(409);
+
+    const asEmployee = await request('POST', '/locations', { token: 'u-1', json: { name: 'North Site', type: 'site' } });
+    expect(asEmployee.status).toBe(403);
+
+    const blocked = await request('DELETE', `/locations/${building.id}`, { token: 'u-planner' });
+    expect(blocked.status).toBe(409);
+  });
+
+  it('links devices by id or path, rolls filters up the tree and relabels on rename', async () => {
+    const site = await createLocation('Main Site', 'site');
+    const workshop = await createLocation('Workshop', 'building', site.id);
+    const bayOne = await createLocation('Bay 1', 'area', workshop.id);
+    const bayTwo = await createLocation('Bay 12', 'area', workshop.id);
+
+    const { body: { device: first } } = await request('POST', '/devices', { json: { ...pressBrake, locationId: undefined, location: 'main site / workshop / bay 1' } });
+    expect(first).toMatchObject({ locationId: bayOne.id, location: 'Main Site / Workshop / Bay 1' });
+    await request('POST', '/devices', { json: { ...pressBrake, identificationNumber: 'PB-002', locationId: bayTwo.id } });
+
+    const unknown = await request('POST', '/devices', { json: { ...pressBrake, identificationNumber: 'PB-003', locationId: undefined, location: 'Bay 9' } });
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.field).toBe('locationId');
+
+    // Exact subtree match: Bay 1 does not pick up Bay 12
+    const inBayOne = await request('GET', `/devices/by-location/${bayOne.id}`, { token: 'u-1' });
+    expect(inBayOne.body.map((device: any) => device.id)).toEqual([first.id]);
+    const onSite = await request('GET', `/devices?locationId=${site.id}`, { token: 'u-1' });
+    expect(onSite.body).toHaveLength(2);
+
+    const tree = await request('GET', '/locations', { token: 'u-1' });
+    expect(tree.body.map((location: any) => [location.path, location.deviceCount])).toEqual([
+      ['Main Site', 2],
+      ['Main Site / Workshop', 2],
+      ['Main Site / Workshop / Bay 1', 1],
+      ['Main Site / Workshop / Bay 12', 1]
+    ]);
+
+    const renamed = await request('PATCH', `/locations/${workshop.id}`, { token: 'u-planner', json: { name: 'Workshop A' } });
+    expect(renamed.status).toBe(200);
+    expect(renamed.body.devicesUpdated).toBe(2);
+    expect(harness.store.dump()[first.id].location).toBe('Main Site / Workshop A / Bay 1');
+  });
+
+  it('groups the annual report by any level of the tree', async () => {
+    const site = await createLocation('Main Site', 'site');
+    const workshop = await createLocation('Workshop', 'building', site.id);
+    const bayOne = await createLocation('Bay 1', 'area', workshop.id);
+    const bayTwo = await createLocation('Bay 2', 'area', workshop.id);
+    const { body: { device: first } } = await request('POST', '/devices', { json: { ...pressBrake, locationId: bayOne.id } });
+    const { body: { device: second } } = await request('POST', '/devices', { json: { ...pressBrake, identificationNumber: 'PB-002', locationId: bayTwo.id } });
+
+    await request('POST', '/weekly-plans', { json: { year: '2026', week: '10', deviceIds: [first.id, second.id], assignedBy: 'planner' } });
+    for (const device of [first, second]) {
+      await request('PUT', `/checks/${encodeURIComponent(`check:2026:10:${device.id}`)}/complete`, { json: { completedBy: 'E100' } });
+    }
+
+    const byArea = await request('GET', '/reports/annual/2026', { token: 'u-1' });
+    expect(Object.keys(byArea.body).sort()).toEqual(['Main Site / Workshop / Bay 1', 'Main Site / Workshop / Bay 2']);
+
+    const byBuilding = await request('GET', '/reports/annual/2026?level=building', { token: 'u-1' });
+    expect(Object.keys(byBuilding.body)).toEqual(['Main Site / Workshop']);
+    expect(byBuilding.body['Main Site / Workshop']).toHaveLength(2);
+
+    const oneArea = await request('GET', `/reports/annual/2026?locationId=${bayTwo.id}`, { token: 'u-1' });
+    expect(Object.keys(oneArea.body)).toEqual(['Main Site / Workshop / Bay 2']);
+
+    const badLevel = await request('GET', '/reports/annual/2026?level=floor', { token: 'u-1' });
+    expect(badLevel.status).toBe(400);
+  });
+
+  it('links devices that predate the tree to matching or new sites', async () => {
+    resetHarness({
+      'location:hall-a': location('location:hall-a', 'Hall A'),
+      'device:a': { id: 'device:a', name: 'Press', identificationNumber: 'A', location: 'hall a', plannedFrequency: 1, status: 'active' },
+      'device:b': { id: 'device:b', name: 'Lathe', identificationNumber: 'B', location: 'Hall C', plannedFrequency: 1, status: 'active' }
+    }, [employee('u-planner', 'P100', 'planner')]);
+
+    const linked = await request('POST', '/locations/link-devices', { token: 'u-planner' });
+    expect(linked.body).toMatchObject({ linked: 2, created: 1 });
+
+    const devices = await request('GET', '/devices', { token: 'u-planner' });
+    expect(devices.body.map((device: any) => [device.name, device.location])).toEqual([['Lathe', 'Hall C'], ['Press', 'Hall A']]);
+    expect(devices.body[1].locationId).toBe('location:hall-a');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { resetHarness, request, employee, pdf } from './harness';
+import type { Harness } from './harness';
+import { getAuthUser } from './fake_auth';
+
+const uploadForm = (fileName: string, assignedTo: string, uploadedBy: string) => {
+  const form = new FormData();
+  form.append('file', pdf(fileName));
+  form.append('assignedTo', assignedTo);
+  form.append('uploadedBy', uploadedBy);
+  return form;
+};
+
+describe('document upload and signing', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    harness = resetHarness({}, [employee('u-uploader', 'E100'), employee('u-signer', 'E200')]);
+  });
+
+  it('stores the file, records the initial signature and notifies the assignee', async () => {
+    const uploaded = await request('POST', '/documents/upload', {
+      token: 'u-uploader',
+      form: uploadForm('inspection.pdf', 'E200', 'E100')
+    });
+
+    expect(uploaded.status).toBe(200);
+    const document = uploaded.body.document;
+    expect(document).toMatchObject({ fileName: 'inspection.pdf', assignedTo: 'E200', uploadedBy: 'E100', status: 'pending_signature' });
+    expect(document.signatures).toEqual([expect.objectContaining({ signedBy: 'E100', type: 'initial' })]);
+    expect(harness.files.files.has(document.storagePath)).toBe(true);
+    expect(harness.store.dump()[document.id]).toBeDefined();
+
+    const notifications = getAuthUser('u-signer')!.user_metadata.notifications;
+    expect(notifications).toEqual([
+      expect.objectContaining({ type: 'document_signature_required', documentId: document.id, read: false })
+    ]);
+  });
+
+  it('rejects an upload without a file', async () => {
+    const form = new FormData();
+    form.append('assignedTo', 'E200');
+    form.append('uploadedBy', 'E100');
+
+    const uploaded = await request('POST', '/documents/upload', { token: 'u-uploader', form });
+    expect(uploaded.status).toBe(400);
+  });
+
+  it('signs a document by uploading the signed copy', async () => {
+    const { body: { document } } = await request('POST', '/documents/upload', {
+      token: 'u-uploader',
+      form: uploadForm('inspection.pdf', 'E200', 'E100')
+    });
+
+    const form = new FormData();
+    form.append('file', pdf('inspection-signed.pdf'));
+    form.append('signedBy', 'E200');
+    const signed = await request('POST', `/documents/${encodeURIComponent(document.id)}/sign`, { token: 'u-signer', form });
+
+    expect(signed.status).toBe(200);
+    expect(signed.body.document.status).toBe('completed');
+    expect(signed.body.document.signatures.map((sig: any) => [sig.signedBy, sig.type])).toEqual([
+      ['E100', 'initial'],
+      ['E200', 'secondary']
+    ]);
+    expect(signed.body.document.storagePath).not.toBe(document.storagePath);
+    expect(harness.files.files.has(signed.body.document.storagePath)).toBe(true);
+
+    const activity = await request('GET', '/user-activity/E200', { token: 'u-signer' });
+    expect(activity.body.documentsSigned.map((doc: any) => doc.id)).toEqual([document.id]);
+
+    const paged = await request('GET', '/user-activity/E200?page=1&pageSize=10', { token: 'u-signer' });
+    expect(paged.body.documentsSigned).toMatchObject({ total: 1, page: 1, pageSize: 10, totalPages: 1 });
+    expect(paged.body.documentsSigned.items.map((doc: any) => doc.id)).toEqual([document.id]);
+    expect((await request('GET', '/user-activity/E200?page=0', { token: 'u-signer' })).status).toBe(400);
+  });
+
+  it('lets only the uploader or a planner delete a document', async () => {
+    const { body: { document } } = await request('POST', '/documents/upload', {
+      token: 'u-uploader',
+      // A forged uploader name is replaced by the signed-in caller
+      form: uploadForm('inspection.pdf', 'E200', 'E200')
+    });
+    expect(document.uploadedBy).toBe('E100');
+
+    const asOther = await request('DELETE', `/documents/${encodeURIComponent(document.id)}`, { token: 'u-signer' });
+    expect(asOther.status).toBe(403);
+    expect(harness.files.files.has(document.storagePath)).toBe(true);
+
+    const asUploader = await request('DELETE', `/documents/${encodeURIComponent(document.id)}`, { token: 'u-uploader' });
+    expect(asUploader.status).toBe(200);
+    expect(harness.store.dump()[document.id]).toBeUndefined();
+  });
+
+  it('lets only the assignee sign a document and records the signed-in caller', async () => {
+    const { body: { document } } = await request('POST', '/documents/upload', {
+      token: 'u-uploader',
+      form: uploadForm('inspection.pdf', 'E200', 'E100')
+    });
+
+    const forged = new FormData();
+    forged.append('file', pdf('inspection-signed.pdf'));
+    forged.append('signedBy', 'E200');
+    const asOther = await request('POST', `/documents/${encodeURIComponent(document.id)}/sign`, { token: 'u-uploader', form: forged });
+    expect(asOther.status).toBe(403);
+    expect(harness.store.dump()[document.id].status).toBe('pending_signature');
+
+    const form = new FormData();
+    form.append('file', pdf('inspection-signed.pdf'));
+    form.append('signedBy', 'E100');
+    const signed = await request('POST', `/documents/${encodeURIComponent(document.id)}/sign`, { token: 'u-signer', form });
+    expect(signed.status).toBe(200);
+    expect(signed.body.document.signatures[1]).toMatchObject({ signedBy: 'E200', type: 'secondary' });
+  });
+
+  it('returns 404 when signing an unknown document', async () => {
+    const form = new FormData();
+    form.append('file', pdf('signed.pdf'));
+    form.append('signedBy', 'E200');
+
+    const signed = await request('POST', '/documents/doc:missing/sign', { token: 'u-signer', form });
+    expect(signed.status).toBe(404);
+  });
+
+  it('issues a download URL for a stored document', async () => {
+    const { body: { document } } = await request('POST', '/documents/upload', {
+      token: 'u-uploader',
+      form: uploadForm('inspection.pdf', 'E200', 'E100')
+    });
+
+    const download = await request('GET', `/documents/${encodeURIComponent(document.id)}/download`, { token: 'u-signer' });
+    expect(download.status).toBe(200);
+    expect(download.body.downloadUrl).toContain(document.storagePath);
+  });
+});
+
+describe('document listing', () => {
+  beforeEach(async () => {
+    resetHarness({}, [employee('u-uploader', 'E100'), employee('u-signer', 'E200')]);
+    for (const fileName of ['b-report.pdf', 'a-report.pdf', 'c-manual.pdf']) {
+      await request('POST', '/documents/upload', { token: 'u-uploader', form: uploadForm(fileName, 'E200', 'E100') });
+    }
+  });
+
+  it('filters by status and secondary signer, searches and pages', async () => {
+    const listed = await request('GET', '/documents?sort=fileName', { token: 'u-signer' });
+    const signTarget = listed.body.find((doc: any) => doc.fileName === 'a-report.pdf');
+
+    const form = new FormData();
+    form.append('file', pdf('a-report-signed.pdf'));
+    form.append('signedBy', 'E200');
+    await request('POST', `/documents/${encodeURIComponent(signTarget.id)}/sign`, { token: 'u-signer', form });
+
+    const signed = await request('GET', '/documents?signedBy=E200&status=completed', { token: 'u-signer' });
+    expect(signed.body.map((doc: any) => doc.id)).toEqual([signTarget.id]);
+
+    const pending = await request('GET', '/documents?assignedTo=E200&status=pending_signature&search=report&page=1&pageSize=5', { token: 'u-signer' });
+    expect(pending.body).toMatchObject({ total: 1, page: 1, totalPages: 1 });
+    expect(pending.body.items[0].fileName).toBe('b-report.pdf');
+  });
+});
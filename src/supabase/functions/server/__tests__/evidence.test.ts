@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { resetHarness, request, employee, location, pdf } from './harness';
+import type { Harness } from './harness';
+import { EVIDENCE_BUCKET_NAME } from '../file_store';
+
+const photo = (name: string) => new File(['\xff\xd8\xff test'], name, { type: 'image/jpeg' });
+
+const evidenceForm = (uploads: File[], uploadedBy?: string) => {
+  const form = new FormData();
+  uploads.forEach(file => form.append('files', file));
+  if (uploadedBy) form.append('uploadedBy', uploadedBy);
+  return form;
+};
+
+describe('check evidence', () => {
+  let harness: Harness;
+  let deviceId: string;
+  let checkId: string;
+
+  beforeEach(async () => {
+    harness = resetHarness({ 'location:hall-a': location('location:hall-a', 'Hall A') }, [employee('u-1', 'E100')]);
+    const { body: { device } } = await request('POST', '/devices', {
+      json: { name: 'Extinguisher 1', identificationNumber: 'FE-001', locationId: 'location:hall-a', plannedFrequency: 4 }
+    });
+    deviceId = device.id;
+    await request('POST', '/weekly-plans', { json: { year: '2026', week: '10', deviceIds: [deviceId], assignedBy: 'planner' } });
+    checkId = `check:2026:10:${deviceId}`;
+  });
+
+  const evidenceBucket = () => harness.files.buckets.get(EVIDENCE_BUCKET_NAME) ?? new Map();
+
+  it('stores photos in the evidence bucket and lists them with signed URLs', async () => {
+    const uploaded = await request('POST', `/checks/${encodeURIComponent(checkId)}/evidence`, {
+      token: 'u-1',
+      form: evidenceForm([photo('gauge.jpg'), pdf('certificate.pdf')])
+    });
+
+    expect(uploaded.status).toBe(200);
+    expect(uploaded.body.evidence).toHaveLength(2);
+    expect(uploaded.body.evidence[0]).toMatchObject({ fileName: 'gauge.jpg', contentType: 'image/jpeg', uploadedBy: 'E100' });
+    for (const item of uploaded.body.evidence) {
+      expect(evidenceBucket().has(item.storagePath)).toBe(true);
+    }
+    expect(harness.files.files.size).toBe(0);
+
+    const listed = await request('GET', `/checks/${encodeURIComponent(checkId)}/evidence`, { token: 'u-1' });
+    expect(listed.status).toBe(200);
+    expect(listed.body).toHaveLength(2);
+    expect(listed.body[0].url).toMatch(new RegExp(`^memory://${EVIDENCE_BUCKET_NAME}/`));
+  });
+
+  it('credits evidence to the signed-in caller, not to an uploadedBy field', async () => {
+    const uploaded = await request('POST', `/checks/${encodeURIComponent(checkId)}/evidence`, {
+      token: 'u-1',
+      form: evidenceForm([photo('gauge.jpg')], 'E999')
+    });
+
+    expect(uploaded.status).toBe(200);
+    expect(uploaded.body.evidence[0].uploadedBy).toBe('E100');
+  });
+
+  it('rejects unsupported files and unknown checks', async () => {
+    const text = new File(['notes'], 'notes.txt', { type: 'text/plain' });
+    const rejected = await request('POST', `/checks/${encodeURIComponent(checkId)}/evidence`, {
+      form: evidenceForm([photo('gauge.jpg'), text])
+    });
+    expect(rejected.status).toBe(400);
+    expect(evidenceBucket().size).toBe(0);
+    expect(harness.store.dump()[checkId].evidence).toBeUndefined();
+
+    const missing = await request('POST', `/checks/${encodeURIComponent('check:2026:10:device:missing')}/evidence`, {
+      form: evidenceForm([photo('gauge.jpg')])
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  it('counts evidence in the annual report and removes it with the device', async () => {
+    await request('POST', `/checks/${encodeURIComponent(checkId)}/evidence`, { form: evidenceForm([photo('gauge.jpg')]) });
+    await request('PUT', `/checks/${encodeURIComponent(checkId)}/complete`, { json: { completedBy: 'E100' } });
+
+    const report = await request('GET', '/reports/annual/2026');
+    expect(report.status).toBe(200);
+    expect(report.body['Hall A'][0]).toMatchObject({ checkId, evidenceCount: 1 });
+
+    const deleted = await request('DELETE', `/devices/${deviceId}`);
+    expect(deleted.status).toBe(200);
+    expect(evidenceBucket().size).toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+/* In-process stand-in for the parts of the Supabase client the edge function uses: auth and auth.admin. */
+
+export interface FakeAuthUser {
+  id: string;
+  email: string;
+  user_metadata: Record<string, any>;
+  app_metadata: Record<string, any>;
+}
+
+const users = new Map<string, FakeAuthUser>();
+
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const resetAuthUsers = (seed: FakeAuthUser[] = []): void => {
+  users.clear();
+  seed.forEach((user) => users.set(user.id, copy(user)));
+};
+
+export const getAuthUser = (id: string): FakeAuthUser | undefined => {
+  const user = users.get(id);
+  return user ? copy(user) : undefined;
+};
+
+// Access tokens in tests are simply the user's id
+export const fakeSupabase = {
+  auth: {
+    async getUser(token: string) {
+      const user = users.get(token);
+      return user
+        ? { data: { user: copy(user) }, error: null }
+        : { data: { user: null }, error: { message: 'invalid JWT' } };
+    },
+    admin: {
+      async listUsers() {
+        return { data: { users: Array.from(users.values()).map(copy) }, error: null };
+      },
+      async createUser(attributes: { email: string; user_metadata?: Record<string, any>; app_metadata?: Record<string, any> }) {
+        const user: FakeAuthUser = {
+          id: `user-${users.size + 1}`,
+          email: attributes.email,
+          user_metadata: attributes.user_metadata || {},
+          app_metadata: attributes.app_metadata || {}
+        };
+        users.set(user.id, user);
+        return { data: { user: copy(user) }, error: null };
+      },
+      async updateUserById(id: string, attributes: { user_metadata?: Record<string, any>; app_metadata?: Record<string, any> }) {
+        const user = users.get(id);
+        if (!user) {
+          return { data: { user: null }, error: { message: 'User not found' } };
+        }
+        // GoTrue merges top-level metadata keys on admin updates
+        user.user_metadata = { ...user.user_metadata, ...(attributes.user_metadata || {}) };
+        user.app_metadata = { ...user.app_metadata, ...(attributes.app_metadata || {}) };
+        return { data: { user: copy(user) }, error: null };
+      },
+      async deleteUser(id: string) {
+        users.delete(id);
+        return { data: {}, error: null };
+      },
+    },
+  },
+};
@@ -0,0 +1,72 @@
+/* Shared helpers for the API tests: fresh stores per test and a request helper bound to the app. */
+
+import app from '../index';
+import * as kv from '../kv_store';
+import * as files from '../file_store';
+import { resetAuthUsers } from './fake_auth';
+import type { FakeAuthUser } from './fake_auth';
+
+export const BASE = 'http://localhost/make-server-354d5d14';
+export const SERVICE_TOKEN = 'test-service-role-key';
+
+export interface Harness {
+  store: kv.MemoryKvBackend;
+  files: files.MemoryFileStore;
+}
+
+export const resetHarness = (fixtures: Record<string, any> = {}, users: FakeAuthUser[] = []): Harness => {
+  const store = kv.createMemoryKvBackend(fixtures);
+  const fileStore = files.createMemoryFileStore();
+  kv.setKvBackend(store);
+  files.setFileStore(fileStore);
+  resetAuthUsers(users);
+  return { store, files: fileStore };
+};
+
+// Location tree row for fixtures; sites have no parent
+export const location = (id: string, name: string, type = 'site', parentId: string | null = null) => ({
+  id,
+  name,
+  type,
+  parentId,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  createdBy: 'system'
+});
+
+export const employee = (id: string, employeeId: string, role = 'employee'): FakeAuthUser => ({
+  id,
+  email: `${employeeId.toLowerCase()}@example.com`,
+  user_metadata: { employeeId, name: `Employee ${employeeId}`, notifications: [] },
+  app_metadata: { role, employeeId }
+});
+
+interface RequestOptions {
+  token?: string;
+  json?: unknown;
+  form?: FormData;
+}
+
+// Sends a request through the Hono app; defaults to the service role token (system admin)
+export const request = async (method: string, path: string, options: RequestOptions = {}) => {
+  const headers: Record<string, string> = { Authorization: `Bearer ${options.token ?? SERVICE_TOKEN}` };
+  let body: BodyInit | undefined;
+
+  if (options.json !== undefined) {
+    headers['Content-Type'] = 'application/json';
+    body = JSON.stringify(options.json);
+  } else if (options.form) {
+    body = options.form;
+  }
+
+  const response = await app.fetch(new Request(`${BASE}${path}`, { method, headers, body }));
+  const text = await response.text();
+  let data: any = text;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // Non-JSON bodies are returned as text
+  }
+  return { status: response.status, body: data };
+};
+
+export const pdf = (name: string) => new File(['%PDF-1.4 test'], name, { type: 'application/pdf' });
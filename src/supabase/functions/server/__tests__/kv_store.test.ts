@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// PREVENT_AUTO_SEED is read once at import, so each test loads a fresh copy of the module
+const loadKvStore = async () => {
+  vi.resetModules();
+  const kv = await import('../kv_store');
+  const backend = kv.createMemoryKvBackend();
+  kv.setKvBackend(backend);
+  return { kv, backend };
+};
+
+describe('PREVENT_AUTO_SEED', () => {
+  beforeEach(() => {
+    vi.stubEnv('PREVENT_AUTO_SEED', 'true');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('skips sample users and devices in set and mset alike', async () => {
+    const { kv, backend } = await loadKvStore();
+
+    await kv.set('user:EMP001', { employeeId: 'EMP001' });
+    await kv.mset(
+      ['user:EMP002', 'device:d-1', 'device:d-2'],
+      [{ employeeId: 'EMP002' }, { identificationNumber: 'HP-001' }, { identificationNumber: 'LIFT-1' }]
+    );
+
+    expect(Object.keys(backend.dump())).toEqual(['device:d-2']);
+  });
+});
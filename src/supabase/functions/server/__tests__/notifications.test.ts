@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { resetHarness, request, employee, pdf } from './harness';
+import { getAuthUser } from './fake_auth';
+
+const notification = (id: string, read = false) => ({
+  id,
+  type: 'document_signature_required',
+  message: `Notification ${id}`,
+  createdAt: '2026-03-02T08:00:00.000Z',
+  read
+});
+
+const withNotifications = (id: string, employeeId: string, notifications: any[]) => {
+  const user = employee(id, employeeId);
+  user.user_metadata.notifications = notifications;
+  return user;
+};
+
+describe('notifications', () => {
+  beforeEach(() => {
+    resetHarness({}, [
+      withNotifications('u-1', 'E100', [notification('notif:1'), notification('notif:2')]),
+      withNotifications('u-2', 'E200', [notification('notif:3')])
+    ]);
+  });
+
+  it('lists the caller\'s notifications', async () => {
+    const listed = await request('GET', '/notifications/E100', { token: 'u-1' });
+    expect(listed.status).toBe(200);
+    expect(listed.body.map((n: any) => n.id)).toEqual(['notif:1', 'notif:2']);
+  });
+
+  it('does not let an employee read someone else\'s notifications', async () => {
+    const listed = await request('GET', '/notifications/E200', { token: 'u-1' });
+    expect(listed.status).toBe(403);
+  });
+
+  it('marks a single notification as read', async () => {
+    const marked = await request('PUT', '/notifications/notif:2/read', { token: 'u-1' });
+    expect(marked.status).toBe(200);
+
+    const stored = getAuthUser('u-1')!.user_metadata.notifications;
+    expect(stored.map((n: any) => [n.id, n.read])).toEqual([['notif:1', false], ['notif:2', true]]);
+    expect(getAuthUser('u-2')!.user_metadata.notifications[0].read).toBe(false);
+  });
+
+  it('returns 404 for an unknown notification', async () => {
+    const marked = await request('PUT', '/notifications/notif:404/read', { token: 'u-1' });
+    expect(marked.status).toBe(404);
+  });
+
+  it('does not let an employee mark someone else\'s notification as read', async () => {
+    const marked = await request('PUT', '/notifications/notif:3/read', { token: 'u-1' });
+    expect(marked.status).toBe(404);
+    expect(getAuthUser('u-2')!.user_metadata.notifications[0].read).toBe(false);
+  });
+
+  it('marks all notifications as read', async () => {
+    const marked = await request('PUT', '/notifications/E100/read-all', { token: 'u-1' });
+    expect(marked.status).toBe(200);
+    expect(getAuthUser('u-1')!.user_metadata.notifications.every((n: any) => n.read)).toBe(true);
+  });
+
+  it('clears notifications without touching other metadata', async () => {
+    const cleared = await request('DELETE', '/notifications/E100/clear', { token: 'u-1' });
+    expect(cleared.status).toBe(200);
+
+    const metadata = getAuthUser('u-1')!.user_metadata;
+    expect(metadata.notifications).toEqual([]);
+    expect(metadata.employeeId).toBe('E100');
+  });
+
+  it('ignores an employee ID the caller wrote into their own user_metadata', async () => {
+    resetHarness({}, [
+      { ...employee('u-1', 'E100'), user_metadata: { employeeId: 'E200', notifications: [] } },
+      withNotifications('u-2', 'E200', [notification('notif:3')])
+    ]);
+
+    expect((await request('GET', '/notifications/E200', { token: 'u-1' })).status).toBe(403);
+    expect((await request('DELETE', '/notifications/E200/clear', { token: 'u-1' })).status).toBe(403);
+    expect((await request('GET', '/user-activity/E200', { token: 'u-1' })).status).toBe(403);
+    expect((await request('PUT', '/user/E200/profile', { token: 'u-1', json: { name: 'Taken over' } })).status).toBe(403);
+    expect((await request('DELETE', '/user/E200', { token: 'u-1' })).status).toBe(403);
+
+    expect(getAuthUser('u-2')!.user_metadata.notifications).toHaveLength(1);
+  });
+
+  it('gives notifications created in the same millisecond distinct ids', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-03-02T08:00:00.000Z'));
+    try {
+      for (const fileName of ['first.pdf', 'second.pdf']) {
+        const form = new FormData();
+        form.append('file', pdf(fileName));
+        form.append('assignedTo', 'E100');
+        await request('POST', '/documents/upload', { form });
+      }
+    } finally {
+      now.mockRestore();
+    }
+
+    const added = getAuthUser('u-1')!.user_metadata.notifications.slice(2);
+    expect(added).toHaveLength(2);
+    expect(added[0].id).not.toBe(added[1].id);
+
+    await request('PUT', `/notifications/${encodeURIComponent(added[1].id)}/read`, { token: 'u-1' });
+    expect(getAuthUser('u-1')!.user_metadata.notifications.slice(2).map((n: any) => n.read)).toEqual([false, true]);
+  });
+});
@@ -0,0 +1,309 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { resetHarness, request, employee } from './harness';
+import type { Harness } from './harness';
+
+const device = (id: string, plannedFrequency = 1, extra: Record<string, any> = {}) => ({
+  id,
+  name: `Device ${id}`,
+  identificationNumber: id.toUpperCase(),
+  location: 'Hall A',
+  plannedFrequency,
+  planComment: '',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  status: 'active',
+  ...extra
+});
+
+const check = (deviceId: string, week: number, extra: Record<string, any> = {}) => ({
+  id: `check:2026:${week}:${deviceId}`,
+  deviceId,
+  year: '2026',
+  week: String(week),
+  status: 'pending',
+  assignedAt: '2026-01-01T00:00:00.000Z',
+  assignedBy: 'planner',
+  ...extra
+});
+
+describe('planner suggestions', () => {
+  beforeEach(() => {
+    resetHarness({
+      // Week 8 check never done
+      'device:overdue': device('device:overdue'),
+      'check:2026:8:device:overdue': check('device:overdue', 8),
+      // Done in week 8, every 2 weeks: due in week 10
+      'device:due': device('device:due', 2),
+      'check:2026:8:device:due': check('device:due', 8, { status: 'completed', completedAt: '2026-02-17T09:00:00.000Z' }),
+      // Every 4 weeks from week 9: not due until week 13, even though 10 % 2 === 0 used to suggest it
+      'device:later': device('device:later', 2, { recurrence: { unit: 'week', interval: 4, anchor: 'due' } }),
+      'check:2026:9:device:later': check('device:later', 9, { status: 'completed', completedAt: '2026-02-24T09:00:00.000Z' }),
+      // Weekly from completion, last done on 5 February
+      'device:drifted': device('device:drifted', 1, { recurrence: { unit: 'week', interval: 1, anchor: 'completion' } }),
+      'check:2026:6:device:drifted': check('device:drifted', 6, { status: 'completed', completedAt: '2026-02-05T09:00:00.000Z' }),
+      'device:new': device('device:new'),
+      'device:held': device('device:held'),
+      'check:2026:8:device:held': check('device:held', 8, { status: 'completed', outcome: 'failed', completedAt: '2026-02-16T09:00:00.000Z' }),
+      'corrective-action:1': { id: 'corrective-action:1', deviceId: 'device:held', status: 'open' },
+      'device:retired': device('device:retired', 1, { status: 'decommissioned' })
+    }, [employee('u-1', 'E100'), employee('u-planner', 'P100', 'planner')]);
+  });
+
+  it('ranks devices due by the week from their last completion and pending checks', async () => {
+    const response = await request('GET', '/weekly-plans/2026/10/suggestions', { token: 'u-planner' });
+    expect(response.status).toBe(200);
+
+    expect(response.body.map((suggestion: any) => [suggestion.deviceId, suggestion.urgency, suggestion.daysOverdue])).toEqual([
+      ['device:drifted', 'overdue', 18],
+      ['device:overdue', 'overdue', 14],
+      ['device:new', 'never_checked', 0],
+      ['device:due', 'due', 0]
+    ]);
+    expect(response.body[1]).toMatchObject({
+      checkId: 'check:2026:8:device:overdue',
+      dueDate: '2026-02-16T00:00:00.000Z',
+      reason: 'Week 8 check due 2026-02-16 not done, 14 days overdue',
+      deviceName: 'Device device:overdue'
+    });
+    expect(response.body[3].reason).toBe('Last checked 2026-02-17 (Every 2 weeks): due 2026-03-02');
+
+    const later = await request('GET', '/weekly-plans/2026/13/suggestions', { token: 'u-planner' });
+    expect(later.body.find((suggestion: any) => suggestion.deviceId === 'device:later')).toMatchObject({ urgency: 'due' });
+  });
+
+  it('rejects weeks that do not exist and is limited to planners', async () => {
+    const badWeek = await request('GET', '/weekly-plans/2025/53/suggestions', { token: 'u-planner' });
+    expect(badWeek.status).toBe(400);
+
+    const employeeView = await request('GET', '/weekly-plans/2026/10/suggestions', { token: 'u-1' });
+    expect(employeeView.status).toBe(403);
+  });
+});
+
+describe('weekly plan editing', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    harness = resetHarness({
+      'device:a': device('device:a'),
+      'device:b': device('device:b'),
+      'device:c': device('device:c'),
+      'device:d': device('device:d')
+    }, [employee('u-planner', 'P100', 'planner')]);
+  });
+
+  const plan = (deviceIds: string[]) =>
+    request('POST', '/weekly-plans', { token: 'u-planner', json: { year: '2026', week: '10', deviceIds } });
+
+  it('records the signed-in planner, not a body assignedBy, as the plan author', async () => {
+    const created = await request('POST', '/weekly-plans', {
+      token: 'u-planner',
+      json: { year: '2026', week: '10', deviceIds: ['device:a'], assignedBy: 'E999' }
+    });
+
+    expect(created.status).toBe(200);
+    expect(created.body.plan.assignedBy).toBe('P100');
+    expect(harness.store.dump()['check:2026:10:device:a'].assignedBy).toBe('P100');
+  });
+
+  it('refuses to overwrite an existing plan and keeps completed checks', async () => {
+    await plan(['device:a', 'device:b']);
+    await request('PUT', `/checks/${encodeURIComponent('check:2026:10:device:a')}/complete`, { json: { completedBy: 'P100' } });
+
+    const again = await plan(['device:a']);
+    expect(again.status).toBe(409);
+    expect(harness.store.dump()['check:2026:10:device:a'].status).toBe('completed');
+  });
+
+  it('previews a diff, then cancels removed checks with a reason and never drops completed ones', async () => {
+    await plan(['device:a', 'device:b', 'device:c']);
+    await request('PUT', `/checks/${encodeURIComponent('check:2026:10:device:c')}/complete`, { json: { completedBy: 'P100' } });
+
+    const edit = { deviceIds: ['device:a', 'device:d'] };
+    const preview = await request('PUT', '/weekly-plans/2026/10', { token: 'u-planner', json: { ...edit, dryRun: true } });
+    expect(preview.status).toBe(200);
+    expect(preview.body.diff).toEqual({
+      added: [{ deviceId: 'device:d', deviceName: 'Device device:d' }],
+      removed: [{ deviceId: 'device:b', deviceName: 'Device device:b' }],
+      kept: [{ deviceId: 'device:a', deviceName: 'Device device:a' }],
+      locked: [{ deviceId: 'device:c', deviceName: 'Device device:c' }]
+    });
+    expect(harness.store.dump()['check:2026:10:device:d']).toBeUndefined();
+
+    const noReason = await request('PUT', '/weekly-plans/2026/10', { token: 'u-planner', json: edit });
+    expect(noReason.status).toBe(400);
+    expect(noReason.body.field).toBe('reason');
+
+    const saved = await request('PUT', '/weekly-plans/2026/10', { token: 'u-planner', json: { ...edit, reason: 'Line shut down this week' } });
+    expect(saved.status).toBe(200);
+    expect(saved.body.plan).toMatchObject({ deviceIds: ['device:a', 'device:d', 'device:c'], updatedBy: 'P100' });
+
+    const rows = harness.store.dump();
+    expect(rows['check:2026:10:device:b']).toMatchObject({ status: 'cancelled', cancelledBy: 'P100', cancelReason: 'Line shut down this week' });
+    expect(rows['check:2026:10:device:c'].status).toBe('completed');
+    expect(rows['check:2026:10:device:d']).toMatchObject({ status: 'pending', assignedBy: 'P100' });
+
+    const completeCancelled = await request('PUT', `/checks/${encodeURIComponent('check:2026:10:device:b')}/complete`, { json: { completedBy: 'P100' } });
+    expect(completeCancelled.status).toBe(409);
+
+    // Listing a cancelled device again plans it afresh
+    const replanned = await request('PUT', '/weekly-plans/2026/10', { token: 'u-planner', json: { deviceIds: ['device:a', 'device:b', 'device:d'] } });
+    expect(replanned.body.diff.added).toEqual([{ deviceId: 'device:b', deviceName: 'Device device:b' }]);
+    expect(harness.store.dump()['check:2026:10:device:b'].status).toBe('pending');
+  });
+
+  it('rejects unknown devices and weeks', async () => {
+    const unknown = await request('PUT', '/weekly-plans/2026/10', { json: { deviceIds: ['device:zz'] } });
+    expect(unknown.body.field).toBe('deviceIds');
+
+    const badWeek = await request('PUT', '/weekly-plans/2026/54', { json: { deviceIds: [] } });
+    expect(badWeek.status).toBe(400);
+  });
+
+  it('validates the week and devices of a new plan without writing orphaned checks', async () => {
+    const unknown = await plan(['device:a', 'device:zz']);
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.field).toBe('deviceIds');
+
+    const notArray = await request('POST', '/weekly-plans', { json: { year: '2026', week: '10', deviceIds: 'device:a' } });
+    expect(notArray.status).toBe(400);
+    expect(notArray.body.field).toBe('deviceIds');
+
+    const badWeek = await request('POST', '/weekly-plans', { json: { year: '2025', week: '53', deviceIds: ['device:a'] } });
+    expect(badWeek.status).toBe(400);
+
+    const rows = Object.keys(harness.store.dump());
+    expect(rows.filter(key => key.startsWith('check:') || key.startsWith('plan:'))).toEqual([]);
+  });
+});
+
+describe('check assignment', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    harness = resetHarness({
+      'device:a': device('device:a'),
+      'device:b': device('device:b'),
+      'check:2026:10:device:a': check('device:a', 10),
+      'check:2026:10:device:b': check('device:b', 10),
+      'check:2026:9:device:b': check('device:b', 9, { status: 'completed', completedAt: '2026-02-24T09:00:00.000Z' })
+    }, [employee('u-1', 'E100'), employee('u-2', 'E200'), employee('u-planner', 'P100', 'planner')]);
+  });
+
+  const assign = (checkIds: string[], assignedTo: string, token = 'u-planner') =>
+    request('PUT', '/checks/assign', { token, json: { checkIds, assignedTo } });
+
+  it('assigns checks in bulk and notifies the inspector once', async () => {
+    const assigned = await assign(['check:2026:10:device:a', 'check:2026:10:device:b'], 'E100');
+    expect(assigned.status).toBe(200);
+    expect(assigned.body.assigned).toBe(2);
+
+    const rows = harness.store.dump();
+    expect(rows['check:2026:10:device:a']).toMatchObject({ assignedTo: 'E100', assignedToBy: 'P100', assignedBy: 'planner' });
+
+    const notifications = await request('GET', '/notifications/E100', { token: 'u-1' });
+    expect(notifications.body).toHaveLength(1);
+    expect(notifications.body[0]).toMatchObject({
+      type: 'device_check_assigned',
+      checkIds: ['check:2026:10:device:a', 'check:2026:10:device:b'],
+      message: 'You have been assigned 2 device checks: Device device:a, Device device:b'
+    });
+
+    // Re-assigning to the same inspector changes nothing and sends nothing
+    const again = await assign(['check:2026:10:device:a'], 'E100');
+    expect(again.body.assigned).toBe(0);
+    expect((await request('GET', '/notifications/E100', { token: 'u-1' })).body).toHaveLength(1);
+
+    const cleared = await assign(['check:2026:10:device:a'], '');
+    expect(cleared.body.checks[0].assignedTo).toBeNull();
+  });
+
+  it('rejects unknown inspectors, closed checks and non-planners', async () => {
+    const unknownUser = await assign(['check:2026:10:device:a'], 'E999');
+    expect(unknownUser.body.field).toBe('assignedTo');
+
+    const completed = await assign(['check:2026:9:device:b'], 'E100');
+    expect(completed.status).toBe(409);
+
+    const missing = await assign(['check:2026:10:device:zz'], 'E100');
+    expect(missing.status).toBe(404);
+
+    const asEmployee = await assign(['check:2026:10:device:a'], 'E100', 'u-1');
+    expect(asEmployee.status).toBe(403);
+
+    expect(harness.store.dump()['check:2026:10:device:a'].assignedTo).toBeUndefined();
+  });
+});
+
+describe('workload balancing', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    harness = resetHarness({
+      'device-category:pumps': { id: 'device-category:pumps', name: 'Pumps', description: '', fields: [], estimatedMinutes: 45 },
+      'device:a': device('device:a', 1, { categoryId: 'device-category:pumps' }),
+      'device:b': device('device:b', 1, { categoryId: 'device-category:pumps', estimatedMinutes: 15 }),
+      'device:c': device('device:c', 1, { location: 'Hall B', estimatedMinutes: 60 }),
+      'device:d': device('device:d', 1, { location: 'Hall B' }),
+      'check:2026:10:device:a': check('device:a', 10),
+      'check:2026:10:device:b': check('device:b', 10),
+      'check:2026:10:device:c': check('device:c', 10),
+      'check:2026:10:device:d': check('device:d', 10, { assignedTo: 'E200' }),
+      'check:2026:9:device:a': check('device:a', 9, { status: 'completed', completedAt: '2026-02-24T09:00:00.000Z' })
+    }, [employee('u-1', 'E100'), employee('u-2', 'E200'), employee('u-planner', 'P100', 'planner')]);
+  });
+
+  const distribute = (json: Record<string, any>, token = 'u-planner') =>
+    request('POST', '/weekly-plans/2026/10/distribute', { token, json });
+
+  it('totals estimated minutes per inspector, device estimate first, then category, then default', async () => {
+    const response = await request('GET', '/weekly-plans/2026/10/workload', { token: 'u-planner' });
+    expect(response.status).toBe(200);
+    expect(response.body.unassigned).toEqual({ checks: 3, minutes: 45 + 15 + 60 });
+    expect(response.body.inspectors.find((load: any) => load.employeeId === 'E200')).toMatchObject({
+      checks: 1,
+      minutes: 30,
+      locations: ['Hall B']
+    });
+    expect(response.body.inspectors.find((load: any) => load.employeeId === 'E100')).toMatchObject({ checks: 0, minutes: 0 });
+
+    const employeeView = await request('GET', '/weekly-plans/2026/10/workload', { token: 'u-1' });
+    expect(employeeView.status).toBe(403);
+  });
+
+  it('keeps locations together, counts existing load and only saves without dryRun', async () => {
+    const checkIds = ['check:2026:10:device:a', 'check:2026:10:device:b', 'check:2026:10:device:c'];
+    const preview = await distribute({ checkIds, employeeIds: ['E100', 'E200'], dryRun: true });
+    expect(preview.status).toBe(200);
+    expect(preview.body.assignments.map((assignment: any) => [assignment.checkId, assignment.employeeId, assignment.minutes])).toEqual([
+      ['check:2026:10:device:a', 'E100', 45],
+      ['check:2026:10:device:b', 'E100', 15],
+      ['check:2026:10:device:c', 'E200', 60]
+    ]);
+    expect(harness.store.dump()['check:2026:10:device:a'].assignedTo).toBeUndefined();
+
+    const saved = await distribute({ checkIds, employeeIds: ['E100', 'E200'] });
+    expect(saved.status).toBe(200);
+    const rows = harness.store.dump();
+    expect(rows['check:2026:10:device:b']).toMatchObject({ assignedTo: 'E100', assignedToBy: 'P100' });
+    expect(rows['check:2026:10:device:c'].assignedTo).toBe('E200');
+
+    const notifications = await request('GET', '/notifications/E100', { token: 'u-1' });
+    expect(notifications.body[0].checkIds).toEqual(['check:2026:10:device:a', 'check:2026:10:device:b']);
+  });
+
+  it('rejects unknown inspectors, checks from other weeks and closed checks', async () => {
+    const unknown = await distribute({ checkIds: ['check:2026:10:device:a'], employeeIds: ['E999'] });
+    expect(unknown.body.field).toBe('employeeIds');
+
+    const noInspectors = await distribute({ checkIds: ['check:2026:10:device:a'], employeeIds: [] });
+    expect(noInspectors.body.field).toBe('employeeIds');
+
+    const otherWeek = await distribute({ checkIds: ['check:2026:9:device:a'], employeeIds: ['E100'] });
+    expect(otherWeek.status).toBe(400);
+    expect(otherWeek.body.field).toBe('checkIds');
+
+    await request('PUT', `/checks/${encodeURIComponent('check:2026:10:device:a')}/complete`, { json: { completedBy: 'P100' } });
+    const completed = await distribute({ checkIds: ['check:2026:10:device:a'], employeeIds: ['E100'] });
+    expect(completed.status).toBe(409);
+  });
+});
@@ -0,0 +1,15 @@
+import { vi } from 'vitest';
+
+// The edge function only talks to Supabase auth through this client; KV and files use the memory backends
+vi.mock('@supabase/supabase-js', async () => {
+  const { fakeSupabase } = await import('./fake_auth');
+  return { createClient: () => fakeSupabase };
+});
+
+vi.mock('npm:resend', () => ({
+  Resend: class {
+    emails = {
+      send: async () => ({ data: { id: 'test-email' }, error: null })
+    };
+  }
+}));
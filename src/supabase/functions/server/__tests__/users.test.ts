@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { resetHarness, request, employee } from './harness';
+import { getAuthUser } from './fake_auth';
+
+describe('user profiles', () => {
+  beforeEach(() => {
+    resetHarness({}, [employee('u-1', 'E100'), employee('u-2', 'E200'), employee('u-planner', 'P100', 'planner')]);
+  });
+
+  it('resolves only the sign-in email without a session', async () => {
+    const lookup = await request('GET', '/users/E100/email', { token: '' });
+    expect(lookup.status).toBe(200);
+    expect(lookup.body).toEqual({ email: 'e100@example.com' });
+
+    const unknown = await request('GET', '/users/E999/email', { token: '' });
+    expect(unknown.status).toBe(404);
+
+    const profile = await request('GET', '/users/E100', { token: '' });
+    expect(profile.status).toBe(401);
+  });
+
+  it('returns the full profile to the user themselves and to planners', async () => {
+    const own = await request('GET', '/users/E100', { token: 'u-1' });
+    expect(own.status).toBe(200);
+    expect(own.body).toMatchObject({ employeeId: 'E100', supabaseUserId: 'u-1', role: 'employee' });
+
+    const colleague = await request('GET', '/users/E200', { token: 'u-1' });
+    expect(colleague.status).toBe(403);
+
+    const asPlanner = await request('GET', '/users/E200', { token: 'u-planner' });
+    expect(asPlanner.status).toBe(200);
+  });
+
+  it('lists colleagues for assignment without their notifications', async () => {
+    const list = await request('GET', '/users', { token: 'u-1' });
+    expect(list.status).toBe(200);
+    expect(list.body.map((user: any) => user.employeeId)).toEqual(['E100', 'E200', 'P100']);
+    list.body.forEach((user: any) => expect(user).not.toHaveProperty('notifications'));
+  });
+
+  it('lets users rename themselves but leaves employee ID changes to admins', async () => {
+    const renamed = await request('PUT', '/user/E100/profile', { token: 'u-1', json: { name: 'Erin' } });
+    expect(renamed.status).toBe(200);
+    expect(renamed.body.user).toMatchObject({ employeeId: 'E100', name: 'Erin' });
+
+    const selfService = await request('PUT', '/user/E100/profile', { token: 'u-1', json: { newEmployeeId: 'P900' } });
+    expect(selfService.status).toBe(403);
+    expect(getAuthUser('u-1')!.app_metadata.employeeId).toBe('E100');
+
+    const byAdmin = await request('PUT', '/user/E100/profile', { json: { newEmployeeId: 'E900' } });
+    expect(byAdmin.status).toBe(200);
+    expect(getAuthUser('u-1')!.app_metadata.employeeId).toBe('E900');
+  });
+});
@@ -0,0 +1,194 @@
+// Admin-defined device categories. Each category carries a schema of typed custom fields
+// (serial, manufacturer, capacity, expiry date, ...) that devices in it must fill in.
+// Helpers here are pure so single creates, updates and bulk imports validate the same way.
+
+export const CATEGORY_PREFIX = 'device-category:';
+
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'boolean', 'select'] as const;
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+
+export interface CustomFieldDefinition {
+  // Stable identifier the device's values are stored under; survives label edits
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  required: boolean;
+  // Allowed values of a select field
+  options?: string[];
+  // Display unit of a number field
+  unit?: string;
+}
+
+export interface CategoryRecord {
+  id: string;
+  name: string;
+  description: string;
+  fields: CustomFieldDefinition[];
+  // Default estimated check duration for devices in the category
+  estimatedMinutes: number | null;
+  createdAt: string;
+  createdBy: string;
+  updatedAt?: string;
+}
+
+export type CategoryIndex = Map<string, CategoryRecord>;
+
+export type CustomFieldValue = string | number | boolean;
+
+const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+export function indexCategories(categories: CategoryRecord[]): CategoryIndex {
+  return new Map(categories.map(category => [category.id, category]));
+}
+
+// "Expiry date" becomes expiry_date
+const toFieldKey = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '');
+
+// Helper function to validate a category payload. Field keys are kept across edits so stored
+// values stay attached; a field without a key gets one derived from its label.
+export function validateCategory(body: any): {
+  category: { name: string; description: string; fields: CustomFieldDefinition[]; estimatedMinutes: number | null };
+  error?: string;
+  field?: string;
+} {
+  const category = { name: '', description: '', fields: [] as CustomFieldDefinition[], estimatedMinutes: null as number | null };
+
+  if (!body || typeof body !== 'object') {
+    return { category, error: 'Invalid request body' };
+  }
+
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    return { category, error: 'Category name is required', field: 'name' };
+  }
+  category.name = body.name.trim();
+  category.description = typeof body.description === 'string' ? body.description.trim() : '';
+
+  if (body.estimatedMinutes !== undefined && body.estimatedMinutes !== null && body.estimatedMinutes !== '') {
+    const minutes = Number(body.estimatedMinutes);
+    if (!Number.isInteger(minutes) || minutes < 1) {
+      return { category, error: 'Estimated duration must be a whole number of minutes', field: 'estimatedMinutes' };
+    }
+    category.estimatedMinutes = minutes;
+  }
+
+  if (body.fields !== undefined && !Array.isArray(body.fields)) {
+    return { category, error: 'fields must be an array', field: 'fields' };
+  }
+
+  const seenKeys = new Set<string>();
+  for (const [index, raw] of (body.fields || []).entries()) {
+    const position = `Field ${index + 1}`;
+    if (!raw || typeof raw.label !== 'string' || !raw.label.trim()) {
+      return { category, error: `${position}: label is required`, field: 'fields' };
+    }
+
+    const key = typeof raw.key === 'string' && raw.key.trim() ? raw.key.trim() : toFieldKey(raw.label);
+    if (!FIELD_KEY_PATTERN.test(key)) {
+      return { category, error: `${position}: key must start with a letter and use only a-z, 0-9 and _`, field: 'fields' };
+    }
+    if (seenKeys.has(key)) {
+      return { category, error: `${position}: duplicate field key ${key}`, field: 'fields' };
+    }
+    seenKeys.add(key);
+
+    const type = raw.type || 'text';
+    if (!CUSTOM_FIELD_TYPES.includes(type)) {
+      return { category, error: `${position}: type must be one of ${CUSTOM_FIELD_TYPES.join(', ')}`, field: 'fields' };
+    }
+
+    const definition: CustomFieldDefinition = { key, label: raw.label.trim(), type, required: raw.required === true };
+
+    if (type === 'select') {
+      const options = Array.isArray(raw.options)
+        ? [...new Set<string>(raw.options.filter((option: any) => typeof option === 'string' && option.trim()).map((option: string) => option.trim()))]
+        : [];
+      if (options.length === 0) {
+        return { category, error: `${position}: a select field needs at least one option`, field: 'fields' };
+      }
+      definition.options = options;
+    }
+
+    if (type === 'number' && typeof raw.unit === 'string' && raw.unit.trim()) {
+      definition.unit = raw.unit.trim();
+    }
+
+    category.fields.push(definition);
+  }
+
+  return { category };
+}
+
+const isEmpty = (value: any) => value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+// Helper function to check a device's custom values against its category's fields. Values are
+// coerced to the field type (CSV imports send strings), unknown keys are dropped and blank
+// optional fields are left out. Errors name the field as customFields.<key>.
+export function validateCustomFieldValues(fields: CustomFieldDefinition[], body: any): {
+  values: Record<string, CustomFieldValue>;
+  error?: string;
+  field?: string;
+} {
+  const values: Record<string, CustomFieldValue> = {};
+
+  if (body !== undefined && (body === null || typeof body !== 'object' || Array.isArray(body))) {
+    return { values, error: 'customFields must be an object', field: 'customFields' };
+  }
+
+  for (const definition of fields) {
+    const raw = body?.[definition.key];
+    const field = `customFields.${definition.key}`;
+
+    if (isEmpty(raw)) {
+      if (definition.required) {
+        return { values, error: `${definition.label} is required`, field };
+      }
+      continue;
+    }
+
+    switch (definition.type) {
+      case 'number': {
+        const value = Number(raw);
+        if (typeof raw === 'boolean' || !Number.isFinite(value)) {
+          return { values, error: `${definition.label} must be a number`, field };
+        }
+        values[definition.key] = value;
+        break;
+      }
+      case 'date': {
+        if (typeof raw !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(raw.trim()) || isNaN(new Date(raw.trim()).getTime())) {
+          return { values, error: `${definition.label} must be a YYYY-MM-DD date`, field };
+        }
+        values[definition.key] = raw.trim();
+        break;
+      }
+      case 'boolean': {
+        const text = String(raw).trim().toLowerCase();
+        if (raw === true || text === 'true' || text === 'yes') {
+          values[definition.key] = true;
+        } else if (raw === false || text === 'false' || text === 'no') {
+          values[definition.key] = false;
+        } else {
+          return { values, error: `${definition.label} must be yes or no`, field };
+        }
+        break;
+      }
+      case 'select': {
+        const option = definition.options?.find(candidate => candidate.toLowerCase() === String(raw).trim().toLowerCase());
+        if (!option) {
+          return { values, error: `${definition.label} must be one of ${(definition.options || []).join(', ')}`, field };
+        }
+        values[definition.key] = option;
+        break;
+      }
+      default: {
+        if (typeof raw !== 'string' && typeof raw !== 'number') {
+          return { values, error: `${definition.label} must be text`, field };
+        }
+        values[definition.key] = String(raw).trim();
+      }
+    }
+  }
+
+  return { values };
+}
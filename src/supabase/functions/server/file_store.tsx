@@ -0,0 +1,157 @@
+/* File storage for uploaded PDFs and check evidence - Supabase Storage by default, in-memory for local runs. */
+
+import { createClient } from "@supabase/supabase-js";
+
+const getEnv = (key: string): string | undefined => {
+  // Support Deno.globalThis.Deno.env and Node process.env
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const anyGlobal: any = typeof globalThis !== 'undefined' ? globalThis : undefined;
+  if (anyGlobal && typeof anyGlobal.Deno !== 'undefined' && anyGlobal.Deno?.env?.get) {
+    return anyGlobal.Deno.env.get(key);
+  }
+  return process?.env?.[key];
+};
+
+const EDGE_FN_NAME = getEnv('EDGE_FN_NAME') || 'make-server-354d5d14';
+const BUCKET_PREFIX = EDGE_FN_NAME.replace(/[^a-z0-9]/gi, '-');
+export const BUCKET_NAME = `${BUCKET_PREFIX}-pdfs`;
+export const EVIDENCE_BUCKET_NAME = `${BUCKET_PREFIX}-evidence`;
+
+export interface BucketConfig {
+  name: string;
+  allowedMimeTypes: string[];
+  fileSizeLimit: number;
+}
+
+// Signed documents
+export const PDF_BUCKET: BucketConfig = {
+  name: BUCKET_NAME,
+  allowedMimeTypes: ['application/pdf'],
+  fileSizeLimit: 10485760 // 10MB
+};
+
+// Photos and files attached to device checks
+export const EVIDENCE_BUCKET: BucketConfig = {
+  name: EVIDENCE_BUCKET_NAME,
+  allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic', 'image/heif', 'application/pdf'],
+  fileSizeLimit: 10485760 // 10MB
+};
+
+const BUCKETS = [PDF_BUCKET, EVIDENCE_BUCKET];
+
+const client = () => createClient(
+  getEnv("SUPABASE_URL") ?? "",
+  getEnv("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+);
+
+// Results mirror the { data, error } shape of the Supabase Storage API so
+// route handlers read the same whichever backend is active. Operations target
+// the PDF bucket unless another bucket name is passed.
+export interface FileStoreError {
+  message: string;
+}
+
+export interface FileStore {
+  ensureBuckets(): Promise<void>;
+  upload(path: string, file: Blob, bucket?: string): Promise<{ data: { path: string } | null; error: FileStoreError | null }>;
+  remove(paths: string[], bucket?: string): Promise<{ error: FileStoreError | null }>;
+  createSignedUrl(path: string, expiresIn: number, bucket?: string): Promise<{ data: { signedUrl: string } | null; error: FileStoreError | null }>;
+}
+
+export const supabaseFileStore: FileStore = {
+  async ensureBuckets() {
+    const supabase = client();
+    const { data: buckets } = await supabase.storage.listBuckets();
+    for (const config of BUCKETS) {
+      const bucketExists = buckets?.some(bucket => bucket.name === config.name);
+      if (bucketExists) continue;
+
+      const { error } = await supabase.storage.createBucket(config.name, {
+        public: false,
+        allowedMimeTypes: config.allowedMimeTypes,
+        fileSizeLimit: config.fileSizeLimit
+      });
+      if (error) {
+        console.log(`Error creating bucket ${config.name}:`, error);
+      } else {
+        console.log(`Storage bucket ${config.name} created successfully`);
+      }
+    }
+  },
+
+  async upload(path, file, bucket = BUCKET_NAME) {
+    const { data, error } = await client().storage.from(bucket).upload(path, file);
+    return { data: data ? { path: data.path } : null, error };
+  },
+
+  async remove(paths, bucket = BUCKET_NAME) {
+    const { error } = await client().storage.from(bucket).remove(paths);
+    return { error };
+  },
+
+  async createSignedUrl(path, expiresIn, bucket = BUCKET_NAME) {
+    const { data, error } = await client().storage.from(bucket).createSignedUrl(path, expiresIn);
+    return { data: data ? { signedUrl: data.signedUrl } : null, error };
+  },
+};
+
+export interface MemoryFileStore extends FileStore {
+  // Uploaded files by path in the PDF bucket, for assertions in tests
+  files: Map<string, Blob>;
+  // Every bucket's files, keyed by bucket name
+  buckets: Map<string, Map<string, Blob>>;
+}
+
+export const createMemoryFileStore = (fixtures: Record<string, Blob> = {}): MemoryFileStore => {
+  const files = new Map<string, Blob>(Object.entries(fixtures));
+  const buckets = new Map<string, Map<string, Blob>>([[BUCKET_NAME, files]]);
+
+  const bucketFiles = (bucket: string) => {
+    if (!buckets.has(bucket)) buckets.set(bucket, new Map());
+    return buckets.get(bucket)!;
+  };
+
+  return {
+    files,
+    buckets,
+    async ensureBuckets() {
+      BUCKETS.forEach((config) => bucketFiles(config.name));
+    },
+    async upload(path, file, bucket = BUCKET_NAME) {
+      const stored = bucketFiles(bucket);
+      // Supabase rejects uploads to an existing path unless upsert is requested
+      if (stored.has(path)) {
+        return { data: null, error: { message: 'The resource already exists' } };
+      }
+      stored.set(path, file);
+      return { data: { path }, error: null };
+    },
+    async remove(paths, bucket = BUCKET_NAME) {
+      const stored = bucketFiles(bucket);
+      paths.forEach((path) => stored.delete(path));
+      return { error: null };
+    },
+    async createSignedUrl(path, expiresIn, bucket = BUCKET_NAME) {
+      if (!bucketFiles(bucket).has(path)) {
+        return { data: null, error: { message: 'Object not found' } };
+      }
+      return { data: { signedUrl: `memory://${bucket}/${path}?expiresIn=${expiresIn}` }, error: null };
+    },
+  };
+};
+
+let fileStore: FileStore = (getEnv('STORAGE_BACKEND') || '').toLowerCase() === 'memory'
+  ? createMemoryFileStore()
+  : supabaseFileStore;
+
+// Replaces the active store, e.g. with createMemoryFileStore() in a test harness.
+export const setFileStore = (next: FileStore): void => {
+  fileStore = next;
+};
+
+export const getFileStore = (): FileStore => fileStore;
+
+export const ensureBuckets = (): Promise<void> => fileStore.ensureBuckets();
+export const upload = (path: string, file: Blob, bucket?: string) => fileStore.upload(path, file, bucket);
+export const remove = (paths: string[], bucket?: string) => fileStore.remove(paths, bucket);
+export const createSignedUrl = (path: string, expiresIn: number, bucket?: string) => fileStore.createSignedUrl(path, expiresIn, bucket);
@@ -0,0 +1,221 @@
+// Planner suggestions: which devices come due in a given ISO week. A device's next due date is
+// its earliest pending check, or else the shared recurrence rule applied to its last completion.
+// Helpers here are pure so the ranking can be tested without the KV store.
+
+import { getISOWeekStart, getCheckDueDate, getDeviceRecurrence, getNextDueDate, describeRecurrence } from './schedule';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SUGGESTION_URGENCIES = ['overdue', 'never_checked', 'due'] as const;
+export type SuggestionUrgency = typeof SUGGESTION_URGENCIES[number];
+
+export interface CheckSuggestion {
+  deviceId: string;
+  urgency: SuggestionUrgency;
+  // Due date the suggestion is based on; null for a device that has never been checked
+  dueDate: string | null;
+  // Whole days between the due date and the start of the planned week
+  daysOverdue: number;
+  reason: string;
+  // Pending check the due date comes from, if any
+  checkId: string | null;
+}
+
+const formatDay = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+// Most urgent first: overdue by most days, then never checked, then due earliest in the week
+function compareSuggestions(a: CheckSuggestion, b: CheckSuggestion): number {
+  const rank = SUGGESTION_URGENCIES.indexOf(a.urgency) - SUGGESTION_URGENCIES.indexOf(b.urgency);
+  if (rank !== 0) return rank;
+  if (a.daysOverdue !== b.daysOverdue) return b.daysOverdue - a.daysOverdue;
+  return (a.dueDate || '').localeCompare(b.dueDate || '');
+}
+
+// Helper function to work out which devices are due or overdue by the given ISO week.
+// Callers pass only the devices that can be planned (active, not held by a corrective action).
+export function suggestChecksForWeek(devices: any[], checks: any[], year: number, week: number): CheckSuggestion[] {
+  const weekStart = getISOWeekStart(year, week);
+  const weekEnd = new Date(weekStart.getTime() + 7 * DAY_MS);
+
+  const checksByDevice = new Map<string, any[]>();
+  for (const check of checks) {
+    const deviceChecks = checksByDevice.get(check.deviceId) || [];
+    deviceChecks.push(check);
+    checksByDevice.set(check.deviceId, deviceChecks);
+  }
+
+  const suggestions: CheckSuggestion[] = [];
+
+  for (const device of devices) {
+    const deviceChecks = checksByDevice.get(device.id) || [];
+    const rule = getDeviceRecurrence(device);
+
+    const pending = deviceChecks
+      .filter(check => check.status === 'pending')
+      .sort((a, b) => getCheckDueDate(a).getTime() - getCheckDueDate(b).getTime())[0];
+    const lastCompleted = deviceChecks
+      .filter(check => check.status === 'completed' && check.completedAt)
+      .sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime())[0];
+
+    if (!pending && !lastCompleted) {
+      suggestions.push({ deviceId: device.id, urgency: 'never_checked', dueDate: null, daysOverdue: 0, reason: 'Never checked', checkId: null });
+      continue;
+    }
+
+    const dueDate = pending
+      ? getCheckDueDate(pending)
+      : getNextDueDate(rule, {
+        dueDate: getCheckDueDate(lastCompleted),
+        completedAt: new Date(lastCompleted.completedAt),
+        anchorDay: lastCompleted.anchorDay
+      }).dueDate;
+
+    if (dueDate.getTime() >= weekEnd.getTime()) continue;
+
+    const overdue = dueDate.getTime() < weekStart.getTime();
+    const daysOverdue = overdue ? Math.floor((weekStart.getTime() - dueDate.getTime()) / DAY_MS) : 0;
+
+    let reason: string;
+    if (pending) {
+      reason = overdue
+        ? `Week ${pending.week} check due ${formatDay(dueDate)} not done, ${plural(daysOverdue, 'day')} overdue`
+        : `Check scheduled for ${formatDay(dueDate)}`;
+    } else {
+      const basis = `Last checked ${formatDay(lastCompleted.completedAt)} (${describeRecurrence(rule)})`;
+      reason = overdue
+        ? `${basis}: due ${formatDay(dueDate)}, ${plural(daysOverdue, 'day')} overdue`
+        : `${basis}: due ${formatDay(dueDate)}`;
+    }
+
+    suggestions.push({
+      deviceId: device.id,
+      urgency: overdue ? 'overdue' : 'due',
+      dueDate: dueDate.toISOString(),
+      daysOverdue,
+      reason,
+      checkId: pending?.id || null
+    });
+  }
+
+  return suggestions.sort(compareSuggestions);
+}
+
+export interface PlanDiff {
+  // Devices that get a new pending check
+  added: string[];
+  // Devices whose pending check is cancelled
+  removed: string[];
+  // Devices already planned that stay as they are
+  kept: string[];
+  // Devices left out whose check is already completed; completed checks are never removed
+  locked: string[];
+}
+
+// Helper function to compare a week's checks with the devices the planner wants in it.
+// Cancelled checks do not count as planned, so listing their device again re-plans it.
+export function diffWeeklyPlan(weekChecks: any[], deviceIds: string[]): PlanDiff {
+  const live = new Map<string, any>(
+    weekChecks.filter(check => check.status !== 'cancelled').map(check => [check.deviceId, check])
+  );
+  const wanted = new Set(deviceIds);
+  const diff: PlanDiff = { added: [], removed: [], kept: [], locked: [] };
+
+  for (const deviceId of wanted) {
+    (live.has(deviceId) ? diff.kept : diff.added).push(deviceId);
+  }
+
+  for (const [deviceId, check] of live) {
+    if (wanted.has(deviceId)) continue;
+    (check.status === 'completed' ? diff.locked : diff.removed).push(deviceId);
+  }
+
+  return diff;
+}
+
+// Used when neither the device nor its category sets an estimated check duration
+export const DEFAULT_CHECK_MINUTES = 30;
+
+// A device's own estimate wins over its category's
+export function getEstimatedMinutes(device: any, category?: { estimatedMinutes?: number | null } | null): number {
+  return device?.estimatedMinutes || category?.estimatedMinutes || DEFAULT_CHECK_MINUTES;
+}
+
+export interface WorkloadItem {
+  checkId: string;
+  assignedTo: string | null;
+  minutes: number;
+  location: string;
+}
+
+export interface InspectorLoad {
+  employeeId: string;
+  checks: number;
+  minutes: number;
+  locations: string[];
+}
+
+// Helper function to total a week's checks per inspector. Every listed inspector appears, even
+// without checks, so the planner can see who is free.
+export function summarizeWorkload(items: WorkloadItem[], employeeIds: string[]): {
+  inspectors: InspectorLoad[];
+  unassigned: { checks: number; minutes: number };
+} {
+  const loads = new Map<string, InspectorLoad>(
+    employeeIds.map(employeeId => [employeeId, { employeeId, checks: 0, minutes: 0, locations: [] }])
+  );
+  const unassigned = { checks: 0, minutes: 0 };
+
+  for (const item of items) {
+    const load = item.assignedTo ? loads.get(item.assignedTo) : undefined;
+    if (!load) {
+      unassigned.checks++;
+      unassigned.minutes += item.minutes;
+      continue;
+    }
+    load.checks++;
+    load.minutes += item.minutes;
+    if (!load.locations.includes(item.location)) load.locations.push(item.location);
+  }
+
+  return { inspectors: [...loads.values()], unassigned };
+}
+
+// Helper function to spread checks across inspectors. Checks at the same location go to the same
+// inspector until that inspector reaches an even share of the week's minutes; the rest goes to
+// whoever has the least. `loads` holds each available inspector's minutes already assigned that week.
+export function distributeChecks(items: Omit<WorkloadItem, 'assignedTo'>[], loads: Map<string, number>): Map<string, string> {
+  const assignments = new Map<string, string>();
+  if (loads.size === 0) return assignments;
+
+  const current = new Map(loads);
+  const total = items.reduce((sum, item) => sum + item.minutes, 0) + [...loads.values()].reduce((sum, minutes) => sum + minutes, 0);
+  const target = total / loads.size;
+
+  const groups = new Map<string, typeof items>();
+  for (const item of items) {
+    groups.set(item.location, [...(groups.get(item.location) || []), item]);
+  }
+  const groupMinutes = (group: typeof items) => group.reduce((sum, item) => sum + item.minutes, 0);
+  const ordered = [...groups.entries()].sort(([aLocation, a], [bLocation, b]) =>
+    groupMinutes(b) - groupMinutes(a) || aLocation.localeCompare(bLocation)
+  );
+
+  const leastLoaded = () => [...current.entries()].reduce((best, entry) => (entry[1] < best[1] ? entry : best))[0];
+
+  for (const [, group] of ordered) {
+    let owner: string | null = null;
+    const byDuration = [...group].sort((a, b) => b.minutes - a.minutes || a.checkId.localeCompare(b.checkId));
+
+    for (const item of byDuration) {
+      if (!owner || current.get(owner)! + item.minutes > target) {
+        owner = leastLoaded();
+      }
+      assignments.set(item.checkId, owner);
+      current.set(owner, current.get(owner)! + item.minutes);
+    }
+  }
+
+  return assignments;
+}
@@ -0,0 +1,220 @@
+// Shared scheduling helpers for device checks.
+// This module has no runtime dependencies so the edge function and the
+// frontend (DelayedDevices, WeeklyPlanner) can import the same overdue and
+// recurrence calculations.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScheduledCheck {
+  year: string | number;
+  week: string | number;
+  status?: string;
+  scheduledDate?: string;
+}
+
+// ISO-8601 week and week-year for a date (weeks start on Monday, week 1 contains Jan 4th)
+export function getISOWeek(date: Date): { year: number; week: number } {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const dayNum = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
+  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((d.getTime() - yearStart.getTime()) / DAY_MS + 1) / 7);
+  return { year: d.getUTCFullYear(), week };
+}
+
+// Monday 00:00 UTC of the given ISO week
+export function getISOWeekStart(year: number, week: number): Date {
+  const jan4 = new Date(Date.UTC(year, 0, 4));
+  const jan4Day = jan4.getUTCDay() || 7;
+  const week1Monday = jan4.getTime() - (jan4Day - 1) * DAY_MS;
+  return new Date(week1Monday + (week - 1) * 7 * DAY_MS);
+}
+
+// Due date recorded on a check: the first day of its scheduled week
+export function getScheduledDate(year: string | number, week: string | number): string {
+  return getISOWeekStart(Number(year), Number(week)).toISOString();
+}
+
+// Checks created before scheduledDate was recorded fall back to their year/week
+export function getCheckScheduledDate(check: ScheduledCheck): Date {
+  if (check.scheduledDate) {
+    const scheduled = new Date(check.scheduledDate);
+    if (!isNaN(scheduled.getTime())) return scheduled;
+  }
+  return getISOWeekStart(Number(check.year), Number(check.week));
+}
+
+// End of the check's scheduled week (the following Monday 00:00 UTC)
+export function getCheckWeekEnd(check: ScheduledCheck): Date {
+  return new Date(getCheckScheduledDate(check).getTime() + 7 * DAY_MS);
+}
+
+// A pending check is overdue once the week it was scheduled for has ended
+export function isCheckOverdue(check: ScheduledCheck, now: Date = new Date()): boolean {
+  if (check.status !== 'pending') return false;
+  return now.getTime() >= getCheckWeekEnd(check).getTime();
+}
+
+// Whole days since the scheduled week ended; 0 when the check is not overdue
+export function getDaysOverdue(check: ScheduledCheck, now: Date = new Date()): number {
+  const elapsed = now.getTime() - getCheckWeekEnd(check).getTime();
+  return elapsed < 0 ? 0 : Math.floor(elapsed / DAY_MS) + 1;
+}
+
+// Recurrence rules. A device repeats every `interval` weeks or calendar months, optionally on a
+// fixed weekday, counted from the due date of the previous check (a fixed schedule that late
+// checks do not shift) or from the day it was completed. Quarterly is every 3 months, annual every 12.
+export const RECURRENCE_UNITS = ['week', 'month'] as const;
+export type RecurrenceUnit = typeof RECURRENCE_UNITS[number];
+
+export const RECURRENCE_ANCHORS = ['due', 'completion'] as const;
+export type RecurrenceAnchor = typeof RECURRENCE_ANCHORS[number];
+
+export interface RecurrenceRule {
+  unit: RecurrenceUnit;
+  interval: number;
+  // ISO weekday the check falls on, 1 (Monday) to 7 (Sunday)
+  weekday?: number;
+  anchor: RecurrenceAnchor;
+}
+
+export const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Shorthand units accepted from clients and stored as month rules
+const UNIT_ALIASES: Record<string, { unit: RecurrenceUnit; months: number }> = {
+  quarter: { unit: 'month', months: 3 },
+  year: { unit: 'month', months: 12 }
+};
+
+// Helper function to validate a recurrence rule payload
+export function validateRecurrence(body: any): { rule: RecurrenceRule; error?: string } {
+  const rule: RecurrenceRule = { unit: 'week', interval: 1, anchor: 'due' };
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { rule, error: 'recurrence must be an object' };
+  }
+
+  const interval = body.interval === undefined ? 1 : Number(body.interval);
+  if (!Number.isInteger(interval) || interval < 1) {
+    return { rule, error: 'Recurrence interval must be a whole number of at least 1' };
+  }
+
+  const alias = UNIT_ALIASES[body.unit];
+  if (alias) {
+    rule.unit = alias.unit;
+    rule.interval = interval * alias.months;
+  } else if (RECURRENCE_UNITS.includes(body.unit)) {
+    rule.unit = body.unit;
+    rule.interval = interval;
+  } else {
+    return { rule, error: 'Recurrence unit must be one of week, month, quarter, year' };
+  }
+
+  if (body.weekday !== undefined && body.weekday !== null && body.weekday !== '') {
+    const weekday = Number(body.weekday);
+    if (!Number.isInteger(weekday) || weekday < 1 || weekday > 7) {
+      return { rule, error: 'Recurrence weekday must be 1 (Monday) to 7 (Sunday)' };
+    }
+    rule.weekday = weekday;
+  }
+
+  if (body.anchor !== undefined) {
+    if (!RECURRENCE_ANCHORS.includes(body.anchor)) {
+      return { rule, error: 'Recurrence anchor must be due or completion' };
+    }
+    rule.anchor = body.anchor;
+  }
+
+  return { rule };
+}
+
+// Devices without a rule repeat every plannedFrequency weeks on a fixed schedule
+export function getDeviceRecurrence(device: { plannedFrequency?: number; recurrence?: RecurrenceRule | null }): RecurrenceRule {
+  if (device.recurrence) return device.recurrence;
+  return { unit: 'week', interval: Math.max(1, Number(device.plannedFrequency) || 1), anchor: 'due' };
+}
+
+// Approximate length of a rule in whole weeks; kept on the device as plannedFrequency for sorting and filtering
+export function getRecurrenceWeeks(rule: RecurrenceRule): number {
+  return rule.unit === 'week' ? rule.interval : Math.max(1, Math.round(rule.interval * 52 / 12));
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let text: string;
+  if (rule.unit === 'week') {
+    text = rule.interval === 1 ? 'Weekly' : `Every ${rule.interval} weeks`;
+  } else if (rule.interval === 1) {
+    text = 'Monthly';
+  } else if (rule.interval === 3) {
+    text = 'Quarterly';
+  } else if (rule.interval === 12) {
+    text = 'Annually';
+  } else if (rule.interval % 12 === 0) {
+    text = `Every ${rule.interval / 12} years`;
+  } else {
+    text = `Every ${rule.interval} months`;
+  }
+
+  if (rule.weekday) text += ` on ${WEEKDAY_NAMES[rule.weekday - 1]}`;
+  if (rule.anchor === 'completion') text += ', counted from completion';
+  return text;
+}
+
+const startOfUTCDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+// Moves a date to the given ISO weekday of the same ISO week
+const toWeekday = (date: Date, weekday: number) => new Date(date.getTime() + (weekday - (date.getUTCDay() || 7)) * DAY_MS);
+
+// Calendar months later, clamped to the last day of a shorter month (Jan 31st + 1 month is Feb 28th/29th)
+function addMonths(date: Date, months: number, day: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target;
+}
+
+export interface RecurrenceStart {
+  // Due date of the check that was just completed
+  dueDate: Date;
+  completedAt: Date;
+  // Day of month a monthly series started on, so Jan 31st -> Feb 28th -> Mar 31st does not drift
+  anchorDay?: number;
+}
+
+// Next due date after a completed check. A due-date anchored series keeps its dates however late
+// the check was done, skipping occurrences that had already passed by the time it was completed.
+export function getNextDueDate(rule: RecurrenceRule, start: RecurrenceStart): { dueDate: Date; anchorDay?: number } {
+  const base = startOfUTCDay(rule.anchor === 'completion' ? start.completedAt : start.dueDate);
+  const anchorDay = rule.unit === 'month' ? start.anchorDay || base.getUTCDate() : undefined;
+  const completedDay = startOfUTCDay(start.completedAt);
+
+  const occurrence = (count: number) => {
+    const date = rule.unit === 'month'
+      ? addMonths(base, rule.interval * count, anchorDay!)
+      : new Date(base.getTime() + rule.interval * count * 7 * DAY_MS);
+    return rule.weekday ? toWeekday(date, rule.weekday) : date;
+  };
+
+  let count = 1;
+  let dueDate = occurrence(count);
+  while (dueDate.getTime() <= completedDay.getTime()) {
+    dueDate = occurrence(++count);
+  }
+
+  return anchorDay ? { dueDate, anchorDay } : { dueDate };
+}
+
+// Due date of a check planned into a week: the rule's weekday, or the Monday
+export function getDueDateInWeek(rule: RecurrenceRule, year: string | number, week: string | number): Date {
+  const monday = getISOWeekStart(Number(year), Number(week));
+  return rule.weekday ? toWeekday(monday, rule.weekday) : monday;
+}
+
+// Checks created before dueDate was recorded are due at the start of their week
+export function getCheckDueDate(check: ScheduledCheck & { dueDate?: string }): Date {
+  if (check.dueDate) {
+    const due = new Date(check.dueDate);
+    if (!isNaN(due.getTime())) return due;
+  }
+  return getCheckScheduledDate(check);
+}
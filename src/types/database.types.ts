@@ -14,6 +14,170 @@ export type Database = {
   }
   public: {
     Tables: {
+      checks: {
+        Row: {
+          assigned_at: string | null
+          assigned_by: string | null
+          comment: string
+          completed_at: string | null
+          completed_by: string | null
+          device_id: string
+          id: string
+          plan_id: string | null
+          scheduled_date: string
+          status: string
+          week: number
+          year: number
+        }
+        Insert: {
+          assigned_at?: string | null
+          assigned_by?: string | null
+          comment?: string
+          completed_at?: string | null
+          completed_by?: string | null
+          device_id: string
+          id: string
+          plan_id?: string | null
+          scheduled_date: string
+          status?: string
+          week: number
+          year: number
+        }
+        Update: {
+          assigned_at?: string | null
+          assigned_by?: string | null
+          comment?: string
+          completed_at?: string | null
+          completed_by?: string | null
+          device_id?: string
+          id?: string
+          plan_id?: string | null
+          scheduled_date?: string
+          status?: string
+          week?: number
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checks_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checks_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "weekly_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      devices: {
+        Row: {
+          created_at: string
+          id: string
+          identification_number: string
+          last_checked_at: string | null
+          last_checked_by: string | null
+          location: string
+          name: string
+          plan_comment: string
+          planned_frequency: number
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          identification_number: string
+          last_checked_at?: string | null
+          last_checked_by?: string | null
+          location?: string
+          name: string
+          plan_comment?: string
+          planned_frequency?: number
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          identification_number?: string
+          last_checked_at?: string | null
+          last_checked_by?: string | null
+          location?: string
+          name?: string
+          plan_comment?: string
+          planned_frequency?: number
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      document_signatures: {
+        Row: {
+          document_id: string
+          id: number
+          signed_at: string
+          signed_by: string
+          type: string
+        }
+        Insert: {
+          document_id: string
+          id?: never
+          signed_at: string
+          signed_by: string
+          type: string
+        }
+        Update: {
+          document_id?: string
+          id?: never
+          signed_at?: string
+          signed_by?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_signatures_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      documents: {
+        Row: {
+          assigned_to: string | null
+          file_name: string
+          id: string
+          status: string
+          storage_path: string
+          uploaded_at: string
+          uploaded_by: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          file_name: string
+          id: string
+          status?: string
+          storage_path: string
+          uploaded_at?: string
+          uploaded_by: string
+        }
+        Update: {
+          assigned_to?: string | null
+          file_name?: string
+          id?: string
+          status?: string
+          storage_path?: string
+          uploaded_at?: string
+          uploaded_by?: string
+        }
+        Relationships: []
+      }
       kv_store_354d5d14: {
         Row: {
           key: string
@@ -29,12 +193,96 @@ export type Database = {
         }
         Relationships: []
       }
+      notifications: {
+        Row: {
+          created_at: string
+          document_id: string | null
+          id: string
+          message: string
+          read: boolean
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          document_id?: string | null
+          id: string
+          message: string
+          read?: boolean
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          document_id?: string | null
+          id?: string
+          message?: string
+          read?: boolean
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      weekly_plans: {
+        Row: {
+          assigned_by: string | null
+          created_at: string
+          id: string
+          status: string
+          week: number
+          year: number
+        }
+        Insert: {
+          assigned_by?: string | null
+          created_at?: string
+          id: string
+          status?: string
+          week: number
+          year: number
+        }
+        Update: {
+          assigned_by?: string | null
+          created_at?: string
+          id?: string
+          status?: string
+          week?: number
+          year?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      kv_delete_relational: {
+        Args: { p_key: string }
+        Returns: undefined
+      }
+      kv_int: {
+        Args: { raw: string }
+        Returns: number
+      }
+      kv_timestamp: {
+        Args: { raw: string }
+        Returns: string
+      }
+      kv_upsert_relational: {
+        Args: { p_key: string; p_value: Json }
+        Returns: undefined
+      }
+      sync_user_notifications: {
+        Args: { p_metadata: Json; p_user_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
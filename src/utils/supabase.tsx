@@ -7,4 +7,26 @@ export const supabase = createClient(
   publicAnonKey
 );
 
-export default supabase;
\ No newline at end of file
+// Signed admin dashboard session issued by POST /admin/auth (admins are not Supabase users)
+let adminSessionToken: string | null = null;
+
+export const setAdminSessionToken = (token: string | null) => {
+  adminSessionToken = token;
+};
+
+// Headers for edge function calls. Uses the signed-in user's access token so the
+// server can resolve their role, falling back to the anon key for public routes.
+export const authHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const headers: Record<string, string> = {
+    'Authorization': `Bearer ${session?.access_token ?? publicAnonKey}`
+  };
+
+  if (adminSessionToken) {
+    headers['X-Admin-Session'] = adminSessionToken;
+  }
+
+  return headers;
+};
+
+export default supabase;
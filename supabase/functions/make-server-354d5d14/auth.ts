@@ -0,0 +1,333 @@
+/* Authentication and role-based access control for the edge function routes. */
+
+import type { Context, Next } from 'hono';
+
+export type Role = 'employee' | 'planner' | 'admin';
+
+export const ROLES: Role[] = ['employee', 'planner', 'admin'];
+
+export interface Caller {
+  role: Role;
+  employeeId?: string;
+  supabaseUserId?: string;
+  adminUsername?: string;
+  // Set when the request carries the service role key (Vercel cron, maintenance scripts)
+  system?: boolean;
+}
+
+export type AuthEnv = { Variables: { caller: Caller } };
+
+// 'public' routes skip authentication entirely. `self` names a route param that
+// lets a caller through regardless of role when it matches their own employeeId.
+interface RoutePermission {
+  method: string;
+  path: string;
+  roles: Role[] | 'public';
+  self?: string;
+}
+
+const ANY_ROLE: Role[] = ['employee', 'planner', 'admin'];
+const PLANNERS: Role[] = ['planner', 'admin'];
+const ADMINS: Role[] = ['admin'];
+
+// Paths are relative to the function base path. Routes missing from this table
+// are admin-only so new endpoints fail closed until they are listed here.
+export const ROUTE_PERMISSIONS: RoutePermission[] = [
+  { method: 'GET', path: '/health', roles: 'public' },
+  { method: 'GET', path: '/test', roles: 'public' },
+  { method: 'POST', path: '/signup', roles: 'public' },
+  { method: 'POST', path: '/admin/auth', roles: 'public' },
+  // Employee-ID sign-in resolves the email before a session exists; nothing else is public
+  { method: 'GET', path: '/users/:employeeId/email', roles: 'public' },
+
+  { method: 'GET', path: '/users', roles: ANY_ROLE },
+  { method: 'GET', path: '/users/:employeeId', roles: PLANNERS, self: 'employeeId' },
+  { method: 'POST', path: '/users/profile', roles: ADMINS },
+  { method: 'DELETE', path: '/user/:employeeId', roles: ADMINS, self: 'employeeId' },
+  { method: 'PUT', path: '/user/:employeeId/profile', roles: ADMINS, self: 'employeeId' },
+
+  { method: 'POST', path: '/admin/change-password', roles: ADMINS },
+  { method: 'GET', path: '/admin/accounts', roles: ADMINS },
+  { method: 'POST', path: '/admin/accounts', roles: ADMINS },
+  { method: 'DELETE', path: '/admin/accounts/:username', roles: ADMINS },
+  { method: 'GET', path: '/admin/users', roles: ADMINS },
+  { method: 'DELETE', path: '/admin/users/:employeeId', roles: ADMINS },
+  { method: 'PUT', path: '/admin/users/:employeeId/role', roles: ADMINS },
+  { method: 'DELETE', path: '/clear-users', roles: ADMINS },
+  { method: 'DELETE', path: '/clear-devices', roles: ADMINS },
+  { method: 'DELETE', path: '/clear-documents', roles: ADMINS },
+  { method: 'DELETE', path: '/clear-all-data', roles: ADMINS },
+  { method: 'DELETE', path: '/cleanup-sample-data', roles: ADMINS },
+
+  { method: 'GET', path: '/reports/annual/:year', roles: ANY_ROLE },
+
+  { method: 'GET', path: '/devices', roles: ANY_ROLE },
+  { method: 'GET', path: '/devices/summary', roles: ANY_ROLE },
+  { method: 'POST', path: '/devices', roles: PLANNERS },
+  { method: 'POST', path: '/devices/batch', roles: PLANNERS },
+  { method: 'PUT', path: '/devices/:deviceId', roles: PLANNERS },
+  { method: 'PATCH', path: '/devices/:deviceId', roles: PLANNERS },
+  { method: 'PUT', path: '/devices/:deviceId/status', roles: PLANNERS },
+  { method: 'DELETE', path: '/devices/:deviceId', roles: PLANNERS },
+  { method: 'GET', path: '/devices/by-location/:locationId', roles: ANY_ROLE },
+  { method: 'GET', path: '/devices/scan/:code', roles: ANY_ROLE },
+  { method: 'GET', path: '/devices/:deviceId/last-check', roles: ANY_ROLE },
+  { method: 'GET', path: '/devices/:deviceId/history', roles: ANY_ROLE },
+
+  { method: 'GET', path: '/device-categories', roles: ANY_ROLE },
+  { method: 'POST', path: '/device-categories', roles: ADMINS },
+  { method: 'PUT', path: '/device-categories/:categoryId', roles: ADMINS },
+  { method: 'DELETE', path: '/device-categories/:categoryId', roles: ADMINS },
+
+  { method: 'GET', path: '/locations', roles: ANY_ROLE },
+  { method: 'POST', path: '/locations', roles: PLANNERS },
+  { method: 'POST', path: '/locations/link-devices', roles: PLANNERS },
+  { method: 'PATCH', path: '/locations/:locationId', roles: PLANNERS },
+  { method: 'DELETE', path: '/locations/:locationId', roles: PLANNERS },
+
+  { method: 'GET', path: '/checklist-templates', roles: ANY_ROLE },
+  { method: 'POST', path: '/checklist-templates', roles: PLANNERS },
+  { method: 'PUT', path: '/checklist-templates/:templateId', roles: PLANNERS },
+  { method: 'DELETE', path: '/checklist-templates/:templateId', roles: PLANNERS },
+
+  { method: 'POST', path: '/weekly-plans', roles: PLANNERS },
+  { method: 'GET', path: '/weekly-plans/:year/:week', roles: ANY_ROLE },
+  { method: 'PUT', path: '/weekly-plans/:year/:week', roles: PLANNERS },
+  { method: 'GET', path: '/weekly-plans/:year/:week/workload', roles: PLANNERS },
+  { method: 'POST', path: '/weekly-plans/:year/:week/distribute', roles: PLANNERS },
+  { method: 'GET', path: '/weekly-plans/:year/:week/suggestions', roles: PLANNERS },
+  { method: 'PUT', path: '/checks/assign', roles: PLANNERS },
+  { method: 'PUT', path: '/checks/:checkId/complete', roles: ANY_ROLE },
+  { method: 'POST', path: '/checks/:checkId/evidence', roles: ANY_ROLE },
+  { method: 'GET', path: '/checks/:checkId/evidence', roles: ANY_ROLE },
+  { method: 'GET', path: '/delayed-checks', roles: ANY_ROLE },
+  // Employees may close only actions they own; the handler enforces that
+  { method: 'GET', path: '/corrective-actions', roles: ANY_ROLE },
+  { method: 'PUT', path: '/corrective-actions/:actionId/close', roles: ANY_ROLE },
+
+  { method: 'GET', path: '/documents', roles: ANY_ROLE },
+  { method: 'POST', path: '/documents/upload', roles: ANY_ROLE },
+  { method: 'GET', path: '/documents/:documentId/download', roles: ANY_ROLE },
+  // Employees may sign only documents assigned to them; the handler enforces that
+  { method: 'POST', path: '/documents/:documentId/sign', roles: ANY_ROLE },
+  // Employees may delete only documents they uploaded; the handler enforces that
+  { method: 'DELETE', path: '/documents/:documentId', roles: ANY_ROLE },
+
+  { method: 'GET', path: '/notifications/:employeeId', roles: ADMINS, self: 'employeeId' },
+  { method: 'PUT', path: '/notifications/:notificationId/read', roles: ANY_ROLE },
+  { method: 'PUT', path: '/notifications/:employeeId/read-all', roles: ADMINS, self: 'employeeId' },
+  { method: 'DELETE', path: '/notifications/:employeeId/clear', roles: ADMINS, self: 'employeeId' },
+  { method: 'GET', path: '/user-activity/:employeeId', roles: ADMINS, self: 'employeeId' },
+
+  { method: 'GET', path: '/delayed-device-notifications', roles: ANY_ROLE },
+  { method: 'POST', path: '/delayed-device-notifications', roles: PLANNERS },
+  { method: 'POST', path: '/vercel-cron-delayed-notifications', roles: ADMINS },
+];
+
+// Resolve the permission entry for a request path, returning any matched params.
+// Literal segments win over params so '/devices/by-location/x' is not read as '/devices/:deviceId/...'.
+// Throws a URIError when a param is not valid percent-encoding, e.g. '/devices/%E0'.
+export function matchRoute(method: string, path: string): { rule: RoutePermission; params: Record<string, string> } | null {
+  const segments = path.split('/').filter(Boolean);
+  let best: { rule: RoutePermission; params: Record<string, string>; literals: number } | null = null;
+
+  for (const rule of ROUTE_PERMISSIONS) {
+    if (rule.method !== method) continue;
+    const ruleSegments = rule.path.split('/').filter(Boolean);
+    if (ruleSegments.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    let literals = 0;
+    let matched = true;
+    for (let i = 0; i < ruleSegments.length; i++) {
+      if (ruleSegments[i].startsWith(':')) {
+        params[ruleSegments[i].slice(1)] = decodeURIComponent(segments[i]);
+      } else if (ruleSegments[i] === segments[i]) {
+        literals++;
+      } else {
+        matched = false;
+        break;
+      }
+    }
+
+    if (matched && (!best || literals > best.literals)) {
+      best = { rule, params, literals };
+    }
+  }
+
+  return best ? { rule: best.rule, params: best.params } : null;
+}
+
+// Admin dashboard sessions are not Supabase users, so they carry a signed token in
+// this header while Authorization keeps the anon key for the Supabase gateway.
+export const ADMIN_SESSION_HEADER = 'X-Admin-Session';
+
+const ADMIN_SESSION_TTL_MS = 8 * 60 * 60 * 1000; // 8 hours
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string): ArrayBuffer => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0)).buffer;
+};
+
+const hmacKey = (secret: string) => crypto.subtle.importKey(
+  'raw',
+  encoder.encode(secret),
+  { name: 'HMAC', hash: 'SHA-256' },
+  false,
+  ['sign', 'verify']
+);
+
+// Issue a compact `<payload>.<signature>` token for an authenticated admin. `version` is the
+// account's session version; bumping it on the account invalidates every token issued before.
+export async function signAdminSession(username: string, version: number, secret: string): Promise<{ token: string; expiresAt: string }> {
+  const expiresAt = new Date(Date.now() + ADMIN_SESSION_TTL_MS).toISOString();
+  const payload = toBase64Url(encoder.encode(JSON.stringify({ sub: username, ver: version, role: 'admin', exp: expiresAt })));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(payload));
+  return { token: `${payload}.${toBase64Url(new Uint8Array(signature))}`, expiresAt };
+}
+
+// Returns the claims of a validly signed, unexpired token, otherwise null
+export async function verifyAdminSession(token: string, secret: string): Promise<{ username: string; version: number } | null> {
+  try {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const valid = await crypto.subtle.verify('HMAC', await hmacKey(secret), fromBase64Url(signature), encoder.encode(payload));
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    if (claims.role !== 'admin' || !claims.sub || new Date(claims.exp).getTime() < Date.now()) return null;
+
+    return { username: claims.sub, version: Number(claims.ver) || 0 };
+  } catch {
+    return null;
+  }
+}
+
+const PASSWORD_HASH_ITERATIONS = 100000;
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+// PBKDF2-SHA256 hash for stored admin passwords. A random salt is generated when none is given.
+export async function hashPassword(password: string, salt?: string): Promise<{ hash: string; salt: string }> {
+  const saltHex = salt ?? toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const keyMaterial = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(saltHex), iterations: PASSWORD_HASH_ITERATIONS },
+    keyMaterial,
+    256
+  );
+  return { hash: toHex(new Uint8Array(bits)), salt: saltHex };
+}
+
+export async function verifyPassword(password: string, hash: string, salt: string): Promise<boolean> {
+  const candidate = (await hashPassword(password, salt)).hash;
+  if (candidate.length !== hash.length) return false;
+
+  // Compare every character so timing does not leak how much of the hash matched
+  let diff = 0;
+  for (let i = 0; i < hash.length; i++) {
+    diff |= candidate.charCodeAt(i) ^ hash.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// Role is read from app_metadata, which only the service role can write
+export const roleForUser = (user: any): Role => {
+  const role = user?.app_metadata?.role;
+  return ROLES.includes(role) ? role : 'employee';
+};
+
+// The employee ID is read from app_metadata too. user_metadata (and the email) can be changed by
+// the user through supabase.auth.updateUser, so trusting them would let anyone claim a colleague's ID.
+export const employeeIdForUser = (user: any): string | undefined =>
+  user?.app_metadata?.employeeId || undefined;
+
+interface AuthOptions {
+  basePath: string;
+  serviceRoleKey: string;
+  sessionSecret: string;
+  // Resolves a Supabase access token to its auth user, or null if invalid
+  getUser: (token: string) => Promise<any | null>;
+  // Whether the admin account still exists and the token's session version is current
+  isAdminSessionActive: (username: string, version: number) => Promise<boolean>;
+}
+
+async function resolveCaller(c: Context, options: AuthOptions): Promise<Caller | null> {
+  const adminToken = c.req.header(ADMIN_SESSION_HEADER);
+  if (adminToken) {
+    const session = await verifyAdminSession(adminToken, options.sessionSecret);
+    if (!session || !(await options.isAdminSessionActive(session.username, session.version))) return null;
+    return { role: 'admin', adminUsername: session.username };
+  }
+
+  const authorization = c.req.header('Authorization') || '';
+  const token = authorization.replace(/^Bearer\s+/i, '').trim();
+  if (!token) return null;
+
+  if (options.serviceRoleKey && token === options.serviceRoleKey) {
+    return { role: 'admin', system: true };
+  }
+
+  // The anon key is a valid gateway JWT but not a user session, so getUser rejects it
+  const user = await options.getUser(token);
+  if (!user) return null;
+
+  return {
+    role: roleForUser(user),
+    employeeId: employeeIdForUser(user),
+    supabaseUserId: user.id
+  };
+}
+
+// Hono middleware enforcing ROUTE_PERMISSIONS; stores the resolved caller on the context
+export function requireRole(options: AuthOptions) {
+  return async (c: Context<AuthEnv>, next: Next) => {
+    if (c.req.method === 'OPTIONS') {
+      return next();
+    }
+
+    const path = c.req.path.startsWith(options.basePath)
+      ? c.req.path.slice(options.basePath.length)
+      : c.req.path;
+    let match: ReturnType<typeof matchRoute>;
+    try {
+      match = matchRoute(c.req.method, path);
+    } catch {
+      return c.json({ error: 'Malformed request path' }, 400);
+    }
+
+    if (match?.rule.roles === 'public') {
+      return next();
+    }
+
+    let caller: Caller | null = null;
+    try {
+      caller = await resolveCaller(c, options);
+    } catch (error) {
+      console.log('Error resolving caller:', error);
+    }
+
+    if (!caller) {
+      return c.json({ error: 'Authentication required' }, 401);
+    }
+
+    const allowedRoles = match ? match.rule.roles as Role[] : ADMINS;
+    const selfParam = match?.rule.self;
+    const isSelf = !!selfParam && !!caller.employeeId && match.params[selfParam] === caller.employeeId;
+
+    if (!allowedRoles.includes(caller.role) && !isSelf) {
+      return c.json({ error: 'Insufficient permissions' }, 403);
+    }
+
+    c.set('caller', caller);
+    return next();
+  };
+}
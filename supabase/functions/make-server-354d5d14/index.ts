@@ -1,8 +1,23 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { createClient } from '@supabase/supabase-js';
 import * as kv from './kv_store.ts';
+import * as files from './file_store.ts';
+import { requireRole, signAdminSession, hashPassword, verifyPassword, roleForUser, employeeIdForUser, ROLES, ADMIN_SESSION_HEADER } from './auth.ts';
+import type { AuthEnv } from './auth.ts';
+import {
+  getISOWeek, getISOWeekStart, getScheduledDate, getCheckScheduledDate, getCheckWeekEnd, isCheckOverdue, getDaysOverdue,
+  validateRecurrence, getDeviceRecurrence, getRecurrenceWeeks, getNextDueDate, getDueDateInWeek, getCheckDueDate
+} from './schedule.ts';
+import { parseListQuery, matchesSearch, toListResponse } from './listing.ts';
+import { LOCATION_PREFIX, LOCATION_TYPES, PARENT_TYPE, indexLocations, formatLocationPath, getSubtreeIds, getRollupPath, findLocationByPath } from './locations.ts';
+import type { LocationIndex, LocationType } from './locations.ts';
+import { CATEGORY_PREFIX, indexCategories, validateCategory, validateCustomFieldValues } from './categories.ts';
+import type { CategoryIndex } from './categories.ts';
+import { suggestChecksForWeek, diffWeeklyPlan, getEstimatedMinutes, summarizeWorkload, distributeChecks } from './planning.ts';
+import type { WorkloadItem } from './planning.ts';
 
 // Import Resend for email sending
 // @ts-ignore - npm: imports are handled by Deno
@@ -18,19 +33,20 @@ const getEnv = (key: string): string | undefined => {
   return process?.env?.[key];
 };
 
-const app = new Hono();
+const app = new Hono<AuthEnv>();
 
 // Middleware
 app.use('*', cors({
   origin: '*',
-  allowHeaders: ['Content-Type', 'Authorization'],
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', ADMIN_SESSION_HEADER],
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
 }));
 app.use('*', logger(console.log));
 
-// Initialize Supabase client for storage with proper typing
+// Initialize Supabase client for auth admin calls. Without SUPABASE_URL (local runs with
+// STORAGE_BACKEND=memory) it points at the Supabase CLI default so module load still succeeds.
 const supabase = createClient(
-  getEnv('SUPABASE_URL') ?? '',
+  getEnv('SUPABASE_URL') || 'http://127.0.0.1:54321',
   getEnv('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 );
 
@@ -40,15 +56,501 @@ const resend = new Resend(getEnv('RESEND_API_KEY') ?? '');
 // Get environment-based configuration
 const KV_TABLE_NAME = getEnv('KV_TABLE_NAME') || 'kv_store_354d5d14';
 const EDGE_FN_NAME = getEnv('EDGE_FN_NAME') || 'make-server-354d5d14';
-const BUCKET_NAME = `${EDGE_FN_NAME.replace(/[^a-z0-9]/gi, '-')}-pdfs`;
-
-// Helper function to get ISO week number
-function getWeekNumber(date: Date): number {
-  const tempDate = new Date(date.getTime());
-  tempDate.setHours(0, 0, 0, 0);
-  tempDate.setDate(tempDate.getDate() + 3 - (tempDate.getDay() + 6) % 7);
-  const week1 = new Date(tempDate.getFullYear(), 0, 4);
-  return 1 + Math.round(((tempDate.getTime() - week1.getTime()) / 86400000 - 3 + (week1.getDay() + 6) % 7) / 7);
+// Secret used to sign admin dashboard session tokens
+const ADMIN_SESSION_SECRET = getEnv('ADMIN_SESSION_SECRET') || getEnv('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+// Device lifecycle. Decommissioned is final: pending checks are cancelled and nothing new is
+// scheduled, but completed checks and the rest of the audit trail are kept.
+const DEVICE_STATUSES = ['active', 'out_of_service', 'under_repair', 'decommissioned'];
+const DEVICE_STATUS_TRANSITIONS: Record<string, string[]> = {
+  active: ['out_of_service', 'under_repair', 'decommissioned'],
+  out_of_service: ['active', 'under_repair', 'decommissioned'],
+  under_repair: ['active', 'out_of_service', 'decommissioned'],
+  decommissioned: []
+};
+
+// Devices stored before lifecycle states existed have no status and count as active
+const getDeviceStatus = (device: any): string => device?.status || 'active';
+
+// Fields a client may change on an existing device. id, createdAt and status are server-owned;
+// status changes go through PUT /devices/:deviceId/status.
+// location is accepted as a path to resolve against the location tree; the stored value is server-derived.
+// customFields are checked against the device's category schema once the category is known.
+// A recurrence rule sets plannedFrequency to its approximate length in weeks; null clears the rule.
+// estimatedMinutes overrides the category's check duration; null or '' falls back to it.
+const EDITABLE_DEVICE_FIELDS = ['name', 'identificationNumber', 'locationId', 'location', 'plannedFrequency', 'recurrence', 'estimatedMinutes', 'planComment', 'checklistTemplateId', 'categoryId', 'customFields'];
+
+// Helper function to validate a partial device update payload
+function validateDeviceUpdate(body: any): { updates: Record<string, any>; error?: string } {
+  const updates: Record<string, any> = {};
+
+  if (!body || typeof body !== 'object') {
+    return { updates, error: 'Invalid request body' };
+  }
+
+  for (const field of EDITABLE_DEVICE_FIELDS) {
+    if (body[field] === undefined) continue;
+    const value = body[field];
+
+    if (field === 'plannedFrequency') {
+      const frequency = Number(value);
+      if (!Number.isInteger(frequency) || frequency < 1) {
+        return { updates, error: 'Planned frequency must be a whole number of at least 1 week' };
+      }
+      updates[field] = frequency;
+    } else if (field === 'recurrence') {
+      if (value === null) {
+        updates[field] = null;
+        continue;
+      }
+      const { rule, error } = validateRecurrence(value);
+      if (error) {
+        return { updates, error };
+      }
+      updates[field] = rule;
+      updates.plannedFrequency = getRecurrenceWeeks(rule);
+    } else if (field === 'estimatedMinutes') {
+      if (value === null || value === '') {
+        updates[field] = null;
+        continue;
+      }
+      const minutes = Number(value);
+      if (!Number.isInteger(minutes) || minutes < 1) {
+        return { updates, error: 'Estimated duration must be a whole number of minutes' };
+      }
+      updates[field] = minutes;
+    } else if (field === 'planComment') {
+      if (typeof value !== 'string') {
+        return { updates, error: 'Plan comment must be a string' };
+      }
+      updates[field] = value.trim();
+    } else if (field === 'checklistTemplateId' || field === 'categoryId') {
+      // An empty string detaches the device from its template or category
+      if (typeof value !== 'string') {
+        return { updates, error: `${field} must be a string` };
+      }
+      updates[field] = value.trim();
+    } else if (field === 'customFields') {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return { updates, error: 'customFields must be an object' };
+      }
+      updates[field] = value;
+    } else {
+      if (typeof value !== 'string' || !value.trim()) {
+        return { updates, error: `${field} must be a non-empty string` };
+      }
+      updates[field] = value.trim();
+    }
+  }
+
+  return { updates };
+}
+
+// Fields every new device must carry; planComment is optional and a location path can stand in for locationId
+const REQUIRED_DEVICE_FIELDS = ['name', 'identificationNumber', 'locationId', 'plannedFrequency'];
+
+// Upper bound on rows accepted by a single bulk import request
+const MAX_DEVICE_BATCH = 1000;
+
+// Helper function to validate a complete device payload for creation
+function validateNewDevice(body: any): { device: Record<string, any>; error?: string } {
+  const { updates, error } = validateDeviceUpdate(body);
+  if (error) {
+    return { device: updates, error };
+  }
+
+  const missing = REQUIRED_DEVICE_FIELDS.filter(field =>
+    updates[field] === undefined && !(field === 'locationId' && updates.location !== undefined)
+  );
+  if (missing.length > 0) {
+    return { device: updates, error: `Missing required fields: ${missing.join(', ')}` };
+  }
+
+  return { device: { planComment: '', ...updates } };
+}
+
+// Identification numbers are compared trimmed and case-insensitively
+function normalizeIdentificationNumber(identificationNumber: string): string {
+  return String(identificationNumber || '').trim().toLowerCase();
+}
+
+function createDeviceId(): string {
+  return `device:${Date.now()}:${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Uniqueness index: one KV row per identification number pointing at the device that holds it
+const DEVICE_IDENT_PREFIX = 'device-ident:';
+
+function deviceIdentKey(identificationNumber: string): string {
+  return `${DEVICE_IDENT_PREFIX}${normalizeIdentificationNumber(identificationNumber)}`;
+}
+
+// Returns the id of the device holding an identification number. Index rows whose device
+// was deleted or renumbered without updating the index are treated as free.
+async function findDeviceIdByIdentificationNumber(identificationNumber: string): Promise<string | null> {
+  const entry = await kv.get(deviceIdentKey(identificationNumber));
+  if (!entry?.deviceId) return null;
+
+  const device = await kv.get(entry.deviceId);
+  if (!device || normalizeIdentificationNumber(device.identificationNumber) !== normalizeIdentificationNumber(identificationNumber)) {
+    return null;
+  }
+  return entry.deviceId;
+}
+
+function duplicateIdentificationResponse(c: Context, identificationNumber: string) {
+  return c.json({
+    error: `Identification number ${identificationNumber} is already used by another device`,
+    field: 'identificationNumber'
+  }, 409);
+}
+
+async function getLocationIndex(): Promise<LocationIndex> {
+  return indexLocations(await kv.getByPrefix(LOCATION_PREFIX));
+}
+
+// Helper function to point a device payload at a managed location. Takes a locationId or, for CSV
+// imports, a location path; either way the device ends up with the id and the current path label.
+function resolveDeviceLocation(fields: Record<string, any>, locations: LocationIndex): { error?: string } {
+  if (fields.locationId === undefined && fields.location === undefined) return {};
+
+  const location = fields.locationId !== undefined
+    ? locations.get(fields.locationId)
+    : findLocationByPath(locations, fields.location);
+  if (!location) {
+    return {
+      error: fields.locationId !== undefined
+        ? 'Location not found'
+        : `Location "${fields.location}" not found; add it to the location tree first`
+    };
+  }
+
+  fields.locationId = location.id;
+  fields.location = formatLocationPath(locations, location.id);
+  return {};
+}
+
+async function getCategoryIndex(): Promise<CategoryIndex> {
+  return indexCategories(await kv.getByPrefix(CATEGORY_PREFIX));
+}
+
+// Helper function to check a device payload's custom fields against its category. Values are
+// replaced as a whole; moving a device to another category without new values starts it empty,
+// so required fields of the new category must be sent along with the move.
+function resolveDeviceCategory(fields: Record<string, any>, categories: CategoryIndex, existing?: any): { error?: string; field?: string } {
+  if (fields.categoryId === undefined && fields.customFields === undefined) return {};
+
+  const categoryId = fields.categoryId !== undefined ? fields.categoryId : existing?.categoryId || '';
+  if (!categoryId) {
+    fields.categoryId = '';
+    fields.customFields = {};
+    return {};
+  }
+
+  const category = categories.get(categoryId);
+  if (!category) {
+    return { error: 'Device category not found', field: 'categoryId' };
+  }
+
+  const moved = existing && existing.categoryId !== categoryId;
+  const submitted = fields.customFields !== undefined ? fields.customFields : (moved ? {} : existing?.customFields || {});
+  const { values, error, field } = validateCustomFieldValues(category.fields, submitted);
+  if (error) {
+    return { error, field };
+  }
+
+  fields.categoryId = categoryId;
+  fields.customFields = values;
+  return {};
+}
+
+// Helper function to validate a location payload. The type is fixed once created; name and parent can
+// change, and the parent must sit exactly one level up (site, then building, then area).
+function validateLocation(body: any, locations: LocationIndex, existing?: any): {
+  location: { name: string; type: LocationType; parentId: string | null };
+  error?: string;
+  field?: string;
+} {
+  const location = { name: existing?.name, type: existing?.type, parentId: existing?.parentId ?? null };
+
+  if (!body || typeof body !== 'object') {
+    return { location, error: 'Invalid request body' };
+  }
+
+  if (!existing || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { location, error: 'Location name is required', field: 'name' };
+    }
+    // '/' separates levels in location paths, so it cannot appear inside a name
+    if (body.name.includes('/')) {
+      return { location, error: 'Location names cannot contain "/"', field: 'name' };
+    }
+    location.name = body.name.trim();
+  }
+
+  if (!existing) {
+    if (!LOCATION_TYPES.includes(body.type)) {
+      return { location, error: `type must be one of ${LOCATION_TYPES.join(', ')}`, field: 'type' };
+    }
+    location.type = body.type;
+  } else if (body.type !== undefined && body.type !== existing.type) {
+    return { location, error: 'A location\'s type cannot be changed', field: 'type' };
+  }
+
+  if (!existing || body.parentId !== undefined) {
+    location.parentId = body.parentId || null;
+  }
+
+  const parentType = PARENT_TYPE[location.type];
+  const parent = location.parentId ? locations.get(location.parentId) : undefined;
+  if (parentType === null && location.parentId) {
+    return { location, error: 'A site cannot have a parent location', field: 'parentId' };
+  }
+  if (parentType !== null && parent?.type !== parentType) {
+    return { location, error: `A ${location.type} must belong to a ${parentType}`, field: 'parentId' };
+  }
+
+  return { location };
+}
+
+// Sibling names must differ (ignoring case) so every path resolves to one location
+function hasSiblingNamed(locations: LocationIndex, parentId: string | null, name: string, excludeId?: string): boolean {
+  return [...locations.values()].some(location =>
+    location.id !== excludeId &&
+    location.parentId === parentId &&
+    location.name.toLowerCase() === name.toLowerCase()
+  );
+}
+
+const CHECKLIST_TEMPLATE_PREFIX = 'checklist-template:';
+const CHECKLIST_ITEM_TYPES = ['boolean', 'measurement'];
+const CHECKLIST_RESULTS = ['pass', 'fail', 'na'];
+
+// Helper function to validate a checklist template payload. Items keep their ids across
+// edits so recorded results stay attributable; new items get a fresh id.
+function validateChecklistTemplate(body: any): { template: { name: string; description: string; items: any[] }; error?: string } {
+  const template = { name: '', description: '', items: [] as any[] };
+
+  if (!body || typeof body !== 'object') {
+    return { template, error: 'Invalid request body' };
+  }
+
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    return { template, error: 'Template name is required' };
+  }
+  template.name = body.name.trim();
+  template.description = typeof body.description === 'string' ? body.description.trim() : '';
+
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    return { template, error: 'A template needs at least one checklist item' };
+  }
+
+  const seenIds = new Set<string>();
+  for (const [index, raw] of body.items.entries()) {
+    const position = `Item ${index + 1}`;
+    if (!raw || typeof raw.label !== 'string' || !raw.label.trim()) {
+      return { template, error: `${position}: label is required` };
+    }
+
+    const type = raw.type || 'boolean';
+    if (!CHECKLIST_ITEM_TYPES.includes(type)) {
+      return { template, error: `${position}: type must be one of ${CHECKLIST_ITEM_TYPES.join(', ')}` };
+    }
+
+    const id = typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : `item-${Math.random().toString(36).substr(2, 9)}`;
+    if (seenIds.has(id)) {
+      return { template, error: `${position}: duplicate item id ${id}` };
+    }
+    seenIds.add(id);
+
+    const item: Record<string, any> = { id, label: raw.label.trim(), type };
+
+    if (type === 'measurement') {
+      item.unit = typeof raw.unit === 'string' ? raw.unit.trim() : '';
+      for (const bound of ['min', 'max']) {
+        if (raw[bound] === undefined || raw[bound] === null || raw[bound] === '') continue;
+        const value = Number(raw[bound]);
+        if (!Number.isFinite(value)) {
+          return { template, error: `${position}: ${bound} must be a number` };
+        }
+        item[bound] = value;
+      }
+      if (item.min !== undefined && item.max !== undefined && item.min > item.max) {
+        return { template, error: `${position}: min cannot be greater than max` };
+      }
+    }
+
+    template.items.push(item);
+  }
+
+  return { template };
+}
+
+// Helper function to validate submitted check results against a device's template.
+// Every item needs a pass/fail/na result; measurement items also need a value unless N/A.
+// Labels and units are copied onto the results so later template edits don't rewrite history.
+function validateCheckResults(template: any, body: any): { results: any[]; error?: string } {
+  const submitted = Array.isArray(body) ? body : [];
+  const byItemId = new Map<string, any>();
+  for (const entry of submitted) {
+    if (entry && typeof entry.itemId === 'string') byItemId.set(entry.itemId, entry);
+  }
+
+  const results: any[] = [];
+  for (const item of template.items) {
+    const entry = byItemId.get(item.id);
+    if (!entry || !CHECKLIST_RESULTS.includes(entry.result)) {
+      return { results, error: `"${item.label}" needs a result of pass, fail or N/A` };
+    }
+
+    const result: Record<string, any> = {
+      itemId: item.id,
+      label: item.label,
+      type: item.type,
+      result: entry.result
+    };
+
+    if (item.type === 'measurement') {
+      result.unit = item.unit || '';
+      if (entry.result !== 'na') {
+        const value = Number(entry.value);
+        if (entry.value === undefined || entry.value === null || entry.value === '' || !Number.isFinite(value)) {
+          return { results, error: `"${item.label}" needs a measured value` };
+        }
+        result.value = value;
+        if (item.min !== undefined) result.min = item.min;
+        if (item.max !== undefined) result.max = item.max;
+      }
+    }
+
+    if (typeof entry.note === 'string' && entry.note.trim()) {
+      result.note = entry.note.trim();
+    }
+
+    results.push(result);
+  }
+
+  return { results };
+}
+
+// Templates are looked up by id; a device pointing at a deleted template has no checklist
+async function getChecklistTemplate(templateId: string | undefined): Promise<any | null> {
+  if (!templateId || !templateId.startsWith(CHECKLIST_TEMPLATE_PREFIX)) return null;
+  return (await kv.get(templateId)) || null;
+}
+
+const CORRECTIVE_ACTION_PREFIX = 'corrective-action:';
+const CHECK_OUTCOMES = ['passed', 'passed_with_remarks', 'failed'];
+
+// Helper function to validate the corrective action that must accompany a failed check
+function validateCorrectiveAction(body: any): { action: { description: string; owner: string; dueDate: string }; error?: string } {
+  const action = { description: '', owner: '', dueDate: '' };
+
+  if (!body || typeof body !== 'object') {
+    return { action, error: 'A failed check needs a corrective action with a description, owner and due date' };
+  }
+  if (typeof body.description !== 'string' || !body.description.trim()) {
+    return { action, error: 'Corrective action description is required' };
+  }
+  if (typeof body.owner !== 'string' || !body.owner.trim()) {
+    return { action, error: 'Corrective action owner is required' };
+  }
+  if (typeof body.dueDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(body.dueDate) || isNaN(new Date(body.dueDate).getTime())) {
+    return { action, error: 'Corrective action due date must be a YYYY-MM-DD date' };
+  }
+
+  return { action: { description: body.description.trim(), owner: body.owner.trim(), dueDate: body.dueDate } };
+}
+
+// Helper function to look up an auth user by the employee ID held in their app_metadata
+async function findUserByEmployeeId(employeeId: string): Promise<any | null> {
+  const { data: authData, error: authError } = await supabase.auth.admin.listUsers();
+  if (authError || !authData?.users) return null;
+
+  return authData.users.find((u: any) => employeeIdForUser(u) === employeeId) || null;
+}
+
+// Helper function to append an in-app notification to a user's metadata
+async function addUserNotification(authUser: any, notification: Record<string, any>) {
+  const existingNotifications = authUser.user_metadata?.notifications || [];
+
+  await supabase.auth.admin.updateUserById(authUser.id, {
+    user_metadata: {
+      ...authUser.user_metadata,
+      notifications: [...existingNotifications, {
+        id: `notif:${crypto.randomUUID()}`,
+        createdAt: new Date().toISOString(),
+        read: false,
+        ...notification
+      }]
+    }
+  });
+}
+
+// Helper function to create the next pending check for a device from its recurrence rule.
+// `previousCheck` is the check just completed; without one (a repaired device returning to
+// service) the schedule restarts from `completedAt`.
+async function scheduleNextCheck(device: any, previousCheck: any | null, completedAt: string) {
+  const completed = new Date(completedAt);
+  const rule = getDeviceRecurrence(device);
+  const { dueDate, anchorDay } = getNextDueDate(
+    previousCheck ? rule : { ...rule, anchor: 'completion' },
+    {
+      dueDate: previousCheck ? getCheckDueDate(previousCheck) : completed,
+      completedAt: completed,
+      anchorDay: previousCheck?.anchorDay
+    }
+  );
+
+  const { year: nextYear, week: nextWeek } = getISOWeek(dueDate);
+
+  const nextCheckId = `check:${nextYear}:${nextWeek}:${device.id}`;
+  const nextCheck = {
+    id: nextCheckId,
+    deviceId: device.id,
+    week: nextWeek.toString(),
+    year: nextYear.toString(),
+    status: 'pending',
+    scheduledDate: getScheduledDate(nextYear, nextWeek),
+    dueDate: dueDate.toISOString(),
+    ...(anchorDay ? { anchorDay } : {}),
+    assignedAt: completedAt,
+    assignedBy: 'system' // Automatically assigned by system
+  };
+
+  await kv.set(nextCheckId, nextCheck);
+
+  return {
+    checkId: nextCheckId,
+    week: nextWeek,
+    year: nextYear,
+    scheduledFor: nextCheck.scheduledDate,
+    dueDate: nextCheck.dueDate
+  };
+}
+
+// Upper bound on evidence files accepted by a single upload request
+const MAX_EVIDENCE_FILES = 10;
+
+// Helper function to delete the evidence files attached to checks that are being removed
+async function removeCheckEvidence(checks: any[]) {
+  const paths = checks.flatMap(check => (check.evidence || []).map((item: any) => item.storagePath));
+  if (paths.length === 0) return;
+
+  const { error } = await files.remove(paths, files.EVIDENCE_BUCKET_NAME);
+  if (error) {
+    console.log('Error deleting check evidence:', error);
+  }
+}
+
+// Helper function to check a timestamp against optional from/to dates (YYYY-MM-DD, both inclusive)
+function isWithinDateRange(timestamp: string | undefined, from?: string, to?: string): boolean {
+  if (!from && !to) return true;
+  if (!timestamp) return false;
+  const time = new Date(timestamp).getTime();
+  if (from && time < new Date(`${from}T00:00:00.000Z`).getTime()) return false;
+  if (to && time > new Date(`${to}T23:59:59.999Z`).getTime()) return false;
+  return true;
 }
 
 // Helper function to generate HTML email template for delayed device notifications
@@ -169,23 +671,10 @@ function generateDelayedDeviceEmailHTML(delayedChecks: any[]): string {
   `;
 }
 
-// Create storage bucket on startup
+// Create storage buckets on startup
 async function initializeStorage() {
   try {
-    const { data: buckets } = await supabase.storage.listBuckets();
-    const bucketExists = buckets?.some(bucket => bucket.name === BUCKET_NAME);
-    if (!bucketExists) {
-      const { error } = await supabase.storage.createBucket(BUCKET_NAME, {
-        public: false,
-        allowedMimeTypes: ['application/pdf'],
-        fileSizeLimit: 10485760 // 10MB
-      });
-      if (error) {
-        console.log('Error creating bucket:', error);
-      } else {
-        console.log('PDF storage bucket created successfully');
-      }
-    }
+    await files.ensureBuckets();
   } catch (error) {
     console.log('Error initializing storage:', error);
   }
@@ -199,6 +688,21 @@ initializeStorage();
 // need to include the function name prefix for proper routing.
 const BASE_PATH = `/${EDGE_FN_NAME}`;
 
+// Verify the caller and enforce the per-route role table before any handler runs
+app.use(`${BASE_PATH}/*`, requireRole({
+  basePath: BASE_PATH,
+  serviceRoleKey: getEnv('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  sessionSecret: ADMIN_SESSION_SECRET,
+  getUser: async (token) => {
+    const { data, error } = await supabase.auth.getUser(token);
+    return error ? null : data.user;
+  },
+  isAdminSessionActive: async (username, version) => {
+    const account = await kv.get(`${ADMIN_ACCOUNT_PREFIX}${username}`);
+    return !!account && (account.sessionVersion || 0) === version;
+  }
+}));
+
 // Health check
 app.get(`${BASE_PATH}/health`, (c) => {
   return c.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -233,7 +737,7 @@ app.post(`${BASE_PATH}/signup`, async (c) => {
     // Check if user already exists in Supabase Auth
     const { data: existingUsers } = await supabase.auth.admin.listUsers();
     const userExists = existingUsers?.users?.some((u: any) =>
-      u.email === email || u.user_metadata?.employeeId === employeeId
+      u.email === email || employeeIdForUser(u) === employeeId
     );
 
     if (userExists) {
@@ -241,10 +745,12 @@ app.post(`${BASE_PATH}/signup`, async (c) => {
       return c.json({ error: 'User with this email or employee ID already exists' }, 409);
     }
 
-    // Create user in Supabase Auth
+    // Create user in Supabase Auth. The employee ID that grants access lives in app_metadata,
+    // which users cannot edit; the user_metadata copy is for display only.
     const { data, error } = await supabase.auth.admin.createUser({
       email: email,
       password: password,
+      app_metadata: { employeeId },
       user_metadata: {
         name: name,
         employeeId: employeeId,
@@ -284,31 +790,77 @@ app.post(`${BASE_PATH}/signup`, async (c) => {
   }
 });
 
+// Stored admin accounts live under this prefix with PBKDF2-hashed passwords
+const ADMIN_ACCOUNT_PREFIX = 'admin-account:';
+
+const normalizeAdminUsername = (username: string) => String(username || '').trim().toLowerCase();
+
+// Strip password material before an account leaves the server
+const toAdminAccountSummary = (account: any) => ({
+  username: account.username,
+  createdAt: account.createdAt,
+  createdBy: account.createdBy,
+  passwordChangedAt: account.passwordChangedAt || null
+});
+
+// Create the first stored account from ADMIN_USERNAME/ADMIN_PASSWORD when no admins exist yet,
+// so a fresh deployment can still be signed into. Ignored once any account is stored.
+async function bootstrapAdminAccount(username: string, password: string) {
+  const existing = await kv.getByPrefix(ADMIN_ACCOUNT_PREFIX);
+  if (existing.length > 0) return null;
+
+  const envUsername = normalizeAdminUsername(getEnv('ADMIN_USERNAME') || '');
+  const envPassword = getEnv('ADMIN_PASSWORD') || '';
+  if (!envUsername || !envPassword || username !== envUsername || password !== envPassword) return null;
+
+  const { hash, salt } = await hashPassword(password);
+  const account = {
+    username,
+    passwordHash: hash,
+    passwordSalt: salt,
+    sessionVersion: 1,
+    createdAt: new Date().toISOString(),
+    createdBy: 'bootstrap'
+  };
+  await kv.set(`${ADMIN_ACCOUNT_PREFIX}${username}`, account);
+  console.log(`Bootstrapped admin account from environment: ${username}`);
+  return account;
+}
+
 // Admin authentication endpoint
 app.post(`${BASE_PATH}/admin/auth`, async (c) => {
   try {
-    const { username, password } = await c.req.json();
+    const body = await c.req.json();
+    const username = normalizeAdminUsername(body.username);
+    const password = body.password;
 
     if (!username || !password) {
       return c.json({ error: 'Username and password are required' }, 400);
     }
 
-    // Get admin credentials from environment variables
-    const adminUsername = getEnv('ADMIN_USERNAME') || 'admin';
-    const adminPassword = getEnv('ADMIN_PASSWORD') || 'egainternaltool2025';
-
-    if (username === adminUsername && password === adminPassword) {
-      return c.json({
-        success: true,
-        admin: {
-          username: adminUsername,
-          isAdmin: true,
-          authenticatedAt: new Date().toISOString()
-        }
-      });
+    let account = await kv.get(`${ADMIN_ACCOUNT_PREFIX}${username}`);
+    if (account) {
+      const valid = await verifyPassword(password, account.passwordHash, account.passwordSalt);
+      if (!valid) account = null;
     } else {
+      account = await bootstrapAdminAccount(username, password);
+    }
+
+    if (!account) {
       return c.json({ error: 'Invalid admin credentials' }, 401);
     }
+
+    const session = await signAdminSession(account.username, account.sessionVersion, ADMIN_SESSION_SECRET);
+    return c.json({
+      success: true,
+      admin: {
+        username: account.username,
+        isAdmin: true,
+        authenticatedAt: new Date().toISOString(),
+        sessionToken: session.token,
+        expiresAt: session.expiresAt
+      }
+    });
   } catch (error) {
     console.log('Admin authentication error:', error);
     return c.json({ error: 'Failed to authenticate admin' }, 500);
@@ -319,25 +871,51 @@ app.post(`${BASE_PATH}/admin/auth`, async (c) => {
 app.post(`${BASE_PATH}/admin/change-password`, async (c) => {
   try {
     const { currentPassword, newPassword } = await c.req.json();
+    const caller = c.get('caller');
 
     if (!currentPassword || !newPassword) {
       return c.json({ error: 'Current and new passwords are required' }, 400);
     }
 
-    // Get current admin password from environment
-    const adminPassword = getEnv('ADMIN_PASSWORD') || 'egainternaltool2025';
+    if (String(newPassword).length < 8) {
+      return c.json({ error: 'New password must be at least 8 characters' }, 400);
+    }
+
+    // Supabase users with the admin role change their password through Supabase Auth instead
+    if (!caller?.adminUsername) {
+      return c.json({ error: 'Only admin dashboard accounts can change their password here' }, 400);
+    }
+
+    const accountKey = `${ADMIN_ACCOUNT_PREFIX}${caller.adminUsername}`;
+    const account = await kv.get(accountKey);
+    if (!account) {
+      return c.json({ error: 'Admin account not found' }, 404);
+    }
 
-    if (currentPassword !== adminPassword) {
+    const valid = await verifyPassword(currentPassword, account.passwordHash, account.passwordSalt);
+    if (!valid) {
       return c.json({ error: 'Current password is incorrect' }, 401);
     }
 
-    // Note: In a real implementation, you would update the password in your environment
-    // For now, this is a placeholder that always succeeds
-    console.log('Admin password change requested - would update ADMIN_PASSWORD secret');
+    const { hash, salt } = await hashPassword(newPassword);
+    // Bumping the session version signs out every other session for this account
+    const updatedAccount = {
+      ...account,
+      passwordHash: hash,
+      passwordSalt: salt,
+      sessionVersion: (account.sessionVersion || 0) + 1,
+      passwordChangedAt: new Date().toISOString()
+    };
+    await kv.set(accountKey, updatedAccount);
+
+    const session = await signAdminSession(updatedAccount.username, updatedAccount.sessionVersion, ADMIN_SESSION_SECRET);
 
+    console.log(`Admin password changed: ${updatedAccount.username}`);
     return c.json({
       success: true,
-      message: 'Password change request received. Please update ADMIN_PASSWORD environment variable manually.'
+      message: 'Password changed successfully. Other sessions for this account have been signed out.',
+      sessionToken: session.token,
+      expiresAt: session.expiresAt
     });
   } catch (error) {
     console.log('Admin password change error:', error);
@@ -345,6 +923,94 @@ app.post(`${BASE_PATH}/admin/change-password`, async (c) => {
   }
 });
 
+// List stored admin accounts
+app.get(`${BASE_PATH}/admin/accounts`, async (c) => {
+  try {
+    const accounts = await kv.getByPrefix(ADMIN_ACCOUNT_PREFIX);
+    return c.json(
+      accounts
+        .map(toAdminAccountSummary)
+        .sort((a, b) => a.username.localeCompare(b.username))
+    );
+  } catch (error) {
+    console.log('Error fetching admin accounts:', error);
+    return c.json({ error: 'Failed to fetch admin accounts' }, 500);
+  }
+});
+
+// Add a new admin account
+app.post(`${BASE_PATH}/admin/accounts`, async (c) => {
+  try {
+    const body = await c.req.json();
+    const username = normalizeAdminUsername(body.username);
+    const password = body.password;
+    const caller = c.get('caller');
+
+    if (!username || !password) {
+      return c.json({ error: 'Username and password are required' }, 400);
+    }
+
+    if (!/^[a-z0-9._-]{3,32}$/.test(username)) {
+      return c.json({ error: 'Username must be 3-32 characters of letters, numbers, dots, dashes or underscores' }, 400);
+    }
+
+    if (String(password).length < 8) {
+      return c.json({ error: 'Password must be at least 8 characters' }, 400);
+    }
+
+    const accountKey = `${ADMIN_ACCOUNT_PREFIX}${username}`;
+    if (await kv.get(accountKey)) {
+      return c.json({ error: 'An admin with this username already exists' }, 409);
+    }
+
+    const { hash, salt } = await hashPassword(password);
+    const account = {
+      username,
+      passwordHash: hash,
+      passwordSalt: salt,
+      sessionVersion: 1,
+      createdAt: new Date().toISOString(),
+      createdBy: caller?.adminUsername || caller?.employeeId || 'system'
+    };
+    await kv.set(accountKey, account);
+
+    console.log(`Admin account created: ${username}`);
+    return c.json({ success: true, account: toAdminAccountSummary(account) });
+  } catch (error) {
+    console.log('Error creating admin account:', error);
+    return c.json({ error: 'Failed to create admin account' }, 500);
+  }
+});
+
+// Revoke an admin account; its sessions stop working immediately
+app.delete(`${BASE_PATH}/admin/accounts/:username`, async (c) => {
+  try {
+    const username = normalizeAdminUsername(c.req.param('username'));
+    const caller = c.get('caller');
+
+    if (caller?.adminUsername === username) {
+      return c.json({ error: 'You cannot revoke your own admin account' }, 400);
+    }
+
+    const accounts = await kv.getByPrefix(ADMIN_ACCOUNT_PREFIX);
+    if (!accounts.some((account: any) => account.username === username)) {
+      return c.json({ error: 'Admin account not found' }, 404);
+    }
+
+    if (accounts.length <= 1) {
+      return c.json({ error: 'Cannot revoke the last admin account' }, 400);
+    }
+
+    await kv.del(`${ADMIN_ACCOUNT_PREFIX}${username}`);
+
+    console.log(`Admin account revoked: ${username}`);
+    return c.json({ success: true, message: 'Admin account revoked' });
+  } catch (error) {
+    console.log('Error revoking admin account:', error);
+    return c.json({ error: 'Failed to revoke admin account' }, 500);
+  }
+});
+
 // User profile update route (for social login updates)
 app.post(`${BASE_PATH}/users/profile`, async (c) => {
   try {
@@ -375,6 +1041,21 @@ app.post(`${BASE_PATH}/users/profile`, async (c) => {
   }
 });
 
+// Public lookup for employee-ID sign-in: returns only the email to sign in with
+app.get(`${BASE_PATH}/users/:employeeId/email`, async (c) => {
+  try {
+    const authUser = await findUserByEmployeeId(c.req.param('employeeId'));
+    if (!authUser?.email) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    return c.json({ email: authUser.email });
+  } catch (error) {
+    console.log('Error fetching sign-in email:', error);
+    return c.json({ error: 'Failed to fetch user' }, 500);
+  }
+});
+
 app.get(`${BASE_PATH}/users/:employeeId`, async (c) => {
   try {
     const employeeId = c.req.param('employeeId');
@@ -386,10 +1067,7 @@ app.get(`${BASE_PATH}/users/:employeeId`, async (c) => {
       return c.json({ error: 'Failed to fetch user' }, 500);
     }
 
-    const authUser = authData?.users?.find((u: any) =>
-      u.user_metadata?.employeeId === employeeId ||
-      (u.email && u.email.split('@')[0] === employeeId)
-    );
+    const authUser = authData?.users?.find((u: any) => employeeIdForUser(u) === employeeId);
 
     if (!authUser) {
       return c.json({ error: 'User not found' }, 404);
@@ -397,7 +1075,7 @@ app.get(`${BASE_PATH}/users/:employeeId`, async (c) => {
 
     // Return user data from auth with consistent format
     const userData = {
-      employeeId: authUser.user_metadata?.employeeId || authUser.email?.split('@')[0] || authUser.id.slice(0, 8),
+      employeeId: employeeIdForUser(authUser) || authUser.id.slice(0, 8),
       email: authUser.email || '',
       name: authUser.user_metadata?.name || authUser.user_metadata?.full_name || 'User',
       avatar: authUser.user_metadata?.avatar || null,
@@ -405,6 +1083,7 @@ app.get(`${BASE_PATH}/users/:employeeId`, async (c) => {
       lastLoginAt: authUser.user_metadata?.lastLoginAt || authUser.last_sign_in_at,
       loginMethod: authUser.user_metadata?.loginMethod || 'unknown',
       notifications: authUser.user_metadata?.notifications || [],
+      role: roleForUser(authUser),
       supabaseUserId: authUser.id
     };
 
@@ -429,10 +1108,9 @@ app.get(`${BASE_PATH}/users`, async (c) => {
 
     // Return users with minimal information for assignments
     const userList = usersArray.map((u: any) => ({
-      employeeId: u.user_metadata?.employeeId || (u.email ? u.email.split('@')[0] : u.id.slice(0, 8)),
+      employeeId: employeeIdForUser(u) || u.id.slice(0, 8),
       name: u.user_metadata?.name || u.user_metadata?.full_name || u.email || 'User',
-      email: u.email || '',
-      notifications: u.user_metadata?.notifications || []
+      email: u.email || ''
     }));
 
     return c.json(userList);
@@ -455,12 +1133,13 @@ app.get(`${BASE_PATH}/admin/users`, async (c) => {
     const usersArray: any[] = Array.isArray(authData) ? authData : (authData?.users ?? []);
 
     const users = (usersArray || []).map((u: any) => ({
-      employeeId: u.user_metadata?.employeeId || (u.email ? u.email.split('@')[0] : u.id.slice(0, 8)),
+      employeeId: employeeIdForUser(u) || u.id.slice(0, 8),
       name: u.user_metadata?.name || u.user_metadata?.full_name || u.email || 'User',
       email: u.email || '',
       createdAt: u.user_metadata?.createdAt || u.created_at || null,
       lastLoginAt: u.user_metadata?.lastLoginAt || u.last_sign_in_at || null,
       notifications: u.user_metadata?.notifications || [],
+      role: roleForUser(u),
       supabaseUserId: u.id
     }));
 
@@ -483,10 +1162,7 @@ app.delete(`${BASE_PATH}/admin/users/:employeeId`, async (c) => {
       return c.json({ error: 'Failed to fetch users' }, 500);
     }
 
-    const authUser = authData?.users?.find((u: any) =>
-      u.user_metadata?.employeeId === employeeId ||
-      (u.email && u.email.split('@')[0] === employeeId)
-    );
+    const authUser = authData?.users?.find((u: any) => employeeIdForUser(u) === employeeId);
 
     if (!authUser) {
       return c.json({ error: 'User not found' }, 404);
@@ -507,47 +1183,52 @@ app.delete(`${BASE_PATH}/admin/users/:employeeId`, async (c) => {
   }
 });
 
-// Self-delete user endpoint (for profile deletion)
-app.delete(`${BASE_PATH}/user/:employeeId`, async (c) => {
+// Admin assign a user's role (stored in app_metadata so users cannot change it themselves)
+app.put(`${BASE_PATH}/admin/users/:employeeId/role`, async (c) => {
   try {
     const employeeId = c.req.param('employeeId');
+    const { role } = await c.req.json();
+
+    if (!ROLES.includes(role)) {
+      return c.json({ error: `Role must be one of: ${ROLES.join(', ')}` }, 400);
+    }
 
-    // Find user in Supabase Auth
     const { data: authData, error: authError } = await supabase.auth.admin.listUsers();
     if (authError) {
       console.log('Error fetching auth users:', authError);
       return c.json({ error: 'Failed to fetch users' }, 500);
     }
 
-    const authUser = authData?.users?.find((u: any) =>
-      u.user_metadata?.employeeId === employeeId ||
-      (u.email && u.email.split('@')[0] === employeeId)
-    );
+    const authUser = authData?.users?.find((u: any) => employeeIdForUser(u) === employeeId);
 
     if (!authUser) {
       return c.json({ error: 'User not found' }, 404);
     }
 
-    // Delete user from Supabase Auth
-    const { error } = await supabase.auth.admin.deleteUser(authUser.id);
+    const { error } = await supabase.auth.admin.updateUserById(authUser.id, {
+      app_metadata: {
+        ...authUser.app_metadata,
+        role
+      }
+    });
+
     if (error) {
-      console.log('Error deleting user from Supabase Auth:', error);
-      return c.json({ error: 'Failed to delete user' }, 500);
+      console.log('Error updating user role:', error);
+      return c.json({ error: 'Failed to update user role' }, 500);
     }
 
-    console.log(`User deleted their account: ${employeeId}`);
-    return c.json({ success: true, message: 'Account deleted successfully' });
+    console.log(`Admin set role for ${employeeId}: ${role}`);
+    return c.json({ success: true, employeeId, role });
   } catch (error) {
-    console.log('Error deleting user:', error);
-    return c.json({ error: 'Failed to delete user' }, 500);
+    console.log('Error updating user role:', error);
+    return c.json({ error: 'Failed to update user role' }, 500);
   }
 });
 
-// Profile update endpoint
-app.put(`${BASE_PATH}/user/:employeeId/profile`, async (c) => {
+// Self-delete user endpoint (for profile deletion)
+app.delete(`${BASE_PATH}/user/:employeeId`, async (c) => {
   try {
     const employeeId = c.req.param('employeeId');
-    const { name, newEmployeeId, avatar } = await c.req.json();
 
     // Find user in Supabase Auth
     const { data: authData, error: authError } = await supabase.auth.admin.listUsers();
@@ -556,10 +1237,46 @@ app.put(`${BASE_PATH}/user/:employeeId/profile`, async (c) => {
       return c.json({ error: 'Failed to fetch users' }, 500);
     }
 
-    const authUser = authData?.users?.find((u: any) =>
-      u.user_metadata?.employeeId === employeeId ||
-      (u.email && u.email.split('@')[0] === employeeId)
-    );
+    const authUser = authData?.users?.find((u: any) => employeeIdForUser(u) === employeeId);
+
+    if (!authUser) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    // Delete user from Supabase Auth
+    const { error } = await supabase.auth.admin.deleteUser(authUser.id);
+    if (error) {
+      console.log('Error deleting user from Supabase Auth:', error);
+      return c.json({ error: 'Failed to delete user' }, 500);
+    }
+
+    console.log(`User deleted their account: ${employeeId}`);
+    return c.json({ success: true, message: 'Account deleted successfully' });
+  } catch (error) {
+    console.log('Error deleting user:', error);
+    return c.json({ error: 'Failed to delete user' }, 500);
+  }
+});
+
+// Profile update endpoint
+app.put(`${BASE_PATH}/user/:employeeId/profile`, async (c) => {
+  try {
+    const employeeId = c.req.param('employeeId');
+    const { name, newEmployeeId, avatar } = await c.req.json();
+
+    // The employee ID is the trusted identity behind role and self checks, so only admins may change it
+    if (newEmployeeId && newEmployeeId !== employeeId && c.get('caller')?.role !== 'admin') {
+      return c.json({ error: 'Only an admin can change an employee ID', field: 'newEmployeeId' }, 403);
+    }
+
+    // Find user in Supabase Auth
+    const { data: authData, error: authError } = await supabase.auth.admin.listUsers();
+    if (authError) {
+      console.log('Error fetching auth users:', authError);
+      return c.json({ error: 'Failed to fetch users' }, 500);
+    }
+
+    const authUser = authData?.users?.find((u: any) => employeeIdForUser(u) === employeeId);
 
     if (!authUser) {
       return c.json({ error: 'User not found' }, 404);
@@ -567,10 +1284,7 @@ app.put(`${BASE_PATH}/user/:employeeId/profile`, async (c) => {
 
     // Check if new employee ID is already taken (if provided)
     if (newEmployeeId && newEmployeeId !== employeeId) {
-      const existingUser = authData?.users?.find((u: any) =>
-        u.user_metadata?.employeeId === newEmployeeId ||
-        (u.email && u.email.split('@')[0] === newEmployeeId)
-      );
+      const existingUser = authData?.users?.find((u: any) => employeeIdForUser(u) === newEmployeeId);
 
       if (existingUser) {
         return c.json({ error: 'Employee ID already taken' }, 409);
@@ -581,12 +1295,13 @@ app.put(`${BASE_PATH}/user/:employeeId/profile`, async (c) => {
     const updatedMetadata = {
       ...authUser.user_metadata,
       name: name || authUser.user_metadata?.name,
-      employeeId: newEmployeeId || authUser.user_metadata?.employeeId,
+      employeeId: newEmployeeId || employeeIdForUser(authUser),
       avatar: avatar !== undefined ? avatar : authUser.user_metadata?.avatar
     };
 
     const { data, error } = await supabase.auth.admin.updateUserById(authUser.id, {
-      user_metadata: updatedMetadata
+      user_metadata: updatedMetadata,
+      ...(newEmployeeId ? { app_metadata: { ...authUser.app_metadata, employeeId: newEmployeeId } } : {})
     });
 
     if (error) {
@@ -656,13 +1371,25 @@ app.delete(`${BASE_PATH}/clear-users`, async (c) => {
   }
 });
 
-// Annual reports endpoint - aggregate completed checks by device location
+// Annual reports endpoint - aggregate completed checks by device location.
+// level (site, building or area) rolls groups up the location tree; locationId limits the report to a subtree.
 app.get(`${BASE_PATH}/reports/annual/:year`, async (c) => {
   try {
     const yearParam = c.req.param('year');
     const year = parseInt(yearParam, 10);
     if (isNaN(year)) return c.json({});
 
+    const { level, locationId } = c.req.query();
+    if (level !== undefined && !LOCATION_TYPES.includes(level as LocationType)) {
+      return c.json({ error: `level must be one of ${LOCATION_TYPES.join(', ')}` }, 400);
+    }
+
+    const locations = await getLocationIndex();
+    if (locationId && !locations.has(locationId)) {
+      return c.json({ error: 'Location not found' }, 400);
+    }
+    const subtree = locationId ? getSubtreeIds(locations, locationId) : null;
+
     const allChecks = await kv.getByPrefix('check:');
     const completedChecks = (allChecks || []).filter((ch: any) => ch.status === 'completed' && ch.completedAt && new Date(ch.completedAt).getFullYear() === year);
 
@@ -671,7 +1398,12 @@ app.get(`${BASE_PATH}/reports/annual/:year`, async (c) => {
     for (const ch of completedChecks) {
       // Attempt to fetch device info
       const device = await kv.get(ch.deviceId) || { name: ch.deviceId, location: 'Unknown' };
-      const location = device.location || 'Unknown';
+      if (subtree && !subtree.has(device.locationId)) continue;
+
+      // Devices not yet linked to the tree keep their free-text location
+      const location = device.locationId && locations.has(device.locationId)
+        ? (level ? getRollupPath(locations, device.locationId, level as LocationType) : formatLocationPath(locations, device.locationId))
+        : device.location || 'Unknown';
       if (!result[location]) result[location] = [];
       result[location].push({
         deviceName: device.name || device.deviceName || 'Unknown Device',
@@ -679,7 +1411,9 @@ app.get(`${BASE_PATH}/reports/annual/:year`, async (c) => {
         week: ch.week,
         completedAt: ch.completedAt,
         completedBy: ch.completedBy,
-        comment: ch.comment || ''
+        comment: ch.comment || '',
+        checkId: ch.id,
+        evidenceCount: (ch.evidence || []).length
       });
     }
 
@@ -698,18 +1432,21 @@ app.delete(`${BASE_PATH}/clear-devices`, async (c) => {
     const allDevicesWithKeys = await kv.getByPrefixWithKeys('device:');
     const allChecksWithKeys = await kv.getByPrefixWithKeys('check:');
     const allPlansWithKeys = await kv.getByPrefixWithKeys('plan:');
+    const allIdentsWithKeys = await kv.getByPrefixWithKeys(DEVICE_IDENT_PREFIX);
+    const allActionsWithKeys = await kv.getByPrefixWithKeys(CORRECTIVE_ACTION_PREFIX);
 
     console.log(`Found ${allDevicesWithKeys.length} devices, ${allChecksWithKeys.length} checks, ${allPlansWithKeys.length} plans`);
 
-    // Delete all devices
-    for (const row of allDevicesWithKeys) {
+    // Delete all devices and their identification number index
+    for (const row of [...allDevicesWithKeys, ...allIdentsWithKeys]) {
       await kv.del(row.key);
     }
 
-    // Delete all checks
-    for (const row of allChecksWithKeys) {
+    // Delete all checks, their evidence and the corrective actions they opened
+    for (const row of [...allChecksWithKeys, ...allActionsWithKeys]) {
       await kv.del(row.key);
     }
+    await removeCheckEvidence(allChecksWithKeys.map(row => row.value));
 
     // Delete all plans
     for (const row of allPlansWithKeys) {
@@ -750,9 +1487,7 @@ app.delete(`${BASE_PATH}/clear-documents`, async (c) => {
       // Delete physical file from storage if storagePath exists
       if (document?.storagePath) {
         try {
-          const { error: storageError } = await supabase.storage
-            .from(BUCKET_NAME)
-            .remove([document.storagePath]);
+          const { error: storageError } = await files.remove([document.storagePath]);
 
           if (storageError) {
             console.log(`Failed to delete file ${document.storagePath}:`, storageError);
@@ -786,10 +1521,33 @@ app.delete(`${BASE_PATH}/clear-documents`, async (c) => {
 });
 
 // Get all documents endpoint
+// Documents, optionally filtered (status, assignedTo, uploadedBy, signedBy, deviceId, search), sorted and paged
 app.get(`${BASE_PATH}/documents`, async (c) => {
   try {
-    const documents = await kv.getByPrefix('doc:');
-    return c.json(documents);
+    const params = c.req.query();
+    const { query, error: queryError } = parseListQuery(params, {
+      sortKeys: ['uploadedAt', 'fileName', 'status'],
+      defaultSort: 'uploadedAt',
+      defaultOrder: 'desc'
+    });
+    if (queryError) {
+      return c.json({ error: queryError }, 400);
+    }
+
+    let documents = await kv.getByPrefix('doc:');
+    if (params.status) documents = documents.filter(document => document.status === params.status);
+    if (params.assignedTo) documents = documents.filter(document => document.assignedTo === params.assignedTo);
+    if (params.uploadedBy) documents = documents.filter(document => document.uploadedBy === params.uploadedBy);
+    if (params.deviceId) documents = documents.filter(document => document.deviceId === params.deviceId);
+    // Documents countersigned by an employee (the "Documents Signed" tab)
+    if (params.signedBy) {
+      documents = documents.filter(document =>
+        (document.signatures || []).some((sig: any) => sig.signedBy === params.signedBy && sig.type === 'secondary')
+      );
+    }
+    documents = documents.filter(document => matchesSearch(document, ['fileName', 'uploadedBy', 'assignedTo'], query.search));
+
+    return c.json(toListResponse(documents, query));
   } catch (error) {
     console.log('Error fetching documents:', error);
     return c.json({ error: 'Failed to fetch documents' }, 500);
@@ -806,15 +1564,18 @@ app.delete(`${BASE_PATH}/documents/:documentId`, async (c) => {
       return c.json({ error: 'Document not found' }, 404);
     }
 
+    const caller = c.get('caller');
+    if (caller?.role === 'employee' && caller.employeeId !== document.uploadedBy) {
+      return c.json({ error: 'Only the uploader or a planner can delete this document' }, 403);
+    }
+
     // Delete physical file from storage if it exists
     let fileDeleted = false;
     let fileError = null;
 
     if (document.storagePath) {
       try {
-        const { error: storageError } = await supabase.storage
-          .from(BUCKET_NAME)
-          .remove([document.storagePath]);
+        const { error: storageError } = await files.remove([document.storagePath]);
 
         if (storageError) {
           console.log(`Failed to delete file ${document.storagePath}:`, storageError);
@@ -848,17 +1609,43 @@ app.delete(`${BASE_PATH}/documents/:documentId`, async (c) => {
 // Device management routes
 app.post(`${BASE_PATH}/devices`, async (c) => {
   try {
-    const deviceData = await c.req.json();
-    const deviceId = `device:${Date.now()}:${Math.random().toString(36).substr(2, 9)}`;
+    const { device: fields, error: validationError } = validateNewDevice(await c.req.json());
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
+    if (fields.checklistTemplateId && !(await getChecklistTemplate(fields.checklistTemplateId))) {
+      return c.json({ error: 'Checklist template not found', field: 'checklistTemplateId' }, 400);
+    }
+
+    const { error: locationError } = resolveDeviceLocation(fields, await getLocationIndex());
+    if (locationError) {
+      return c.json({ error: locationError, field: 'locationId' }, 400);
+    }
+
+    const { error: categoryError, field: categoryField } = resolveDeviceCategory(fields, await getCategoryIndex());
+    if (categoryError) {
+      return c.json({ error: categoryError, field: categoryField }, 400);
+    }
+
+    if (await findDeviceIdByIdentificationNumber(fields.identificationNumber)) {
+      return duplicateIdentificationResponse(c, fields.identificationNumber);
+    }
 
+    const caller = c.get('caller');
+    const deviceId = createDeviceId();
     const device = {
       id: deviceId,
-      ...deviceData,
+      ...fields,
       createdAt: new Date().toISOString(),
+      createdBy: caller?.employeeId || caller?.adminUsername || 'system',
       status: 'active'
     };
 
-    await kv.set(deviceId, device);
+    await kv.mset(
+      [deviceId, deviceIdentKey(fields.identificationNumber)],
+      [device, { deviceId }]
+    );
     return c.json({ success: true, device });
   } catch (error) {
     console.log('Error creating device:', error);
@@ -866,166 +1653,1477 @@ app.post(`${BASE_PATH}/devices`, async (c) => {
   }
 });
 
+// Bulk import: every row is validated up front and nothing is written unless all rows pass
+app.post(`${BASE_PATH}/devices/batch`, async (c) => {
+  try {
+    const body = await c.req.json();
+    const rows = Array.isArray(body?.devices) ? body.devices : null;
+
+    if (!rows || rows.length === 0) {
+      return c.json({ error: 'devices must be a non-empty array' }, 400);
+    }
+
+    if (rows.length > MAX_DEVICE_BATCH) {
+      return c.json({ error: `A single import is limited to ${MAX_DEVICE_BATCH} devices` }, 400);
+    }
+
+    const existingDevices = await kv.getByPrefix('device:');
+    const templateIds = new Set((await kv.getByPrefix(CHECKLIST_TEMPLATE_PREFIX)).map(template => template.id));
+    const locations = await getLocationIndex();
+    const categories = await getCategoryIndex();
+    const takenIdentifiers = new Set(existingDevices.map(device => normalizeIdentificationNumber(device.identificationNumber)));
+
+    const caller = c.get('caller');
+    const createdAt = new Date().toISOString();
+    const createdBy = caller?.employeeId || caller?.adminUsername || 'system';
+    const devices: any[] = [];
+    const rowErrors: { row: number; error: string }[] = [];
+
+    rows.forEach((row: any, index: number) => {
+      const { device, error } = validateNewDevice(row);
+      if (error) {
+        rowErrors.push({ row: index, error });
+        return;
+      }
+
+      if (device.checklistTemplateId && !templateIds.has(device.checklistTemplateId)) {
+        rowErrors.push({ row: index, error: `Checklist template ${device.checklistTemplateId} not found` });
+        return;
+      }
+
+      const { error: locationError } = resolveDeviceLocation(device, locations);
+      if (locationError) {
+        rowErrors.push({ row: index, error: locationError });
+        return;
+      }
+
+      const { error: categoryError } = resolveDeviceCategory(device, categories);
+      if (categoryError) {
+        rowErrors.push({ row: index, error: categoryError });
+        return;
+      }
+
+      const identifier = normalizeIdentificationNumber(device.identificationNumber);
+      if (takenIdentifiers.has(identifier)) {
+        rowErrors.push({ row: index, error: `Identification number ${device.identificationNumber} is already in use` });
+        return;
+      }
+      takenIdentifiers.add(identifier);
+
+      devices.push({
+        id: createDeviceId(),
+        ...device,
+        createdAt,
+        createdBy,
+        status: 'active'
+      });
+    });
+
+    if (rowErrors.length > 0) {
+      return c.json({ error: `${rowErrors.length} row(s) failed validation; nothing was imported`, rowErrors }, 400);
+    }
+
+    await kv.mset(
+      [...devices.map(device => device.id), ...devices.map(device => deviceIdentKey(device.identificationNumber))],
+      [...devices, ...devices.map(device => ({ deviceId: device.id }))]
+    );
+
+    console.log(`Imported ${devices.length} devices`);
+    return c.json({ success: true, devices });
+  } catch (error) {
+    console.log('Error importing devices:', error);
+    return c.json({ error: 'Failed to import devices' }, 500);
+  }
+});
+
+// List filters shared by GET /devices and GET /devices/summary
+const DEVICE_SORT_KEYS = ['name', 'identificationNumber', 'location', 'plannedFrequency', 'createdAt'];
+
+// Helper function to apply the location, status, category, frequency and search filters to a device list.
+// A locationId filter includes devices anywhere beneath that site, building or area.
+function filterDevices(devices: any[], params: Record<string, string>, search: string, locations: LocationIndex, categories: CategoryIndex): { devices: any[]; error?: string } {
+  let filtered = devices;
+
+  if (params.locationId) {
+    if (!locations.has(params.locationId)) {
+      return { devices: [], error: 'Location not found' };
+    }
+    const subtree = getSubtreeIds(locations, params.locationId);
+    filtered = filtered.filter(device => subtree.has(device.locationId));
+  }
+
+  if (params.status) {
+    if (!DEVICE_STATUSES.includes(params.status)) {
+      return { devices: [], error: `status must be one of ${DEVICE_STATUSES.join(', ')}` };
+    }
+    filtered = filtered.filter(device => getDeviceStatus(device) === params.status);
+  }
+
+  if (params.categoryId) {
+    if (!categories.has(params.categoryId)) {
+      return { devices: [], error: 'Device category not found' };
+    }
+    filtered = filtered.filter(device => device.categoryId === params.categoryId);
+  }
+
+  if (params.frequency !== undefined) {
+    const frequency = Number(params.frequency);
+    if (!Number.isInteger(frequency) || frequency < 1) {
+      return { devices: [], error: 'frequency must be a whole number of at least 1' };
+    }
+    filtered = filtered.filter(device => device.plannedFrequency === frequency);
+  }
+
+  // Custom values are searchable too, so a serial number finds its device
+  return {
+    devices: filtered.filter(device =>
+      matchesSearch(device, ['name', 'identificationNumber', 'location'], search) ||
+      matchesSearch(device.customFields || {}, Object.keys(device.customFields || {}), search)
+    )
+  };
+}
+
+// Devices, optionally filtered (locationId, status, categoryId, frequency, search), sorted and paged (page, pageSize)
 app.get(`${BASE_PATH}/devices`, async (c) => {
   try {
-    const devices = await kv.getByPrefix('device:');
-    return c.json(devices);
+    const params = c.req.query();
+    const { query, error: queryError } = parseListQuery(params, { sortKeys: DEVICE_SORT_KEYS, defaultSort: 'name' });
+    if (queryError) {
+      return c.json({ error: queryError }, 400);
+    }
+
+    const [allDevices, locations, categories] = await Promise.all([kv.getByPrefix('device:'), getLocationIndex(), getCategoryIndex()]);
+    const { devices, error: filterError } = filterDevices(allDevices, params, query.search, locations, categories);
+    if (filterError) {
+      return c.json({ error: filterError }, 400);
+    }
+
+    return c.json(toListResponse(devices, query));
   } catch (error) {
     console.log('Error fetching devices:', error);
     return c.json({ error: 'Failed to fetch devices' }, 500);
   }
-});
+});
+
+// Helper function to join devices with their check information in a single pass over check: rows
+function summarizeDevices(devices: any[], checks: any[], now: Date) {
+  const checksByDevice = new Map<string, any[]>();
+  for (const check of checks) {
+    const list = checksByDevice.get(check.deviceId);
+    if (list) list.push(check);
+    else checksByDevice.set(check.deviceId, [check]);
+  }
+
+  return devices.map(device => {
+    const deviceChecks = checksByDevice.get(device.id) || [];
+    const completed = deviceChecks.filter(check => check.status === 'completed');
+    const lastCheck = completed.reduce<any>(
+      (latest, check) => (!latest || new Date(check.completedAt) > new Date(latest.completedAt) ? check : latest),
+      null
+    );
+    const nextCheck = deviceChecks
+      .filter(check => check.status === 'pending')
+      .reduce<any>(
+        (earliest, check) => (!earliest || getCheckScheduledDate(check) < getCheckScheduledDate(earliest) ? check : earliest),
+        null
+      );
+
+    return {
+      ...device,
+      lastCheckedAt: lastCheck?.completedAt,
+      lastCheckedBy: lastCheck?.completedBy,
+      hasBeenChecked: !!lastCheck,
+      totalChecksCompleted: completed.length,
+      nextDue: nextCheck
+        ? {
+            checkId: nextCheck.id,
+            week: nextCheck.week,
+            year: nextCheck.year,
+            scheduledDate: getCheckScheduledDate(nextCheck).toISOString(),
+            overdue: isCheckOverdue(nextCheck, now)
+          }
+        : null
+    };
+  });
+}
+
+// Devices with last check, completed total and next due week; replaces one last-check call per device.
+// Takes the same filter, sort and page parameters as GET /devices.
+app.get(`${BASE_PATH}/devices/summary`, async (c) => {
+  try {
+    const params = c.req.query();
+    const { query, error: queryError } = parseListQuery(params, {
+      sortKeys: [...DEVICE_SORT_KEYS, 'lastCheckedAt', 'totalChecksCompleted'],
+      defaultSort: 'name'
+    });
+    if (queryError) {
+      return c.json({ error: queryError }, 400);
+    }
+
+    const [allDevices, checks, locations, categories] = await Promise.all([
+      kv.getByPrefix('device:'),
+      kv.getByPrefix('check:'),
+      getLocationIndex(),
+      getCategoryIndex()
+    ]);
+    const { devices, error: filterError } = filterDevices(allDevices, params, query.search, locations, categories);
+    if (filterError) {
+      return c.json({ error: filterError }, 400);
+    }
+
+    return c.json(toListResponse(summarizeDevices(devices, checks, new Date()), query));
+  } catch (error) {
+    console.log('Error fetching device summary:', error);
+    return c.json({ error: 'Failed to fetch device summary' }, 500);
+  }
+});
+
+// Update editable device fields in place so existing check: records stay linked
+const handleDeviceUpdate = async (c: Context) => {
+  try {
+    const deviceId = c.req.param('deviceId');
+    const device = await kv.get(deviceId);
+
+    if (!device || !deviceId.startsWith('device:')) {
+      return c.json({ error: 'Device not found' }, 404);
+    }
+
+    const body = await c.req.json();
+    const { updates, error: validationError } = validateDeviceUpdate(body);
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return c.json({ error: 'No editable fields provided' }, 400);
+    }
+
+    // A bare frequency edit on a device with a rule makes it weekly but keeps its weekday and anchor
+    if (updates.plannedFrequency !== undefined && updates.recurrence === undefined && device.recurrence) {
+      updates.recurrence = { ...device.recurrence, unit: 'week', interval: updates.plannedFrequency };
+    }
+
+    if (updates.checklistTemplateId && !(await getChecklistTemplate(updates.checklistTemplateId))) {
+      return c.json({ error: 'Checklist template not found', field: 'checklistTemplateId' }, 400);
+    }
+
+    const { error: locationError } = resolveDeviceLocation(updates, await getLocationIndex());
+    if (locationError) {
+      return c.json({ error: locationError, field: 'locationId' }, 400);
+    }
+
+    const { error: categoryError, field: categoryField } = resolveDeviceCategory(updates, await getCategoryIndex(), device);
+    if (categoryError) {
+      return c.json({ error: categoryError, field: categoryField }, 400);
+    }
+
+    const identChanged = updates.identificationNumber !== undefined &&
+      normalizeIdentificationNumber(updates.identificationNumber) !== normalizeIdentificationNumber(device.identificationNumber);
+
+    if (identChanged) {
+      const holder = await findDeviceIdByIdentificationNumber(updates.identificationNumber);
+      if (holder && holder !== deviceId) {
+        return duplicateIdentificationResponse(c, updates.identificationNumber);
+      }
+    }
+
+    const updatedAt = new Date().toISOString();
+    const updatedDevice = {
+      ...device,
+      ...updates,
+      updatedAt
+    };
+
+    // Keep a record of frequency and recurrence changes for the device history
+    const previousRule = getDeviceRecurrence(device);
+    const nextRule = getDeviceRecurrence(updatedDevice);
+    if (JSON.stringify(previousRule) !== JSON.stringify(nextRule)) {
+      const caller = c.get('caller');
+      updatedDevice.frequencyChanges = [
+        ...(device.frequencyChanges || []),
+        {
+          from: device.plannedFrequency,
+          to: updatedDevice.plannedFrequency,
+          fromRecurrence: previousRule,
+          toRecurrence: nextRule,
+          changedAt: updatedAt,
+          changedBy: caller?.employeeId || caller?.adminUsername || 'system'
+        }
+      ];
+    }
+
+    await kv.mset(
+      [deviceId, deviceIdentKey(updatedDevice.identificationNumber)],
+      [updatedDevice, { deviceId }]
+    );
+
+    if (identChanged) {
+      await kv.del(deviceIdentKey(device.identificationNumber));
+    }
+
+    console.log(`Updated device ${deviceId}: ${Object.keys(updates).join(', ')}`);
+    return c.json({ success: true, device: updatedDevice });
+  } catch (error) {
+    console.log('Error updating device:', error);
+    return c.json({ error: 'Failed to update device' }, 500);
+  }
+};
+
+app.put(`${BASE_PATH}/devices/:deviceId`, handleDeviceUpdate);
+app.patch(`${BASE_PATH}/devices/:deviceId`, handleDeviceUpdate);
+
+// Lifecycle transition with a mandatory reason. Decommissioning cancels the device's pending
+// checks instead of deleting them, so the device keeps its full history.
+app.put(`${BASE_PATH}/devices/:deviceId/status`, async (c) => {
+  try {
+    const deviceId = c.req.param('deviceId');
+    const device = await kv.get(deviceId);
+
+    if (!device || !deviceId.startsWith('device:')) {
+      return c.json({ error: 'Device not found' }, 404);
+    }
+
+    const { status, reason } = await c.req.json();
+    if (!DEVICE_STATUSES.includes(status)) {
+      return c.json({ error: `status must be one of ${DEVICE_STATUSES.join(', ')}`, field: 'status' }, 400);
+    }
+
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return c.json({ error: 'A reason is required when changing a device\'s status', field: 'reason' }, 400);
+    }
+
+    const currentStatus = getDeviceStatus(device);
+    if (!DEVICE_STATUS_TRANSITIONS[currentStatus].includes(status)) {
+      return c.json({
+        error: currentStatus === 'decommissioned'
+          ? 'Decommissioned devices cannot change status'
+          : `Device is already ${currentStatus}`
+      }, 409);
+    }
+
+    const caller = c.get('caller');
+    const changedAt = new Date().toISOString();
+    const changedBy = caller?.employeeId || caller?.adminUsername || 'system';
+
+    const updatedDevice = {
+      ...device,
+      status,
+      statusChanges: [
+        ...(device.statusChanges || []),
+        { from: currentStatus, to: status, reason: reason.trim(), changedAt, changedBy }
+      ],
+      updatedAt: changedAt
+    };
+
+    const cancelledChecks = status === 'decommissioned'
+      ? (await kv.getByPrefix('check:'))
+        .filter(check => check.deviceId === deviceId && check.status === 'pending')
+        .map(check => ({ ...check, status: 'cancelled', cancelledAt: changedAt, cancelledBy: changedBy, cancelReason: 'Device decommissioned' }))
+      : [];
+
+    await kv.mset(
+      [deviceId, ...cancelledChecks.map(check => check.id)],
+      [updatedDevice, ...cancelledChecks]
+    );
+
+    console.log(`Device ${deviceId} moved from ${currentStatus} to ${status}; cancelled ${cancelledChecks.length} pending checks`);
+    return c.json({ success: true, device: updatedDevice, cancelledChecks: cancelledChecks.length });
+  } catch (error) {
+    console.log('Error changing device status:', error);
+    return c.json({ error: 'Failed to change device status' }, 500);
+  }
+});
+
+app.delete(`${BASE_PATH}/devices/:deviceId`, async (c) => {
+  try {
+    const deviceId = c.req.param('deviceId');
+    const device = await kv.get(deviceId);
+
+    if (!device) {
+      return c.json({ error: 'Device not found' }, 404);
+    }
+
+    // Delete all associated checks for this device
+    const allChecks = await kv.getByPrefix('check:');
+    const deviceChecks = allChecks.filter(check => check.deviceId === deviceId);
+
+    for (const check of deviceChecks) {
+      await kv.del(check.id);
+    }
+    await removeCheckEvidence(deviceChecks);
+
+    // Delete corrective actions raised against this device
+    const deviceActions = (await kv.getByPrefix(CORRECTIVE_ACTION_PREFIX)).filter(action => action.deviceId === deviceId);
+    if (deviceActions.length > 0) {
+      await kv.mdel(deviceActions.map(action => action.id));
+    }
+
+    // Delete the device and release its identification number
+    await kv.del(deviceId);
+    if (await findDeviceIdByIdentificationNumber(device.identificationNumber) === null) {
+      await kv.del(deviceIdentKey(device.identificationNumber));
+    }
+
+    console.log(`Deleted device ${deviceId} and ${deviceChecks.length} associated checks`);
+    return c.json({ success: true, message: 'Device and associated records deleted successfully' });
+  } catch (error) {
+    console.log('Error deleting device:', error);
+    return c.json({ error: 'Failed to delete device' }, 500);
+  }
+});
+
+// Devices at a location or anywhere beneath it
+app.get(`${BASE_PATH}/devices/by-location/:locationId`, async (c) => {
+  try {
+    const locationId = c.req.param('locationId');
+    const locations = await getLocationIndex();
+    if (!locations.has(locationId)) {
+      return c.json({ error: 'Location not found' }, 404);
+    }
+
+    const subtree = getSubtreeIds(locations, locationId);
+    const allDevices = await kv.getByPrefix('device:');
+    return c.json(allDevices.filter(device => subtree.has(device.locationId)));
+  } catch (error) {
+    console.log('Error fetching devices by location:', error);
+    return c.json({ error: 'Failed to fetch devices by location' }, 500);
+  }
+});
+
+// Resolves a scanned label to its device and the check to open. Labels encode the device id,
+// but a typed identification number works too. The earliest pending check comes first so
+// an overdue check is completed before the current one.
+app.get(`${BASE_PATH}/devices/scan/:code`, async (c) => {
+  try {
+    const code = c.req.param('code').trim();
+    let deviceId = code.startsWith('device:') ? code : await findDeviceIdByIdentificationNumber(code);
+
+    // Devices imported before the identification index existed have no index row
+    if (!deviceId) {
+      const allDevices = await kv.getByPrefix('device:');
+      const match = allDevices.find(device => normalizeIdentificationNumber(device.identificationNumber) === normalizeIdentificationNumber(code));
+      deviceId = match?.id || null;
+    }
+
+    const device = deviceId ? await kv.get(deviceId) : null;
+    if (!device) {
+      return c.json({ error: `No device found for code ${code}` }, 404);
+    }
+
+    const allChecks = await kv.getByPrefix('check:');
+    const pendingCheck = allChecks
+      .filter(check => check.deviceId === device.id && check.status === 'pending')
+      .reduce<any>(
+        (earliest, check) => (!earliest || getCheckScheduledDate(check) < getCheckScheduledDate(earliest) ? check : earliest),
+        null
+      );
+
+    return c.json({ device, pendingCheck });
+  } catch (error) {
+    console.log('Error resolving scanned device:', error);
+    return c.json({ error: 'Failed to resolve scanned device' }, 500);
+  }
+});
+
+// Get device with last check information
+app.get(`${BASE_PATH}/devices/:deviceId/last-check`, async (c) => {
+  try {
+    const deviceId = c.req.param('deviceId');
+    const device = await kv.get(deviceId);
+
+    if (!device) {
+      return c.json({ error: 'Device not found' }, 404);
+    }
+
+    // Get all completed checks for this device to find the most recent one
+    const allChecks = await kv.getByPrefix('check:');
+    const deviceChecks = allChecks
+      .filter(check => check.deviceId === deviceId && check.status === 'completed')
+      .sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
+
+    const lastCheck = deviceChecks.length > 0 ? deviceChecks[0] : null;
+
+    return c.json({
+      device,
+      lastCheck,
+      hasBeenChecked: !!lastCheck,
+      totalChecksCompleted: deviceChecks.length
+    });
+  } catch (error) {
+    console.log('Error fetching device last check:', error);
+    return c.json({ error: 'Failed to fetch device last check information' }, 500);
+  }
+});
+
+// Helper function to flatten a device's records into timeline events, newest first
+function buildDeviceHistory(device: any, checks: any[], actions: any[], documents: any[], now: Date) {
+  const events: any[] = [
+    { type: 'created', at: device.createdAt, by: device.createdBy || null }
+  ];
+
+  for (const change of device.frequencyChanges || []) {
+    events.push({
+      type: 'frequency_changed', at: change.changedAt, by: change.changedBy, from: change.from, to: change.to,
+      fromRecurrence: change.fromRecurrence, toRecurrence: change.toRecurrence
+    });
+  }
+
+  for (const change of device.statusChanges || []) {
+    events.push({ type: 'status_changed', at: change.changedAt, by: change.changedBy, from: change.from, to: change.to, reason: change.reason });
+  }
+
+  for (const check of checks) {
+    const base = { checkId: check.id, week: check.week, year: check.year, scheduledDate: getCheckScheduledDate(check).toISOString() };
+
+    if (check.assignedAt) {
+      events.push({ type: 'check_planned', at: check.assignedAt, by: check.assignedBy || null, ...base });
+    }
+
+    if (check.status === 'completed') {
+      events.push({
+        type: 'check_completed',
+        at: check.completedAt,
+        by: check.completedBy,
+        ...base,
+        outcome: check.outcome || 'passed',
+        comment: check.comment || '',
+        // Completed after its scheduled week had ended
+        late: new Date(check.completedAt).getTime() >= getCheckWeekEnd(check).getTime(),
+        evidenceCount: (check.evidence || []).length
+      });
+    } else if (check.status === 'cancelled') {
+      events.push({ type: 'check_cancelled', at: check.cancelledAt, by: check.cancelledBy, ...base, reason: check.cancelReason });
+    } else if (isCheckOverdue(check, now)) {
+      events.push({ type: 'check_missed', at: getCheckWeekEnd(check).toISOString(), by: null, ...base, daysOverdue: getDaysOverdue(check, now) });
+    }
+  }
+
+  for (const action of actions) {
+    const base = { actionId: action.id, checkId: action.checkId, description: action.description, owner: action.owner, dueDate: action.dueDate };
+    events.push({ type: 'corrective_action_opened', at: action.createdAt, by: action.createdBy, ...base });
+    if (action.status === 'closed') {
+      events.push({ type: 'corrective_action_closed', at: action.closedAt, by: action.closedBy, ...base, closureNote: action.closureNote || '' });
+    }
+  }
+
+  for (const document of documents) {
+    const base = { documentId: document.id, fileName: document.fileName };
+    events.push({ type: 'document_uploaded', at: document.uploadedAt, by: document.uploadedBy, ...base, assignedTo: document.assignedTo });
+    for (const signature of document.signatures || []) {
+      if (signature.type === 'initial') continue;
+      events.push({ type: 'document_signed', at: signature.signedAt, by: signature.signedBy, ...base });
+    }
+  }
+
+  // Sort oldest first and reverse so events sharing a timestamp keep their causal order
+  return events
+    .filter(event => event.at)
+    .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+    .reverse();
+}
+
+// Full timeline for the device detail view: creation, checks, corrective actions, frequency and status changes and linked documents
+app.get(`${BASE_PATH}/devices/:deviceId/history`, async (c) => {
+  try {
+    const deviceId = c.req.param('deviceId');
+    const device = await kv.get(deviceId);
+
+    if (!device || !deviceId.startsWith('device:')) {
+      return c.json({ error: 'Device not found' }, 404);
+    }
+
+    const [allChecks, allActions, allDocuments] = await Promise.all([
+      kv.getByPrefix('check:'),
+      kv.getByPrefix(CORRECTIVE_ACTION_PREFIX),
+      kv.getByPrefix('doc:')
+    ]);
+
+    const checks = allChecks.filter(check => check.deviceId === deviceId);
+    const actions = allActions.filter(action => action.deviceId === deviceId);
+    const documents = allDocuments.filter(document => document.deviceId === deviceId);
+    const now = new Date();
+
+    return c.json({
+      device,
+      events: buildDeviceHistory(device, checks, actions, documents, now),
+      summary: {
+        checksCompleted: checks.filter(check => check.status === 'completed').length,
+        checksPending: checks.filter(check => check.status === 'pending').length,
+        checksMissed: checks.filter(check => isCheckOverdue(check, now)).length,
+        openCorrectiveActions: actions.filter(action => action.status === 'open').length,
+        documents: documents.length
+      }
+    });
+  } catch (error) {
+    console.log('Error fetching device history:', error);
+    return c.json({ error: 'Failed to fetch device history' }, 500);
+  }
+});
+
+// Checklist templates
+app.get(`${BASE_PATH}/checklist-templates`, async (c) => {
+  try {
+    const templates = await kv.getByPrefix(CHECKLIST_TEMPLATE_PREFIX);
+    templates.sort((a, b) => a.name.localeCompare(b.name));
+    return c.json(templates);
+  } catch (error) {
+    console.log('Error fetching checklist templates:', error);
+    return c.json({ error: 'Failed to fetch checklist templates' }, 500);
+  }
+});
+
+app.post(`${BASE_PATH}/checklist-templates`, async (c) => {
+  try {
+    const { template: fields, error: validationError } = validateChecklistTemplate(await c.req.json());
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
+    const templateId = `${CHECKLIST_TEMPLATE_PREFIX}${Date.now()}:${Math.random().toString(36).substr(2, 9)}`;
+    const caller = c.get('caller');
+    const template = {
+      id: templateId,
+      ...fields,
+      createdAt: new Date().toISOString(),
+      createdBy: caller?.employeeId || caller?.adminUsername || 'system'
+    };
+
+    await kv.set(templateId, template);
+    return c.json({ success: true, template });
+  } catch (error) {
+    console.log('Error creating checklist template:', error);
+    return c.json({ error: 'Failed to create checklist template' }, 500);
+  }
+});
+
+app.put(`${BASE_PATH}/checklist-templates/:templateId`, async (c) => {
+  try {
+    const templateId = c.req.param('templateId');
+    const existing = await getChecklistTemplate(templateId);
+    if (!existing) {
+      return c.json({ error: 'Checklist template not found' }, 404);
+    }
+
+    const { template: fields, error: validationError } = validateChecklistTemplate(await c.req.json());
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
+    // Completed checks carry their own copy of the items, so editing is safe
+    const template = {
+      ...existing,
+      ...fields,
+      updatedAt: new Date().toISOString()
+    };
+
+    await kv.set(templateId, template);
+    return c.json({ success: true, template });
+  } catch (error) {
+    console.log('Error updating checklist template:', error);
+    return c.json({ error: 'Failed to update checklist template' }, 500);
+  }
+});
+
+app.delete(`${BASE_PATH}/checklist-templates/:templateId`, async (c) => {
+  try {
+    const templateId = c.req.param('templateId');
+    if (!(await getChecklistTemplate(templateId))) {
+      return c.json({ error: 'Checklist template not found' }, 404);
+    }
+
+    const devices = await kv.getByPrefix('device:');
+    const assigned = devices.filter(device => device.checklistTemplateId === templateId);
+    if (assigned.length > 0) {
+      return c.json({
+        error: `Template is assigned to ${assigned.length} device(s); reassign them before deleting it`
+      }, 409);
+    }
+
+    await kv.del(templateId);
+    return c.json({ success: true, message: 'Checklist template deleted successfully' });
+  } catch (error) {
+    console.log('Error deleting checklist template:', error);
+    return c.json({ error: 'Failed to delete checklist template' }, 500);
+  }
+});
+
+// Device categories
+app.get(`${BASE_PATH}/device-categories`, async (c) => {
+  try {
+    const categories = await kv.getByPrefix(CATEGORY_PREFIX);
+    categories.sort((a, b) => a.name.localeCompare(b.name));
+    return c.json(categories);
+  } catch (error) {
+    console.log('Error fetching device categories:', error);
+    return c.json({ error: 'Failed to fetch device categories' }, 500);
+  }
+});
+
+// Names are unique ignoring case so the category filter and import columns stay unambiguous
+const hasCategoryNamed = (categories: CategoryIndex, name: string, excludeId?: string) =>
+  [...categories.values()].some(category => category.id !== excludeId && category.name.toLowerCase() === name.toLowerCase());
+
+app.post(`${BASE_PATH}/device-categories`, async (c) => {
+  try {
+    const { category: fields, error: validationError, field } = validateCategory(await c.req.json());
+    if (validationError) {
+      return c.json({ error: validationError, field }, 400);
+    }
+
+    if (hasCategoryNamed(await getCategoryIndex(), fields.name)) {
+      return c.json({ error: `A category named ${fields.name} already exists`, field: 'name' }, 409);
+    }
+
+    const categoryId = `${CATEGORY_PREFIX}${Date.now()}:${Math.random().toString(36).substr(2, 9)}`;
+    const caller = c.get('caller');
+    const category = {
+      id: categoryId,
+      ...fields,
+      createdAt: new Date().toISOString(),
+      createdBy: caller?.employeeId || caller?.adminUsername || 'system'
+    };
+
+    await kv.set(categoryId, category);
+    return c.json({ success: true, category });
+  } catch (error) {
+    console.log('Error creating device category:', error);
+    return c.json({ error: 'Failed to create device category' }, 500);
+  }
+});
+
+// Existing device values are not rewritten; a device is checked against the new schema the next time it is saved
+app.put(`${BASE_PATH}/device-categories/:categoryId`, async (c) => {
+  try {
+    const categoryId = c.req.param('categoryId');
+    const categories = await getCategoryIndex();
+    const existing = categories.get(categoryId);
+    if (!existing) {
+      return c.json({ error: 'Device category not found' }, 404);
+    }
+
+    const { category: fields, error: validationError, field } = validateCategory(await c.req.json());
+    if (validationError) {
+      return c.json({ error: validationError, field }, 400);
+    }
+
+    if (hasCategoryNamed(categories, fields.name, categoryId)) {
+      return c.json({ error: `A category named ${fields.name} already exists`, field: 'name' }, 409);
+    }
+
+    const category = {
+      ...existing,
+      ...fields,
+      updatedAt: new Date().toISOString()
+    };
+
+    await kv.set(categoryId, category);
+    return c.json({ success: true, category });
+  } catch (error) {
+    console.log('Error updating device category:', error);
+    return c.json({ error: 'Failed to update device category' }, 500);
+  }
+});
+
+app.delete(`${BASE_PATH}/device-categories/:categoryId`, async (c) => {
+  try {
+    const categoryId = c.req.param('categoryId');
+    if (!(await getCategoryIndex()).has(categoryId)) {
+      return c.json({ error: 'Device category not found' }, 404);
+    }
+
+    const devices = await kv.getByPrefix('device:');
+    const assigned = devices.filter(device => device.categoryId === categoryId);
+    if (assigned.length > 0) {
+      return c.json({
+        error: `Category is used by ${assigned.length} device(s); move them to another category before deleting it`
+      }, 409);
+    }
+
+    await kv.del(categoryId);
+    return c.json({ success: true, message: 'Device category deleted successfully' });
+  } catch (error) {
+    console.log('Error deleting device category:', error);
+    return c.json({ error: 'Failed to delete device category' }, 500);
+  }
+});
+
+// Location tree
+// Flat list ordered by path; deviceCount includes devices anywhere beneath each location
+app.get(`${BASE_PATH}/locations`, async (c) => {
+  try {
+    const [locations, devices] = await Promise.all([getLocationIndex(), kv.getByPrefix('device:')]);
+
+    const directCounts = new Map<string, number>();
+    devices.forEach(device => {
+      if (device.locationId) directCounts.set(device.locationId, (directCounts.get(device.locationId) || 0) + 1);
+    });
+
+    const list = [...locations.values()].map(location => {
+      let deviceCount = 0;
+      getSubtreeIds(locations, location.id).forEach(id => { deviceCount += directCounts.get(id) || 0; });
+      return { ...location, path: formatLocationPath(locations, location.id), deviceCount };
+    });
+    list.sort((a, b) => a.path.localeCompare(b.path));
+
+    return c.json(list);
+  } catch (error) {
+    console.log('Error fetching locations:', error);
+    return c.json({ error: 'Failed to fetch locations' }, 500);
+  }
+});
+
+app.post(`${BASE_PATH}/locations`, async (c) => {
+  try {
+    const locations = await getLocationIndex();
+    const { location: fields, error: validationError, field } = validateLocation(await c.req.json(), locations);
+    if (validationError) {
+      return c.json({ error: validationError, field }, 400);
+    }
+
+    if (hasSiblingNamed(locations, fields.parentId, fields.name)) {
+      return c.json({ error: `A location named ${fields.name} already exists there`, field: 'name' }, 409);
+    }
+
+    const locationId = `${LOCATION_PREFIX}${Date.now()}:${Math.random().toString(36).substr(2, 9)}`;
+    const caller = c.get('caller');
+    const location = {
+      id: locationId,
+      ...fields,
+      createdAt: new Date().toISOString(),
+      createdBy: caller?.employeeId || caller?.adminUsername || 'system'
+    };
+
+    await kv.set(locationId, location);
+    locations.set(locationId, location);
+    return c.json({ success: true, location: { ...location, path: formatLocationPath(locations, locationId), deviceCount: 0 } });
+  } catch (error) {
+    console.log('Error creating location:', error);
+    return c.json({ error: 'Failed to create location' }, 500);
+  }
+});
+
+// Renaming or moving a location rewrites the path label on every device beneath it
+app.patch(`${BASE_PATH}/locations/:locationId`, async (c) => {
+  try {
+    const locationId = c.req.param('locationId');
+    const locations = await getLocationIndex();
+    const existing = locations.get(locationId);
+    if (!existing) {
+      return c.json({ error: 'Location not found' }, 404);
+    }
+
+    const { location: fields, error: validationError, field } = validateLocation(await c.req.json(), locations, existing);
+    if (validationError) {
+      return c.json({ error: validationError, field }, 400);
+    }
+
+    if (hasSiblingNamed(locations, fields.parentId, fields.name, locationId)) {
+      return c.json({ error: `A location named ${fields.name} already exists there`, field: 'name' }, 409);
+    }
+
+    const location = { ...existing, ...fields, updatedAt: new Date().toISOString() };
+    locations.set(locationId, location);
+
+    const subtree = getSubtreeIds(locations, locationId);
+    const devices = (await kv.getByPrefix('device:'))
+      .filter(device => subtree.has(device.locationId))
+      .map(device => ({ ...device, location: formatLocationPath(locations, device.locationId) }));
+
+    await kv.mset(
+      [locationId, ...devices.map(device => device.id)],
+      [location, ...devices]
+    );
+
+    console.log(`Updated location ${locationId} and relabelled ${devices.length} devices`);
+    return c.json({ success: true, location: { ...location, path: formatLocationPath(locations, locationId) }, devicesUpdated: devices.length });
+  } catch (error) {
+    console.log('Error updating location:', error);
+    return c.json({ error: 'Failed to update location' }, 500);
+  }
+});
+
+app.delete(`${BASE_PATH}/locations/:locationId`, async (c) => {
+  try {
+    const locationId = c.req.param('locationId');
+    const locations = await getLocationIndex();
+    if (!locations.has(locationId)) {
+      return c.json({ error: 'Location not found' }, 404);
+    }
+
+    if ([...locations.values()].some(location => location.parentId === locationId)) {
+      return c.json({ error: 'Location has child locations; delete or move them first' }, 409);
+    }
+
+    const devices = (await kv.getByPrefix('device:')).filter(device => device.locationId === locationId);
+    if (devices.length > 0) {
+      return c.json({ error: `Location has ${devices.length} device(s); move them before deleting it` }, 409);
+    }
+
+    await kv.del(locationId);
+    return c.json({ success: true, message: 'Location deleted successfully' });
+  } catch (error) {
+    console.log('Error deleting location:', error);
+    return c.json({ error: 'Failed to delete location' }, 500);
+  }
+});
+
+// One-off migration for devices created before the location tree: each free-text location is
+// matched to an existing path or name, or added as a new site, and the device is linked to it
+app.post(`${BASE_PATH}/locations/link-devices`, async (c) => {
+  try {
+    const locations = await getLocationIndex();
+    const unlinked = (await kv.getByPrefix('device:')).filter(device => !device.locationId && device.location?.trim());
+
+    const caller = c.get('caller');
+    const createdBy = caller?.employeeId || caller?.adminUsername || 'system';
+    const created: any[] = [];
+
+    const devices = unlinked.map(device => {
+      let location = findLocationByPath(locations, device.location);
+      if (!location) {
+        location = {
+          id: `${LOCATION_PREFIX}${Date.now()}:${Math.random().toString(36).substr(2, 9)}`,
+          name: device.location.trim().replace(/\//g, '-'),
+          type: 'site' as LocationType,
+          parentId: null,
+          createdAt: new Date().toISOString(),
+          createdBy
+        };
+        locations.set(location.id, location);
+        created.push(location);
+      }
+      return { ...device, locationId: location.id, location: formatLocationPath(locations, location.id) };
+    });
+
+    if (devices.length > 0) {
+      await kv.mset(
+        [...created.map(location => location.id), ...devices.map(device => device.id)],
+        [...created, ...devices]
+      );
+    }
+
+    console.log(`Linked ${devices.length} devices, creating ${created.length} sites`);
+    return c.json({ success: true, linked: devices.length, created: created.length });
+  } catch (error) {
+    console.log('Error linking devices to locations:', error);
+    return c.json({ error: 'Failed to link devices to locations' }, 500);
+  }
+});
+
+// Weekly planning routes
+// Helper function to build the pending check for a device planned into a week
+function createPlannedCheck(device: any, year: string, week: string, assignedBy: string, assignedAt: string) {
+  const checkId = `check:${year}:${week}:${device.id}`;
+  return {
+    id: checkId,
+    deviceId: device.id,
+    week,
+    year,
+    status: 'pending',
+    scheduledDate: getScheduledDate(year, week),
+    dueDate: getDueDateInWeek(getDeviceRecurrence(device), year, week).toISOString(),
+    assignedAt,
+    assignedBy
+  };
+}
+
+// Parses ISO year/week route params; week 53 only exists in long years
+function parseISOWeekParams(yearParam: string, weekParam: string): { year: number; week: number } | null {
+  const year = Number(yearParam);
+  const week = Number(weekParam);
+  if (!Number.isInteger(year) || !Number.isInteger(week) || week < 1 || getISOWeek(getISOWeekStart(year, week)).week !== week) {
+    return null;
+  }
+  return { year, week };
+}
+
+// Plans may only list existing devices, by id
+function invalidPlanDevicesResponse(c: Context, devices: Record<string, any>, deviceIds: any) {
+  if (!Array.isArray(deviceIds) || deviceIds.some(deviceId => typeof deviceId !== 'string')) {
+    return c.json({ error: 'deviceIds must be an array of device ids', field: 'deviceIds' }, 400);
+  }
+  const unknown = deviceIds.filter((deviceId: string) => !devices[deviceId]);
+  if (unknown.length > 0) {
+    return c.json({ error: `Devices not found: ${unknown.join(', ')}`, field: 'deviceIds' }, 400);
+  }
+  return null;
+}
+
+// Only active devices can get new checks
+function inactivePlanResponse(c: Context, devices: Record<string, any>, deviceIds: string[]) {
+  const unavailable = deviceIds.filter(deviceId => getDeviceStatus(devices[deviceId]) !== 'active');
+  if (unavailable.length === 0) return null;
+  return c.json({
+    error: `Only active devices can be planned: ${unavailable.map(deviceId => devices[deviceId].name).join(', ')}`,
+    field: 'deviceIds'
+  }, 400);
+}
+
+// Creates a week's plan. Devices that already have a check that week keep it; an existing plan
+// is edited through PUT /weekly-plans/:year/:week instead of being overwritten.
+app.post(`${BASE_PATH}/weekly-plans`, async (c) => {
+  try {
+    const body = await c.req.json();
+    const { deviceIds } = body;
+    const parsed = parseISOWeekParams(String(body.year), String(body.week));
+    if (!parsed) {
+      return c.json({ error: 'Invalid ISO year and week' }, 400);
+    }
+    const year = String(parsed.year);
+    const week = String(parsed.week);
+    const planId = `plan:${year}:${week}`;
+
+    if (await kv.get(planId)) {
+      return c.json({ error: `A plan already exists for week ${week}, ${year}; edit it instead` }, 409);
+    }
+
+    const devices = await getAllDevices();
+    const invalid = invalidPlanDevicesResponse(c, devices, deviceIds);
+    if (invalid) return invalid;
+
+    const inactive = inactivePlanResponse(c, devices, deviceIds);
+    if (inactive) return inactive;
+
+    const caller = c.get('caller');
+    const assignedBy = caller?.employeeId || caller?.adminUsername || 'system';
+    const createdAt = new Date().toISOString();
+    const plan = {
+      id: planId,
+      week,
+      year,
+      deviceIds,
+      assignedBy,
+      createdAt,
+      status: 'planned'
+    };
+
+    // Create individual device checks
+    const { added } = diffWeeklyPlan(await kv.getByPrefix(`check:${year}:${week}:`), deviceIds);
+    const checks = added.map(deviceId => createPlannedCheck(devices[deviceId], year, week, assignedBy, createdAt));
+
+    await kv.mset([planId, ...checks.map(check => check.id)], [plan, ...checks]);
+
+    return c.json({ success: true, plan });
+  } catch (error) {
+    console.log('Error creating weekly plan:', error);
+    return c.json({ error: 'Failed to create weekly plan' }, 500);
+  }
+});
+
+// Edits the devices planned for a week. With dryRun the diff is returned without saving so the
+// planner can review it. Removed devices have their pending check cancelled with the given reason;
+// completed checks are never touched.
+app.put(`${BASE_PATH}/weekly-plans/:year/:week`, async (c) => {
+  try {
+    const parsed = parseISOWeekParams(c.req.param('year'), c.req.param('week'));
+    if (!parsed) {
+      return c.json({ error: 'Invalid ISO year and week' }, 400);
+    }
+    const year = String(parsed.year);
+    const week = String(parsed.week);
+
+    const { deviceIds, reason, dryRun } = await c.req.json();
+    const planId = `plan:${year}:${week}`;
+    const [devices, plan, weekChecks] = await Promise.all([
+      getAllDevices(),
+      kv.get(planId),
+      kv.getByPrefix(`check:${year}:${week}:`)
+    ]);
+
+    const invalid = invalidPlanDevicesResponse(c, devices, deviceIds);
+    if (invalid) return invalid;
+
+    const diff = diffWeeklyPlan(weekChecks, deviceIds);
+    const inactive = inactivePlanResponse(c, devices, diff.added);
+    if (inactive) return inactive;
+
+    const named = (ids: string[]) => ids.map(deviceId => ({ deviceId, deviceName: devices[deviceId]?.name || deviceId }));
+    const changes = {
+      added: named(diff.added),
+      removed: named(diff.removed),
+      kept: named(diff.kept),
+      locked: named(diff.locked)
+    };
+
+    if (dryRun) {
+      return c.json({ diff: changes });
+    }
+
+    if (diff.removed.length > 0 && !(typeof reason === 'string' && reason.trim())) {
+      return c.json({ error: 'Give a reason for cancelling the removed checks', field: 'reason' }, 400);
+    }
+
+    const caller = c.get('caller');
+    const actor = caller?.employeeId || caller?.adminUsername || 'system';
+    const updatedAt = new Date().toISOString();
+
+    const added = diff.added.map(deviceId => createPlannedCheck(devices[deviceId], year, week, actor, updatedAt));
+    const removed = new Set(diff.removed);
+    const cancelled = weekChecks
+      .filter(check => check.status === 'pending' && removed.has(check.deviceId))
+      .map(check => ({ ...check, status: 'cancelled', cancelledAt: updatedAt, cancelledBy: actor, cancelReason: reason.trim() }));
+
+    const updatedPlan = {
+      ...(plan || { id: planId, week, year, assignedBy: actor, createdAt: updatedAt, status: 'planned' }),
+      deviceIds: [...diff.kept, ...diff.added, ...diff.locked],
+      updatedAt,
+      updatedBy: actor
+    };
+
+    const rows = [updatedPlan, ...added, ...cancelled];
+    await kv.mset(rows.map(row => row.id), rows);
+
+    return c.json({ success: true, plan: updatedPlan, diff: changes });
+  } catch (error) {
+    console.log('Error updating weekly plan:', error);
+    return c.json({ error: 'Failed to update weekly plan' }, 500);
+  }
+});
+
+app.get(`${BASE_PATH}/weekly-plans/:year/:week`, async (c) => {
+  try {
+    const year = c.req.param('year');
+    const week = c.req.param('week');
+    const checks = await kv.getByPrefix(`check:${year}:${week}:`);
+    return c.json(checks);
+  } catch (error) {
+    console.log('Error fetching weekly plan:', error);
+    return c.json({ error: 'Failed to fetch weekly plan' }, 500);
+  }
+});
+
+// Devices due or overdue by an ISO week, most urgent first, with the reason for each
+app.get(`${BASE_PATH}/weekly-plans/:year/:week/suggestions`, async (c) => {
+  try {
+    const parsed = parseISOWeekParams(c.req.param('year'), c.req.param('week'));
+    if (!parsed) {
+      return c.json({ error: 'Invalid ISO year and week' }, 400);
+    }
+    const { year, week } = parsed;
+
+    const [devices, checks, actions] = await Promise.all([
+      getAllDevices(),
+      kv.getByPrefix('check:'),
+      kv.getByPrefix(CORRECTIVE_ACTION_PREFIX)
+    ]);
+
+    // Devices held by an open corrective action resume their schedule when it is closed
+    const held = new Set(actions.filter(action => action.status === 'open').map(action => action.deviceId));
+    const plannable = Object.values(devices).filter(device => getDeviceStatus(device) === 'active' && !held.has(device.id));
+
+    const suggestions = suggestChecksForWeek(plannable, checks, year, week).map(suggestion => ({
+      ...suggestion,
+      deviceName: devices[suggestion.deviceId].name,
+      deviceLocation: devices[suggestion.deviceId].location,
+      deviceIdentificationNumber: devices[suggestion.deviceId].identificationNumber
+    }));
+
+    return c.json(suggestions);
+  } catch (error) {
+    console.log('Error fetching plan suggestions:', error);
+    return c.json({ error: 'Failed to fetch plan suggestions' }, 500);
+  }
+});
+
+// Helper function to set the inspector on pending checks. The assignee gets one in-app
+// notification covering the checks that changed hands; an empty assigneeId clears the assignment.
+async function assignChecks(checks: any[], assigneeId: string, assignee: any | null, actor: string) {
+  const assignedToAt = new Date().toISOString();
+  const updated = checks
+    .filter(check => (check.assignedTo || '') !== assigneeId)
+    .map(check => ({ ...check, assignedTo: assigneeId || null, assignedToAt, assignedToBy: actor }));
+
+  if (updated.length > 0) {
+    await kv.mset(updated.map(check => check.id), updated);
+  }
+
+  if (assignee && updated.length > 0) {
+    const devices = await getAllDevices();
+    const names = updated.map(check => devices[check.deviceId]?.name || check.deviceId);
+    await addUserNotification(assignee, {
+      type: 'device_check_assigned',
+      checkIds: updated.map(check => check.id),
+      message: updated.length === 1
+        ? `You have been assigned the check of "${names[0]}" for week ${updated[0].week}, ${updated[0].year}`
+        : `You have been assigned ${updated.length} device checks: ${names.join(', ')}`
+    });
+  }
+
+  return updated;
+}
+
+// Helper function to load pending checks by id, or the error response for missing or closed ones
+async function getPendingChecks(c: Context, checkIds: string[]) {
+  const checks = await Promise.all(checkIds.map(checkId => checkId.startsWith('check:') ? kv.get(checkId) : null));
+  const missing = checkIds.filter((_, index) => !checks[index]);
+  if (missing.length > 0) {
+    return { checks, error: c.json({ error: `Checks not found: ${missing.join(', ')}`, field: 'checkIds' }, 404) };
+  }
+  const closed = checks.filter(check => check.status !== 'pending');
+  if (closed.length > 0) {
+    return { checks, error: c.json({ error: `Only pending checks can be assigned: ${closed.map(check => check.id).join(', ')}`, field: 'checkIds' }, 409) };
+  }
+  return { checks };
+}
 
-app.delete(`${BASE_PATH}/devices/:deviceId`, async (c) => {
-  try {
-    const deviceId = c.req.param('deviceId');
-    const device = await kv.get(deviceId);
+const isCheckIdList = (value: any): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string');
 
-    if (!device) {
-      return c.json({ error: 'Device not found' }, 404);
+// Bulk-assigns pending checks to the inspector who should perform them
+app.put(`${BASE_PATH}/checks/assign`, async (c) => {
+  try {
+    const { checkIds, assignedTo } = await c.req.json();
+    if (!isCheckIdList(checkIds)) {
+      return c.json({ error: 'checkIds must be a non-empty array of check ids', field: 'checkIds' }, 400);
+    }
+    if (typeof assignedTo !== 'string') {
+      return c.json({ error: 'assignedTo must be an employee ID or an empty string', field: 'assignedTo' }, 400);
     }
 
-    // Delete all associated checks for this device
-    const allChecks = await kv.getByPrefix('check:');
-    const deviceChecks = allChecks.filter(check => check.deviceId === deviceId);
-
-    for (const check of deviceChecks) {
-      await kv.del(check.id);
+    const assigneeId = assignedTo.trim();
+    const assignee = assigneeId ? await findUserByEmployeeId(assigneeId) : null;
+    if (assigneeId && !assignee) {
+      return c.json({ error: `No user found with employee ID ${assigneeId}`, field: 'assignedTo' }, 400);
     }
 
-    // Delete the device
-    await kv.del(deviceId);
+    const { checks, error } = await getPendingChecks(c, [...new Set(checkIds)]);
+    if (error) return error;
 
-    console.log(`Deleted device ${deviceId} and ${deviceChecks.length} associated checks`);
-    return c.json({ success: true, message: 'Device and associated records deleted successfully' });
+    const caller = c.get('caller');
+    const updated = await assignChecks(checks, assigneeId, assignee, caller?.employeeId || caller?.adminUsername || 'system');
+
+    return c.json({ success: true, assigned: updated.length, checks: checks.map(check => updated.find(u => u.id === check.id) || check) });
   } catch (error) {
-    console.log('Error deleting device:', error);
-    return c.json({ error: 'Failed to delete device' }, 500);
+    console.log('Error assigning checks:', error);
+    return c.json({ error: 'Failed to assign checks' }, 500);
   }
 });
 
-app.get(`${BASE_PATH}/devices/by-location/:location`, async (c) => {
-  try {
-    const location = c.req.param('location');
-    const allDevices = await kv.getByPrefix('device:');
-    const filteredDevices = allDevices.filter(device =>
-      device.location.toLowerCase().includes(location.toLowerCase())
-    );
-    return c.json(filteredDevices);
-  } catch (error) {
-    console.log('Error fetching devices by location:', error);
-    return c.json({ error: 'Failed to fetch devices by location' }, 500);
+// Helper function to list auth users keyed by employee ID, matched the same way as findUserByEmployeeId
+async function getUsersByEmployeeId(): Promise<Map<string, any>> {
+  const { data: authData, error: authError } = await supabase.auth.admin.listUsers();
+  const users = new Map<string, any>();
+  if (authError || !authData?.users) return users;
+
+  for (const authUser of authData.users) {
+    const employeeId = employeeIdForUser(authUser);
+    if (employeeId) users.set(employeeId, authUser);
   }
-});
+  return users;
+}
 
-// Get device with last check information
-app.get(`${BASE_PATH}/devices/:deviceId/last-check`, async (c) => {
-  try {
-    const deviceId = c.req.param('deviceId');
-    const device = await kv.get(deviceId);
+// Helper function to describe a week's non-cancelled checks for workload totals
+async function getWeekWorkloadItems(year: number, week: number): Promise<WorkloadItem[]> {
+  const [checks, devices, categories] = await Promise.all([
+    kv.getByPrefix(`check:${year}:${week}:`),
+    getAllDevices(),
+    getCategoryIndex()
+  ]);
+
+  return checks
+    .filter(check => check.status !== 'cancelled')
+    .map(check => {
+      const device = devices[check.deviceId];
+      return {
+        checkId: check.id,
+        assignedTo: check.assignedTo || null,
+        minutes: getEstimatedMinutes(device, device?.categoryId ? categories.get(device.categoryId) : null),
+        location: device?.location || 'Unknown'
+      };
+    });
+}
 
-    if (!device) {
-      return c.json({ error: 'Device not found' }, 404);
+// Checks and estimated minutes per inspector for an ISO week
+app.get(`${BASE_PATH}/weekly-plans/:year/:week/workload`, async (c) => {
+  try {
+    const parsed = parseISOWeekParams(c.req.param('year'), c.req.param('week'));
+    if (!parsed) {
+      return c.json({ error: 'Invalid ISO year and week' }, 400);
     }
 
-    // Get all completed checks for this device to find the most recent one
-    const allChecks = await kv.getByPrefix('check:');
-    const deviceChecks = allChecks
-      .filter(check => check.deviceId === deviceId && check.status === 'completed')
-      .sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
-
-    const lastCheck = deviceChecks.length > 0 ? deviceChecks[0] : null;
+    const [items, users] = await Promise.all([getWeekWorkloadItems(parsed.year, parsed.week), getUsersByEmployeeId()]);
+    const { inspectors, unassigned } = summarizeWorkload(items, [...users.keys()]);
 
     return c.json({
-      device,
-      lastCheck,
-      hasBeenChecked: !!lastCheck,
-      totalChecksCompleted: deviceChecks.length
+      inspectors: inspectors.map(load => ({ ...load, name: users.get(load.employeeId)?.user_metadata?.name || load.employeeId })),
+      unassigned
     });
   } catch (error) {
-    console.log('Error fetching device last check:', error);
-    return c.json({ error: 'Failed to fetch device last check information' }, 500);
+    console.log('Error fetching workload:', error);
+    return c.json({ error: 'Failed to fetch workload' }, 500);
   }
 });
 
-// Weekly planning routes
-app.post(`${BASE_PATH}/weekly-plans`, async (c) => {
+// Spreads pending checks of the week across the available inspectors by location and estimated
+// duration. With dryRun the proposed assignments are returned without saving.
+app.post(`${BASE_PATH}/weekly-plans/:year/:week/distribute`, async (c) => {
   try {
-    const { week, year, deviceIds, assignedBy } = await c.req.json();
-    const planId = `plan:${year}:${week}`;
+    const parsed = parseISOWeekParams(c.req.param('year'), c.req.param('week'));
+    if (!parsed) {
+      return c.json({ error: 'Invalid ISO year and week' }, 400);
+    }
 
-    const plan = {
-      id: planId,
-      week,
-      year,
-      deviceIds,
-      assignedBy,
-      createdAt: new Date().toISOString(),
-      status: 'planned'
-    };
+    const { checkIds, employeeIds, dryRun } = await c.req.json();
+    if (!isCheckIdList(checkIds)) {
+      return c.json({ error: 'checkIds must be a non-empty array of check ids', field: 'checkIds' }, 400);
+    }
+    if (!isCheckIdList(employeeIds)) {
+      return c.json({ error: 'Choose at least one available inspector', field: 'employeeIds' }, 400);
+    }
 
-    await kv.set(planId, plan);
+    const uniqueCheckIds = [...new Set(checkIds)];
+    const weekPrefix = `check:${parsed.year}:${parsed.week}:`;
+    const otherWeek = uniqueCheckIds.filter(checkId => !checkId.startsWith(weekPrefix));
+    if (otherWeek.length > 0) {
+      return c.json({ error: `Checks are not in week ${parsed.week}, ${parsed.year}: ${otherWeek.join(', ')}`, field: 'checkIds' }, 400);
+    }
 
-    // Create individual device checks
-    for (const deviceId of deviceIds) {
-      const checkId = `check:${year}:${week}:${deviceId}`;
-      const check = {
-        id: checkId,
-        deviceId,
-        week,
-        year,
-        status: 'pending',
-        assignedAt: new Date().toISOString(),
-        assignedBy
+    const users = await getUsersByEmployeeId();
+    const unknown = employeeIds.filter(employeeId => !users.has(employeeId));
+    if (unknown.length > 0) {
+      return c.json({ error: `No user found with employee ID ${unknown.join(', ')}`, field: 'employeeIds' }, 400);
+    }
+
+    const { checks, error } = await getPendingChecks(c, uniqueCheckIds);
+    if (error) return error;
+
+    // Minutes each available inspector already has in the week, outside the checks being spread
+    const selected = new Set(uniqueCheckIds);
+    const items = await getWeekWorkloadItems(parsed.year, parsed.week);
+    const loads = new Map<string, number>(employeeIds.map(employeeId => [employeeId, 0]));
+    for (const item of items) {
+      if (!selected.has(item.checkId) && item.assignedTo && loads.has(item.assignedTo)) {
+        loads.set(item.assignedTo, loads.get(item.assignedTo)! + item.minutes);
+      }
+    }
+
+    const distribution = distributeChecks(items.filter(item => selected.has(item.checkId)), loads);
+    const devices = await getAllDevices();
+    const assignments = checks.map(check => {
+      const item = items.find(candidate => candidate.checkId === check.id)!;
+      return {
+        checkId: check.id,
+        deviceId: check.deviceId,
+        deviceName: devices[check.deviceId]?.name || check.deviceId,
+        location: item.location,
+        minutes: item.minutes,
+        employeeId: distribution.get(check.id)!
       };
-      await kv.set(checkId, check);
+    });
+
+    if (dryRun) {
+      return c.json({ assignments });
     }
 
-    return c.json({ success: true, plan });
-  } catch (error) {
-    console.log('Error creating weekly plan:', error);
-    return c.json({ error: 'Failed to create weekly plan' }, 500);
-  }
-});
+    const caller = c.get('caller');
+    const actor = caller?.employeeId || caller?.adminUsername || 'system';
+    for (const employeeId of employeeIds) {
+      const assigned = checks.filter(check => distribution.get(check.id) === employeeId);
+      if (assigned.length > 0) {
+        await assignChecks(assigned, employeeId, users.get(employeeId), actor);
+      }
+    }
 
-app.get(`${BASE_PATH}/weekly-plans/:year/:week`, async (c) => {
-  try {
-    const year = c.req.param('year');
-    const week = c.req.param('week');
-    const checks = await kv.getByPrefix(`check:${year}:${week}:`);
-    return c.json(checks);
+    return c.json({ success: true, assignments });
   } catch (error) {
-    console.log('Error fetching weekly plan:', error);
-    return c.json({ error: 'Failed to fetch weekly plan' }, 500);
+    console.log('Error distributing checks:', error);
+    return c.json({ error: 'Failed to distribute checks' }, 500);
   }
 });
 
-// Device check completion with automatic next check scheduling
+// Device check completion. Passed checks schedule the next one right away; a failed check
+// opens a corrective action instead and the next check is scheduled when that action is closed.
 app.put(`${BASE_PATH}/checks/:checkId/complete`, async (c) => {
   try {
     const checkId = c.req.param('checkId');
-    const { completedBy, comment } = await c.req.json();
+    const { comment, results, outcome = 'passed', correctiveAction } = await c.req.json();
+    // The inspector is whoever is signed in, never a name taken from the body
+    const caller = c.get('caller');
+    const completedBy = caller?.employeeId || caller?.adminUsername || 'system';
+
+    if (!CHECK_OUTCOMES.includes(outcome)) {
+      return c.json({ error: `Outcome must be one of ${CHECK_OUTCOMES.join(', ')}` }, 400);
+    }
+
+    if (outcome === 'passed_with_remarks' && !(typeof comment === 'string' && comment.trim())) {
+      return c.json({ error: 'Describe the remarks in the comment when passing with remarks' }, 400);
+    }
 
     const check = await kv.get(checkId);
     if (!check) {
       return c.json({ error: 'Check not found' }, 404);
     }
 
+    if (check.status === 'cancelled') {
+      return c.json({ error: `This check was cancelled: ${check.cancelReason || 'no reason given'}` }, 409);
+    }
+
+    // Re-submitting would overwrite the recorded result and schedule or escalate a second time
+    if (check.status === 'completed') {
+      return c.json({ error: `This check was already completed on ${check.completedAt?.slice(0, 10) || 'an earlier date'}` }, 409);
+    }
+
     // Get device details to determine next check frequency
     const device = await kv.get(check.deviceId);
     if (!device) {
       return c.json({ error: 'Device not found' }, 404);
     }
 
+    // Devices with a checklist template must submit a result for every item
+    const template = await getChecklistTemplate(device.checklistTemplateId);
+    let checklist = {};
+    if (template) {
+      const { results: checkResults, error: resultsError } = validateCheckResults(template, results);
+      if (resultsError) {
+        return c.json({ error: resultsError }, 400);
+      }
+      checklist = {
+        checklistTemplateId: template.id,
+        checklistTemplateName: template.name,
+        results: checkResults
+      };
+
+      if (outcome === 'passed' && checkResults.some(result => result.result === 'fail')) {
+        return c.json({ error: 'A check with failed checklist items cannot be recorded as passed' }, 400);
+      }
+    }
+
+    let action: any = null;
+    let owner: any = null;
+    if (outcome === 'failed') {
+      const { action: fields, error: actionError } = validateCorrectiveAction(correctiveAction);
+      if (actionError) {
+        return c.json({ error: actionError }, 400);
+      }
+
+      owner = await findUserByEmployeeId(fields.owner);
+      if (!owner) {
+        return c.json({ error: `No user found with employee ID ${fields.owner}` }, 400);
+      }
+
+      action = {
+        id: `${CORRECTIVE_ACTION_PREFIX}${Date.now()}:${Math.random().toString(36).substr(2, 9)}`,
+        checkId,
+        deviceId: check.deviceId,
+        ...fields,
+        status: 'open',
+        createdAt: new Date().toISOString(),
+        createdBy: completedBy
+      };
+    }
+
     const completedAt = new Date().toISOString();
 
     // Update the current check as completed
     const updatedCheck = {
       ...check,
       status: 'completed',
+      outcome,
       completedBy,
       completedAt,
-      comment: comment || ''
+      comment: comment || '',
+      ...checklist,
+      ...(action ? { correctiveActionId: action.id } : {})
     };
 
     await kv.set(checkId, updatedCheck);
@@ -1034,41 +3132,35 @@ app.put(`${BASE_PATH}/checks/:checkId/complete`, async (c) => {
     const updatedDevice = {
       ...device,
       lastCheckedAt: completedAt,
-      lastCheckedBy: completedBy
+      lastCheckedBy: completedBy,
+      lastCheckOutcome: outcome
     };
     await kv.set(check.deviceId, updatedDevice);
 
-    // Calculate next check week based on device's planned frequency
-    const currentDate = new Date();
-    const nextCheckDate = new Date(currentDate);
-    nextCheckDate.setDate(currentDate.getDate() + (device.plannedFrequency * 7));
-
-    const nextYear = nextCheckDate.getFullYear();
-    const nextWeek = getWeekNumber(nextCheckDate);
-
-    // Create next check automatically
-    const nextCheckId = `check:${nextYear}:${nextWeek}:${check.deviceId}`;
-    const nextCheck = {
-      id: nextCheckId,
-      deviceId: check.deviceId,
-      week: nextWeek.toString(),
-      year: nextYear.toString(),
-      status: 'pending',
-      assignedAt: completedAt,
-      assignedBy: 'system' // Automatically assigned by system
-    };
+    if (action) {
+      await kv.set(action.id, action);
+      await addUserNotification(owner, {
+        type: 'corrective_action_assigned',
+        correctiveActionId: action.id,
+        message: `Corrective action for "${device.name}" is due ${action.dueDate}: ${action.description}`
+      });
+
+      return c.json({
+        success: true,
+        check: updatedCheck,
+        correctiveAction: action,
+        nextCheckScheduled: null
+      });
+    }
 
-    await kv.set(nextCheckId, nextCheck);
+    const nextCheckScheduled = getDeviceStatus(device) === 'decommissioned'
+      ? null
+      : await scheduleNextCheck(device, updatedCheck, completedAt);
 
     return c.json({
       success: true,
       check: updatedCheck,
-      nextCheckScheduled: {
-        checkId: nextCheckId,
-        week: nextWeek,
-        year: nextYear,
-        scheduledFor: nextCheckDate.toISOString()
-      }
+      nextCheckScheduled
     });
   } catch (error) {
     console.log('Error completing check:', error);
@@ -1076,26 +3168,209 @@ app.put(`${BASE_PATH}/checks/:checkId/complete`, async (c) => {
   }
 });
 
-// Delayed devices
-app.get(`${BASE_PATH}/delayed-checks`, async (c) => {
+// Attach photos or files to a check. Inspectors upload before completing, so pending checks accept evidence too.
+app.post(`${BASE_PATH}/checks/:checkId/evidence`, async (c) => {
   try {
-    const allChecks = await kv.getByPrefix('check:');
-    const currentDate = new Date();
-    const currentYear = currentDate.getFullYear();
-    const currentWeek = getWeekNumber(currentDate);
+    const checkId = c.req.param('checkId');
+    const check = await kv.get(checkId);
+    if (!check || !checkId.startsWith('check:')) {
+      return c.json({ error: 'Check not found' }, 404);
+    }
+
+    const formData = await c.req.formData();
+    const uploads = formData.getAll('files').filter((entry): entry is File => typeof entry !== 'string');
+    const caller = c.get('caller');
+    // Credit the evidence to the signed-in inspector, never to a name from the form
+    const uploadedBy = caller?.employeeId || caller?.adminUsername || 'system';
+
+    if (uploads.length === 0) {
+      return c.json({ error: 'No files provided' }, 400);
+    }
+
+    if (uploads.length > MAX_EVIDENCE_FILES) {
+      return c.json({ error: `At most ${MAX_EVIDENCE_FILES} files can be uploaded at once` }, 400);
+    }
+
+    for (const file of uploads) {
+      if (!files.EVIDENCE_BUCKET.allowedMimeTypes.includes(file.type)) {
+        return c.json({ error: `${file.name}: only images and PDF files can be attached` }, 400);
+      }
+      if (file.size > files.EVIDENCE_BUCKET.fileSizeLimit) {
+        return c.json({ error: `${file.name}: files are limited to 10MB` }, 400);
+      }
+    }
+
+    // Evidence for a check lives under a folder named after it
+    const folder = checkId.replace(/[^a-z0-9-]/gi, '_');
+    const uploadedAt = new Date().toISOString();
+    const evidence: any[] = [];
+
+    for (const file of uploads) {
+      const evidenceId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const storagePath = `${folder}/${evidenceId}-${file.name.replace(/[^\w.-]/g, '_')}`;
+      const { data, error } = await files.upload(storagePath, file, files.EVIDENCE_BUCKET_NAME);
+
+      if (error || !data) {
+        console.log('Error uploading evidence:', error);
+        // Don't leave half of the batch behind
+        await removeCheckEvidence([{ evidence }]);
+        return c.json({ error: `Failed to upload ${file.name}` }, 500);
+      }
+
+      evidence.push({
+        id: evidenceId,
+        fileName: file.name,
+        contentType: file.type,
+        size: file.size,
+        storagePath: data.path,
+        uploadedBy,
+        uploadedAt
+      });
+    }
+
+    const updatedCheck = { ...check, evidence: [...(check.evidence || []), ...evidence] };
+    await kv.set(checkId, updatedCheck);
+
+    return c.json({ success: true, evidence: updatedCheck.evidence });
+  } catch (error) {
+    console.log('Error uploading check evidence:', error);
+    return c.json({ error: 'Failed to upload evidence' }, 500);
+  }
+});
+
+// List a check's evidence with short-lived download URLs
+app.get(`${BASE_PATH}/checks/:checkId/evidence`, async (c) => {
+  try {
+    const checkId = c.req.param('checkId');
+    const check = await kv.get(checkId);
+    if (!check || !checkId.startsWith('check:')) {
+      return c.json({ error: 'Check not found' }, 404);
+    }
+
+    const evidence = await Promise.all((check.evidence || []).map(async (item: any) => {
+      const { data, error } = await files.createSignedUrl(item.storagePath, 3600, files.EVIDENCE_BUCKET_NAME); // 1 hour expiry
+      if (error) {
+        console.log(`Error creating signed URL for ${item.storagePath}:`, error);
+      }
+      return { ...item, url: data?.signedUrl || null };
+    }));
+
+    return c.json(evidence);
+  } catch (error) {
+    console.log('Error fetching check evidence:', error);
+    return c.json({ error: 'Failed to fetch evidence' }, 500);
+  }
+});
+
+// Corrective actions opened by failed checks, oldest due date first
+app.get(`${BASE_PATH}/corrective-actions`, async (c) => {
+  try {
+    const status = c.req.query('status');
+    const deviceId = c.req.query('deviceId');
+
+    if (status && !['open', 'closed'].includes(status)) {
+      return c.json({ error: 'status must be open or closed' }, 400);
+    }
+
+    const devices = await getAllDevices();
+    const actions = (await kv.getByPrefix(CORRECTIVE_ACTION_PREFIX))
+      .filter(action => (!status || action.status === status) && (!deviceId || action.deviceId === deviceId))
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+      .map(action => ({
+        ...action,
+        deviceName: devices[action.deviceId]?.name || 'Unknown Device',
+        deviceLocation: devices[action.deviceId]?.location || ''
+      }));
+
+    return c.json(actions);
+  } catch (error) {
+    console.log('Error fetching corrective actions:', error);
+    return c.json({ error: 'Failed to fetch corrective actions' }, 500);
+  }
+});
+
+// Closing an action clears the device flag and puts the device back on its regular schedule
+app.put(`${BASE_PATH}/corrective-actions/:actionId/close`, async (c) => {
+  try {
+    const actionId = c.req.param('actionId');
+    const { closureNote } = await c.req.json();
+    const caller = c.get('caller');
+
+    const action = await kv.get(actionId);
+    if (!action || !actionId.startsWith(CORRECTIVE_ACTION_PREFIX)) {
+      return c.json({ error: 'Corrective action not found' }, 404);
+    }
+
+    if (action.status === 'closed') {
+      return c.json({ error: 'Corrective action is already closed' }, 409);
+    }
+
+    if (caller?.role === 'employee' && caller.employeeId !== action.owner) {
+      return c.json({ error: 'Only the action owner or a planner can close this corrective action' }, 403);
+    }
+
+    if (typeof closureNote !== 'string' || !closureNote.trim()) {
+      return c.json({ error: 'Describe the work done in the closure note' }, 400);
+    }
+
+    const closedAt = new Date().toISOString();
+    const closedAction = {
+      ...action,
+      status: 'closed',
+      closureNote: closureNote.trim(),
+      closedAt,
+      closedBy: caller?.employeeId || caller?.adminUsername || 'system'
+    };
+    await kv.set(actionId, closedAction);
+
+    // Only resume the schedule once no other action is holding the device, and never for a decommissioned one
+    const device = await kv.get(action.deviceId);
+    const stillOpen = (await kv.getByPrefix(CORRECTIVE_ACTION_PREFIX))
+      .some(other => other.deviceId === action.deviceId && other.status === 'open' && other.id !== actionId);
 
-    const delayedChecks = allChecks.filter(check => {
-      if (check.status !== 'pending') return false;
+    const nextCheckScheduled = device && !stillOpen && getDeviceStatus(device) !== 'decommissioned'
+      ? await scheduleNextCheck(device, null, closedAt)
+      : null;
 
-      const checkYear = parseInt(check.year);
-      const checkWeek = parseInt(check.week);
+    return c.json({ success: true, correctiveAction: closedAction, nextCheckScheduled });
+  } catch (error) {
+    console.log('Error closing corrective action:', error);
+    return c.json({ error: 'Failed to close corrective action' }, 500);
+  }
+});
 
-      // If check is from previous week or earlier
-      return checkYear < currentYear ||
-        (checkYear === currentYear && checkWeek < currentWeek);
+// Delayed devices
+// Overdue checks joined with their device, optionally filtered (locationId, search), sorted and paged
+app.get(`${BASE_PATH}/delayed-checks`, async (c) => {
+  try {
+    const params = c.req.query();
+    const { query, error: queryError } = parseListQuery(params, {
+      sortKeys: ['daysOverdue', 'scheduledDate', 'deviceName', 'deviceLocation'],
+      defaultSort: 'daysOverdue',
+      defaultOrder: 'desc'
     });
+    if (queryError) {
+      return c.json({ error: queryError }, 400);
+    }
+
+    const [delayedChecks, devices, locations] = await Promise.all([getDelayedChecks(), getAllDevices(), getLocationIndex()]);
+    let checks = delayedChecks.map(check => ({
+      ...check,
+      deviceName: devices[check.deviceId]?.name,
+      deviceLocation: devices[check.deviceId]?.location,
+      deviceIdentificationNumber: devices[check.deviceId]?.identificationNumber
+    }));
 
-    return c.json(delayedChecks);
+    if (params.locationId) {
+      if (!locations.has(params.locationId)) {
+        return c.json({ error: 'Location not found' }, 400);
+      }
+      const subtree = getSubtreeIds(locations, params.locationId);
+      checks = checks.filter(check => subtree.has(devices[check.deviceId]?.locationId));
+    }
+    checks = checks.filter(check => matchesSearch(check, ['deviceName', 'deviceLocation', 'deviceIdentificationNumber'], query.search));
+
+    return c.json(toListResponse(checks, query));
   } catch (error) {
     console.log('Error fetching delayed checks:', error);
     return c.json({ error: 'Failed to fetch delayed checks' }, 500);
@@ -1108,18 +3383,23 @@ app.post(`${BASE_PATH}/documents/upload`, async (c) => {
     const formData = await c.req.formData();
     const file = formData.get('file') as File;
     const assignedTo = formData.get('assignedTo') as string;
-    const uploadedBy = formData.get('uploadedBy') as string;
+    // Signed-in users are always recorded as the uploader; only admin and system callers may name one
+    const caller = c.get('caller');
+    const uploadedBy = caller?.employeeId || (formData.get('uploadedBy') as string);
+    const deviceId = (formData.get('deviceId') as string) || '';
 
     if (!file) {
       return c.json({ error: 'No file provided' }, 400);
     }
 
+    if (deviceId && !(deviceId.startsWith('device:') && await kv.get(deviceId))) {
+      return c.json({ error: 'Device not found', field: 'deviceId' }, 400);
+    }
+
     const fileName = `${Date.now()}-${file.name}`;
 
-    // Upload to Supabase Storage
-    const { data, error } = await supabase.storage
-      .from(BUCKET_NAME)
-      .upload(fileName, file);
+    // Upload to the PDF bucket
+    const { data, error } = await files.upload(fileName, file);
 
     if (error) {
       console.log('Error uploading file:', error);
@@ -1134,6 +3414,7 @@ app.post(`${BASE_PATH}/documents/upload`, async (c) => {
       storagePath: data.path,
       assignedTo,
       uploadedBy,
+      ...(deviceId ? { deviceId } : {}),
       status: 'pending_signature',
       uploadedAt: new Date().toISOString(),
       signatures: [
@@ -1148,32 +3429,13 @@ app.post(`${BASE_PATH}/documents/upload`, async (c) => {
     await kv.set(documentId, document);
 
     // Add notification for assigned user
-    const { data: authData, error: authError } = await supabase.auth.admin.listUsers();
-    if (!authError && authData?.users) {
-      const assignedUser = authData.users.find((u: any) =>
-        u.user_metadata?.employeeId === assignedTo ||
-        (u.email && u.email.split('@')[0] === assignedTo)
-      );
-
-      if (assignedUser) {
-        const notification = {
-          id: `notif:${Date.now()}`,
-          type: 'document_signature_required',
-          documentId,
-          message: `Document "${file.name}" requires your signature`,
-          createdAt: new Date().toISOString(),
-          read: false
-        };
-
-        const existingNotifications = assignedUser.user_metadata?.notifications || [];
-
-        await supabase.auth.admin.updateUserById(assignedUser.id, {
-          user_metadata: {
-            ...assignedUser.user_metadata,
-            notifications: [...existingNotifications, notification]
-          }
-        });
-      }
+    const assignedUser = await findUserByEmployeeId(assignedTo);
+    if (assignedUser) {
+      await addUserNotification(assignedUser, {
+        type: 'document_signature_required',
+        documentId,
+        message: `Document "${file.name}" requires your signature`
+      });
     }
 
     return c.json({ success: true, document });
@@ -1192,9 +3454,7 @@ app.get(`${BASE_PATH}/documents/:documentId/download`, async (c) => {
       return c.json({ error: 'Document not found' }, 404);
     }
 
-    const { data, error } = await supabase.storage
-      .from(BUCKET_NAME)
-      .createSignedUrl(document.storagePath, 3600); // 1 hour expiry
+    const { data, error } = await files.createSignedUrl(document.storagePath, 3600); // 1 hour expiry
 
     if (error) {
       console.log('Error creating signed URL:', error);
@@ -1213,7 +3473,9 @@ app.post(`${BASE_PATH}/documents/:documentId/sign`, async (c) => {
     const documentId = c.req.param('documentId');
     const formData = await c.req.formData();
     const file = formData.get('file') as File;
-    const signedBy = formData.get('signedBy') as string;
+    // The signer is always the signed-in caller; a signedBy form field is ignored
+    const caller = c.get('caller');
+    const signedBy = caller?.employeeId || caller?.adminUsername || 'system';
 
     if (!file) {
       return c.json({ error: 'No file provided' }, 400);
@@ -1224,12 +3486,14 @@ app.post(`${BASE_PATH}/documents/:documentId/sign`, async (c) => {
       return c.json({ error: 'Document not found' }, 404);
     }
 
+    if (caller?.role === 'employee' && caller.employeeId !== document.assignedTo) {
+      return c.json({ error: 'Only the assignee or a planner can sign this document' }, 403);
+    }
+
     // Upload signed version
     const fileName = `signed-${Date.now()}-${file.name}`;
 
-    const { data, error } = await supabase.storage
-      .from(BUCKET_NAME)
-      .upload(fileName, file);
+    const { data, error } = await files.upload(fileName, file);
 
     if (error) {
       console.log('Error uploading signed file:', error);
@@ -1259,6 +3523,70 @@ app.post(`${BASE_PATH}/documents/:documentId/sign`, async (c) => {
   }
 });
 
+// Per-user activity: completed checks, documents signed, uploaded and assigned. Each list is
+// sorted by its activityAt timestamp (newest first) and paged like every other list route.
+app.get(`${BASE_PATH}/user-activity/:employeeId`, async (c) => {
+  try {
+    const employeeId = c.req.param('employeeId');
+    const from = c.req.query('from') || undefined;
+    const to = c.req.query('to') || undefined;
+    const { query, error: queryError } = parseListQuery(c.req.query(), {
+      sortKeys: ['activityAt'],
+      defaultSort: 'activityAt',
+      defaultOrder: 'desc'
+    });
+    if (queryError) {
+      return c.json({ error: queryError }, 400);
+    }
+
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if ((from && !datePattern.test(from)) || (to && !datePattern.test(to))) {
+      return c.json({ error: 'from and to must be dates in YYYY-MM-DD format' }, 400);
+    }
+
+    const [allChecks, allDocuments, devices] = await Promise.all([
+      kv.getByPrefix('check:'),
+      kv.getByPrefix('doc:'),
+      getAllDevices()
+    ]);
+
+    const deviceChecks = allChecks
+      .filter((check: any) => check.status === 'completed' && check.completedBy === employeeId)
+      .filter((check: any) => isWithinDateRange(check.completedAt, from, to))
+      .map((check: any) => ({
+        ...check,
+        deviceName: devices[check.deviceId]?.name || 'Unknown Device',
+        activityAt: check.completedAt
+      }));
+
+    // The uploader's own 'initial' signature does not count as signing the document
+    const documentsSigned = allDocuments
+      .map((doc: any) => {
+        const signature = (doc.signatures || []).find((sig: any) => sig.signedBy === employeeId && sig.type !== 'initial');
+        return signature ? { ...doc, signedAt: signature.signedAt, activityAt: signature.signedAt } : null;
+      })
+      .filter((doc: any) => doc && isWithinDateRange(doc.signedAt, from, to));
+
+    const documentsUploaded = allDocuments
+      .filter((doc: any) => doc.uploadedBy === employeeId && isWithinDateRange(doc.uploadedAt, from, to))
+      .map((doc: any) => ({ ...doc, activityAt: doc.uploadedAt }));
+
+    const documentsAssigned = allDocuments
+      .filter((doc: any) => doc.assignedTo === employeeId && isWithinDateRange(doc.uploadedAt, from, to))
+      .map((doc: any) => ({ ...doc, activityAt: doc.uploadedAt }));
+
+    return c.json({
+      deviceChecks: toListResponse(deviceChecks, query),
+      documentsSigned: toListResponse(documentsSigned, query),
+      documentsUploaded: toListResponse(documentsUploaded, query),
+      documentsAssigned: toListResponse(documentsAssigned, query)
+    });
+  } catch (error) {
+    console.log('Error fetching user activity:', error);
+    return c.json({ error: 'Failed to fetch user activity' }, 500);
+  }
+});
+
 // Notifications
 app.get(`${BASE_PATH}/notifications/:employeeId`, async (c) => {
   try {
@@ -1271,10 +3599,7 @@ app.get(`${BASE_PATH}/notifications/:employeeId`, async (c) => {
       return c.json({ error: 'Failed to fetch user' }, 500);
     }
 
-    const authUser = authData?.users?.find((u: any) =>
-      u.user_metadata?.employeeId === employeeId ||
-      (u.email && u.email.split('@')[0] === employeeId)
-    );
+    const authUser = authData?.users?.find((u: any) => employeeIdForUser(u) === employeeId);
 
     if (!authUser) {
       return c.json({ error: 'User not found' }, 404);
@@ -1290,23 +3615,19 @@ app.get(`${BASE_PATH}/notifications/:employeeId`, async (c) => {
 app.put(`${BASE_PATH}/notifications/:notificationId/read`, async (c) => {
   try {
     const notificationId = c.req.param('notificationId');
+    const caller = c.get('caller');
 
-    // Find user with this notification
+    // Only the caller's own notifications can be marked; anyone else's look like they don't exist
     const { data: authData, error: authError } = await supabase.auth.admin.listUsers();
     if (authError) {
       return c.json({ error: 'Failed to fetch users' }, 500);
     }
 
-    let targetUser = null;
-    for (const user of authData?.users || []) {
-      const notifications = user.user_metadata?.notifications || [];
-      if (notifications.some((n: any) => n.id === notificationId)) {
-        targetUser = user;
-        break;
-      }
-    }
+    const targetUser = caller?.supabaseUserId
+      ? (authData?.users || []).find((user: any) => user.id === caller.supabaseUserId)
+      : null;
 
-    if (!targetUser) {
+    if (!targetUser || !(targetUser.user_metadata?.notifications || []).some((n: any) => n.id === notificationId)) {
       return c.json({ error: 'Notification not found' }, 404);
     }
 
@@ -1344,10 +3665,7 @@ app.put(`${BASE_PATH}/notifications/:employeeId/read-all`, async (c) => {
       return c.json({ error: 'Failed to fetch users' }, 500);
     }
 
-    const authUser = authData?.users?.find((u: any) =>
-      u.user_metadata?.employeeId === employeeId ||
-      (u.email && u.email.split('@')[0] === employeeId)
-    );
+    const authUser = authData?.users?.find((u: any) => employeeIdForUser(u) === employeeId);
 
     if (!authUser) {
       return c.json({ error: 'User not found' }, 404);
@@ -1386,10 +3704,7 @@ app.delete(`${BASE_PATH}/notifications/:employeeId/clear`, async (c) => {
       return c.json({ error: 'Failed to fetch users' }, 500);
     }
 
-    const authUser = authData?.users?.find((u: any) =>
-      u.user_metadata?.employeeId === employeeId ||
-      (u.email && u.email.split('@')[0] === employeeId)
-    );
+    const authUser = authData?.users?.find((u: any) => employeeIdForUser(u) === employeeId);
 
     if (!authUser) {
       return c.json({ error: 'User not found' }, 404);
@@ -1489,7 +3804,7 @@ app.post(`${BASE_PATH}/vercel-cron-delayed-notifications`, async (c) => {
     }
 
     const selectedEmployees = authData?.users?.filter((u: any) =>
-      notificationSettings.selectedEmployees.includes(u.user_metadata?.employeeId)
+      notificationSettings.selectedEmployees.includes(employeeIdForUser(u))
     ) || [];
 
     if (selectedEmployees.length === 0) {
@@ -1502,8 +3817,7 @@ app.post(`${BASE_PATH}/vercel-cron-delayed-notifications`, async (c) => {
       recipients: selectedEmployees.map((emp: any) => emp.email),
       delayedChecks: delayedChecks.map(check => ({
         ...check,
-        device: devices[check.deviceId],
-        daysOverdue: Math.floor((Date.now() - new Date(check.scheduledDate).getTime()) / (1000 * 60 * 60 * 24))
+        device: devices[check.deviceId]
       }))
     };
 
@@ -1582,15 +3896,24 @@ app.delete(`${BASE_PATH}/clear-all-data`, async (c) => {
       }
     }
 
-    // Delete all devices
+    // Delete all devices and their identification number index
     for (const device of allDevices) {
       await kv.del(device.id);
     }
+    const identRows = await kv.getByPrefixWithKeys(DEVICE_IDENT_PREFIX);
+    if (identRows.length > 0) {
+      await kv.mdel(identRows.map(row => row.key));
+    }
 
-    // Delete all checks
+    // Delete all checks, their evidence and corrective actions
     for (const check of allChecks) {
       await kv.del(check.id);
     }
+    await removeCheckEvidence(allChecks);
+    const actionRows = await kv.getByPrefixWithKeys(CORRECTIVE_ACTION_PREFIX);
+    if (actionRows.length > 0) {
+      await kv.mdel(actionRows.map(row => row.key));
+    }
 
     // Delete all documents and their physical files
     let deletedFiles = 0;
@@ -1600,9 +3923,7 @@ app.delete(`${BASE_PATH}/clear-all-data`, async (c) => {
       // Delete physical file from storage if it exists
       if (document.storagePath) {
         try {
-          const { error: storageError } = await supabase.storage
-            .from(BUCKET_NAME)
-            .remove([document.storagePath]);
+          const { error: storageError } = await files.remove([document.storagePath]);
 
           if (storageError) {
             console.log(`Failed to delete file ${document.storagePath}:`, storageError);
@@ -1692,6 +4013,7 @@ app.delete(`${BASE_PATH}/cleanup-sample-data`, async (c) => {
       if (device?.identificationNumber && sampleDeviceIds.has(device.identificationNumber)) {
         removedDeviceIds.add(row.value.id || row.key);
         await kv.del(row.key);
+        await kv.del(deviceIdentKey(device.identificationNumber));
         deleted.devices.push(row.key);
       }
     }
@@ -1706,6 +4028,14 @@ app.delete(`${BASE_PATH}/cleanup-sample-data`, async (c) => {
       }
     }
 
+    // Cleanup corrective actions raised against removed devices
+    const actionsWithKeys = await kv.getByPrefixWithKeys(CORRECTIVE_ACTION_PREFIX);
+    for (const row of actionsWithKeys) {
+      if (row.value?.deviceId && removedDeviceIds.has(row.value.deviceId)) {
+        await kv.del(row.key);
+      }
+    }
+
     // Cleanup plans linked to removed devices
     const plansWithKeys = await kv.getByPrefixWithKeys('plan:');
     for (const row of plansWithKeys) {
@@ -1736,24 +4066,21 @@ app.delete(`${BASE_PATH}/cleanup-sample-data`, async (c) => {
   }
 });
 
-// Helper function to get delayed checks
+// Helper function to get delayed checks, each with its due date and days overdue filled in
 async function getDelayedChecks() {
   const allChecks = await kv.getByPrefix('check:');
-  const currentDate = new Date();
-  const currentYear = currentDate.getFullYear();
-  const currentWeek = getWeekNumber(currentDate);
-
-  return allChecks.filter(check => {
-    if (check.status !== 'pending') return false;
+  const now = new Date();
 
-    const checkYear = parseInt(check.year);
-    const checkWeek = parseInt(check.week);
+  return allChecks
+    .filter(check => isCheckOverdue(check, now))
+    .map(check => ({
+      ...check,
+      scheduledDate: getCheckScheduledDate(check).toISOString(),
+      daysOverdue: getDaysOverdue(check, now)
+    }));
+}
 
-    // If check is from previous week or earlier
-    return checkYear < currentYear ||
-      (checkYear === currentYear && checkWeek < currentWeek);
-  });
-}// Helper function to get all devices
+// Helper function to get all devices
 async function getAllDevices() {
   const deviceList = await kv.getByPrefix('device:');
   const devicesMap: { [key: string]: any } = {};
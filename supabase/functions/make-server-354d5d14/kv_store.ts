@@ -26,101 +26,191 @@ const PREVENT_AUTO_SEED = (getEnv('PREVENT_AUTO_SEED') || '').toLowerCase() ===
 const sampleEmployeePattern = /^EMP0\d+$/i;
 const sampleDeviceIds = new Set(['HP-001', 'CBS-002', 'CNC-003', 'COMP-004', 'WS-005']);
 
-// Set stores a key-value pair in the database.
-export const set = async (key: string, value: any): Promise<void> => {
-  const supabase = client();
+// Storage backend behind the exported helpers. The Supabase table is the default;
+// STORAGE_BACKEND=memory (or setKvBackend) swaps in an in-process map so the edge
+// function can run against fixtures without a live project.
+export interface KvBackend {
+  get(key: string): Promise<any>;
+  set(key: string, value: any): Promise<void>;
+  del(key: string): Promise<void>;
+  mset(keys: string[], values: any[]): Promise<void>;
+  mget(keys: string[]): Promise<any[]>;
+  mdel(keys: string[]): Promise<void>;
+  getByPrefixWithKeys(prefix: string): Promise<Array<{ key: string; value: any }>>;
+}
+
+export const supabaseKvBackend: KvBackend = {
+  async get(key) {
+    const supabase = client();
+    const { data, error } = await supabase.from(KV_TABLE as any).select("value").eq("key", key).maybeSingle();
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data?.value;
+  },
+
+  async set(key, value) {
+    const supabase = client();
+    const { error } = await supabase.from(KV_TABLE as any).upsert({ key, value });
+    if (error) {
+      throw new Error(error.message);
+    }
+  },
+
+  async del(key) {
+    const supabase = client();
+    const { error } = await supabase.from(KV_TABLE as any).delete().eq("key", key);
+    if (error) {
+      throw new Error(error.message);
+    }
+  },
+
+  async mset(keys, values) {
+    const supabase = client();
+    const { error } = await supabase.from(KV_TABLE as any).upsert(keys.map((k, i) => ({ key: k, value: values[i] })));
+    if (error) {
+      throw new Error(error.message);
+    }
+  },
+
+  async mget(keys) {
+    const supabase = client();
+    const { data, error } = await supabase.from(KV_TABLE as any).select("value").in("key", keys);
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data as Array<{ value: any }> | undefined)?.map((d) => d.value) ?? [];
+  },
+
+  async mdel(keys) {
+    const supabase = client();
+    const { error } = await supabase.from(KV_TABLE as any).delete().in("key", keys);
+    if (error) {
+      throw new Error(error.message);
+    }
+  },
+
+  async getByPrefixWithKeys(prefix) {
+    const supabase = client();
+    const { data, error } = await supabase.from(KV_TABLE as any).select("key, value").like("key", prefix + "%");
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data as Array<{ key: string; value: any }> | undefined) ?? [];
+  },
+};
+
+// Values are copied on the way in and out, like a JSONB round trip, so callers
+// cannot mutate stored rows by holding on to a returned object.
+const copy = (value: any) => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)));
+
+export interface MemoryKvBackend extends KvBackend {
+  // Snapshot of every stored row, for assertions in tests
+  dump(): Record<string, any>;
+}
+
+export const createMemoryKvBackend = (fixtures: Record<string, any> = {}): MemoryKvBackend => {
+  const rows = new Map<string, any>(Object.entries(fixtures).map(([key, value]) => [key, copy(value)]));
+
+  return {
+    async get(key) {
+      return copy(rows.get(key));
+    },
+    async set(key, value) {
+      rows.set(key, copy(value));
+    },
+    async del(key) {
+      rows.delete(key);
+    },
+    async mset(keys, values) {
+      keys.forEach((key, i) => rows.set(key, copy(values[i])));
+    },
+    async mget(keys) {
+      return keys.filter((key) => rows.has(key)).map((key) => copy(rows.get(key)));
+    },
+    async mdel(keys) {
+      keys.forEach((key) => rows.delete(key));
+    },
+    async getByPrefixWithKeys(prefix) {
+      return Array.from(rows.entries())
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, value]) => ({ key, value: copy(value) }));
+    },
+    dump() {
+      return Object.fromEntries(Array.from(rows.entries()).map(([key, value]) => [key, copy(value)]));
+    },
+  };
+};
+
+let backend: KvBackend = (getEnv('STORAGE_BACKEND') || '').toLowerCase() === 'memory'
+  ? createMemoryKvBackend()
+  : supabaseKvBackend;
+
+// Replaces the active backend, e.g. with createMemoryKvBackend(fixtures) in a test harness.
+export const setKvBackend = (next: KvBackend): void => {
+  backend = next;
+};
+
+export const getKvBackend = (): KvBackend => backend;
+
+// True when PREVENT_AUTO_SEED is on and the row is one of the built-in sample users or devices.
+const isBlockedSampleSeed = (key: string, value: any): boolean => {
+  if (!PREVENT_AUTO_SEED) return false;
   try {
-    if (PREVENT_AUTO_SEED) {
-      if (key.startsWith('user:')) {
-        const emp = value?.employeeId || key.replace(/^user:/, '');
-        if (emp && sampleEmployeePattern.test(emp)) {
-          console.log('[kv_store] PREVENT_AUTO_SEED active; skipping sample user insert:', key);
-          return;
-        }
+    if (key.startsWith('user:')) {
+      const emp = value?.employeeId || key.replace(/^user:/, '');
+      if (emp && sampleEmployeePattern.test(emp)) {
+        console.log('[kv_store] PREVENT_AUTO_SEED active; skipping sample user insert:', key);
+        return true;
       }
+    }
 
-      if (key.startsWith('device:')) {
-        const ident = value?.identificationNumber;
-        if (ident && sampleDeviceIds.has(ident)) {
-          console.log('[kv_store] PREVENT_AUTO_SEED active; skipping sample device insert:', key, ident);
-          return;
-        }
+    if (key.startsWith('device:')) {
+      const ident = value?.identificationNumber;
+      if (ident && sampleDeviceIds.has(ident)) {
+        console.log('[kv_store] PREVENT_AUTO_SEED active; skipping sample device insert:', key, ident);
+        return true;
       }
     }
   } catch (guardErr) {
     console.log('Error in PREVENT_AUTO_SEED guard:', guardErr);
   }
+  return false;
+};
 
-  const { error } = await supabase.from(KV_TABLE as any).upsert({ key, value });
-  if (error) {
-    throw new Error(error.message);
-  }
+// Set stores a key-value pair in the database.
+export const set = async (key: string, value: any): Promise<void> => {
+  if (isBlockedSampleSeed(key, value)) return;
+  await backend.set(key, value);
 };
 
 // Get retrieves a key-value pair from the database.
-export const get = async (key: string): Promise<any> => {
-  const supabase = client();
-  const { data, error } = await supabase.from(KV_TABLE as any).select("value").eq("key", key).maybeSingle();
-  if (error) {
-    throw new Error(error.message);
-  }
-  return data?.value;
-};
+export const get = async (key: string): Promise<any> => backend.get(key);
 
 // Delete deletes a key-value pair from the database.
-export const del = async (key: string): Promise<void> => {
-  const supabase = client();
-  const { error } = await supabase.from(KV_TABLE as any).delete().eq("key", key);
-  if (error) {
-    throw new Error(error.message);
-  }
-};
+export const del = async (key: string): Promise<void> => backend.del(key);
 
 // Sets multiple key-value pairs in the database.
+// Sample rows are dropped with the same guard as set; the rest are still written together.
 export const mset = async (keys: string[], values: any[]): Promise<void> => {
-  const supabase = client();
-  const { error } = await supabase.from(KV_TABLE as any).upsert(keys.map((k, i) => ({ key: k, value: values[i] })));
-  if (error) {
-    throw new Error(error.message);
-  }
+  const kept = keys.map((key, i) => ({ key, value: values[i] })).filter(({ key, value }) => !isBlockedSampleSeed(key, value));
+  if (kept.length === 0) return;
+  await backend.mset(kept.map(({ key }) => key), kept.map(({ value }) => value));
 };
 
 // Gets multiple key-value pairs from the database.
-export const mget = async (keys: string[]): Promise<any[]> => {
-  const supabase = client();
-  const { data, error } = await supabase.from(KV_TABLE as any).select("value").in("key", keys);
-  if (error) {
-    throw new Error(error.message);
-  }
-  return (data as Array<{ value: any }> | undefined)?.map((d) => d.value) ?? [];
-};
+export const mget = async (keys: string[]): Promise<any[]> => backend.mget(keys);
 
 // Deletes multiple key-value pairs from the database.
-export const mdel = async (keys: string[]): Promise<void> => {
-  const supabase = client();
-  const { error } = await supabase.from(KV_TABLE as any).delete().in("key", keys);
-  if (error) {
-    throw new Error(error.message);
-  }
-};
+export const mdel = async (keys: string[]): Promise<void> => backend.mdel(keys);
 
 // Search for key-value pairs by prefix.
 export const getByPrefix = async (prefix: string): Promise<any[]> => {
-  const supabase = client();
-  const { data, error } = await supabase.from(KV_TABLE as any).select("key, value").like("key", prefix + "%");
-  if (error) {
-    throw new Error(error.message);
-  }
+  const rows = await backend.getByPrefixWithKeys(prefix);
   // Return only values for compatibility with existing callers
-  return (data as Array<{ key: string; value: any }> | undefined)?.map((d) => d.value) ?? [];
+  return rows.map((d) => d.value);
 };
 
 // Returns both key and value for callers that need to delete by exact key name
-export const getByPrefixWithKeys = async (prefix: string): Promise<Array<{ key: string; value: any }>> => {
-  const supabase = client();
-  const { data, error } = await supabase.from(KV_TABLE as any).select("key, value").like("key", prefix + "%");
-  if (error) {
-    throw new Error(error.message);
-  }
-  return (data as Array<{ key: string; value: any }> | undefined) ?? [];
-};
\ No newline at end of file
+export const getByPrefixWithKeys = async (prefix: string): Promise<Array<{ key: string; value: any }>> =>
+  backend.getByPrefixWithKeys(prefix);
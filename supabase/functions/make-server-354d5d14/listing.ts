@@ -0,0 +1,112 @@
+// Shared helpers for list endpoints: query parsing, filtering, sorting and offset pagination.
+// Routes stay backward compatible: without a page parameter they return the plain filtered
+// and sorted array; with one they return a Page envelope.
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListQuery {
+  // null when the caller did not ask for a page
+  page: number | null;
+  pageSize: number;
+  sort: string;
+  order: SortOrder;
+  search: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+interface ListQueryOptions {
+  sortKeys: string[];
+  defaultSort: string;
+  defaultOrder?: SortOrder;
+}
+
+// Validates page, pageSize, sort, order and search; unknown sort keys are rejected rather than ignored
+export function parseListQuery(query: Record<string, string | undefined>, options: ListQueryOptions): { query: ListQuery; error?: string } {
+  const parsed: ListQuery = {
+    page: null,
+    pageSize: DEFAULT_PAGE_SIZE,
+    sort: options.defaultSort,
+    order: options.defaultOrder || 'asc',
+    search: (query.search || '').trim().toLowerCase()
+  };
+
+  if (query.page !== undefined) {
+    const page = Number(query.page);
+    if (!Number.isInteger(page) || page < 1) {
+      return { query: parsed, error: 'page must be a whole number of at least 1' };
+    }
+    parsed.page = page;
+  }
+
+  if (query.pageSize !== undefined) {
+    const pageSize = Number(query.pageSize);
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return { query: parsed, error: `pageSize must be between 1 and ${MAX_PAGE_SIZE}` };
+    }
+    parsed.pageSize = pageSize;
+    // Asking for a page size implies paging from the first page
+    if (parsed.page === null) parsed.page = 1;
+  }
+
+  if (query.sort !== undefined) {
+    if (!options.sortKeys.includes(query.sort)) {
+      return { query: parsed, error: `sort must be one of ${options.sortKeys.join(', ')}` };
+    }
+    parsed.sort = query.sort;
+  }
+
+  if (query.order !== undefined) {
+    if (query.order !== 'asc' && query.order !== 'desc') {
+      return { query: parsed, error: 'order must be asc or desc' };
+    }
+    parsed.order = query.order;
+  }
+
+  return { query: parsed };
+}
+
+// Case-insensitive substring match of an already lower-cased term against the given fields
+export function matchesSearch(item: any, fields: string[], search: string): boolean {
+  if (!search) return true;
+  return fields.some(field => String(item[field] ?? '').toLowerCase().includes(search));
+}
+
+// Sorts a copy; numbers compare numerically, everything else as strings, missing values last
+export function sortItems<T>(items: T[], key: string, order: SortOrder): T[] {
+  const direction = order === 'desc' ? -1 : 1;
+  return [...items].sort((a: any, b: any) => {
+    const left = a[key];
+    const right = b[key];
+    if (left === undefined || left === null) return right === undefined || right === null ? 0 : 1;
+    if (right === undefined || right === null) return -1;
+    if (typeof left === 'number' && typeof right === 'number') return (left - right) * direction;
+    return String(left).localeCompare(String(right), undefined, { numeric: true }) * direction;
+  });
+}
+
+export function paginate<T>(items: T[], page: number, pageSize: number): Page<T> {
+  const start = (page - 1) * pageSize;
+  return {
+    items: items.slice(start, start + pageSize),
+    total: items.length,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(items.length / pageSize))
+  };
+}
+
+// Final step of every list route: sort, then page only if a page was requested
+export function toListResponse<T>(items: T[], query: ListQuery): T[] | Page<T> {
+  const sorted = sortItems(items, query.sort, query.order);
+  return query.page === null ? sorted : paginate(sorted, query.page, query.pageSize);
+}
@@ -0,0 +1,86 @@
+// Managed location tree: sites contain buildings, buildings contain areas.
+// Devices reference a node by id and carry its path ("Site / Building / Area") as a display label.
+// Helpers here are pure so filters and reports can roll up by any level.
+
+export const LOCATION_PREFIX = 'location:';
+
+export const LOCATION_TYPES = ['site', 'building', 'area'] as const;
+export type LocationType = typeof LOCATION_TYPES[number];
+
+// The type a node's parent must have; sites are roots
+export const PARENT_TYPE: Record<LocationType, LocationType | null> = {
+  site: null,
+  building: 'site',
+  area: 'building'
+};
+
+export const LOCATION_PATH_SEPARATOR = ' / ';
+
+export interface LocationRecord {
+  id: string;
+  name: string;
+  type: LocationType;
+  parentId: string | null;
+  createdAt: string;
+  createdBy: string;
+  updatedAt?: string;
+}
+
+export type LocationIndex = Map<string, LocationRecord>;
+
+export function indexLocations(locations: LocationRecord[]): LocationIndex {
+  return new Map(locations.map(location => [location.id, location]));
+}
+
+// Nodes from the site down to the given location; empty when the id is unknown
+export function getLocationAncestry(index: LocationIndex, locationId: string): LocationRecord[] {
+  const chain: LocationRecord[] = [];
+  let current = index.get(locationId);
+  // The depth bound guards against a corrupted parent cycle
+  while (current && chain.length < LOCATION_TYPES.length) {
+    chain.unshift(current);
+    current = current.parentId ? index.get(current.parentId) : undefined;
+  }
+  return chain;
+}
+
+export function formatLocationPath(index: LocationIndex, locationId: string): string {
+  return getLocationAncestry(index, locationId).map(location => location.name).join(LOCATION_PATH_SEPARATOR);
+}
+
+// The location itself plus everything beneath it
+export function getSubtreeIds(index: LocationIndex, locationId: string): Set<string> {
+  const ids = new Set([locationId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const location of index.values()) {
+      if (location.parentId && ids.has(location.parentId) && !ids.has(location.id)) {
+        ids.add(location.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+// Label used when rolling up to a level; locations above that level keep their own path
+export function getRollupPath(index: LocationIndex, locationId: string, level: LocationType): string {
+  const chain = getLocationAncestry(index, locationId);
+  const depth = LOCATION_TYPES.indexOf(level) + 1;
+  return chain.slice(0, depth).map(location => location.name).join(LOCATION_PATH_SEPARATOR);
+}
+
+// Resolves a typed path such as "Main Site / Building 1 / Hall A" (case-insensitive). A bare
+// name also resolves when exactly one location has it, which covers single-level CSV columns.
+export function findLocationByPath(index: LocationIndex, path: string): LocationRecord | null {
+  const wanted = path.split('/').map(part => part.trim().toLowerCase()).filter(Boolean).join(LOCATION_PATH_SEPARATOR);
+  if (!wanted) return null;
+
+  const locations = [...index.values()];
+  const exact = locations.find(location => formatLocationPath(index, location.id).toLowerCase() === wanted);
+  if (exact) return exact;
+
+  const byName = locations.filter(location => location.name.trim().toLowerCase() === wanted);
+  return byName.length === 1 ? byName[0] : null;
+}
@@ -0,0 +1,293 @@
+-- Migration to create the relational schema next to the KV table
+-- Devices, checks, weekly plans, documents and notifications get proper tables with
+-- foreign keys and indexes. Existing rows are converted from kv_store_354d5d14 (and
+-- from auth.users metadata for notifications), and triggers keep the tables in step
+-- with every later KV write so reporting queries can use them directly.
+-- Ids keep their KV keys (e.g. 'device:1727...:abc') so both stores agree on identity.
+
+CREATE TABLE IF NOT EXISTS "devices" (
+  id TEXT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  identification_number TEXT NOT NULL,
+  location TEXT NOT NULL DEFAULT '',
+  planned_frequency INTEGER NOT NULL DEFAULT 1 CHECK (planned_frequency > 0),
+  plan_comment TEXT NOT NULL DEFAULT '',
+  status TEXT NOT NULL DEFAULT 'active',
+  last_checked_at TIMESTAMPTZ,
+  last_checked_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS "idx_devices_identification_number" ON "devices" (identification_number);
+CREATE INDEX IF NOT EXISTS "idx_devices_location" ON "devices" (location);
+
+CREATE TABLE IF NOT EXISTS "weekly_plans" (
+  id TEXT NOT NULL PRIMARY KEY,
+  year INTEGER NOT NULL,
+  week INTEGER NOT NULL CHECK (week BETWEEN 1 AND 53),
+  assigned_by TEXT,
+  status TEXT NOT NULL DEFAULT 'planned',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (year, week)
+);
+
+CREATE TABLE IF NOT EXISTS "checks" (
+  id TEXT NOT NULL PRIMARY KEY,
+  device_id TEXT NOT NULL REFERENCES "devices" (id) ON DELETE CASCADE,
+  plan_id TEXT REFERENCES "weekly_plans" (id) ON DELETE SET NULL,
+  year INTEGER NOT NULL,
+  week INTEGER NOT NULL CHECK (week BETWEEN 1 AND 53),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'delayed')),
+  scheduled_date TIMESTAMPTZ NOT NULL,
+  assigned_at TIMESTAMPTZ,
+  assigned_by TEXT,
+  completed_at TIMESTAMPTZ,
+  completed_by TEXT,
+  comment TEXT NOT NULL DEFAULT '',
+  UNIQUE (device_id, year, week)
+);
+
+-- /delayed-checks scans pending checks by due date, the annual report by year,
+-- and /devices/:deviceId/last-check wants the newest completed check per device
+CREATE INDEX IF NOT EXISTS "idx_checks_status_scheduled_date" ON "checks" (status, scheduled_date);
+CREATE INDEX IF NOT EXISTS "idx_checks_year_week" ON "checks" (year, week);
+CREATE INDEX IF NOT EXISTS "idx_checks_device_completed_at" ON "checks" (device_id, completed_at DESC);
+CREATE INDEX IF NOT EXISTS "idx_checks_completed_by" ON "checks" (completed_by);
+
+CREATE TABLE IF NOT EXISTS "documents" (
+  id TEXT NOT NULL PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  assigned_to TEXT,
+  uploaded_by TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending_signature' CHECK (status IN ('pending_signature', 'completed')),
+  uploaded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_documents_assigned_to" ON "documents" (assigned_to);
+CREATE INDEX IF NOT EXISTS "idx_documents_uploaded_by" ON "documents" (uploaded_by);
+
+CREATE TABLE IF NOT EXISTS "document_signatures" (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES "documents" (id) ON DELETE CASCADE,
+  signed_by TEXT NOT NULL,
+  signed_at TIMESTAMPTZ NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('initial', 'secondary'))
+);
+
+CREATE INDEX IF NOT EXISTS "idx_document_signatures_document_id" ON "document_signatures" (document_id);
+CREATE INDEX IF NOT EXISTS "idx_document_signatures_signed_by" ON "document_signatures" (signed_by);
+
+CREATE TABLE IF NOT EXISTS "notifications" (
+  id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  message TEXT NOT NULL,
+  document_id TEXT REFERENCES "documents" (id) ON DELETE SET NULL,
+  read BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS "idx_notifications_user_unread" ON "notifications" (user_id, read, created_at DESC);
+
+-- Only the service role (which bypasses RLS) touches these tables; the frontend goes through the edge function
+ALTER TABLE "devices" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "weekly_plans" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "checks" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "documents" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "document_signatures" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "notifications" ENABLE ROW LEVEL SECURITY;
+
+-- Lenient casts: KV values are free-form JSON, so malformed fields become NULL instead of aborting the migration
+CREATE OR REPLACE FUNCTION "kv_int"(raw TEXT) RETURNS INTEGER
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE WHEN raw ~ '^\s*\d+\s*$' THEN trim(raw)::INTEGER END
+$$;
+
+CREATE OR REPLACE FUNCTION "kv_timestamp"(raw TEXT) RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql IMMUTABLE AS $$
+BEGIN
+  RETURN NULLIF(raw, '')::TIMESTAMPTZ;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END $$;
+
+-- Writes one KV row into the relational tables. Keys without a relational counterpart
+-- (admin accounts, notification settings, ...) are ignored.
+CREATE OR REPLACE FUNCTION "kv_upsert_relational"(p_key TEXT, p_value JSONB) RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_year INTEGER;
+  v_week INTEGER;
+BEGIN
+  IF p_key LIKE 'device:%' THEN
+    INSERT INTO "devices" AS d (id, name, identification_number, location, planned_frequency, plan_comment,
+                                status, last_checked_at, last_checked_by, created_at, updated_at)
+    VALUES (
+      p_key,
+      COALESCE(p_value->>'name', ''),
+      COALESCE(p_value->>'identificationNumber', ''),
+      COALESCE(p_value->>'location', ''),
+      GREATEST(COALESCE(kv_int(p_value->>'plannedFrequency'), 1), 1),
+      COALESCE(p_value->>'planComment', ''),
+      COALESCE(p_value->>'status', 'active'),
+      kv_timestamp(p_value->>'lastCheckedAt'),
+      p_value->>'lastCheckedBy',
+      COALESCE(kv_timestamp(p_value->>'createdAt'), now()),
+      kv_timestamp(p_value->>'updatedAt')
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      name = EXCLUDED.name,
+      identification_number = EXCLUDED.identification_number,
+      location = EXCLUDED.location,
+      planned_frequency = EXCLUDED.planned_frequency,
+      plan_comment = EXCLUDED.plan_comment,
+      status = EXCLUDED.status,
+      last_checked_at = EXCLUDED.last_checked_at,
+      last_checked_by = EXCLUDED.last_checked_by,
+      updated_at = EXCLUDED.updated_at;
+
+  ELSIF p_key LIKE 'plan:%' THEN
+    v_year := kv_int(p_value->>'year');
+    v_week := kv_int(p_value->>'week');
+    IF v_year IS NULL OR v_week IS NULL THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO "weekly_plans" (id, year, week, assigned_by, status, created_at)
+    VALUES (p_key, v_year, v_week, p_value->>'assignedBy', COALESCE(p_value->>'status', 'planned'),
+            COALESCE(kv_timestamp(p_value->>'createdAt'), now()))
+    ON CONFLICT (id) DO UPDATE SET
+      assigned_by = EXCLUDED.assigned_by,
+      status = EXCLUDED.status;
+
+  ELSIF p_key LIKE 'check:%' THEN
+    v_year := kv_int(p_value->>'year');
+    v_week := kv_int(p_value->>'week');
+    -- Checks for devices that no longer exist are orphans in the KV store; skip them
+    IF v_year IS NULL OR v_week IS NULL
+       OR NOT EXISTS (SELECT 1 FROM "devices" WHERE id = p_value->>'deviceId') THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO "checks" (id, device_id, plan_id, year, week, status, scheduled_date, assigned_at,
+                          assigned_by, completed_at, completed_by, comment)
+    VALUES (
+      p_key,
+      p_value->>'deviceId',
+      (SELECT id FROM "weekly_plans" WHERE year = v_year AND week = v_week),
+      v_year,
+      v_week,
+      CASE WHEN p_value->>'status' IN ('pending', 'completed', 'delayed') THEN p_value->>'status' ELSE 'pending' END,
+      COALESCE(kv_timestamp(p_value->>'scheduledDate'), to_date(v_year || '-' || v_week, 'IYYY-IW')::TIMESTAMPTZ),
+      kv_timestamp(p_value->>'assignedAt'),
+      p_value->>'assignedBy',
+      kv_timestamp(p_value->>'completedAt'),
+      p_value->>'completedBy',
+      COALESCE(p_value->>'comment', '')
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      plan_id = EXCLUDED.plan_id,
+      status = EXCLUDED.status,
+      scheduled_date = EXCLUDED.scheduled_date,
+      assigned_at = EXCLUDED.assigned_at,
+      assigned_by = EXCLUDED.assigned_by,
+      completed_at = EXCLUDED.completed_at,
+      completed_by = EXCLUDED.completed_by,
+      comment = EXCLUDED.comment;
+
+  ELSIF p_key LIKE 'doc:%' THEN
+    INSERT INTO "documents" (id, file_name, storage_path, assigned_to, uploaded_by, status, uploaded_at)
+    VALUES (
+      p_key,
+      COALESCE(p_value->>'fileName', ''),
+      COALESCE(p_value->>'storagePath', ''),
+      p_value->>'assignedTo',
+      COALESCE(p_value->>'uploadedBy', ''),
+      CASE WHEN p_value->>'status' = 'completed' THEN 'completed' ELSE 'pending_signature' END,
+      COALESCE(kv_timestamp(p_value->>'uploadedAt'), now())
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      file_name = EXCLUDED.file_name,
+      storage_path = EXCLUDED.storage_path,
+      assigned_to = EXCLUDED.assigned_to,
+      status = EXCLUDED.status;
+
+    -- Signatures are append-only in the KV document, so replace them wholesale
+    DELETE FROM "document_signatures" WHERE document_id = p_key;
+    INSERT INTO "document_signatures" (document_id, signed_by, signed_at, type)
+    SELECT p_key, sig->>'signedBy', COALESCE(kv_timestamp(sig->>'signedAt'), now()),
+           CASE WHEN sig->>'type' = 'initial' THEN 'initial' ELSE 'secondary' END
+    FROM jsonb_array_elements(COALESCE(p_value->'signatures', '[]'::JSONB)) AS sig
+    WHERE sig->>'signedBy' IS NOT NULL;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION "kv_delete_relational"(p_key TEXT) RETURNS VOID
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF p_key LIKE 'device:%' THEN
+    DELETE FROM "devices" WHERE id = p_key;
+  ELSIF p_key LIKE 'plan:%' THEN
+    DELETE FROM "weekly_plans" WHERE id = p_key;
+  ELSIF p_key LIKE 'check:%' THEN
+    DELETE FROM "checks" WHERE id = p_key;
+  ELSIF p_key LIKE 'doc:%' THEN
+    DELETE FROM "documents" WHERE id = p_key;
+  END IF;
+END $$;
+
+-- Notifications are stored in each user's metadata; mirror them per user
+CREATE OR REPLACE FUNCTION "sync_user_notifications"(p_user_id UUID, p_metadata JSONB) RETURNS VOID
+LANGUAGE plpgsql AS $$
+BEGIN
+  DELETE FROM "notifications" WHERE user_id = p_user_id;
+  INSERT INTO "notifications" (id, user_id, type, message, document_id, read, created_at)
+  SELECT DISTINCT ON (n->>'id')
+         n->>'id', p_user_id, COALESCE(n->>'type', 'general'), COALESCE(n->>'message', ''),
+         (SELECT id FROM "documents" WHERE id = n->>'documentId'),
+         COALESCE((n->>'read')::BOOLEAN, false),
+         COALESCE(kv_timestamp(n->>'createdAt'), now())
+  FROM jsonb_array_elements(COALESCE(p_metadata->'notifications', '[]'::JSONB)) AS n
+  WHERE n->>'id' IS NOT NULL;
+END $$;
+
+-- Convert existing rows: devices and plans first so checks can reference them
+SELECT kv_upsert_relational(key, value) FROM "kv_store_354d5d14" WHERE key LIKE 'device:%';
+SELECT kv_upsert_relational(key, value) FROM "kv_store_354d5d14" WHERE key LIKE 'plan:%';
+SELECT kv_upsert_relational(key, value) FROM "kv_store_354d5d14" WHERE key LIKE 'check:%';
+SELECT kv_upsert_relational(key, value) FROM "kv_store_354d5d14" WHERE key LIKE 'doc:%';
+SELECT sync_user_notifications(id, raw_user_meta_data) FROM auth.users;
+
+-- Keep the relational tables current while the edge function writes through the KV store
+CREATE OR REPLACE FUNCTION "kv_store_354d5d14_sync"() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM kv_delete_relational(OLD.key);
+    RETURN OLD;
+  END IF;
+  PERFORM kv_upsert_relational(NEW.key, NEW.value);
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS "kv_store_354d5d14_sync" ON "kv_store_354d5d14";
+CREATE TRIGGER "kv_store_354d5d14_sync"
+  AFTER INSERT OR UPDATE OR DELETE ON "kv_store_354d5d14"
+  FOR EACH ROW EXECUTE FUNCTION "kv_store_354d5d14_sync"();
+
+CREATE OR REPLACE FUNCTION "auth_users_notifications_sync"() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NEW.raw_user_meta_data->'notifications' IS DISTINCT FROM OLD.raw_user_meta_data->'notifications' THEN
+    PERFORM sync_user_notifications(NEW.id, NEW.raw_user_meta_data);
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS "auth_users_notifications_sync" ON auth.users;
+CREATE TRIGGER "auth_users_notifications_sync"
+  AFTER UPDATE ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION "auth_users_notifications_sync"();
@@ -0,0 +1,36 @@
+-- Migration to enforce unique device identification numbers
+-- The edge function keeps a 'device-ident:<lower(trimmed id)>' KV row per device and answers 409
+-- when a create or update would reuse a number. This backfills those rows for existing devices
+-- (the oldest device keeps a number that is already duplicated) and adds the matching unique
+-- index on the relational devices table.
+
+INSERT INTO "kv_store_354d5d14" (key, value)
+SELECT DISTINCT ON (lower(trim(value->>'identificationNumber')))
+       'device-ident:' || lower(trim(value->>'identificationNumber')),
+       jsonb_build_object('deviceId', key)
+FROM "kv_store_354d5d14"
+WHERE key LIKE 'device:%'
+  AND COALESCE(trim(value->>'identificationNumber'), '') <> ''
+ORDER BY lower(trim(value->>'identificationNumber')), value->>'createdAt', key
+ON CONFLICT (key) DO NOTHING;
+
+-- Existing duplicates have to be renumbered by hand before the index can be created
+DO $$
+DECLARE
+  duplicates TEXT;
+BEGIN
+  SELECT string_agg(identifier, ', ') INTO duplicates
+  FROM (
+    SELECT lower(trim(identification_number)) AS identifier
+    FROM "devices"
+    GROUP BY 1
+    HAVING count(*) > 1
+  ) AS dup;
+
+  IF duplicates IS NOT NULL THEN
+    RAISE WARNING 'Skipping unique index on devices.identification_number; duplicated values: %', duplicates;
+  ELSE
+    EXECUTE 'CREATE UNIQUE INDEX IF NOT EXISTS "idx_devices_identification_number_unique"
+      ON "devices" (lower(trim(identification_number)))';
+  END IF;
+END $$;
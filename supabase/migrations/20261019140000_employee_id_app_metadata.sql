@@ -0,0 +1,13 @@
+-- Migration to move the employee ID that grants access into app_metadata
+-- The edge function used to read a caller's employee ID from user_metadata, which users can change
+-- themselves with supabase.auth.updateUser. It now reads app_metadata only; signup and employee ID
+-- changes write it there. This copies the current ID of existing accounts across, using the same
+-- fallback as before (user_metadata, then the local part of the email).
+
+UPDATE auth.users
+SET raw_app_meta_data = COALESCE(raw_app_meta_data, '{}'::jsonb) || jsonb_build_object(
+  'employeeId',
+  COALESCE(NULLIF(raw_user_meta_data->>'employeeId', ''), split_part(email, '@', 1))
+)
+WHERE COALESCE(raw_app_meta_data->>'employeeId', '') = ''
+  AND COALESCE(NULLIF(raw_user_meta_data->>'employeeId', ''), NULLIF(split_part(email, '@', 1), '')) IS NOT NULL;
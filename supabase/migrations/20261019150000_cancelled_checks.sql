@@ -0,0 +1,134 @@
+-- Migration to mirror cancelled checks in the relational checks table
+-- Editing a weekly plan cancels the pending checks of removed devices (status 'cancelled' with
+-- cancelledAt, cancelledBy and cancelReason). The checks table only allowed pending, completed and
+-- delayed, and the KV sync mapped any other status to pending, so cancelled checks showed up as
+-- pending. This widens the constraint, adds the cancellation columns, teaches the sync about them
+-- and re-syncs the checks already cancelled.
+
+ALTER TABLE "checks" DROP CONSTRAINT IF EXISTS "checks_status_check";
+ALTER TABLE "checks" ADD CONSTRAINT "checks_status_check"
+  CHECK (status IN ('pending', 'completed', 'delayed', 'cancelled'));
+
+ALTER TABLE "checks" ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+ALTER TABLE "checks" ADD COLUMN IF NOT EXISTS cancelled_by TEXT;
+ALTER TABLE "checks" ADD COLUMN IF NOT EXISTS cancel_reason TEXT;
+
+-- Writes one KV row into the relational tables. Keys without a relational counterpart
+-- (admin accounts, notification settings, ...) are ignored.
+CREATE OR REPLACE FUNCTION "kv_upsert_relational"(p_key TEXT, p_value JSONB) RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_year INTEGER;
+  v_week INTEGER;
+BEGIN
+  IF p_key LIKE 'device:%' THEN
+    INSERT INTO "devices" AS d (id, name, identification_number, location, planned_frequency, plan_comment,
+                                status, last_checked_at, last_checked_by, created_at, updated_at)
+    VALUES (
+      p_key,
+      COALESCE(p_value->>'name', ''),
+      COALESCE(p_value->>'identificationNumber', ''),
+      COALESCE(p_value->>'location', ''),
+      GREATEST(COALESCE(kv_int(p_value->>'plannedFrequency'), 1), 1),
+      COALESCE(p_value->>'planComment', ''),
+      COALESCE(p_value->>'status', 'active'),
+      kv_timestamp(p_value->>'lastCheckedAt'),
+      p_value->>'lastCheckedBy',
+      COALESCE(kv_timestamp(p_value->>'createdAt'), now()),
+      kv_timestamp(p_value->>'updatedAt')
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      name = EXCLUDED.name,
+      identification_number = EXCLUDED.identification_number,
+      location = EXCLUDED.location,
+      planned_frequency = EXCLUDED.planned_frequency,
+      plan_comment = EXCLUDED.plan_comment,
+      status = EXCLUDED.status,
+      last_checked_at = EXCLUDED.last_checked_at,
+      last_checked_by = EXCLUDED.last_checked_by,
+      updated_at = EXCLUDED.updated_at;
+
+  ELSIF p_key LIKE 'plan:%' THEN
+    v_year := kv_int(p_value->>'year');
+    v_week := kv_int(p_value->>'week');
+    IF v_year IS NULL OR v_week IS NULL THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO "weekly_plans" (id, year, week, assigned_by, status, created_at)
+    VALUES (p_key, v_year, v_week, p_value->>'assignedBy', COALESCE(p_value->>'status', 'planned'),
+            COALESCE(kv_timestamp(p_value->>'createdAt'), now()))
+    ON CONFLICT (id) DO UPDATE SET
+      assigned_by = EXCLUDED.assigned_by,
+      status = EXCLUDED.status;
+
+  ELSIF p_key LIKE 'check:%' THEN
+    v_year := kv_int(p_value->>'year');
+    v_week := kv_int(p_value->>'week');
+    -- Checks for devices that no longer exist are orphans in the KV store; skip them
+    IF v_year IS NULL OR v_week IS NULL
+       OR NOT EXISTS (SELECT 1 FROM "devices" WHERE id = p_value->>'deviceId') THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO "checks" (id, device_id, plan_id, year, week, status, scheduled_date, assigned_at,
+                          assigned_by, completed_at, completed_by, comment, cancelled_at, cancelled_by, cancel_reason)
+    VALUES (
+      p_key,
+      p_value->>'deviceId',
+      (SELECT id FROM "weekly_plans" WHERE year = v_year AND week = v_week),
+      v_year,
+      v_week,
+      CASE WHEN p_value->>'status' IN ('pending', 'completed', 'delayed', 'cancelled') THEN p_value->>'status' ELSE 'pending' END,
+      COALESCE(kv_timestamp(p_value->>'scheduledDate'), to_date(v_year || '-' || v_week, 'IYYY-IW')::TIMESTAMPTZ),
+      kv_timestamp(p_value->>'assignedAt'),
+      p_value->>'assignedBy',
+      kv_timestamp(p_value->>'completedAt'),
+      p_value->>'completedBy',
+      COALESCE(p_value->>'comment', ''),
+      kv_timestamp(p_value->>'cancelledAt'),
+      p_value->>'cancelledBy',
+      p_value->>'cancelReason'
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      plan_id = EXCLUDED.plan_id,
+      status = EXCLUDED.status,
+      scheduled_date = EXCLUDED.scheduled_date,
+      assigned_at = EXCLUDED.assigned_at,
+      assigned_by = EXCLUDED.assigned_by,
+      completed_at = EXCLUDED.completed_at,
+      completed_by = EXCLUDED.completed_by,
+      comment = EXCLUDED.comment,
+      cancelled_at = EXCLUDED.cancelled_at,
+      cancelled_by = EXCLUDED.cancelled_by,
+      cancel_reason = EXCLUDED.cancel_reason;
+
+  ELSIF p_key LIKE 'doc:%' THEN
+    INSERT INTO "documents" (id, file_name, storage_path, assigned_to, uploaded_by, status, uploaded_at)
+    VALUES (
+      p_key,
+      COALESCE(p_value->>'fileName', ''),
+      COALESCE(p_value->>'storagePath', ''),
+      p_value->>'assignedTo',
+      COALESCE(p_value->>'uploadedBy', ''),
+      CASE WHEN p_value->>'status' = 'completed' THEN 'completed' ELSE 'pending_signature' END,
+      COALESCE(kv_timestamp(p_value->>'uploadedAt'), now())
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      file_name = EXCLUDED.file_name,
+      storage_path = EXCLUDED.storage_path,
+      assigned_to = EXCLUDED.assigned_to,
+      status = EXCLUDED.status;
+
+    -- Signatures are append-only in the KV document, so replace them wholesale
+    DELETE FROM "document_signatures" WHERE document_id = p_key;
+    INSERT INTO "document_signatures" (document_id, signed_by, signed_at, type)
+    SELECT p_key, sig->>'signedBy', COALESCE(kv_timestamp(sig->>'signedAt'), now()),
+           CASE WHEN sig->>'type' = 'initial' THEN 'initial' ELSE 'secondary' END
+    FROM jsonb_array_elements(COALESCE(p_value->'signatures', '[]'::JSONB)) AS sig
+    WHERE sig->>'signedBy' IS NOT NULL;
+  END IF;
+END $$;
+
+SELECT kv_upsert_relational(key, value) FROM "kv_store_354d5d14"
+WHERE key LIKE 'check:%' AND value->>'status' = 'cancelled';
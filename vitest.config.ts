@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+// API tests run the Hono app in-process against the memory KV/file stores and a fake auth admin API
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/supabase/functions/server/__tests__/**/*.test.ts'],
+    setupFiles: ['src/supabase/functions/server/__tests__/setup.ts'],
+    env: {
+      STORAGE_BACKEND: 'memory',
+      SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key',
+    },
+  },
+});